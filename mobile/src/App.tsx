@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, type ComponentProps } from 'react'
-import { StatusBar, useWindowDimensions, Appearance } from 'react-native'
+import { Alert, StatusBar, useWindowDimensions, Appearance } from 'react-native'
 import { TSDiv } from './components/TSDiv'
 import { NavigationContainer, useIsFocused } from '@react-navigation/native'
 import { createNativeStackNavigator } from '@react-navigation/native-stack'
@@ -79,6 +79,7 @@ const TabBar: React.FC<{ navigation: any }> = ({ navigation }) => {
 
 const MainScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const openTab = useAppState((s) => s.openTab)
+  const openRepoOnBestPeer = useAppState((s) => s.openRepoOnBestPeer)
   const activeTabId = useAppState((s) => s.activeTabId)
   const homeTabId = useAppState((s) => s.homeTabId)
   const theme = useAppState((s) => s.theme)
@@ -137,6 +138,15 @@ const MainScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       .catch((err) => console.error('Failed to open tab:', err))
   }
 
+  const handleRepoPress = (repo: string) => {
+    openRepoOnBestPeer(repo)
+      .then((tabId) => {
+        if (tabId) navigation.navigate('RepoTab', { tabId })
+        else Alert.alert('No peer available', `No reachable peer hosts ${repo}`)
+      })
+      .catch((err) => console.error('Failed to open tab:', err))
+  }
+
   return (
     <TSDiv tag="main" className="flex-1 bg-surface">
       <StatusBar barStyle="dark-content" />
@@ -152,7 +162,7 @@ const MainScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       <TSDiv tag="div" className={isTablet ? 'flex-1 flex-row' : 'flex-1'}>
         <TSDiv tag="div" className={isTablet ? 'flex-1' : 'flex-1'} style={isTablet ? { borderRightWidth: 1, borderRightColor: '#eee' } : undefined}>
           {isScreenFocused && (!activeTabId || activeTabId === homeTabId) ? (
-            <PeersView onPeerPress={handlePeerPress} isActive={isScreenFocused} />
+            <PeersView onPeerPress={handlePeerPress} onRepoPress={handleRepoPress} isActive={isScreenFocused} />
           ) : activeTabId === 'debug' ? (
             <DebugTab />
           ) : (
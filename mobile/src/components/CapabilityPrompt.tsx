@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { describeCapabilityRequest, type CapabilityDecision, type CapabilityRequest } from '@relay/shared';
+import { Text, TouchableOpacity, View } from '../themedPrimitives';
+
+interface CapabilityPromptProps {
+  scope: string;
+  requests: CapabilityRequest[];
+  onDecide: (decisions: Record<string, CapabilityDecision>) => void;
+}
+
+/**
+ * Asks once per host whether its hooks may use the sensitive capabilities they declare
+ */
+export function CapabilityPrompt({ scope, requests, onDecide }: CapabilityPromptProps) {
+  const [selected, setSelected] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(requests.map((r) => [r.key, true])),
+  );
+
+  const decideAll = (decision: CapabilityDecision) => {
+    onDecide(Object.fromEntries(requests.map((r) => [r.key, decision])));
+  };
+
+  const decideSelected = () => {
+    onDecide(Object.fromEntries(requests.map((r) => [r.key, selected[r.key] ? 'granted' : 'denied'])));
+  };
+
+  return (
+    <View className="m-4 p-4 border rounded-lg">
+      <Text className="text-lg font-semibold mb-2">Permissions requested</Text>
+      <Text className="text-sm mb-3">Hooks from {scope} would like to:</Text>
+      {requests.map((request) => (
+        <TouchableOpacity
+          key={request.key}
+          className="flex-row items-center py-2"
+          onPress={() => setSelected((s) => ({ ...s, [request.key]: !s[request.key] }))}
+        >
+          <Text className="text-base mr-2">{selected[request.key] ? '☑' : '☐'}</Text>
+          <Text className="text-sm">{describeCapabilityRequest(request)}</Text>
+        </TouchableOpacity>
+      ))}
+      <View className="flex-row mt-3">
+        <TouchableOpacity className="px-3 py-2 rounded-lg bg-primary mr-2" onPress={decideSelected}>
+          <Text className="text-sm text-white">Allow selected</Text>
+        </TouchableOpacity>
+        <TouchableOpacity className="px-3 py-2 rounded-lg border" onPress={() => decideAll('denied')}>
+          <Text className="text-sm">Deny all</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+export default CapabilityPrompt;
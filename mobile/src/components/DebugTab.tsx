@@ -2,6 +2,7 @@
  * Simplified themed-styler DebugTab
  */
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Share } from 'react-native'
 import {
   ScrollView as ThemedScrollView,
   Text as ThemedText,
@@ -9,10 +10,12 @@ import {
   View as ThemedView,
   TextInput as ThemedTextInput,
 } from '../themedPrimitives'
-import { unifiedBridge, ensureDefaultsLoaded } from '@relay/shared'
+import { unifiedBridge, ensureDefaultsLoaded, buildWaterfall, type TranspileCacheStats, type TraceSpanPhase } from '@relay/shared'
 import HookRenderer from './HookRenderer'
 import { useRNTranspilerSetting } from '../state/transpilerSettings'
 import { useAppState } from '../state/store'
+import { transpileCache } from '../services/transpileCache'
+import { loaderTrace } from '../services/loaderTrace'
 import { styled } from '../themedRuntime'
 
 type ThemesState = { themes?: Record<string, unknown>; currentTheme?: string } | null
@@ -57,6 +60,63 @@ const JsonBlock: React.FC<{ label: string; value: unknown }> = ({ label, value }
   )
 }
 
+const PHASE_COLORS: Record<TraceSpanPhase, string> = {
+  fetch: '#3b82f6',
+  transform: '#f59e0b',
+  import: '#22c55e',
+  exec: '#a855f7',
+}
+
+const LoaderWaterfall: React.FC = () => {
+  const [spans, setSpans] = useState(() => loaderTrace.getSpans())
+
+  useEffect(() => loaderTrace.subscribe(() => setSpans(loaderTrace.getSpans())), [])
+
+  const rows = useMemo(() => buildWaterfall(spans), [spans])
+
+  const exportTrace = useCallback(() => {
+    Share.share({ title: 'Hook loader trace', message: JSON.stringify(loaderTrace.toChromeTrace()) })
+      .catch((err) => console.warn('[DebugTab] Failed to share loader trace', err))
+  }, [])
+
+  return (
+    <ThemedView>
+      <ThemedView className="flex-row items-center justify-between mb-3">
+        <ThemedText className="text-base font-bold" style={{ color: '#333' }}>⏱ Hook loader timeline</ThemedText>
+        <ThemedView className="flex-row" style={{ columnGap: 8 }}>
+          <ThemedTouchableOpacity className="px-3 py-1 rounded border border-primary" onPress={exportTrace}>
+            <ThemedText className="text-[11px] text-primary font-semibold">Export</ThemedText>
+          </ThemedTouchableOpacity>
+          <ThemedTouchableOpacity className="px-3 py-1 rounded border border-primary" onPress={() => loaderTrace.clear()}>
+            <ThemedText className="text-[11px] text-primary font-semibold">Clear</ThemedText>
+          </ThemedTouchableOpacity>
+        </ThemedView>
+      </ThemedView>
+      {rows.length === 0 && <ThemedText className="text-xs" style={{ color: '#555' }}>No modules loaded yet.</ThemedText>}
+      {rows.map(({ span, offset, width, durationMs }) => (
+        <ThemedView key={span.id} className="mb-1">
+          <ThemedText className="text-[10px] font-mono" style={{ color: '#333' }} numberOfLines={1}>
+            {span.phase} {span.module} · {durationMs.toFixed(0)}ms{span.cacheHit ? ' · cached' : ''}{span.error ? ` · ${span.error}` : ''}
+          </ThemedText>
+          <ThemedView style={{ height: 6, backgroundColor: '#e5e7eb', borderRadius: 3 }}>
+            <ThemedView
+              style={{
+                position: 'absolute',
+                left: `${offset * 100}%`,
+                width: `${Math.max(width * 100, 1)}%`,
+                height: 6,
+                borderRadius: 3,
+                backgroundColor: span.error ? '#ef4444' : PHASE_COLORS[span.phase],
+                opacity: span.cacheHit ? 0.5 : 1,
+              }}
+            />
+          </ThemedView>
+        </ThemedView>
+      ))}
+    </ThemedView>
+  )
+}
+
 const ThemedRuntimeTest: React.FC = () => (
   <ThemedView className="mb-3">
     <ThemedView className="mb-2">
@@ -100,6 +160,26 @@ const DebugTab: React.FC = () => {
     typeof unifiedBridge.getThemes === 'function' ? unifiedBridge.getThemes() : null,
   )
   const [cssTrace, setCssTrace] = useState<string>('')
+  const [cacheStats, setCacheStats] = useState<TranspileCacheStats | null>(null)
+
+  const refreshCacheStats = useCallback(() => {
+    transpileCache.stats()
+      .then(setCacheStats)
+      .catch((err) => console.warn('[DebugTab] Failed to read transpile cache stats', err))
+  }, [])
+
+  const clearTranspileCache = useCallback(async () => {
+    try {
+      await transpileCache.clear()
+    } catch (err) {
+      console.warn('[DebugTab] Failed to clear transpile cache', err)
+    }
+    refreshCacheStats()
+  }, [refreshCacheStats])
+
+  useEffect(() => {
+    refreshCacheStats()
+  }, [refreshCacheStats])
 
   const refreshStats = useCallback(() => {
     try {
@@ -193,6 +273,17 @@ const DebugTab: React.FC = () => {
         <ThemedView className="rounded p-3 mt-3" style={{ backgroundColor: '#f5fff5', borderLeftWidth: 4, borderLeftColor: '#34c759' }}>
           <ThemedText className="text-sm font-mono" style={{ color: '#333' }}>Current mode: {mode}</ThemedText>
         </ThemedView>
+        <ThemedView className="flex-row items-center justify-between mt-4">
+          <ThemedText className="text-sm font-semibold" style={{ color: '#333' }}>Transpile cache</ThemedText>
+          <ThemedTouchableOpacity className="px-3 py-1 rounded border border-primary" onPress={clearTranspileCache}>
+            <ThemedText className="text-[11px] text-primary font-semibold">Clear transpile cache</ThemedText>
+          </ThemedTouchableOpacity>
+        </ThemedView>
+        <ThemedText className="text-xs font-mono mt-2" style={{ color: '#555' }}>
+          {cacheStats
+            ? `${cacheStats.entries} modules · ${(cacheStats.bytes / 1024).toFixed(1)} KB · ${cacheStats.hits} hits / ${cacheStats.misses} misses`
+            : 'Loading cache statistics...'}
+        </ThemedText>
       </ThemedView>
 
       {/* Theme Settings */}
@@ -229,6 +320,11 @@ const DebugTab: React.FC = () => {
         <ThemedRuntimeTest />
       </ThemedView>
 
+      {/* Loader spans from every HookRenderer */}
+      <ThemedView className="mb-6 bg-white rounded p-4" style={{ shadowColor: '#000', shadowOpacity: 0.1, shadowRadius: 2, shadowOffset: { width: 0, height: 1 }, elevation: 2 }}>
+        <LoaderWaterfall />
+      </ThemedView>
+
       {/* Shared HookRenderer preview (identical wiring to RepoBrowser) */}
       <ThemedView className="mb-6 bg-white rounded p-4" style={{ shadowColor: '#000', shadowOpacity: 0.1, shadowRadius: 2, shadowOffset: { width: 0, height: 1 }, elevation: 2 }}>
         <ThemedText className="text-base font-bold mb-3" style={{ color: '#333' }}>🔍 Transpiler Preview (Shared HookRenderer)</ThemedText>
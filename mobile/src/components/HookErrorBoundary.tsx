@@ -1,6 +1,7 @@
 import React from 'react'
 import { Text, View } from 'react-native'
 import { styled } from '../themedRuntime'
+import { resolveErrorLocation } from '../../../shared/src'
 
 type Props = {
   children: React.ReactNode
@@ -33,11 +34,28 @@ export class HookErrorBoundary extends React.Component<Props, State> {
     if (this.state.error) {
       const TWView = styled(View)
       const TWText = styled(Text)
+      const location = resolveErrorLocation(this.state.error)
       return (
         <TWView className="mx-3 my-2 rounded-lg bg-red-50 border border-red-200 p-4">
           <TWText className="font-bold text-red-700 mb-1">Hook rendering failed</TWText>
           <TWText className="text-xs mb-1">Script: {this.props.scriptPath ?? 'unknown'}</TWText>
           <TWText className="text-red-700">{this.state.error.message}</TWText>
+          {location && (
+            <TWView className="mt-2 rounded bg-red-100 p-2">
+              <TWText className="text-xs font-bold mb-1">
+                {location.filename}:{location.line}:{location.column}
+                {location.original ? '' : ' (transpiled output)'}
+              </TWText>
+              {location.excerpt.map((l) => (
+                <TWText
+                  key={l.line}
+                  className={l.highlight ? 'font-mono text-xs font-bold text-red-700' : 'font-mono text-xs'}
+                >
+                  {`${l.highlight ? '>' : ' '} ${l.line} | ${l.text}`}
+                </TWText>
+              ))}
+            </TWView>
+          )}
         </TWView>
       )
     }
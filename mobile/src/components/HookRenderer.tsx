@@ -2,17 +2,24 @@
  * HookRenderer — single reusable component to render a client hook (e.g. hooks/client/get-client.jsx)
  * Ensures identical wiring across RepoBrowser and DebugTab preview.
  */
-import React, { useCallback, useEffect, useRef, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { ActivityIndicator, Text, View, ScrollView, TouchableOpacity, ViewProps, ScrollViewProps, TextProps, TouchableOpacityProps } from 'react-native'
 import { createHookReact } from './HookDomAdapter'
 import { HookErrorBoundary } from './HookErrorBoundary'
 import MarkdownRenderer from './MarkdownRenderer'
-import { HookLoader, RNModuleLoader, transpileCode, type HookContext, ES6ImportHandler, buildPeerUrl } from '../../../shared/src'
+import { HookLoader, HookInstance, RNModuleLoader, transpileCode, type HookContext, ES6ImportHandler, ModuleResolver, IntegrityVerifier, buildPeerUrl, parseImportMap, parseIntegrityConfig, fetchIntegrityManifest, describeLoaderError, embeddingUnavailable, buildRepoHeaders, parseCapabilityManifest, pendingCapabilityRequests, buildCapabilityHelpers, type CapabilityManifest, type CapabilityPlatform, type LoaderErrorHelp } from '../../../shared/src'
 import { registerThemeStyles } from '../themedRuntime'
 import { ThemedElement, resolveThemedStyle } from './TSDiv'
+import { transpileCache } from '../services/transpileCache'
+import { verifiedBlobCache } from '../services/verifiedBlobCache'
+import { loaderTrace } from '../services/loaderTrace'
+import { useAppState } from '../state/store'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { CapabilityPrompt } from './CapabilityPrompt'
 
 type OptionsInfo = {
   client?: { hooks?: { get?: { path: string }; query?: { path: string } } }
+  repos?: { name: string; branches: Record<string, string> }[]
   [k: string]: unknown
 }
 
@@ -25,9 +32,23 @@ function normalizeHostUrl(host: string): string {
 
 const HookReact = createHookReact(React)
 
+const NO_MANIFEST = parseCapabilityManifest(null)
+
+// Hooks run in the app's own JS context and can reach these APIs directly; the
+// grants only decide which helpers they are offered (see capabilities.ts)
+const mobileCapabilities: CapabilityPlatform = {
+  fetch: (url, init) => fetch(url, init),
+  storage: AsyncStorage,
+}
+
+// Hooks from other repos (helpers.renderHook, relay:// imports) are only embedded by the web client
+const NO_EMBEDDING = embeddingUnavailable('the mobile client does not embed hooks from other repos')
+
 export interface HookRendererProps {
   host: string
   hookPath?: string // defaults to /hooks/client/get-client.jsx
+  branch?: string // branch whose head modules are verified against (default: main)
+  repo?: string // repo to render; the peer's default repo when absent
 }
 
 type ErrorDetails = {
@@ -52,16 +73,20 @@ const TWButton: React.FC<WithClassNameProps<TouchableOpacityProps>> = (props) =>
 )
 const MAX_ERROR_RETRIES = 3
 
-export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hookPathProp }) => {
+export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hookPathProp, branch = 'main', repo }) => {
   const [element, setElement] = useState<React.ReactNode | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [details, setDetails] = useState<ErrorDetails>(null)
+  const [errorHelp, setErrorHelp] = useState<LoaderErrorHelp | null>(null)
   const [activeHookPath, setActiveHookPath] = useState<string | null>(null)
   const [retryAttempts, setRetryAttempts] = useState(0)
   const optionsRef = useRef<OptionsInfo | null>(null)
   const hookLoaderRef = useRef<HookLoader | null>(null)
   const importHandlerRef = useRef<ES6ImportHandler | null>(null)
+  const resolverRef = useRef<ModuleResolver>(new ModuleResolver())
+  // Configured from OPTIONS in loadOptions; shared by HookLoader and ES6ImportHandler
+  const integrityRef = useRef<IntegrityVerifier | null>(null)
   const inFlightRef = useRef(false)
   const inFlightKeyRef = useRef<string | null>(null)
   const lastKeyRef = useRef<string | null>(null)
@@ -70,7 +95,19 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
   const errorRef = useRef<string | null>(null)
   const errorRetriesRef = useRef(0)
   const manualRetryRef = useRef(false)
+  // The hook currently on screen; disposed before the next render and on unmount
+  const instanceRef = useRef<HookInstance | null>(null)
   const normalizedHost = normalizeHostUrl(host)
+  // Capabilities the repo declares in OPTIONS; kept in a ref too so a render started before the state update sees it
+  const [manifest, setManifest] = useState<CapabilityManifest>(NO_MANIFEST)
+  const manifestRef = useRef<CapabilityManifest>(NO_MANIFEST)
+  const scope = repo ? `${host}/${repo}` : host
+  // Every repo request names the tab's repo and branch, so the peer doesn't answer with its default repo
+  const repoHeaders = useMemo(() => buildRepoHeaders(branch, repo), [branch, repo])
+  const grants = useAppState((s) => s.capabilityGrants[scope])
+  const setCapabilityDecisions = useAppState((s) => s.setCapabilityDecisions)
+  const pendingCapabilities = useMemo(() => pendingCapabilityRequests(manifest, grants), [manifest, grants])
+  const awaitingConsent = pendingCapabilities.length > 0
 
   useEffect(() => {
     console.debug('[HookRenderer] mounted', { host: normalizedHost, hookPathProp })
@@ -124,11 +161,30 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       onDiagnostics: (diag) => console.debug('[RNModuleLoader] Diagnostics:', diag),
     })
 
+    const integrity = new IntegrityVerifier({
+      blobCache: verifiedBlobCache,
+      loadManifest: (commit) => {
+        const manifestPath = parseIntegrityConfig(optionsRef.current).manifest
+        return manifestPath ? fetchIntegrityManifest(normalizedHost, manifestPath, commit) : Promise.resolve(null)
+      },
+    })
+    integrityRef.current = integrity
+
+    // HookLoader and ES6ImportHandler share one resolver so both resolve specifiers identically
+    const builtinModules = {
+      'react': HookReact,
+      'react/jsx-runtime': jsxRuntimeShim,
+      'react/jsx-dev-runtime': jsxRuntimeShim,
+    }
+
     const importHandler = new ES6ImportHandler({
       host: normalizedHost.replace(/^https?:\/\//, ''),
       protocol,
-      baseUrl: '/hooks',
       transpiler: transpileWrapper,
+      resolver: resolverRef.current,
+      builtinModules,
+      integrity,
+      trace: loaderTrace,
       onDiagnostics: (diag) => console.debug('[ES6ImportHandler] Diagnostics:', diag),
     })
     rnModuleLoader.setImportHandler(importHandler)
@@ -139,6 +195,12 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       protocol,
       moduleLoader: rnModuleLoader,
       transpiler: transpileWrapper,
+      transpileCache,
+      resolver: resolverRef.current,
+      builtinModules,
+      integrity,
+      trace: loaderTrace,
+      importRelayUri: NO_EMBEDDING.importRelayUri,
       onDiagnostics: (diag) => console.debug('[HookLoader] Diagnostics:', diag),
     })
   }, [normalizedHost])
@@ -149,6 +211,12 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       if (!resp.ok) throw new Error(`OPTIONS / failed: ${resp.status}`)
       const json = (await resp.json()) as OptionsInfo
       optionsRef.current = json
+      resolverRef.current.importMap.setRepoImports(parseImportMap(json))
+      integrityRef.current?.setRequired(parseIntegrityConfig(json).required)
+      const repoInfo = repo ? json.repos?.find((r) => r.name === repo) : json.repos?.[0]
+      integrityRef.current?.setCommit(repoInfo?.branches?.[branch])
+      manifestRef.current = parseCapabilityManifest(json)
+      setManifest(manifestRef.current)
       return json
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e)
@@ -156,7 +224,7 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       setDetails({ phase: 'options', message: msg })
       return null
     }
-  }, [normalizedHost])
+  }, [normalizedHost, branch, repo])
 
   const createHookContext = useCallback(
     (baseHookPath: string): HookContext => {
@@ -174,7 +242,7 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
           ; (async () => {
             try {
               const url = buildUrl(filePath)
-              const resp = await fetch(url)
+              const resp = await fetch(url, { headers: repoHeaders })
               if (!resp.ok) throw new Error(`Failed to fetch file: ${resp.status}`)
               const text = await resp.text()
               setContent(text)
@@ -193,6 +261,13 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
         return <MarkdownRenderer content={content} />
       }
 
+      const capabilityHelpers = buildCapabilityHelpers(manifestRef.current, useAppState.getState().capabilityGrants[scope] || {}, {
+        scope,
+        peerOrigin: normalizedHost,
+        platform: mobileCapabilities,
+        themeHelpers: { registerThemeStyles },
+      })
+
       const loadModule = async (modulePath: string): Promise<unknown> => {
         if (!hookLoaderRef.current) throw new Error('[HookRenderer] Hook loader not initialized')
         return hookLoaderRef.current.loadModule(modulePath, baseHookPath, createHookContext(baseHookPath))
@@ -209,12 +284,20 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
           setBranch: () => { },
           buildPeerUrl: buildUrl,
           loadModule,
-          buildRepoHeaders: () => ({}),
-          registerThemeStyles,
+          buildRepoHeaders: () => ({ ...repoHeaders }),
+          registerThemeStyles: capabilityHelpers.registerThemeStyles || (() => {
+            console.warn(`[HookRenderer] registerThemeStyles ignored: theme capability is not granted for ${scope}`)
+          }),
+          renderHook: NO_EMBEDDING.renderHook,
+          onDispose: (cleanup) => {
+            if (instanceRef.current) instanceRef.current.onDispose(cleanup)
+            else void cleanup()
+          },
+          ...capabilityHelpers,
         },
       }
     },
-    [normalizedHost]
+    [normalizedHost, scope, repoHeaders]
   )
 
   useEffect(() => {
@@ -229,7 +312,7 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
 
   const tryRender = useCallback(async () => {
     const basePath = hookPathProp || '/hooks/client/get-client.jsx'
-    const key = `${normalizedHost}|${basePath}`
+    const key = `${normalizedHost}|${repo || ''}|${branch}|${basePath}`
     const now = Date.now()
     console.debug('[HookRenderer.tryRender] start key=', key, 'inFlight=', inFlightRef.current, 'inFlightKey=', inFlightKeyRef.current, 'lastKey=', lastKeyRef.current, 'lastError=', errorRef.current, 'lastAttemptMsAgo=', now - lastAttemptRef.current)
 
@@ -270,11 +353,19 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       const path = basePath
       let options = optionsRef.current
       if (!options) options = await loadOptions()
+      // Hooks wait until the user has decided on the sensitive capabilities they declare
+      if (pendingCapabilityRequests(manifestRef.current, useAppState.getState().capabilityGrants[scope]).length > 0) return
       const hookUrl = buildPeerUrl(normalizedHost, path)
       setActiveHookPath(path)
       if (!hookLoaderRef.current) throw new Error('Hook loader not initialized')
+      const previous = instanceRef.current
+      const instance = new HookInstance(path)
+      instanceRef.current = instance
+      await previous?.dispose()
       const ctx = createHookContext(path)
-      const el = await hookLoaderRef.current.loadAndExecuteHook(path, ctx)
+      const el = await hookLoaderRef.current.loadAndExecuteHook(path, ctx, instance)
+      // Unmounted while the hook was loading
+      if (instance.isDisposed) return
       console.debug('[HookRenderer.tryRender] loaded element for key', key, 'elementType=', typeof el)
       setElement(el)
       elementRef.current = el
@@ -287,6 +378,7 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       const message = e instanceof Error ? e.message : String(e)
       console.debug('[HookRenderer.tryRender] caught error for key', key, message)
       setError(message)
+      setErrorHelp(describeLoaderError(e))
       errorRef.current = message
       const nextAttempts = Math.min(errorRetriesRef.current + 1, MAX_ERROR_RETRIES)
       errorRetriesRef.current = nextAttempts
@@ -304,7 +396,18 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
       manualRetryRef.current = false
       console.debug('[HookRenderer.tryRender] finished for key', key, 'success=', !!elementRef.current, 'error=', errorRef.current)
     }
-  }, [createHookContext, hookPathProp, normalizedHost])
+  }, [createHookContext, hookPathProp, normalizedHost, scope, repo, branch])
+
+  // Render once the user has answered the capability prompt
+  const awaitedConsentRef = useRef(false)
+  useEffect(() => {
+    if (awaitingConsent) {
+      awaitedConsentRef.current = true
+    } else if (awaitedConsentRef.current) {
+      awaitedConsentRef.current = false
+      void tryRender()
+    }
+  }, [awaitingConsent, tryRender])
 
   const handleRetry = useCallback(() => {
     manualRetryRef.current = true
@@ -319,16 +422,35 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
     void tryRender()
   }, [tryRender])
 
+  // Closing the tab releases the hook's resources
+  useEffect(() => () => {
+    void instanceRef.current?.dispose()
+    instanceRef.current = null
+  }, [])
+
+  // Another repo or branch takes its head commit from a fresh OPTIONS
+  useEffect(() => {
+    optionsRef.current = null
+  }, [repo, branch])
+
   useEffect(() => {
-    // Trigger render when host or hookPath change
-    console.debug('[HookRenderer] effect trigger — normalizedHost/hookPathProp changed', { normalizedHost, hookPathProp })
+    // Trigger render when host, hookPath, repo or branch change
+    console.debug('[HookRenderer] effect trigger — normalizedHost/hookPathProp/repo/branch changed', { normalizedHost, hookPathProp, repo, branch })
     void tryRender()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [normalizedHost, hookPathProp])
+  }, [normalizedHost, hookPathProp, repo, branch])
 
   return (
     <TWView className="flex-1 min-h-0 bg-white">
-      {loading && (
+      {awaitingConsent && (
+        <CapabilityPrompt
+          key={scope}
+          scope={scope}
+          requests={pendingCapabilities}
+          onDecide={(decisions) => setCapabilityDecisions(scope, decisions)}
+        />
+      )}
+      {loading && !awaitingConsent && (
         <TWView className="flex-1 items-center justify-center">
           <ActivityIndicator size="large" color="#007AFF" />
           <TWText className="mt-3">Loading...</TWText>
@@ -339,6 +461,14 @@ export const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath: hook
         <TWView className="flex-1 justify-center p-5">
           <TWText className="text-lg font-bold text-red-600 mb-3">Error</TWText>
           <TWText className="text-gray-800">{error}</TWText>
+          {errorHelp && (
+            <TWView className="mt-2 rounded-md bg-blue-50 p-2">
+              <TWText className="font-semibold mb-1">{errorHelp.title}</TWText>
+              {errorHelp.steps.map((step) => (
+                <TWText key={step} className="text-xs">• {step}</TWText>
+              ))}
+            </TWView>
+          )}
           {retryAttempts >= MAX_ERROR_RETRIES && (
             <TWText className="text-xs mt-2">
               Automatic retries paused after {MAX_ERROR_RETRIES} failed attempts. Tap Retry to try again.
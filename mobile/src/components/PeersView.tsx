@@ -1,14 +1,25 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { ActivityIndicator, FlatList, RefreshControl } from 'react-native';
+import { ActivityIndicator, Alert, RefreshControl, SectionList, Share, type GestureResponderEvent } from 'react-native';
 import { Text, TextInput, TouchableOpacity, View } from '../themedPrimitives';
 import { useAppState, type PeerInfo, type PeerProbe } from '../state/store';
+import { comparePeerHealth, crawlPeers, exportPeerList, formatLastSeen, formatPeerShareLink, groupPeersByLabel, isPeerApiProbe, listHostedRepos, parsePeerList, sparklineBars, summarizePeerHealth, type PeerHealthSortKey, type PeerListEntry, type PeerListFormat } from '@relay/shared';
 import { RelayCore } from '../../native/RelayCoreModule';
-import { fullProbePeer } from '../services/probing';
+import { fetchPeerOptions, fullProbePeer } from '../services/probing';
 
 const AUTO_REFRESH_INTERVAL_MS = 10000; // 10 seconds
 
+const SORT_OPTIONS: Array<{ key: PeerHealthSortKey | null; label: string }> = [
+  { key: null, label: 'Added' },
+  { key: 'host', label: 'Name' },
+  { key: 'uptime', label: 'Uptime' },
+  { key: 'latency', label: 'Latency' },
+  { key: 'lastSeen', label: 'Last seen' },
+];
+
 interface PeersViewProps {
   onPeerPress?: (host: string) => void;
+  /** Open a repo on whichever peer serves it best */
+  onRepoPress?: (repo: string) => void;
   isActive?: boolean;
 }
 
@@ -37,7 +48,7 @@ function renderArrayField(items: any[]): string {
     .join(', ');
 }
 
-const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive = true }) => {
+const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, onRepoPress, isActive = true }) => {
   const peers = useAppState((s) => s.peers);
   const setPeers = useAppState((s) => s.setPeers);
   const updatePeer = useAppState((s) => s.updatePeer);
@@ -45,9 +56,28 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
   const setLastRefreshTs = useAppState((s) => s.setLastRefreshTs);
   const addPeer = useAppState((s) => s.addPeer);
   const removePeer = useAppState((s) => s.removePeer);
+  const blockedPeers = useAppState((s) => s.blockedPeers);
+  const addDiscoveredPeers = useAppState((s) => s.addDiscoveredPeers);
+  const promotePeer = useAppState((s) => s.promotePeer);
+  const blockPeer = useAppState((s) => s.blockPeer);
+  const unblockPeer = useAppState((s) => s.unblockPeer);
+  const peerHealth = useAppState((s) => s.peerHealth);
+  const recordPeerHealth = useAppState((s) => s.recordPeerHealth);
+  const peerDetails = useAppState((s) => s.peerDetails);
+  const setPeerDetails = useAppState((s) => s.setPeerDetails);
+  const importPeers = useAppState((s) => s.importPeers);
   const [newPeerInput, setNewPeerInput] = useState('');
+  const [discovering, setDiscovering] = useState(false);
+  const [sortKey, setSortKey] = useState<PeerHealthSortKey | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  // Labels of the groups the user collapsed ('' for unlabelled peers)
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  // Peer whose label and note are being edited
+  const [editing, setEditing] = useState<{ host: string; label: string; note: string } | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const isActiveRef = useRef(isActive);
+  const discoveringRef = useRef(false);
 
   // Probe a single peer
   const probePeer = useCallback(
@@ -65,18 +95,48 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
           lastUpdateTs: result.lastUpdateTs,
           branches: result.branches,
           repos: result.repos,
+          reposWithBranches: result.reposWithBranches,
+          advertisedPeers: result.advertisedPeers,
           isProbing: false,
         }));
+        recordPeerHealth(host, result.probes);
       } catch (e) {
         updatePeer(host, (p) => ({
           ...p,
           isProbing: false,
         }));
+        recordPeerHealth(host, []);
       }
     },
-    [setPeerProbing, updatePeer],
+    [setPeerProbing, updatePeer, recordPeerHealth],
   );
 
+  // Crawl the peers advertised by the user's peers, then probe what was found
+  const discoverPeers = useCallback(async () => {
+    if (!isActiveRef.current || discoveringRef.current) {
+      return;
+    }
+    discoveringRef.current = true;
+    setDiscovering(true);
+    try {
+      const { peers: currentPeers, blockedPeers: blocked } = useAppState.getState();
+      const found = await crawlPeers({
+        // Their OPTIONS lists were just fetched by the probe
+        seeds: currentPeers.filter((p) => !p.discovered).map((p) => ({ host: p.host, advertised: p.advertisedPeers ?? [] })),
+        known: currentPeers.filter((p) => p.discovered).map((p) => p.host),
+        blocked,
+        fetchAdvertised: async (host) => (await fetchPeerOptions(host)).peers,
+      });
+      addDiscoveredPeers(found);
+      await Promise.all(found.map((p) => probePeer(p.host)));
+    } catch (err) {
+      console.error('[PeersView] Error discovering peers:', err);
+    } finally {
+      discoveringRef.current = false;
+      setDiscovering(false);
+    }
+  }, [addDiscoveredPeers, probePeer]);
+
   // Probe all peers
   const probeAllPeers = useCallback(async () => {
     if (!isActiveRef.current) {
@@ -86,6 +146,13 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
     const currentPeers = useAppState.getState().peers;
     await Promise.all(currentPeers.map((p) => probePeer(p.host)));
     setLastRefreshTs(Date.now());
+    await discoverPeers();
+  }, [probePeer, setLastRefreshTs, discoverPeers]);
+
+  // Probe the peers of one label group
+  const probeGroup = useCallback(async (hosts: string[]) => {
+    await Promise.all(hosts.map((host) => probePeer(host)));
+    setLastRefreshTs(Date.now());
   }, [probePeer, setLastRefreshTs]);
 
   // Load peers from RelayCore (simulate fetching from tracker)
@@ -106,10 +173,11 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
       }
       setLastRefreshTs(Date.now());
       console.log('[PeersView] Load complete');
+      await discoverPeers();
     } catch (err) {
       console.error('[PeersView] Error loading peers:', err);
     }
-  }, [setPeers, probePeer, setLastRefreshTs]);
+  }, [setPeers, probePeer, setLastRefreshTs, discoverPeers]);
 
   // Setup auto-refresh interval
   useEffect(() => {
@@ -159,7 +227,8 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
       );
     }
 
-    const okProbes = peer.probes.filter((p) => p.ok);
+    // Online means its API answers; git and IPFS endpoints are listed separately
+    const okProbes = peer.probes.filter((p) => p.ok && isPeerApiProbe(p));
     if (okProbes.length === 0) {
       return (
         <Text
@@ -182,6 +251,26 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
     );
   };
 
+  // One chip per protocol and port
+  const renderProbeDetails = (peer: PeerInfo) => {
+    if (!peer.probes || peer.probes.length < 2) {
+      return null;
+    }
+    return (
+      <View className="flex-row flex-wrap mb-2" style={{ columnGap: 4, rowGap: 4 }}>
+        {peer.probes.map((probe) => (
+          <Text
+            key={`${probe.protocol}:${probe.port}`}
+            className="text-xs px-2 py-1 rounded"
+            style={probe.ok ? { backgroundColor: '#d4edda', color: '#155724' } : { backgroundColor: '#e5e7eb', color: '#6b7280' }}
+          >
+            {probe.protocol}:{probe.port} {probe.ok ? (probe.latencyMs !== undefined ? `${probe.latencyMs}ms` : '✓') : `✕ ${probe.error || ''}`}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
   const handlePeerPress = (host: string) => {
     onPeerPress?.(host);
   };
@@ -202,6 +291,103 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
     await removePeer(host);
   };
 
+  const handlePromotePeer = async (e: GestureResponderEvent, host: string) => {
+    e.stopPropagation();
+    await promotePeer(host);
+  };
+
+  const handleBlockPeer = async (e: GestureResponderEvent, host: string) => {
+    e.stopPropagation();
+    await blockPeer(host);
+  };
+
+  const handleSaveDetails = () => {
+    if (!editing) {
+      return;
+    }
+    const current = peerDetails[editing.host] || {};
+    setPeerDetails(editing.host, { ...current, label: editing.label.trim() || undefined, note: editing.note.trim() || undefined });
+    setEditing(null);
+  };
+
+  // Import a pasted share link, JSON, YAML or list of hosts, and probe the new peers
+  const handleImport = async () => {
+    try {
+      const { peers: entries, skipped } = parsePeerList(importText);
+      const added = await importPeers(entries);
+      added.forEach((host) => probePeer(host));
+      setImportText('');
+      setShowImport(false);
+      Alert.alert('Peers imported', `${entries.length} peer(s), ${added.length} new${skipped ? `; skipped ${skipped} invalid or repeated` : ''}`);
+    } catch (err) {
+      Alert.alert('Import failed', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // User-added peers with their details; discovered peers are found again by crawling
+  const exportEntries = (): PeerListEntry[] =>
+    peers.filter((p) => !p.discovered).map((p) => ({ host: p.host, ...peerDetails[p.host] }));
+
+  const handleExport = (format: PeerListFormat | 'link') => {
+    const entries = exportEntries();
+    const message = format === 'link' ? formatPeerShareLink(entries) : exportPeerList(entries, format);
+    Share.share({ title: 'Relay peers', message }).catch((err) => console.error('[PeersView] Share failed:', err));
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const sortPeers = (list: PeerInfo[]) => {
+    if (!sortKey) {
+      return list;
+    }
+    return list
+      .map((peer) => ({ peer, host: peer.host, health: summarizePeerHealth(peerHealth[peer.host]) }))
+      .sort((a, b) => comparePeerHealth(a, b, sortKey))
+      .map(({ peer }) => peer);
+  };
+
+  // User-added peers by label group, then the ones found through them
+  const peerGroups = groupPeersByLabel(sortPeers(peers.filter((p) => !p.discovered)), (p) => peerDetails[p.host]?.label);
+  const showGroupHeaders = peerGroups.length > 1 || (peerGroups.length === 1 && peerGroups[0].label !== null);
+  const sections = [
+    ...peerGroups.map(({ label, peers: members }) => ({
+      key: label ?? '',
+      label,
+      hosts: members.map((p) => p.host),
+      showHeader: showGroupHeaders,
+      data: collapsedGroups.includes(label ?? '') ? [] : members,
+    })),
+    { key: 'discovered', label: null, hosts: [] as string[], showHeader: false, data: sortPeers(peers.filter((p) => p.discovered)) },
+  ].filter((section) => section.hosts.length > 0 || section.data.length > 0);
+
+  // Uptime, latency percentiles and a sparkline of the latest probe rounds
+  const renderHealth = (peer: PeerInfo) => {
+    const history = peerHealth[peer.host];
+    const health = summarizePeerHealth(history);
+    if (health.samples === 0) {
+      return null;
+    }
+    return (
+      <View className="flex-row items-center mb-2" style={{ columnGap: 8 }}>
+        <View className="flex-row items-end" style={{ height: 16, columnGap: 1 }}>
+          {sparklineBars(history).map((bar, i) => (
+            <View
+              key={i}
+              style={{ width: 3, height: `${Math.round((bar ?? 1) * 100)}%`, backgroundColor: bar === null ? '#f87171' : '#22c55e' }}
+            />
+          ))}
+        </View>
+        <Text className="text-xs font-semibold" style={{ color: '#333' }}>{Math.round((health.uptime ?? 0) * 100)}% up</Text>
+        {health.p50 !== null && (
+          <Text className="text-xs" style={{ color: '#555' }}>p50 {health.p50}ms · p95 {health.p95}ms</Text>
+        )}
+        <Text className="text-xs" style={{ color: '#888' }}>seen {formatLastSeen(health.lastSeen)}</Text>
+      </View>
+    );
+  };
+
   const renderItem = ({ item }: { item: PeerInfo }) => (
     <TouchableOpacity
       className="bg-white rounded p-4"
@@ -211,21 +397,85 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
       <View className="flex-row items-center justify-between mb-3">
         <View className="flex-row items-center flex-1">
           <Text className="text-base font-semibold flex-1" style={{ color: '#333' }}>{item.host}</Text>
+          {item.discovered && (
+            <Text
+              className="text-xs px-2 py-1 rounded-2xl"
+              style={{ marginLeft: 8, backgroundColor: '#fff3cd', color: '#856404' }}
+            >
+              via {item.discovered.via}
+            </Text>
+          )}
           {item.isProbing && (
             <ActivityIndicator size="small" color="#007AFF" style={{ marginLeft: 8 }} />
           )}
+          {!item.discovered && (
+            <TouchableOpacity
+              className="px-2 py-1"
+              onPress={() => setEditing({ host: item.host, label: peerDetails[item.host]?.label || '', note: peerDetails[item.host]?.note || '' })}>
+              <Text className="text-xs" style={{ color: '#007AFF' }}>✎</Text>
+            </TouchableOpacity>
+          )}
         </View>
         <View className="flex-row items-center" style={{ columnGap: 8 }}>
           {renderProbeStatus(item)}
-          <TouchableOpacity
-            className="w-8 h-8 rounded-full items-center justify-center"
-            style={{ backgroundColor: '#f8d7da' }}
-            onPress={(e) => handleRemovePeer(e, item.host)}>
-            <Text className="text-white font-semibold">✕</Text>
-          </TouchableOpacity>
+          {item.discovered ? (
+            <>
+              <TouchableOpacity
+                className="px-2 py-1 rounded"
+                style={{ backgroundColor: '#28a745' }}
+                onPress={(e) => handlePromotePeer(e, item.host)}>
+                <Text className="text-white text-xs font-semibold">Keep</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="px-2 py-1 rounded"
+                style={{ backgroundColor: '#dc3545' }}
+                onPress={(e) => handleBlockPeer(e, item.host)}>
+                <Text className="text-white text-xs font-semibold">Block</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity
+              className="w-8 h-8 rounded-full items-center justify-center"
+              style={{ backgroundColor: '#f8d7da' }}
+              onPress={(e) => handleRemovePeer(e, item.host)}>
+              <Text className="text-white font-semibold">✕</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
+      {editing?.host === item.host ? (
+        <View className="mb-2" style={{ rowGap: 6 }}>
+          <TextInput
+            className="px-2 py-1 rounded text-xs"
+            style={{ borderWidth: 1, borderColor: '#ddd' }}
+            placeholder="Group label (e.g. staging, team, public)"
+            value={editing.label}
+            onChangeText={(label) => setEditing({ ...editing, label })}
+          />
+          <TextInput
+            className="px-2 py-1 rounded text-xs"
+            style={{ borderWidth: 1, borderColor: '#ddd' }}
+            placeholder="Note"
+            value={editing.note}
+            onChangeText={(note) => setEditing({ ...editing, note })}
+          />
+          <View className="flex-row" style={{ columnGap: 8 }}>
+            <TouchableOpacity className="px-3 py-1 rounded" style={{ backgroundColor: '#007AFF' }} onPress={handleSaveDetails}>
+              <Text className="text-white text-xs font-semibold">Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity className="px-3 py-1 rounded" style={{ borderWidth: 1, borderColor: '#ddd' }} onPress={() => setEditing(null)}>
+              <Text className="text-xs" style={{ color: '#333' }}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : peerDetails[item.host]?.note ? (
+        <Text className="text-xs mb-2" style={{ color: '#555', fontStyle: 'italic' }}>{peerDetails[item.host]?.note}</Text>
+      ) : null}
+
+      {renderHealth(item)}
+      {renderProbeDetails(item)}
+
       {item.branches && item.branches.length > 0 && (
         <View className="flex-row items-start mb-2">
           <Text className="text-xs font-semibold mr-2" style={{ color: '#555' }}>Branches:</Text>
@@ -274,16 +524,120 @@ const PeersViewComponent: React.FC<PeersViewProps> = ({ onPeerPress, isActive =
             <Text className="text-white text-sm font-semibold">Add</Text>
           </TouchableOpacity>
         </View>
+
+        <View className="flex-row items-center flex-wrap mt-3" style={{ columnGap: 4, rowGap: 4 }}>
+          <TouchableOpacity
+            className="px-2 py-1 rounded"
+            style={showImport ? { backgroundColor: '#007AFF' } : { borderWidth: 1, borderColor: '#ddd' }}
+            onPress={() => setShowImport(!showImport)}>
+            <Text className="text-xs" style={{ color: showImport ? '#fff' : '#333' }}>Import</Text>
+          </TouchableOpacity>
+          <Text className="text-xs font-semibold ml-2 mr-1" style={{ color: '#555' }}>Share:</Text>
+          {([['json', 'JSON'], ['yaml', 'YAML'], ['link', 'Link']] as const).map(([format, label]) => (
+            <TouchableOpacity
+              key={format}
+              className="px-2 py-1 rounded"
+              style={{ borderWidth: 1, borderColor: '#ddd' }}
+              onPress={() => handleExport(format)}>
+              <Text className="text-xs" style={{ color: '#333' }}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {showImport && (
+          <View className="mt-2" style={{ rowGap: 6 }}>
+            <TextInput
+              className="px-3 py-2 rounded text-xs"
+              style={{ borderWidth: 1, borderColor: '#ddd', minHeight: 64, textAlignVertical: 'top' }}
+              placeholder="Paste a relay://peers link, JSON, YAML or one host per line"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={importText}
+              onChangeText={setImportText}
+            />
+            <TouchableOpacity className="self-start px-4 py-2 rounded" style={{ backgroundColor: '#28a745' }} onPress={handleImport}>
+              <Text className="text-white text-sm font-semibold">Import peers</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {onRepoPress && listHostedRepos(peers).length > 0 && (
+          <View className="flex-row items-center flex-wrap mt-3" style={{ columnGap: 4, rowGap: 4 }}>
+            <Text className="text-xs font-semibold mr-1" style={{ color: '#555' }}>Open best peer:</Text>
+            {listHostedRepos(peers).map((repo) => (
+              <TouchableOpacity
+                key={repo}
+                className="px-2 py-1 rounded"
+                style={{ borderWidth: 1, borderColor: '#007AFF' }}
+                onPress={() => onRepoPress(repo)}>
+                <Text className="text-xs" style={{ color: '#007AFF' }}>{repo}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {peers.length > 1 && (
+          <View className="flex-row items-center flex-wrap mt-3" style={{ columnGap: 4, rowGap: 4 }}>
+            <Text className="text-xs font-semibold mr-1" style={{ color: '#555' }}>Sort:</Text>
+            {SORT_OPTIONS.map(({ key, label }) => (
+              <TouchableOpacity
+                key={label}
+                className="px-2 py-1 rounded"
+                style={sortKey === key ? { backgroundColor: '#007AFF' } : { borderWidth: 1, borderColor: '#ddd' }}
+                onPress={() => setSortKey(key)}>
+                <Text className="text-xs" style={{ color: sortKey === key ? '#fff' : '#333' }}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
 
-      <FlatList
-        data={peers}
+      <SectionList
+        sections={sections}
         keyExtractor={(item) => item.host}
         renderItem={renderItem}
+        renderSectionHeader={({ section }) => (section.showHeader ? (
+          <View className="flex-row items-center" style={{ columnGap: 8 }}>
+            <TouchableOpacity className="flex-1 py-1" onPress={() => toggleGroup(section.key)}>
+              <Text className="text-sm font-semibold" style={{ color: '#333' }}>
+                {collapsedGroups.includes(section.key) ? '▸' : '▾'} {section.label ?? 'Unlabelled'} ({section.hosts.length})
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="px-2 py-1 rounded"
+              style={{ borderWidth: 1, borderColor: '#ddd' }}
+              onPress={() => probeGroup(section.hosts)}>
+              <Text className="text-xs" style={{ color: '#333' }}>⟳ Probe</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null)}
+        stickySectionHeadersEnabled={false}
         contentContainerStyle={{ padding: 16, rowGap: 12 }}
         refreshControl={
           <RefreshControl refreshing={false} onRefresh={loadAndProbePeers} />
         }
+        ListFooterComponent={
+          <View style={{ rowGap: 8 }}>
+            {discovering && (
+              <Text className="text-xs" style={{ color: '#666' }}>Discovering peers...</Text>
+            )}
+            {blockedPeers.length > 0 && (
+              <Text className="text-xs font-semibold" style={{ color: '#555' }}>Blocked peers</Text>
+            )}
+            {blockedPeers.map((host) => (
+              <View key={host} className="flex-row items-center justify-between">
+                <Text className="text-xs" style={{ color: '#333' }}>{host}</Text>
+                <TouchableOpacity
+                  className="px-2 py-1 rounded"
+                  style={{ borderWidth: 1, borderColor: '#ddd' }}
+                  onPress={() => unblockPeer(host)}>
+                  <Text className="text-xs" style={{ color: '#333' }}>Unblock</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        }
         ListEmptyComponent={
           <View className="items-center justify-center p-8">
             <Text className="text-sm text-center" style={{ color: '#666' }}>
@@ -1,5 +1,6 @@
-import React from 'react';
-import { Text, View } from 'react-native';
+import React, { useEffect } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { choosePeerSwitch, rankPeersForRepo, summarizePeerHealthByHost } from '@relay/shared';
 import { useAppState } from '../state/store';
 import HookRenderer from './HookRenderer';
 import { styled } from '../themedRuntime';
@@ -10,9 +11,26 @@ interface RepoTabProps {
 
 const TWView = styled(View);
 const TWText = styled(Text);
+const TWTouchableOpacity = styled(TouchableOpacity);
 
 const RepoTabComponent: React.FC<RepoTabProps> = ({ tabId }) => {
   const tab = useAppState((s) => s.tabs.find((t) => t.id === tabId));
+  const updateTab = useAppState((s) => s.updateTab);
+  const peers = useAppState((s) => s.peers);
+  const peerHealth = useAppState((s) => s.peerHealth);
+  const host = tab?.host;
+  const repo = tab?.repo;
+  const branch = tab?.currentBranch || 'main';
+  const followBestPeer = !!tab?.followBestPeer;
+
+  // Move the tab when its peer goes down or falls behind, or another peer is clearly better
+  useEffect(() => {
+    if (!followBestPeer || !host || !repo) return;
+    const ranked = rankPeersForRepo(peers, repo, { branch, health: summarizePeerHealthByHost(peerHealth) });
+    const next = choosePeerSwitch(ranked, host);
+    if (!next) return;
+    updateTab(tabId, (t) => ({ ...t, host: next.host, title: t.title === t.host ? next.host : t.title }));
+  }, [tabId, followBestPeer, host, repo, branch, peers, peerHealth, updateTab]);
 
   if (!tab) {
     return (
@@ -36,9 +54,16 @@ const RepoTabComponent: React.FC<RepoTabProps> = ({ tabId }) => {
             <TWText className="text-white text-xs font-medium">{tab.currentBranch}</TWText>
           </TWView>
         )}
+        {tab.repo && (
+          <TWTouchableOpacity
+            className={`px-2 py-1 rounded border ${followBestPeer ? 'bg-blue-100 border-blue-500' : 'border-gray-300'}`}
+            onPress={() => updateTab(tabId, (t) => ({ ...t, followBestPeer: !t.followBestPeer }))}>
+            <TWText className="text-xs">{followBestPeer ? '✓ Best peer' : 'Follow best peer'}</TWText>
+          </TWTouchableOpacity>
+        )}
       </TWView>
       <TWView className="flex-1 min-h-0">
-        <HookRenderer host={tab.host} />
+        <HookRenderer host={tab.host} repo={tab.repo} branch={tab.currentBranch} />
       </TWView>
     </TWView>
   );
@@ -0,0 +1,7 @@
+/**
+ * Loader spans from every HookRenderer, shown as a waterfall in the Debug tab.
+ */
+
+import {LoaderTrace} from '@relay/shared';
+
+export const loaderTrace = new LoaderTrace({maxSpans: 1000});
@@ -1,9 +1,12 @@
 /**
  * Peer probing service for checking endpoint health and measuring latency.
- * Probes HTTPS, Git, IPFS API, IPFS Gateway, and IPFS Swarm endpoints.
+ * Probes the peer's HTTPS API and the git, ssh and IPFS endpoints it advertises,
+ * using the shared peerProbes planner; raw TCP endpoints go through the native module.
  */
 
-import type {PeerProbe, PeerProtocol} from '../state/store';
+import {planPeerProbes, runPeerProbes, type PeerEndpointProbe, type PeerProbeTarget} from '@relay/shared';
+import {RelayCore} from '../../native/RelayCoreModule';
+import type {PeerProbe} from '../state/store';
 
 const PROBE_TIMEOUT_MS = 5000;
 const PROBE_SAMPLES = 3;
@@ -23,45 +26,6 @@ function extractHostname(input: string): string {
   }
 }
 
-/**
- * Parse a full URL or host:port string to extract host and port
- */
-function parseHostUrl(input: string): { host: string; port?: number; protocol?: string } {
-  try {
-    // Try parsing as full URL
-    const url = new URL(input);
-    const port = url.port ? parseInt(url.port, 10) : undefined;
-    return {
-      host: url.hostname,
-      port,
-      protocol: url.protocol.replace(':', ''),
-    };
-  } catch {
-    // Fall back to host:port format
-    const [host, portStr] = input.split(':');
-    const port = portStr ? parseInt(portStr, 10) : undefined;
-    return { host, port };
-  }
-}
-
-export interface ProbeResult {
-  protocol: PeerProtocol;
-  port: number;
-  ok: boolean;
-  latencyMs?: number;
-  error?: string;
-}
-
-/**
- * Measures median latency from multiple samples
- */
-function median(values: number[]): number {
-  if (values.length === 0) return 0;
-  const sorted = [...values].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
-}
-
 /**
  * Creates a fetch with timeout
  */
@@ -90,140 +54,6 @@ async function fetchWithTimeout(
   }
 }
 
-/**
- * Probes HTTP/HTTPS endpoint using HEAD request
- * Works with any valid URL (http or https)
- */
-async function probeHttps(host: string): Promise<ProbeResult> {
-  const latencies: number[] = [];
-  let port = 443;
-  let protocol: PeerProtocol = 'https';
-  let urlString = host;
-
-  try {
-    // Parse the URL to extract port and protocol
-    const parsed = parseHostUrl(host);
-    port = parsed.port || (parsed.protocol === 'http' ? 80 : 443);
-    protocol = (parsed.protocol === 'http' ? 'http' : 'https') as PeerProtocol;
-    
-    // Use the full URL if it was provided, otherwise construct one
-    if (!host.startsWith('http')) {
-      urlString = `${protocol}://${host}/`;
-    }
-  } catch {
-    // Fall back to https if parsing fails
-    urlString = `https://${host}/`;
-  }
-
-  for (let i = 0; i < PROBE_SAMPLES; i++) {
-    const start = Date.now();
-    try {
-      const res = await fetchWithTimeout(urlString);
-      if (res.ok || res.status < 500) {
-        latencies.push(Date.now() - start);
-      }
-    } catch {
-      // Failed probe, don't add to latencies
-    }
-  }
-
-  return {
-    protocol,
-    port,
-    ok: latencies.length > 0,
-    latencyMs: latencies.length > 0 ? Math.round(median(latencies)) : undefined,
-  };
-}
-
-/**
- * Probes IPFS API endpoint (port 5001)
- */
-async function probeIpfsApi(host: string): Promise<ProbeResult> {
-  const port = 5001;
-  const latencies: number[] = [];
-  const hostname = extractHostname(host).split(':')[0]; // Get just the hostname without port
-
-  for (let i = 0; i < PROBE_SAMPLES; i++) {
-    const start = Date.now();
-    try {
-      const url = `http://${hostname}:${port}/api/v0/version`;
-      const res = await fetchWithTimeout(url);
-      if (res.ok) {
-        latencies.push(Date.now() - start);
-      }
-    } catch {
-      // Failed probe
-    }
-  }
-
-  return {
-    protocol: 'ipfs-api',
-    port,
-    ok: latencies.length > 0,
-    latencyMs: latencies.length > 0 ? Math.round(median(latencies)) : undefined,
-  };
-}
-
-/**
- * Probes IPFS Gateway endpoint (port 8080)
- */
-async function probeIpfsGateway(host: string): Promise<ProbeResult> {
-  const port = 8080;
-  const latencies: number[] = [];
-  const hostname = extractHostname(host).split(':')[0]; // Get just the hostname without port
-
-  for (let i = 0; i < PROBE_SAMPLES; i++) {
-    const start = Date.now();
-    try {
-      const url = `http://${hostname}:${port}/ipfs/`;
-      const res = await fetchWithTimeout(url);
-      // Gateway may return 400 for malformed path, but that still means it's up
-      if (res.status < 500) {
-        latencies.push(Date.now() - start);
-      }
-    } catch {
-      // Failed probe
-    }
-  }
-
-  return {
-    protocol: 'ipfs-gateway',
-    port,
-    ok: latencies.length > 0,
-    latencyMs: latencies.length > 0 ? Math.round(median(latencies)) : undefined,
-  };
-}
-
-/**
- * Probes Git endpoint (port 9418) - TCP connectivity check only
- * Note: In React Native we can't do raw TCP, so we just mark as not probed
- */
-async function probeGit(_host: string): Promise<ProbeResult> {
-  // Git protocol requires raw TCP socket which isn't available in RN JS runtime.
-  // This will be implemented via the native Rust bridge later.
-  return {
-    protocol: 'git',
-    port: 9418,
-    ok: false,
-    error: 'TCP probe requires native module',
-  };
-}
-
-/**
- * Probes IPFS Swarm endpoint (port 4001) - TCP connectivity check only
- * Note: In React Native we can't do raw TCP, so we just mark as not probed
- */
-async function probeIpfsSwarm(_host: string): Promise<ProbeResult> {
-  // IPFS swarm requires raw TCP socket which isn't available in RN JS runtime.
-  // This will be implemented via the native Rust bridge later.
-  return {
-    protocol: 'ipfs-swarm',
-    port: 4001,
-    ok: false,
-    error: 'TCP probe requires native module',
-  };
-}
-
 /**
  * Fetches OPTIONS from a peer to get last update timestamp and metadata
  */
@@ -231,9 +61,14 @@ export async function fetchPeerOptions(host: string): Promise<{
   lastUpdateTs?: number;
   branches?: string[];
   repos?: string[];
+  reposWithBranches?: Array<{name: string; branches: Record<string, string>}>;
   branchHeads?: Record<string, string>;
   relayYaml?: unknown;
   interface?: Record<string, {plugin_manifest?: string}>;
+  /** Peers this peer advertises (see crawlPeers) */
+  peers?: unknown;
+  /** Its git, ssh and IPFS endpoints (see planPeerProbes) */
+  endpoints?: unknown;
 }> {
   try {
     const hostPort = extractHostname(host);
@@ -264,9 +99,13 @@ export async function fetchPeerOptions(host: string): Promise<{
       lastUpdateTs,
       branches: data.branches,
       repos: data.repos,
+      // The OPTIONS response lists each repo with its branch heads
+      reposWithBranches: data.repos,
       branchHeads: data.branchHeads,
       relayYaml: data.relayYaml,
       interface: data.interface,
+      peers: data.peers,
+      endpoints: data.endpoints,
     };
   } catch {
     return {};
@@ -274,20 +113,34 @@ export async function fetchPeerOptions(host: string): Promise<{
 }
 
 /**
- * Probes all supported endpoints for a given peer host
+ * Probes the TCP endpoints of a peer through the native module, which
+ * connects to every protocol's default port in one call
  */
-export async function probePeer(host: string): Promise<PeerProbe[]> {
-  const [https, ipfsApi, ipfsGateway, git, ipfsSwarm] = await Promise.all([
-    probeHttps(host),
-    probeIpfsApi(host),
-    probeIpfsGateway(host),
-    probeGit(host),
-    probeIpfsSwarm(host),
-  ]);
+function nativeTcpProbe(host: string): ((target: PeerProbeTarget) => Promise<PeerEndpointProbe>) | undefined {
+  const nativeProbe = RelayCore.probePeer;
+  if (!nativeProbe) return undefined;
+  let results: ReturnType<typeof nativeProbe> | null = null;
+  return async (target) => {
+    results = results || nativeProbe(host, PROBE_TIMEOUT_MS);
+    const probe = (await results).probes.find((p) => p.protocol === target.protocol && p.port === target.port);
+    if (!probe) {
+      return {protocol: target.protocol, port: target.port, ok: false, error: `Native probe does not cover port ${target.port}`};
+    }
+    return {protocol: target.protocol, port: target.port, ok: probe.ok, latencyMs: probe.latencyMs, error: probe.error};
+  };
+}
 
-  return [https, ipfsApi, ipfsGateway, git, ipfsSwarm].filter(
-    (p) => p.ok || p.error === undefined, // Include successful probes and real failures
-  );
+/**
+ * Probes the endpoints a peer serves or advertises
+ * @param options The peer's OPTIONS metadata, for its advertised endpoints and repos
+ */
+export async function probePeer(host: string, options: {endpoints?: unknown; repos?: unknown[]} = {}): Promise<PeerProbe[]> {
+  const targets = planPeerProbes(host, options);
+  return runPeerProbes(targets, {
+    samples: PROBE_SAMPLES,
+    timeoutMs: PROBE_TIMEOUT_MS,
+    probeTcp: nativeTcpProbe(host),
+  });
 }
 
 /**
@@ -298,13 +151,19 @@ export async function fullProbePeer(host: string): Promise<{
   lastUpdateTs?: number;
   branches?: string[];
   repos?: string[];
+  reposWithBranches?: Array<{name: string; branches: Record<string, string>}>;
+  advertisedPeers?: unknown;
 }> {
-  const [probes, options] = await Promise.all([probePeer(host), fetchPeerOptions(host)]);
+  // OPTIONS first: it lists the endpoints to probe
+  const options = await fetchPeerOptions(host);
+  const probes = await probePeer(host, {endpoints: options.endpoints, repos: options.repos});
 
   return {
     probes,
     lastUpdateTs: options.lastUpdateTs,
     branches: options.branches,
     repos: options.repos,
+    reposWithBranches: options.reposWithBranches,
+    advertisedPeers: options.peers,
   };
 }
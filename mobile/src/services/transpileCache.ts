@@ -0,0 +1,13 @@
+/**
+ * AsyncStorage-backed persistent transpile cache for the mobile client.
+ * Limits are kept well under Android's default 6MB AsyncStorage quota.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {TranspileCache} from '@relay/shared';
+
+export const transpileCache = new TranspileCache({
+  storage: AsyncStorage,
+  maxEntries: 200,
+  maxBytes: 3 * 1024 * 1024,
+});
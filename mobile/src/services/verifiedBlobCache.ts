@@ -0,0 +1,8 @@
+/**
+ * Verified hook sources shared by every peer's HookRenderer, keyed by content hash.
+ * Kept in memory only; the transpile cache already persists across launches.
+ */
+
+import {VerifiedBlobCache} from '@relay/shared';
+
+export const verifiedBlobCache = new VerifiedBlobCache({maxBytes: 5 * 1024 * 1024});
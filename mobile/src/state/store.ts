@@ -1,8 +1,9 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Appearance } from 'react-native';
+import { appendHealthSample, healthSampleOf, normalizePeerHost, parsePeerHealthHistory, pickBestPeer, retainPeerHealth, summarizePeerHealthByHost, type CapabilityDecision, type CapabilityGrants, type DiscoveredPeer, type PeerDetails, type PeerHealthSample, type PeerListEntry, type PeerProbeProtocol } from '@clevertree/relay-client-shared';
 
-export type PeerProtocol = 'https' | 'git' | 'ssh' | 'ipfs-api' | 'ipfs-gateway' | 'ipfs-swarm';
+export type PeerProtocol = PeerProbeProtocol;
 
 export type PeerProbe = {
     protocol: PeerProtocol;
@@ -18,6 +19,12 @@ export type PeerInfo = {
     probes: PeerProbe[];
     branches?: string[];
     repos?: string[];
+    /** Repos with their branch heads, from OPTIONS (see bestPeer.ts) */
+    reposWithBranches?: Array<{ name: string; branches: Record<string, string> }>;
+    /** The `peers` field of its OPTIONS response (see peerDiscovery.ts) */
+    advertisedPeers?: unknown;
+    /** Set while the peer was found through another peer's list rather than added by the user */
+    discovered?: Omit<DiscoveredPeer, 'host'>;
     isProbing?: boolean;
 };
 
@@ -31,6 +38,8 @@ export type TabInfo = {
     currentBranch?: string;
     reposList?: string[];
     isHome?: boolean;
+    /** Move the tab to another peer of its repo when the current one degrades */
+    followBestPeer?: boolean;
 };
 
 export type ThemeName = 'default' | 'light' | 'dark';
@@ -43,6 +52,22 @@ export type AppState = {
     setPeerProbing: (host: string, isProbing: boolean) => void;
     addPeer: (host: string) => void;
     removePeer: (host: string) => void;
+    /** Normalized hosts that discovery must skip */
+    blockedPeers: string[];
+    addDiscoveredPeers: (found: DiscoveredPeer[]) => void;
+    /** Keep a discovered peer as if the user had added it */
+    promotePeer: (host: string) => void;
+    blockPeer: (host: string) => void;
+    unblockPeer: (normalizedHost: string) => void;
+    /** Probe history by host (see peerHealth.ts) */
+    peerHealth: Record<string, PeerHealthSample[]>;
+    /** Add a probe round to a peer's history */
+    recordPeerHealth: (host: string, probes: PeerProbe[]) => void;
+    /** Labels, notes and settings by host (see peerList.ts) */
+    peerDetails: Record<string, PeerDetails>;
+    setPeerDetails: (host: string, details: PeerDetails) => void;
+    /** Add imported peers and take over their details; resolves to the hosts that were not listed yet */
+    importPeers: (entries: PeerListEntry[]) => Promise<string[]>;
 
     // Tabs state
     tabs: TabInfo[];
@@ -51,6 +76,8 @@ export type AppState = {
     closeTab: (tabId: string) => void; // Won't close home tab
     setActiveTab: (tabId: string) => void;
     updateTab: (tabId: string, updater: (t: TabInfo) => TabInfo) => void;
+    /** Open a repo on the peer that serves it best; null when no reachable peer hosts it */
+    openRepoOnBestPeer: (repo: string, branch?: string) => Promise<string | null>;
     homeTabId: string;
 
     // Theme state
@@ -62,6 +89,10 @@ export type AppState = {
     setAutoRefresh: (enabled: boolean) => void;
     lastRefreshTs: number;
     setLastRefreshTs: (ts: number) => void;
+
+    // Hook capability decisions, keyed by host/repo scope
+    capabilityGrants: Record<string, CapabilityGrants>;
+    setCapabilityDecisions: (scope: string, decisions: Record<string, CapabilityDecision>) => void;
 };
 
 let tabIdCounter = 0;
@@ -74,7 +105,11 @@ function generateTabId(): string {
 const STORAGE_KEY_TABS = 'relay_tabs';
 const STORAGE_KEY_ACTIVE_TAB = 'relay_active_tab';
 const STORAGE_KEY_PEERS = 'relay_peers';
+const STORAGE_KEY_BLOCKED_PEERS = 'relay_blocked_peers';
+const STORAGE_KEY_PEER_HEALTH = 'relay_peer_health';
+const STORAGE_KEY_PEER_DETAILS = 'relay_peer_details';
 const STORAGE_KEY_THEME = 'relay_theme';
+const STORAGE_KEY_CAPABILITY_GRANTS = 'relay_capability_grants';
 
 // Load persisted state from AsyncStorage
 async function loadPersistedTabs(): Promise<TabInfo[]> {
@@ -119,13 +154,113 @@ async function persistTabs(tabs: TabInfo[], activeTabId: string) {
 
 async function persistPeers(peers: PeerInfo[]) {
     try {
-        const peerHosts = peers.map((p) => p.host);
+        // Discovered peers are found again on the next crawl until the user promotes them
+        const peerHosts = peers.filter((p) => !p.discovered).map((p) => p.host);
         await AsyncStorage.setItem(STORAGE_KEY_PEERS, JSON.stringify(peerHosts));
     } catch (e) {
         console.error('Failed to persist peers:', e);
     }
 }
 
+async function loadPersistedBlockedPeers(): Promise<string[]> {
+    try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY_BLOCKED_PEERS);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (Array.isArray(parsed)) return parsed.filter((h): h is string => typeof h === 'string');
+        }
+    } catch (e) {
+        console.error('Failed to load blocked peers:', e);
+    }
+    return [];
+}
+
+async function persistBlockedPeers(blocked: string[]) {
+    try {
+        await AsyncStorage.setItem(STORAGE_KEY_BLOCKED_PEERS, JSON.stringify(blocked));
+    } catch (e) {
+        console.error('Failed to persist blocked peers:', e);
+    }
+}
+
+async function loadPersistedPeerHealth(): Promise<Record<string, PeerHealthSample[]>> {
+    try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY_PEER_HEALTH);
+        if (stored) {
+            return parsePeerHealthHistory(JSON.parse(stored));
+        }
+    } catch (e) {
+        console.error('Failed to load peer health history:', e);
+    }
+    return {};
+}
+
+async function persistPeerHealth(peerHealth: Record<string, PeerHealthSample[]>) {
+    try {
+        await AsyncStorage.setItem(STORAGE_KEY_PEER_HEALTH, JSON.stringify(peerHealth));
+    } catch (e) {
+        console.error('Failed to persist peer health history:', e);
+    }
+}
+
+function withoutPeerHealth(peerHealth: Record<string, PeerHealthSample[]>, host: string) {
+    if (!(host in peerHealth)) return peerHealth;
+    const rest = { ...peerHealth };
+    delete rest[host];
+    persistPeerHealth(rest);
+    return rest;
+}
+
+async function loadPersistedPeerDetails(): Promise<Record<string, PeerDetails>> {
+    try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY_PEER_DETAILS);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, PeerDetails>;
+        }
+    } catch (e) {
+        console.error('Failed to load peer details:', e);
+    }
+    return {};
+}
+
+async function persistPeerDetails(peerDetails: Record<string, PeerDetails>) {
+    try {
+        await AsyncStorage.setItem(STORAGE_KEY_PEER_DETAILS, JSON.stringify(peerDetails));
+    } catch (e) {
+        console.error('Failed to persist peer details:', e);
+    }
+}
+
+function withoutPeerDetails(peerDetails: Record<string, PeerDetails>, host: string) {
+    if (!(host in peerDetails)) return peerDetails;
+    const rest = { ...peerDetails };
+    delete rest[host];
+    persistPeerDetails(rest);
+    return rest;
+}
+
+async function loadPersistedCapabilityGrants(): Promise<Record<string, CapabilityGrants>> {
+    try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY_CAPABILITY_GRANTS);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, CapabilityGrants>;
+        }
+    } catch (e) {
+        console.error('Failed to load capability grants:', e);
+    }
+    return {};
+}
+
+async function persistCapabilityGrants(grants: Record<string, CapabilityGrants>) {
+    try {
+        await AsyncStorage.setItem(STORAGE_KEY_CAPABILITY_GRANTS, JSON.stringify(grants));
+    } catch (e) {
+        console.error('Failed to persist capability grants:', e);
+    }
+}
+
 function detectOsThemePreference(): ThemeName {
     // Use React Native's Appearance API to detect OS theme preference
     try {
@@ -194,14 +329,100 @@ export const useAppState = create<AppState>((set, get) => ({
         set({
             peers: newPeers,
         });
+        // Adding a blocked peer by hand unblocks it
+        const normalized = normalizePeerHost(cleanHost);
+        if (get().blockedPeers.includes(normalized)) {
+            get().unblockPeer(normalized);
+        }
     },
     removePeer: async (host) => {
         const newPeers = get().peers.filter((p) => p.host !== host);
         await persistPeers(newPeers);
         set({
             peers: newPeers,
+            peerHealth: withoutPeerHealth(get().peerHealth, host),
+            peerDetails: withoutPeerDetails(get().peerDetails, host),
+        });
+    },
+    blockedPeers: [], // Will be loaded async in initialization
+    addDiscoveredPeers: (found) =>
+        set((s) => {
+            const listed = new Set(s.peers.map((p) => normalizePeerHost(p.host)));
+            const fresh = found.filter((f) => !listed.has(normalizePeerHost(f.host)) && !s.blockedPeers.includes(normalizePeerHost(f.host)));
+            if (fresh.length === 0) return s;
+            return {
+                peers: [...s.peers, ...fresh.map(({ host, ...discovered }) => ({ host, probes: [], discovered }))],
+            };
+        }),
+    promotePeer: async (host) => {
+        const newPeers = get().peers.map((p) => (p.host === host ? { ...p, discovered: undefined } : p));
+        await persistPeers(newPeers);
+        set({
+            peers: newPeers,
+        });
+    },
+    blockPeer: async (host) => {
+        const newPeers = get().peers.filter((p) => p.host !== host);
+        const normalized = normalizePeerHost(host);
+        const current = get().blockedPeers;
+        const blockedPeers = !normalized || current.includes(normalized) ? current : [...current, normalized];
+        await persistPeers(newPeers);
+        await persistBlockedPeers(blockedPeers);
+        set({
+            peers: newPeers,
+            blockedPeers,
+            peerHealth: withoutPeerHealth(get().peerHealth, host),
+            peerDetails: withoutPeerDetails(get().peerDetails, host),
         });
     },
+    unblockPeer: async (normalizedHost) => {
+        const blockedPeers = get().blockedPeers.filter((h) => h !== normalizedHost);
+        await persistBlockedPeers(blockedPeers);
+        set({ blockedPeers });
+    },
+    peerHealth: {}, // Will be loaded async in initialization
+    recordPeerHealth: (host, probes) =>
+        set((s) => {
+            // Peers that dropped out of the list (e.g. discovered ones) take their history with them
+            const appended = { ...s.peerHealth, [host]: appendHealthSample(s.peerHealth[host], healthSampleOf(probes)) };
+            const peerHealth = retainPeerHealth(appended, s.peers.map((p) => p.host));
+            persistPeerHealth(peerHealth);
+            return { peerHealth };
+        }),
+    peerDetails: {}, // Will be loaded async in initialization
+    setPeerDetails: (host, details) =>
+        set((s) => {
+            const peerDetails = { ...s.peerDetails, [host]: details };
+            persistPeerDetails(peerDetails);
+            return { peerDetails };
+        }),
+    importPeers: async (entries) => {
+        const s = get();
+        const listed = new Map(s.peers.map((p) => [normalizePeerHost(p.host), p.host]));
+        const added: string[] = [];
+        const peerDetails = { ...s.peerDetails };
+        let peers = s.peers;
+        for (const { host, ...details } of entries) {
+            const normalized = normalizePeerHost(host);
+            const existing = listed.get(normalized);
+            if (existing) {
+                // Importing a discovered peer keeps it, as promoting it would
+                peers = peers.map((p) => (p.host === existing ? { ...p, discovered: undefined } : p));
+            } else {
+                peers = [...peers, { host, probes: [] }];
+                listed.set(normalized, host);
+                added.push(host);
+            }
+            peerDetails[existing || host] = { ...peerDetails[existing || host], ...details };
+        }
+        // Importing is adding by hand, so it unblocks the imported peers
+        const blockedPeers = s.blockedPeers.filter((h) => !entries.some((e) => normalizePeerHost(e.host) === h));
+        await persistPeers(peers);
+        await persistPeerDetails(peerDetails);
+        if (blockedPeers.length !== s.blockedPeers.length) await persistBlockedPeers(blockedPeers);
+        set({ peers, peerDetails, blockedPeers });
+        return added;
+    },
 
     // Tabs state
     tabs: [],
@@ -250,6 +471,36 @@ export const useAppState = create<AppState>((set, get) => ({
                 tabs: newTabs,
             };
         }),
+    openRepoOnBestPeer: async (repo, branch = 'main') => {
+        const { peers, peerHealth, tabs } = get();
+        const best = pickBestPeer(peers, repo, { branch, health: summarizePeerHealthByHost(peerHealth) });
+        if (!best) return null;
+        // Only a tab already showing this repo and branch on that peer is reused; other tabs are left alone
+        const existingTab = tabs.find((t) => t.host === best.host && t.repo === repo && (t.currentBranch || 'main') === branch);
+        if (existingTab) {
+            get().setActiveTab(existingTab.id);
+            return existingTab.id;
+        }
+
+        const id = generateTabId();
+        // Opened for the repo rather than the peer, so it follows the best peer from here on
+        const newTab: TabInfo = {
+            id,
+            host: best.host,
+            path: '/',
+            title: best.host,
+            repo,
+            currentBranch: branch,
+            followBestPeer: true,
+        };
+        const newTabs = [...get().tabs, newTab];
+        await persistTabs(newTabs, id);
+        set(() => ({
+            tabs: newTabs,
+            activeTabId: id,
+        }));
+        return id;
+    },
 
     // Theme state
     theme: 'default', // Will be loaded async in initialization
@@ -271,6 +522,15 @@ export const useAppState = create<AppState>((set, get) => ({
     lastRefreshTs: 0,
     setLastRefreshTs: (ts) =>
         set({ lastRefreshTs: ts }),
+
+    // Hook capability decisions
+    capabilityGrants: {}, // Will be loaded async in initialization
+    setCapabilityDecisions: (scope, decisions) =>
+        set((s) => {
+            const capabilityGrants = { ...s.capabilityGrants, [scope]: { ...s.capabilityGrants[scope], ...decisions } };
+            persistCapabilityGrants(capabilityGrants);
+            return { capabilityGrants };
+        }),
 }));
 
 // Initialize persisted state
@@ -280,6 +540,10 @@ export const useAppState = create<AppState>((set, get) => ({
         let tabs = await loadPersistedTabs();
         let activeTabId = await loadPersistedActiveTab();
         let theme = await loadPersistedTheme();
+        const blockedPeers = await loadPersistedBlockedPeers();
+        const peerHealth = await loadPersistedPeerHealth();
+        const peerDetails = await loadPersistedPeerDetails();
+        const capabilityGrants = await loadPersistedCapabilityGrants();
 
         console.log('[Store] Loaded tabs:', tabs.length, 'activeTabId:', activeTabId, 'theme:', theme);
 
@@ -310,7 +574,7 @@ export const useAppState = create<AppState>((set, get) => ({
         }
 
         console.log('[Store] Setting state with tabs:', tabs.map(t => t.id));
-        useAppState.setState({ tabs, activeTabId, theme });
+        useAppState.setState({ tabs, activeTabId, theme, blockedPeers, peerHealth, peerDetails, capabilityGrants });
     } catch (e) {
         console.error('[Store] Failed to initialize persisted state:', e);
         // Ensure at least a basic home tab is present so the UI can render
@@ -6,47 +6,68 @@
  * we use eval-based execution in a sandboxed context
  */
 
+import {DEFAULT_HOOK_PATH, ImportMapResolver, ModuleLoadError, ModuleResolver, assetKindFor, buildTextAssetModule, buildWasmModule, createHttpProbe, parseImportMap, splitAssetQuery} from '@relay/shared';
+
 interface ModuleCache {
   [path: string]: any;
 }
 
 const moduleCache: ModuleCache = {};
 
+// Same resolution rules as HookLoader and ES6ImportHandler, one resolver per
+// peer: import maps and probed files differ between repos
+const resolvers = new Map<string, Promise<ModuleResolver>>();
+
+/**
+ * The resolver for a peer, with the import map from its OPTIONS response
+ */
+function resolverFor(host: string, protocol: string): Promise<ModuleResolver> {
+  let resolver = resolvers.get(host);
+  if (!resolver) {
+    resolver = fetch(`${protocol}://${host}/`, {method: 'OPTIONS'})
+      .then(async response => (response.ok ? parseImportMap(await response.json()) : {}))
+      .catch(err => {
+        // Relative and absolute imports still resolve without the map
+        console.warn('[loadModule] Failed to read import map from', host, err);
+        return {};
+      })
+      .then(imports => new ModuleResolver({importMap: new ImportMapResolver({imports})}));
+    resolvers.set(host, resolver);
+  }
+  return resolver;
+}
+
 /**
  * Load a module from a peer/repo
  * @param host - The peer host
  * @param modulePath - Path to the module (e.g., './lib/utils.mjs' or '/hooks/lib/utils.mjs')
- * @param currentPath - Current script path for resolving relative imports (default: '/hooks/get-client.mjs')
+ * @param currentPath - Current script path for resolving relative imports (default: DEFAULT_HOOK_PATH)
  * @returns Promise resolving to module exports
  */
 export async function loadModule(
   host: string,
   modulePath: string,
-  currentPath: string = '/hooks/get-client.mjs'
+  currentPath: string = DEFAULT_HOOK_PATH
 ): Promise<any> {
-  // Normalize path
-  let normalizedPath = modulePath;
-  if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
-    // Relative to current script
-    const currentDir = currentPath.split('/').slice(0, -1).join('/');
-    normalizedPath = `${currentDir}/${modulePath}`
-      .replace(/\/\.\//g, '/')
-      .replace(/\/[^/]+\/\.\.\//g, '/');
-  } else if (!modulePath.startsWith('/')) {
-    // Assume relative to /hooks/
-    normalizedPath = `/hooks/${modulePath}`;
+  // If host is already in http(s)://host:port format from env, use 'http' as default for module fetching
+  const protocol = 'http';
+  const exists = createHttpProbe((path, init) => fetch(`${protocol}://${host}${path}`, init));
+  const {specifier, raw} = splitAssetQuery(modulePath);
+  const resolver = await resolverFor(host, protocol);
+  const resolution = await resolver.resolveFile(specifier, currentPath, exists);
+  if (resolution.type === 'builtin') {
+    throw new ModuleLoadError(`${modulePath} is a built-in module, not a peer path`, {filename: modulePath});
   }
+  const normalizedPath = resolution.path;
 
   // Check cache
-  const cacheKey = `${host}:${normalizedPath}`;
+  const cacheKey = `${host}:${normalizedPath}${raw ? '?raw' : ''}`;
   if (moduleCache[cacheKey]) {
     console.debug('[loadModule] Cache hit:', cacheKey);
     return moduleCache[cacheKey];
   }
 
   // Fetch module source
-  // If host is already in http(s)://host:port format from env, use 'http' as default for module fetching
-  const protocol = 'http';
   const moduleUrl = `${protocol}://${host}${normalizedPath}`;
   console.debug('[loadModule] Fetching:', moduleUrl);
 
@@ -56,6 +77,15 @@ export async function loadModule(
       throw new Error(`Failed to fetch module: ${response.status} ${response.statusText}`);
     }
 
+    // JSON, YAML, CSS, ?raw text and wasm imports are not executed
+    const asset = assetKindFor(normalizedPath, raw, response.headers.get('content-type'));
+    if (asset) {
+      moduleCache[cacheKey] = asset === 'wasm'
+        ? await buildWasmModule(normalizedPath, await response.arrayBuffer())
+        : buildTextAssetModule(asset, normalizedPath, await response.text());
+      return moduleCache[cacheKey];
+    }
+
     const code = await response.text();
     console.debug('[loadModule] Loaded code:', code.substring(0, 100) + '...');
 
@@ -123,6 +153,8 @@ export async function loadModule(
  */
 export function clearModuleCache(): void {
   Object.keys(moduleCache).forEach(key => delete moduleCache[key]);
+  // Re-read import maps too, which change with the repo
+  resolvers.clear();
   console.debug('[loadModule] Cache cleared');
 }
 
@@ -0,0 +1,47 @@
+function Icon({ name }) {
+    return name;
+}
+export default function Attributes(props) {
+    const rest = {
+        id: 'main',
+        title: 'overridden'
+    };
+    const active = true;
+    return React.createElement("section", {
+        className: "card",
+        ...rest,
+        title: "kept",
+        style: {
+            color: 'red',
+            margin: {
+                top: 1,
+                bottom: 2
+            }
+        },
+        hidden: true,
+        "aria-label": 'quoted "label"',
+        "data-count": props.count ?? 0,
+        "xlink:href": "#target",
+        icon: React.createElement(Icon, {
+            name: "star"
+        }),
+        onClick: ()=>{
+            if (active) {
+                return {
+                    handled: true
+                };
+            }
+        },
+        render: (value)=>React.createElement("b", null, `${value}}`)
+    }, active && React.createElement("span", {
+        className: active ? 'on' : 'off'
+    }, "on"), [
+        1,
+        2
+    ].map((n)=>({
+            n
+        }).n), React.createElement("input", {
+        value: "{not a container}",
+        readOnly: true
+    }));
+}
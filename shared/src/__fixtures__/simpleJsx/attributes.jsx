@@ -0,0 +1,29 @@
+function Icon({ name }) {
+    return name
+}
+
+export default function Attributes(props) {
+    const rest = { id: 'main', title: 'overridden' }
+    const active = true
+    return (
+        <section
+            className="card"
+            {...rest}
+            title="kept"
+            style={{ color: 'red', margin: { top: 1, bottom: 2 } }}
+            hidden
+            aria-label='quoted "label"'
+            data-count={props.count ?? 0}
+            xlink:href="#target"
+            icon={<Icon name="star" />}
+            onClick={() => { if (active) { return { handled: true } } }}
+            render={(value) => <b>{`${value}}`}</b>}
+        >
+            {/* JSX comments and empty containers vanish */}
+            {}
+            {active && <span className={active ? 'on' : 'off'}>on</span>}
+            {[1, 2].map((n) => ({ n }).n)}
+            <input value={"{not a container}"} readOnly />
+        </section>
+    )
+}
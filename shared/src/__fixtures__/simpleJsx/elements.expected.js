@@ -0,0 +1,25 @@
+const UI = {
+    Button: function Button(props) {
+        return props;
+    }
+};
+function Layout({ title, children }) {
+    return children;
+}
+export default function Elements() {
+    const items = [
+        'one',
+        'two'
+    ];
+    const name = 'relay';
+    return React.createElement(Layout, {
+        title: "Home"
+    }, React.createElement("h1", null, "Hello,   ", name, "!"), React.createElement("p", null, "Multi-line text joins with single spaces & decodes <entities> © →"), React.createElement(UI.Button, {
+        label: "Go"
+    }), React.createElement("ul", null, items.map((item, i)=>React.createElement("li", {
+            key: item,
+            "data-index": i
+        }, i + 1, ". ", item))), React.createElement("br", null), ' ', React.createElement("custom-element", {
+        "some-attr": "x"
+    }));
+}
@@ -0,0 +1,32 @@
+const UI = {
+    Button: function Button(props) { return props },
+}
+
+function Layout({ title, children }) {
+    return children
+}
+
+export default function Elements() {
+    const items = ['one', 'two']
+    const name = 'relay'
+    return (
+        <Layout title="Home">
+            <h1>Hello,   {name}!</h1>
+            <p>
+                Multi-line text
+                joins with single spaces &amp; decodes &lt;entities&gt; &#169; &#x2192;
+            </p>
+            <UI.Button label="Go" />
+            <ul>
+                {items.map((item, i) => (
+                    <li key={item} data-index={i}>
+                        {i + 1}. {item}
+                    </li>
+                ))}
+            </ul>
+            <br/>
+            {' '}
+            <custom-element some-attr="x"></custom-element>
+        </Layout>
+    )
+}
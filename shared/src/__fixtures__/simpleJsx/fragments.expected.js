@@ -0,0 +1,25 @@
+function Row({ label }) {
+    return label;
+}
+export default function Fragments() {
+    const rows = [
+        'a',
+        'b'
+    ];
+    const extra = [
+        React.createElement("i", {
+            key: "x"
+        }, "x"),
+        React.createElement("i", {
+            key: "y"
+        }, "y")
+    ];
+    const title = `Rows: ${rows.map((r)=>React.createElement(Row, {
+            label: r
+        })).length}`;
+    return React.createElement(React.Fragment, null, React.createElement("h2", null, title), React.createElement(React.Fragment, null, rows.map((r)=>React.createElement(React.Fragment, {
+            key: r
+        }, React.createElement(Row, {
+            label: r
+        }), React.createElement("hr", null)))), rows.length > 1 ? React.createElement("p", null, "many") : React.createElement("p", null, "one"), extra, "text with a / slash and a 'quote' and \"double quotes\"");
+}
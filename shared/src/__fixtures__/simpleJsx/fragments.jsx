@@ -0,0 +1,20 @@
+function Row({ label }) {
+    return label
+}
+
+export default function Fragments() {
+    const rows = ['a', 'b']
+    const extra = [<i key="x">x</i>, <i key="y">y</i>]
+    const title = `Rows: ${rows.map((r) => <Row label={r} />).length}`
+    return (
+        <>
+            <h2>{title}</h2>
+            <>
+                {rows.map((r) => <React.Fragment key={r}><Row label={r} /><hr /></React.Fragment>)}
+            </>
+            {rows.length > 1 ? <p>many</p> : <p>one</p>}
+            {extra}
+            text with a / slash and a 'quote' and "double quotes"
+        </>
+    )
+}
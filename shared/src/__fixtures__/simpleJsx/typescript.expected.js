@@ -0,0 +1,62 @@
+import { useValue as useStateLike } from './hooks';
+var Level;
+(function(Level) {
+    Level[Level["Low"] = 0] = "Low";
+    Level[Level["Mid"] = 5] = "Mid";
+    Level[Level["High"] = 6] = "High";
+    Level["Label"] = "label";
+})(Level || (Level = {}));
+var Flag;
+(function(Flag) {
+    Flag[Flag["On"] = 1] = "On";
+    Flag[Flag["Off"] = 0] = "Off";
+})(Flag || (Flag = {}));
+function useValue(initial) {
+    let value = initial;
+    return [
+        value,
+        (next)=>{
+            value = next;
+        }
+    ];
+}
+const identity = (x)=>x;
+class Widget {
+    props;
+    count = 0;
+    static created = 0;
+    constructor(props){
+        this.props = props;
+    }
+    describe(prefix = 'widget') {
+        return `${prefix}:${Object.keys(this.props).length}`;
+    }
+}
+class Card extends Widget {
+}
+function isText(value) {
+    return typeof value === 'string';
+}
+function Header({ label }) {
+    return label;
+}
+export default function Typed({ title = 'Card', items = [
+    'a',
+    'b'
+] }) {
+    const [status] = useValue('idle');
+    const widget = new Card({
+        title
+    });
+    const first = items[0];
+    const level = Level.High;
+    const count = items.length;
+    return React.createElement("section", {
+        title: title,
+        "data-status": status
+    }, React.createElement(Header, {
+        label: identity(first)
+    }), React.createElement("p", null, widget.describe(), " ", Level[level], " ", Level.Label, " ", Flag.Off), items.map((item, i)=>React.createElement("span", {
+            key: i
+        }, isText(item) ? item.toUpperCase() : null)), React.createElement("small", null, count > 1 ? `${count} items` : 'single'));
+}
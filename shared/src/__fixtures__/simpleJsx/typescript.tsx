@@ -0,0 +1,73 @@
+import type { ReactNode } from 'react'
+import { type Theme, useValue as useStateLike } from './hooks'
+
+interface CardProps<T = string> extends Base {
+    title: string
+    items?: T[]
+    render: (item: T, index: number) => ReactNode
+}
+
+type Status =
+    | 'idle'
+    | 'busy'
+
+type Pair<A, B> = [first: A, second: B]
+
+enum Level {
+    Low,
+    Mid = 5,
+    High,
+    Label = 'label',
+}
+
+const enum Flag { On = 1, Off = On - 1 }
+
+declare const injected: unknown
+
+function useValue<T>(initial: T): [T, (next: T) => void] {
+    let value: T = initial
+    return [value, (next: T): void => { value = next }]
+}
+
+const identity = <T,>(x: T): T => x
+
+abstract class Widget<P extends object = {}> {
+    protected readonly props: P
+    private count?: number = 0
+    static created: number = 0
+    [key: string]: unknown
+
+    constructor(props: P) {
+        this.props = props
+    }
+
+    describe(prefix: string = 'widget'): string {
+        return `${prefix}:${Object.keys(this.props as object).length}`
+    }
+}
+
+class Card extends Widget<{ title: string }> { }
+
+function isText(value: unknown): value is string {
+    return typeof value === 'string'
+}
+
+function Header({ label }: { label: string }) {
+    return label
+}
+
+export default function Typed({ title = 'Card', items = ['a', 'b'] }: Partial<CardProps>) {
+    const [status] = useValue<Status>('idle')
+    const widget = new Card({ title })
+    const first = items![0] as string
+    const level = Level.High satisfies Level
+    const count = (items as string[]).length
+    return (
+        <section title={title} data-status={status}>
+            <Header<string> label={identity<string>(first)} />
+            <p>{widget.describe()} {Level[level]} {Level.Label} {Flag.Off}</p>
+            {items.map((item: string, i: number) => <span key={i}>{isText(item) ? item.toUpperCase() : null}</span>)}
+            <small>{count > 1 ? `${count} items` : 'single'}</small>
+        </section>
+    )
+}
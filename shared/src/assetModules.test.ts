@@ -0,0 +1,157 @@
+/**
+ * Tests for JSON/YAML/CSS/text/wasm imports in hook modules
+ */
+
+import { assetKindFor, buildTextAssetModule, buildWasmModule, splitAssetQuery } from './assetModules'
+import { ES6ImportHandler } from './es6ImportHandler'
+import { IntegrityError, ModuleLoadError } from './loaderErrors'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('assetKindFor', () => {
+    test('uses the extension, then the content-type', () => {
+        expect(assetKindFor('/hooks/data.json')).toBe('json')
+        expect(assetKindFor('/hooks/config.yml')).toBe('yaml')
+        expect(assetKindFor('/hooks/styles.CSS')).toBe('css')
+        expect(assetKindFor('/hooks/README.md')).toBe('text')
+        expect(assetKindFor('/hooks/math.wasm')).toBe('wasm')
+        expect(assetKindFor('/hooks/ui.jsx', false, 'application/json')).toBeNull()
+        expect(assetKindFor('/api/config', false, 'application/json; charset=utf-8')).toBe('json')
+        expect(assetKindFor('/api/config', false, 'text/javascript')).toBeNull()
+    })
+
+    test('?raw turns any file into text', () => {
+        expect(splitAssetQuery('./ui.jsx?raw')).toEqual({ specifier: './ui.jsx', raw: true })
+        expect(splitAssetQuery('./ui.jsx')).toEqual({ specifier: './ui.jsx', raw: false })
+        expect(assetKindFor('/hooks/data.json', true)).toBe('text')
+    })
+})
+
+describe('buildTextAssetModule', () => {
+    test('exposes identifier keys of JSON and YAML objects as named exports', () => {
+        expect(buildTextAssetModule('json', '/a.json', '{"title":"x","my-key":1,"default":2}')).toEqual({
+            default: { title: 'x', 'my-key': 1, default: 2 },
+            title: 'x',
+        })
+        expect(buildTextAssetModule('yaml', '/a.yaml', 'title: x\nitems:\n  - 1\n')).toEqual({
+            default: { title: 'x', items: [1] },
+            title: 'x',
+            items: [1],
+        })
+        expect(buildTextAssetModule('json', '/a.json', '[1,2]')).toEqual({ default: [1, 2] })
+    })
+
+    test('reports parse errors as ModuleLoadError', () => {
+        expect(() => buildTextAssetModule('json', '/hooks/a.json', '{')).toThrow(ModuleLoadError)
+        expect(() => buildTextAssetModule('yaml', '/hooks/a.yaml', 'a: [')).toThrow(/\/hooks\/a\.yaml is not valid YAML/)
+    })
+
+    test('registers CSS when the client applies stylesheets', () => {
+        const registerCss = jest.fn()
+        expect(buildTextAssetModule('css', '/hooks/a.css', '.a{}', { registerCss })).toEqual({ default: '.a{}' })
+        expect(registerCss).toHaveBeenCalledWith('/hooks/a.css', '.a{}')
+        expect(buildTextAssetModule('css', '/hooks/a.css', '.a{}')).toEqual({ default: '.a{}' })
+    })
+
+    test('compiles wasm and offers instantiate()', async () => {
+        // Smallest valid module: magic number and version
+        const bytes = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]).buffer
+        const mod = await buildWasmModule('/hooks/a.wasm', bytes)
+        expect(mod.default).toBeInstanceOf(WebAssembly.Module)
+        expect((await mod.instantiate()).exports).toEqual({})
+        await expect(buildWasmModule('/hooks/b.wasm', new ArrayBuffer(4))).rejects.toBeInstanceOf(ModuleLoadError)
+    })
+})
+
+describe('loaders - asset imports', () => {
+    const files: Record<string, { body: string; type: string }> = {
+        '/hooks/client/data.json': { body: '{"items":[1,2]}', type: 'application/json' },
+        '/hooks/client/config.yaml': { body: 'theme: dark', type: 'text/yaml' },
+        '/hooks/client/styles.css': { body: '.card{color:red}', type: 'text/css' },
+        '/hooks/client/ui.jsx': { body: 'export default () => null', type: 'text/javascript' },
+        '/hooks/client/math.wasm': { body: '', type: 'application/wasm' },
+    }
+
+    beforeEach(() => {
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => {
+            const file = files[new URL(url).pathname]
+            return {
+                ok: !!file,
+                status: file ? 200 : 404,
+                statusText: '',
+                headers: { get: () => file?.type ?? null },
+                text: async () => file?.body ?? '',
+                arrayBuffer: async () => new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]).buffer,
+            }
+        })
+    })
+
+    const createLoader = (options: Partial<ConstructorParameters<typeof HookLoader>[0]> = {}) => {
+        const moduleLoader: ModuleLoader = { executeModule: jest.fn(async () => ({ default: 'executed' })) }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+            ...options,
+        })
+        return { loader, moduleLoader }
+    }
+
+    test('HookLoader builds asset modules instead of executing them', async () => {
+        const registerCss = jest.fn()
+        const { loader, moduleLoader } = createLoader({ registerCss })
+        const ctx = {} as HookContext
+        const from = '/hooks/client/get-client.jsx'
+
+        expect(await loader.loadModule('./data.json', from, ctx)).toEqual({ default: { items: [1, 2] }, items: [1, 2] })
+        expect((await loader.loadModule('./config.yaml', from, ctx)).theme).toBe('dark')
+        expect(await loader.loadModule('./styles.css', from, ctx)).toEqual({ default: '.card{color:red}' })
+        expect(registerCss).toHaveBeenCalledWith('/hooks/client/styles.css', '.card{color:red}')
+        expect((await loader.loadModule('./math.wasm', from, ctx)).default).toBeInstanceOf(WebAssembly.Module)
+        expect(moduleLoader.executeModule).not.toHaveBeenCalled()
+
+        // ?raw is cached separately from the executed module
+        expect(await loader.loadModule('./ui.jsx?raw', from, ctx)).toEqual({ default: 'export default () => null' })
+        expect(await loader.loadModule('./ui.jsx', from, ctx)).toEqual({ default: 'executed' })
+        expect(moduleLoader.executeModule).toHaveBeenCalledTimes(1)
+    })
+
+    test('HookLoader refuses wasm when the integrity verifier requires verified modules', async () => {
+        const integrity = { cachedSource: async () => null, accepts: (r: any) => r.status === 'verified' } as any
+        const { loader } = createLoader({ integrity })
+        await expect(loader.loadModule('./math.wasm', '/hooks/client/get-client.jsx', {} as HookContext))
+            .rejects.toBeInstanceOf(IntegrityError)
+    })
+
+    test('HookLoader.fetchModule hands the sandbox assets as data modules, with repo headers', async () => {
+        const registerCss = jest.fn()
+        const { loader } = createLoader({ registerCss })
+        const ctx = { helpers: { buildRepoHeaders: () => ({ 'x-relay-branch': 'dev' }) } } as unknown as HookContext
+        const from = '/hooks/client/get-client.jsx'
+
+        const data = await loader.fetchModule('./data.json', from, ctx)
+        expect(data.filename).toBe('/hooks/client/data.json')
+        expect(data.code).toContain('const __asset = {"default":{"items":[1,2]},"items":[1,2]};')
+        expect(data.code).toContain('export { __asset0 as items };')
+        expect((await loader.fetchModule('./ui.jsx?raw', from, ctx)).code).toContain('"default":"export default () => null"')
+        await loader.fetchModule('./styles.css', from, ctx)
+        expect(registerCss).toHaveBeenCalledWith('/hooks/client/styles.css', '.card{color:red}')
+        await expect(loader.fetchModule('./math.wasm', from, ctx)).rejects.toThrow('cannot be imported by sandboxed hooks')
+        for (const [, init] of (globalThis as any).fetch.mock.calls) expect(init.headers).toMatchObject({ 'x-relay-branch': 'dev' })
+    })
+
+    test('ES6ImportHandler builds the same asset modules', async () => {
+        const registerCss = jest.fn()
+        const handler = new ES6ImportHandler({ host: 'peer.local', protocol: 'http', registerCss })
+        expect(await handler.handle('./data.json')).toEqual({ default: { items: [1, 2] }, items: [1, 2] })
+        expect(await handler.handle('./styles.css')).toEqual({ default: '.card{color:red}' })
+        expect(await handler.handle('./ui.jsx?raw')).toEqual({ default: 'export default () => null' })
+        expect(registerCss).toHaveBeenCalledTimes(1)
+        expect(handler.getCacheStats().entries).toEqual([
+            'peer.local:/hooks/client/data.json',
+            'peer.local:/hooks/client/styles.css',
+            'peer.local:/hooks/client/ui.jsx?raw',
+        ])
+    })
+})
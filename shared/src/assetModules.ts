@@ -0,0 +1,146 @@
+/**
+ * Asset Modules for Hook Imports
+ *
+ * Hooks can import non-code files; they resolve to modules instead of being
+ * transpiled and executed:
+ *
+ *   import data from './data.json'       // parsed JSON (top-level keys also as named exports)
+ *   import config from './config.yaml'   // parsed YAML, same shape as JSON
+ *   import css from './styles.css'       // CSS text; registered with the style manager on web
+ *   import readme from './README.md?raw' // any file as text
+ *   import wasm from './math.wasm'       // WebAssembly.Module, plus instantiate(imports)
+ *
+ * The kind comes from the extension (or `?raw`), falling back to the
+ * response content-type for files without a known extension.
+ */
+
+import { parse as parseYAML } from 'yaml'
+import type { IntegrityResult } from './integrity'
+import { ModuleLoadError } from './loaderErrors'
+
+export type AssetKind = 'json' | 'yaml' | 'css' | 'text' | 'wasm'
+
+export interface AssetModuleOptions {
+  /** Apply a CSS module's stylesheet (e.g. styleManager.registerModuleCss); omitted on clients without CSS */
+  registerCss?: (id: string, css: string) => void
+}
+
+const EXTENSION_KINDS: Record<string, AssetKind> = {
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  css: 'css',
+  txt: 'text',
+  md: 'text',
+  wasm: 'wasm',
+}
+
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Split a `?raw` suffix off an import specifier
+ */
+export function splitAssetQuery(spec: string): { specifier: string; raw: boolean } {
+  const match = spec.match(/^(.*)\?raw$/)
+  return match ? { specifier: match[1], raw: true } : { specifier: spec, raw: false }
+}
+
+/**
+ * Asset kind for a module path, or null for code
+ * @param path Resolved module path (without `?raw`)
+ * @param raw Whether the import asked for the file as text
+ * @param contentType Response content-type, consulted when the extension is not a known asset type
+ */
+export function assetKindFor(path: string, raw: boolean = false, contentType?: string | null): AssetKind | null {
+  if (raw) return 'text'
+  const name = path.slice(path.lastIndexOf('/') + 1)
+  const ext = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : ''
+  if (EXTENSION_KINDS[ext]) return EXTENSION_KINDS[ext]
+  if (/\.(?:[cm]?[jt]sx?)$/i.test(name)) return null
+  const type = (contentType || '').toLowerCase()
+  if (type.includes('application/json')) return 'json'
+  if (type.includes('yaml')) return 'yaml'
+  if (type.includes('text/css')) return 'css'
+  if (type.includes('application/wasm')) return 'wasm'
+  return null
+}
+
+function dataModule(data: unknown): Record<string, any> {
+  const mod: Record<string, any> = { default: data }
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      if (IDENTIFIER_RE.test(key) && key !== 'default') mod[key] = value
+    }
+  }
+  return mod
+}
+
+/**
+ * Build the exports of a text asset
+ * @param kind Asset kind (not wasm)
+ * @param path Module path, used in errors and as the stylesheet id
+ * @param text File contents
+ */
+export function buildTextAssetModule(kind: Exclude<AssetKind, 'wasm'>, path: string, text: string, options: AssetModuleOptions = {}): Record<string, any> {
+  switch (kind) {
+    case 'json':
+      try {
+        return dataModule(JSON.parse(text))
+      } catch (err) {
+        throw new ModuleLoadError(`${path} is not valid JSON: ${(err as Error).message}`, { filename: path, cause: err })
+      }
+    case 'yaml':
+      try {
+        return dataModule(parseYAML(text))
+      } catch (err) {
+        throw new ModuleLoadError(`${path} is not valid YAML: ${(err as Error).message}`, { filename: path, cause: err })
+      }
+    case 'css':
+      options.registerCss?.(path, text)
+      return { default: text }
+    case 'text':
+      return { default: text }
+  }
+}
+
+/**
+ * ES module source exporting a text asset's exports, for realms that get
+ * modules as code (e.g. the hook sandbox). Exports must be JSON data.
+ */
+export function assetModuleSource(exports: Record<string, any>): string {
+  const lines = [`const __asset = ${JSON.stringify(exports)};`, 'export default __asset.default;']
+  Object.keys(exports).filter((key) => key !== 'default').forEach((key, i) => {
+    lines.push(`const __asset${i} = __asset[${JSON.stringify(key)}];`, `export { __asset${i} as ${key} };`)
+  })
+  return lines.join('\n')
+}
+
+/**
+ * Integrity result for a binary module. The manifest hashes sources as text,
+ * so binaries are never verified; verifiers that require verification refuse them.
+ */
+export function binaryModuleIntegrity(path: string): IntegrityResult {
+  return { status: 'unverified', path, commit: null, reason: 'binary modules are not in the integrity manifest' }
+}
+
+/**
+ * Build the exports of a WebAssembly module
+ * @param path Module path, used in errors
+ * @param bytes Module binary
+ */
+export async function buildWasmModule(path: string, bytes: ArrayBuffer): Promise<Record<string, any>> {
+  const wasm = (globalThis as any).WebAssembly
+  if (!wasm || typeof wasm.compile !== 'function') {
+    throw new ModuleLoadError(`${path}: WebAssembly is not available on this client`, { filename: path })
+  }
+  let compiled: unknown
+  try {
+    compiled = await wasm.compile(bytes)
+  } catch (err) {
+    throw new ModuleLoadError(`${path} is not a valid WebAssembly module: ${(err as Error).message}`, { filename: path, cause: err })
+  }
+  return {
+    default: compiled,
+    instantiate: (imports: Record<string, any> = {}) => wasm.instantiate(compiled, imports),
+  }
+}
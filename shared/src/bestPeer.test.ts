@@ -0,0 +1,55 @@
+/**
+ * Tests for choosing the best peer for a repo
+ */
+
+import { choosePeerSwitch, listHostedRepos, pickBestPeer, rankPeersForRepo, type RankablePeer } from './bestPeer'
+import { summarizePeerHealth } from './peerHealth'
+
+const site = (head: string) => [{ name: 'site', branches: { main: head } }]
+const up = (latencyMs: number) => [{ protocol: 'https', ok: true, latencyMs }, { protocol: 'ipfs-gateway', ok: true, latencyMs: 1 }]
+
+const peers: RankablePeer[] = [
+    { host: 'fast-stale.example', probes: up(10), reposWithBranches: site('old') },
+    { host: 'a.example', probes: up(80), reposWithBranches: site('new') },
+    { host: 'b.example', probes: up(40), reposWithBranches: site('new') },
+    { host: 'down.example', probes: [{ protocol: 'https', ok: false }], reposWithBranches: site('new') },
+    { host: 'other.example', probes: up(5), reposWithBranches: [{ name: 'docs', branches: { main: 'x' } }] },
+    { host: 'unprobed.example', probes: [], reposWithBranches: site('new') },
+]
+
+describe('rankPeersForRepo', () => {
+    test('prefers reachable peers at the consensus head, then latency', () => {
+        const ranked = rankPeersForRepo(peers, 'site')
+        expect(ranked.map((s) => s.host)).toEqual(['b.example', 'a.example', 'fast-stale.example', 'down.example', 'unprobed.example'])
+        expect(ranked[2]).toMatchObject({ fresh: false, head: 'old', latencyMs: 10 })
+        expect(ranked[3]).toMatchObject({ measured: true, reachable: false, score: 0 })
+        expect(ranked[4]).toMatchObject({ measured: false, reachable: false, score: 0 })
+        expect(pickBestPeer(peers, 'docs')?.host).toBe('other.example')
+        expect(pickBestPeer(peers, 'missing')).toBeNull()
+    })
+
+    test('uses a known head and the probe history', () => {
+        expect(pickBestPeer(peers, 'site', { head: 'old' })?.host).toBe('fast-stale.example')
+        const flaky = summarizePeerHealth([{ ts: 1, ok: false }, { ts: 2, ok: false }, { ts: 3, ok: true, latencyMs: 40 }])
+        const stable = summarizePeerHealth([{ ts: 1, ok: true, latencyMs: 80 }])
+        expect(pickBestPeer(peers, 'site', { health: { 'b.example': flaky, 'a.example': stable } })?.host).toBe('a.example')
+    })
+})
+
+describe('choosePeerSwitch', () => {
+    test('moves a tab off a degraded peer but not for small differences', () => {
+        const ranked = rankPeersForRepo(peers, 'site')
+        expect(choosePeerSwitch(ranked, 'down.example')?.host).toBe('b.example')
+        expect(choosePeerSwitch(ranked, 'fast-stale.example')?.host).toBe('b.example')
+        // Only a peer measured as worse is left
+        expect(choosePeerSwitch(ranked, 'unprobed.example')).toBeNull()
+        expect(choosePeerSwitch(ranked, 'gone.example')).toBeNull()
+        expect(choosePeerSwitch(ranked, 'a.example')).toBeNull()
+        expect(choosePeerSwitch(ranked, 'a.example', { margin: 0.01 })?.host).toBe('b.example')
+        expect(choosePeerSwitch(ranked, 'b.example')).toBeNull()
+    })
+
+    test('lists every hosted repo once', () => {
+        expect(listHostedRepos(peers)).toEqual(['docs', 'site'])
+    })
+})
@@ -0,0 +1,149 @@
+/**
+ * Best-peer Selection per Repository
+ *
+ * When several peers host a repo, each is scored on four signals:
+ *
+ * - reachability: a peer whose API did not answer the last probe never wins
+ * - latency: the last probe, or the history's p50 when the probe had none
+ * - freshness: whether its branch head is the current one. Heads are bare
+ *   commit hashes, so without a known head the one most reachable peers
+ *   agree on counts as current and peers at any other head as stale
+ * - history: uptime over the recorded probe rounds (see peerHealth.ts)
+ *
+ * A live tab only moves when its peer was probed and found down or stale,
+ * or another peer scores clearly better, so small latency swings do not
+ * bounce it around. A peer that was not probed yet keeps its tabs.
+ */
+
+import type { PeerHealthSummary } from './peerHealth'
+import { isPeerApiProbe } from './peerProbes'
+
+/**
+ * What ranking needs to know about a peer (a subset of the client's peer state)
+ */
+export interface RankablePeer {
+  host: string
+  probes?: Array<{ protocol?: string; ok: boolean; latencyMs?: number }>
+  reposWithBranches?: Array<{ name: string; branches: Record<string, string> }>
+}
+
+export interface PeerScore {
+  host: string
+  /** 0-1; unreachable peers score 0 */
+  score: number
+  /** Whether the peer was probed at all; an unprobed peer is unreachable but not known to be down */
+  measured: boolean
+  reachable: boolean
+  latencyMs: number | null
+  /** Its head of the branch; null when it does not have the branch */
+  head: string | null
+  fresh: boolean
+  uptime: number | null
+}
+
+export interface BestPeerOptions {
+  /** Branch whose head is compared (default: main) */
+  branch?: string
+  /** Head known to be current (e.g. the one the tab shows); the peers' consensus otherwise */
+  head?: string | null
+  /** Health summaries by host */
+  health?: Record<string, PeerHealthSummary | undefined>
+}
+
+export interface PeerSwitchOptions {
+  /** Score difference that justifies moving a healthy tab (default: 0.15) */
+  margin?: number
+}
+
+const FRESHNESS_WEIGHT = 0.4
+const LATENCY_WEIGHT = 0.3
+const UPTIME_WEIGHT = 0.3
+// Latency at which the latency part of the score halves
+const LATENCY_HALF_MS = 200
+const DEFAULT_SWITCH_MARGIN = 0.15
+
+function currentLatency(peer: RankablePeer): { reachable: boolean; latencyMs: number | null } {
+  const api = (peer.probes || []).filter((p) => p.ok && isPeerApiProbe(p))
+  const measured = api.map((p) => p.latencyMs).filter((l): l is number => typeof l === 'number')
+  return { reachable: api.length > 0, latencyMs: measured.length > 0 ? Math.min(...measured) : null }
+}
+
+/**
+ * Score the peers that host a repo
+ * @param repo Repo name as listed in OPTIONS
+ * @returns Peers that list the repo, best first; unreachable ones last
+ */
+export function rankPeersForRepo(peers: RankablePeer[], repo: string, options: BestPeerOptions = {}): PeerScore[] {
+  const branch = options.branch || 'main'
+  const hosting = peers
+    .map((peer) => ({ peer, entry: (peer.reposWithBranches || []).find((r) => r.name === repo) }))
+    .filter((h): h is { peer: RankablePeer; entry: { name: string; branches: Record<string, string> } } => !!h.entry)
+    .map(({ peer, entry }) => ({ peer, head: entry.branches?.[branch] ?? null, measured: (peer.probes || []).length > 0, ...currentLatency(peer) }))
+
+  let current = options.head ?? null
+  if (!current) {
+    const votes = new Map<string, number>()
+    for (const h of hosting) {
+      if (h.reachable && h.head) votes.set(h.head, (votes.get(h.head) || 0) + 1)
+    }
+    let best = 0
+    votes.forEach((count, head) => {
+      if (count > best) {
+        best = count
+        current = head
+      }
+    })
+  }
+
+  const scores = hosting.map(({ peer, head, measured, reachable, latencyMs }): PeerScore => {
+    const health = options.health?.[peer.host]
+    const latency = latencyMs ?? health?.p50 ?? null
+    const uptime = health?.uptime ?? null
+    const fresh = head !== null && (current === null || head === current)
+    const latencyScore = latency === null ? 0.5 : LATENCY_HALF_MS / (LATENCY_HALF_MS + latency)
+    const score = reachable
+      ? FRESHNESS_WEIGHT * (fresh ? 1 : 0) + LATENCY_WEIGHT * latencyScore + UPTIME_WEIGHT * (uptime ?? 1)
+      : 0
+    return { host: peer.host, score, measured, reachable, latencyMs: latency, head, fresh, uptime }
+  })
+  return scores.sort((a, b) => b.score - a.score || a.host.localeCompare(b.host))
+}
+
+/**
+ * The peer to open a repo on
+ * @returns null when no reachable peer hosts it
+ */
+export function pickBestPeer(peers: RankablePeer[], repo: string, options: BestPeerOptions = {}): PeerScore | null {
+  const [best] = rankPeersForRepo(peers, repo, options)
+  return best && best.reachable ? best : null
+}
+
+/**
+ * Whether a live tab should move from its peer to the best one
+ * @param ranked Result of rankPeersForRepo
+ * @param currentHost The tab's peer
+ * @returns The peer to switch to, or null to stay (always while the tab's peer is unmeasured or not listed)
+ */
+export function choosePeerSwitch(ranked: PeerScore[], currentHost: string, options: PeerSwitchOptions = {}): PeerScore | null {
+  const best = ranked[0]
+  if (!best || !best.reachable || best.host === currentHost) return null
+  const current = ranked.find((s) => s.host === currentHost)
+  // Without a probe of the tab's peer there is nothing to compare against
+  if (!current || !current.measured) return null
+  // A peer that went down or fell behind is left for any healthy one
+  if (!current.reachable || (!current.fresh && best.fresh)) return best
+  return best.score - current.score >= (options.margin ?? DEFAULT_SWITCH_MARGIN) ? best : null
+}
+
+/**
+ * Repo names hosted by any of the peers, sorted
+ */
+export function listHostedRepos(peers: RankablePeer[]): string[] {
+  const names = new Set<string>()
+  for (const peer of peers) {
+    for (const repo of peer.reposWithBranches || []) {
+      if (repo?.name) names.add(repo.name)
+    }
+  }
+  return Array.from(names).sort()
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for the hook capability manifest and gated helpers
+ */
+
+import {
+    buildCapabilityHelpers,
+    grantedCapabilityKeys,
+    parseCapabilityManifest,
+    pendingCapabilityRequests,
+    type CapabilityPlatform,
+} from './capabilities'
+
+describe('parseCapabilityManifest', () => {
+    test('reads the object form and normalizes fetch origins', () => {
+        const manifest = parseCapabilityManifest({
+            client: { capabilities: { fetch: ['https://api.example.com/v1', 'not a url'], storage: true, theme: true } },
+        })
+        expect(manifest).toEqual({
+            fetch: ['https://api.example.com'],
+            storage: true,
+            clipboard: false,
+            autoplay: false,
+            theme: true,
+            declared: true,
+        })
+    })
+
+    test('reads the list form', () => {
+        const manifest = parseCapabilityManifest({ client: { capabilities: ['clipboard', { fetch: 'https://x.test' }] } })
+        expect(manifest.clipboard).toBe(true)
+        expect(manifest.fetch).toEqual(['https://x.test'])
+        expect(manifest.theme).toBe(false)
+    })
+
+    test('repos without a manifest keep theme registration only', () => {
+        const manifest = parseCapabilityManifest({ client: {} })
+        expect(manifest.declared).toBe(false)
+        expect(grantedCapabilityKeys(manifest)).toEqual(['theme'])
+        expect(pendingCapabilityRequests(manifest)).toEqual([])
+    })
+})
+
+describe('buildCapabilityHelpers', () => {
+    const manifest = parseCapabilityManifest({
+        client: { capabilities: { fetch: ['https://api.example.com'], storage: true, clipboard: true } },
+    })
+    const store: Record<string, string> = {}
+    const platform: CapabilityPlatform = {
+        fetch: jest.fn(async (url: string) => ({ ok: true, url }) as unknown as Response),
+        storage: {
+            getItem: (key) => store[key] ?? null,
+            setItem: (key, value) => { store[key] = value },
+            removeItem: (key) => { delete store[key] },
+        },
+        clipboard: { readText: async () => '', writeText: async () => { } },
+    }
+
+    test('sensitive capabilities stay pending until decided', () => {
+        expect(pendingCapabilityRequests(manifest, {}).map((r) => r.key)).toEqual([
+            'fetch:https://api.example.com',
+            'storage',
+            'clipboard',
+        ])
+        expect(pendingCapabilityRequests(manifest, { storage: 'denied' }).map((r) => r.key)).not.toContain('storage')
+    })
+
+    test('only exposes granted helpers', async () => {
+        const helpers = buildCapabilityHelpers(manifest, { storage: 'granted', clipboard: 'denied' }, {
+            scope: 'peer.local/repo',
+            peerOrigin: 'http://peer.local',
+            platform,
+        })
+        expect(helpers.clipboard).toBeUndefined()
+        expect(helpers.registerThemeStyles).toBeUndefined()
+        expect(helpers.capabilities?.has('storage')).toBe(true)
+        expect(helpers.capabilities?.has('fetch')).toBe(false)
+
+        await helpers.storage?.setItem('k', 'v')
+        expect(store['relay_hook_storage:peer.local/repo:k']).toBe('v')
+        expect(await helpers.storage?.getItem('k')).toBe('v')
+
+        await expect(helpers.fetch?.('https://api.example.com/data')).rejects.toThrow(/CapabilityError/)
+        await helpers.fetch?.('/data.json')
+        expect(platform.fetch).toHaveBeenCalledWith('http://peer.local/data.json', undefined)
+    })
+
+    test('granted fetch origins are allowed', async () => {
+        const helpers = buildCapabilityHelpers(manifest, { 'fetch:https://api.example.com': 'granted' }, {
+            scope: 'peer.local',
+            platform,
+        })
+        await expect(helpers.fetch?.('https://api.example.com/data')).resolves.toBeTruthy()
+        await expect(helpers.fetch?.('https://evil.test/')).rejects.toThrow(/not granted/)
+    })
+})
@@ -0,0 +1,260 @@
+/**
+ * Hook Capability Manifest
+ *
+ * Repositories declare what their client hooks need under `client.capabilities`
+ * in `.relay.yaml`, which the peer serves as part of its OPTIONS payload:
+ *
+ *   client:
+ *     capabilities:
+ *       fetch: [https://api.example.com]   # cross-origin fetch targets
+ *       storage: true                       # persistent key/value storage
+ *       clipboard: true
+ *       autoplay: true                      # media autoplay
+ *       theme: true                         # theme registration
+ *
+ * A list form (`capabilities: [theme, storage]`) is accepted as well.
+ * Sensitive capabilities need a per host/repo decision from the user; the
+ * helpers built here only expose what the manifest declares and the user
+ * granted.
+ *
+ * That is only enforced for hooks in the sandbox (SandboxModuleLoader), which
+ * reach these helpers through the host and have no network, storage or
+ * clipboard of their own. Hooks executing in the client's realm (the web
+ * client without the sandbox, the mobile client) can call the platform APIs
+ * directly, so there the grants only decide what the helpers offer.
+ */
+
+import type { HookHelpers } from './runtimeLoader'
+
+export type HookCapability = 'fetch' | 'storage' | 'clipboard' | 'autoplay' | 'theme'
+
+export interface CapabilityManifest {
+  /** Origins hooks may fetch from besides the peer itself */
+  fetch: string[]
+  storage: boolean
+  clipboard: boolean
+  autoplay: boolean
+  theme: boolean
+  /** False when the repo has no `client.capabilities` entry (legacy repos) */
+  declared: boolean
+}
+
+/**
+ * One grantable item: a capability, or a single fetch origin
+ */
+export interface CapabilityRequest {
+  /** Decision key, e.g. `storage` or `fetch:https://api.example.com` */
+  key: string
+  capability: HookCapability
+  origin?: string
+  sensitive: boolean
+}
+
+export type CapabilityDecision = 'granted' | 'denied'
+
+/** Decisions for one host/repo scope, keyed by CapabilityRequest.key */
+export type CapabilityGrants = Record<string, CapabilityDecision>
+
+/**
+ * Namespaced key/value storage exposed as helpers.storage
+ */
+export interface HookStorage {
+  getItem: (key: string) => Promise<string | null>
+  setItem: (key: string, value: string) => Promise<void>
+  removeItem: (key: string) => Promise<void>
+}
+
+export interface HookClipboard {
+  readText: () => Promise<string>
+  writeText: (text: string) => Promise<void>
+}
+
+/**
+ * What a hook can check about its own capabilities (helpers.capabilities)
+ */
+export interface HookCapabilityState {
+  granted: string[]
+  has: (capability: HookCapability | string) => boolean
+}
+
+/**
+ * Platform backends the capability helpers delegate to
+ */
+export interface CapabilityPlatform {
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>
+  storage?: {
+    getItem: (key: string) => Promise<string | null> | string | null
+    setItem: (key: string, value: string) => Promise<void> | void
+    removeItem: (key: string) => Promise<void> | void
+  }
+  clipboard?: HookClipboard
+}
+
+const SENSITIVE: Record<HookCapability, boolean> = {
+  fetch: true,
+  storage: true,
+  clipboard: true,
+  autoplay: true,
+  theme: false,
+}
+
+const CAPABILITY_LABELS: Record<HookCapability, string> = {
+  fetch: 'Fetch data from',
+  storage: 'Store data on this device',
+  clipboard: 'Read and write the clipboard',
+  autoplay: 'Autoplay audio and video',
+  theme: 'Register themes',
+}
+
+function normalizeOrigin(value: string): string | null {
+  try {
+    return new URL(value).origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the capability manifest from an OPTIONS payload
+ * @param options OPTIONS payload (merged .relay.yaml + server additions)
+ */
+export function parseCapabilityManifest(options: unknown): CapabilityManifest {
+  const raw = (options as { client?: { capabilities?: unknown } } | null)?.client?.capabilities
+  const manifest: CapabilityManifest = {
+    fetch: [],
+    storage: false,
+    clipboard: false,
+    autoplay: false,
+    // Theme registration predates the manifest; repos without one keep it
+    theme: raw === undefined || raw === null,
+    declared: raw !== undefined && raw !== null,
+  }
+  if (!manifest.declared) return manifest
+
+  const entries: Record<string, unknown> = {}
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (typeof item === 'string') entries[item] = true
+      else if (item && typeof item === 'object') Object.assign(entries, item)
+    }
+  } else if (typeof raw === 'object') {
+    Object.assign(entries, raw)
+  }
+
+  const fetchTargets = entries.fetch
+  const origins = Array.isArray(fetchTargets) ? fetchTargets : typeof fetchTargets === 'string' ? [fetchTargets] : []
+  manifest.fetch = Array.from(new Set(origins.map((o) => normalizeOrigin(String(o))).filter((o): o is string => !!o)))
+  manifest.storage = entries.storage === true
+  manifest.clipboard = entries.clipboard === true
+  manifest.autoplay = entries.autoplay === true
+  manifest.theme = entries.theme === true
+  return manifest
+}
+
+/**
+ * List every grantable item the manifest declares
+ */
+export function listCapabilityRequests(manifest: CapabilityManifest): CapabilityRequest[] {
+  const requests: CapabilityRequest[] = manifest.fetch.map((origin) => ({
+    key: `fetch:${origin}`,
+    capability: 'fetch' as const,
+    origin,
+    sensitive: SENSITIVE.fetch,
+  }))
+  for (const capability of ['storage', 'clipboard', 'autoplay', 'theme'] as const) {
+    if (manifest[capability]) requests.push({ key: capability, capability, sensitive: SENSITIVE[capability] })
+  }
+  return requests
+}
+
+/**
+ * Sensitive requests the user has not decided on yet
+ */
+export function pendingCapabilityRequests(manifest: CapabilityManifest, grants: CapabilityGrants = {}): CapabilityRequest[] {
+  return listCapabilityRequests(manifest).filter((r) => r.sensitive && !grants[r.key])
+}
+
+/**
+ * Keys of the requests that are in effect: declared, and granted when sensitive
+ */
+export function grantedCapabilityKeys(manifest: CapabilityManifest, grants: CapabilityGrants = {}): string[] {
+  return listCapabilityRequests(manifest)
+    .filter((r) => !r.sensitive || grants[r.key] === 'granted')
+    .map((r) => r.key)
+}
+
+/**
+ * Human readable description of a request, for prompts and settings
+ */
+export function describeCapabilityRequest(request: Pick<CapabilityRequest, 'capability' | 'origin'>): string {
+  const label = CAPABILITY_LABELS[request.capability] || request.capability
+  return request.origin ? `${label} ${request.origin}` : label
+}
+
+/**
+ * Decision key prefix for a request key (e.g. `fetch:https://x` -> `fetch`)
+ */
+export function capabilityOfKey(key: string): HookCapability {
+  return key.split(':')[0] as HookCapability
+}
+
+/**
+ * Build the capability-gated part of HookHelpers
+ * @param manifest Parsed manifest of the repo
+ * @param grants User decisions for this host/repo
+ * @param options.scope Host/repo scope; namespaces persistent storage
+ * @param options.peerOrigin Origin of the peer, which hooks can always fetch from
+ * @param options.platform Platform implementations to delegate to
+ * @param options.themeHelpers Theme registration helpers, exposed only when granted
+ */
+export function buildCapabilityHelpers(
+  manifest: CapabilityManifest,
+  grants: CapabilityGrants,
+  options: {
+    scope: string
+    peerOrigin?: string
+    platform: CapabilityPlatform
+    themeHelpers?: Pick<HookHelpers, 'registerThemeStyles' | 'registerThemesFromYaml'>
+  }
+): Partial<HookHelpers> {
+  const granted = grantedCapabilityKeys(manifest, grants)
+  const has = (capability: string) => granted.includes(capability) || granted.some((k) => capabilityOfKey(k) === capability)
+  const helpers: Partial<HookHelpers> = {
+    capabilities: { granted, has },
+  }
+  const { platform } = options
+
+  const fetchOrigins = granted.filter((k) => k.startsWith('fetch:')).map((k) => k.slice('fetch:'.length))
+  const peerOrigin = options.peerOrigin ? normalizeOrigin(options.peerOrigin) : null
+  if (platform.fetch && (fetchOrigins.length > 0 || peerOrigin)) {
+    const platformFetch = platform.fetch
+    helpers.fetch = (url: string, init?: RequestInit) => {
+      const origin = normalizeOrigin(url) ?? peerOrigin
+      if (!origin || (origin !== peerOrigin && !fetchOrigins.includes(origin))) {
+        return Promise.reject(new Error(`CapabilityError: fetch to ${origin || url} is not granted for ${options.scope}`))
+      }
+      return platformFetch(peerOrigin && !normalizeOrigin(url) ? `${peerOrigin}${url.startsWith('/') ? url : `/${url}`}` : url, init)
+    }
+  }
+
+  if (platform.storage && has('storage')) {
+    const backend = platform.storage
+    const prefix = `relay_hook_storage:${options.scope}:`
+    helpers.storage = {
+      getItem: async (key) => (await backend.getItem(prefix + key)) ?? null,
+      setItem: async (key, value) => { await backend.setItem(prefix + key, String(value)) },
+      removeItem: async (key) => { await backend.removeItem(prefix + key) },
+    }
+  }
+
+  if (platform.clipboard && has('clipboard')) {
+    helpers.clipboard = platform.clipboard
+  }
+
+  if (has('theme') && options.themeHelpers) {
+    helpers.registerThemeStyles = options.themeHelpers.registerThemeStyles
+    helpers.registerThemesFromYaml = options.themeHelpers.registerThemesFromYaml
+  }
+
+  return helpers
+}
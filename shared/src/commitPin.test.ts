@@ -0,0 +1,34 @@
+/**
+ * Tests for pinning a tab to a commit
+ */
+
+import { commitsBehind, describeCommitPin, observeBranchHead, pinCommit } from './commitPin'
+import { buildRepoHeaders } from './urlBuilder'
+
+describe('commit pins', () => {
+    const pin = pinCommit('a'.repeat(40), 'main', 1000)
+
+    test('counts distinct heads seen since pinning', () => {
+        expect(observeBranchHead(pin, pin.commit)).toBe(pin)
+        expect(observeBranchHead(pin, null)).toBe(pin)
+
+        const moved = observeBranchHead(observeBranchHead(pin, 'b'.repeat(40)), 'c'.repeat(40))
+        expect(observeBranchHead(moved, 'c'.repeat(40))).toBe(moved)
+        expect(commitsBehind(moved)).toBe(2)
+        expect(describeCommitPin(moved)).toBe('pinned @aaaaaaa — newer commits available (≥2)')
+        expect(describeCommitPin(pin)).toBe('pinned @aaaaaaa — no newer commits seen')
+
+        // Branch reset to an earlier head
+        expect(observeBranchHead(moved, 'b'.repeat(40)).headsSince).toEqual(['b'.repeat(40)])
+        expect(commitsBehind(observeBranchHead(moved, pin.commit))).toBe(0)
+    })
+
+    test('buildRepoHeaders sends the pinned commit', () => {
+        expect(buildRepoHeaders('main', 'demo', 'abc')).toEqual({
+            'x-relay-branch': 'main',
+            'x-relay-repo': 'demo',
+            'x-relay-commit': 'abc',
+        })
+        expect(buildRepoHeaders('main')).toEqual({ 'x-relay-branch': 'main' })
+    })
+})
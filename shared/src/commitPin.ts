@@ -0,0 +1,57 @@
+/**
+ * Commit Pinning
+ *
+ * A tab pinned to a commit sends `x-relay-commit` (see buildRepoHeaders) with
+ * every repo request, so its hooks and files stay on that snapshot while the
+ * branch keeps moving. Peers only advertise branch heads, not history, so
+ * the count of newer commits is the number of distinct heads seen since
+ * pinning: only a lower bound, since several commits may land between two
+ * head polls and heads are not seen while the tab is closed.
+ */
+
+export interface CommitPin {
+  /** Full commit hash the tab is pinned to */
+  commit: string
+  /** Branch the commit was pinned from */
+  branch: string
+  pinnedAt: number
+  /** Newer branch heads observed since pinning, oldest first */
+  headsSince: string[]
+}
+
+/**
+ * Pin a branch at a commit
+ */
+export function pinCommit(commit: string, branch: string, now: number = Date.now()): CommitPin {
+  return { commit, branch, pinnedAt: now, headsSince: [] }
+}
+
+/**
+ * Record a branch head seen while pinned. Returns the same pin when nothing changed,
+ * so callers can skip persisting it.
+ */
+export function observeBranchHead(pin: CommitPin, head: string | null | undefined): CommitPin {
+  if (!head) return pin
+  // The branch came back to the pin or an earlier head (force-push): drop what followed it
+  if (head === pin.commit) return pin.headsSince.length ? { ...pin, headsSince: [] } : pin
+  if (pin.headsSince[pin.headsSince.length - 1] === head) return pin
+  const seen = pin.headsSince.indexOf(head)
+  const headsSince = seen >= 0 ? pin.headsSince.slice(0, seen + 1) : [...pin.headsSince, head]
+  return { ...pin, headsSince }
+}
+
+/**
+ * How many commits the pin is known to be behind the branch head (at least; see above)
+ */
+export function commitsBehind(pin: CommitPin): number {
+  return pin.headsSince.length
+}
+
+/**
+ * Short status line, e.g. "pinned @abc1234 — newer commits available (≥3)"
+ */
+export function describeCommitPin(pin: CommitPin): string {
+  const behind = commitsBehind(pin)
+  const status = behind === 0 ? 'no newer commits seen' : `newer commits available (≥${behind})`
+  return `pinned @${pin.commit.slice(0, 7)} — ${status}`
+}
@@ -9,12 +9,31 @@
  *   const { formatDate } = await import('@relay/shared')
  */
 
+import { registerModuleExecution, registerModuleSource } from './sourceMaps'
+import { DEFAULT_HOOK_PATH, type ImportMapResolver } from './importMap'
+import { ModuleResolver, createHttpProbe } from './moduleResolver'
+import { describeIntegrityFailure, type IntegrityVerifier } from './integrity'
+import { IntegrityError, ModuleLoadError } from './loaderErrors'
+import { beginSpan, type LoaderTrace } from './loaderTrace'
+import { assetKindFor, binaryModuleIntegrity, buildTextAssetModule, buildWasmModule, splitAssetQuery } from './assetModules'
+
 export interface ImportHandlerOptions {
   host: string
   protocol?: 'http' | 'https'
-  baseUrl?: string
   onDiagnostics?: (diag: any) => void
   transpiler?: (code: string, filename: string) => Promise<string>
+  /** Resolver shared with HookLoader (see HookLoader.getResolver) */
+  resolver?: ModuleResolver
+  /** Import map shared with HookLoader, when no resolver is passed */
+  importMap?: ImportMapResolver
+  /** Modules the client provides for built-in specifiers */
+  builtinModules?: Record<string, any>
+  /** Verifier shared with HookLoader; sources that fail verification are not executed */
+  integrity?: IntegrityVerifier
+  /** Trace shared with HookLoader, so imports appear on the same timeline */
+  trace?: LoaderTrace
+  /** Applies stylesheets imported by hooks (see HookLoaderOptions.registerCss) */
+  registerCss?: (id: string, css: string) => void
 }
 
 /**
@@ -25,9 +44,14 @@ export class ES6ImportHandler {
   private transpiling = new Map<string, Promise<any>>()
   private host: string
   private protocol: 'http' | 'https'
-  private baseUrl: string
   private onDiagnostics: (diag: any) => void
   private transpiler: (code: string, filename: string) => Promise<string>
+  private resolver: ModuleResolver
+  private importMap: ImportMapResolver
+  private builtinModules: Record<string, any>
+  private integrity?: IntegrityVerifier
+  private trace?: LoaderTrace
+  private registerCss?: (id: string, css: string) => void
   private currentModulePath: string | null = null
   private executionContext: any = null
   private loadModuleDelegate: ((modulePath: string, fromPath?: string | null, ctx?: any) => Promise<any>) | null = null
@@ -35,11 +59,17 @@ export class ES6ImportHandler {
   constructor(options: ImportHandlerOptions) {
     this.host = options.host
     this.protocol = options.protocol || 'https'
-    this.baseUrl = options.baseUrl || '/hooks'
     this.onDiagnostics = options.onDiagnostics || ((diag: any) => {
       console.debug('[ES6ImportHandler] Diagnostics:', diag)
     })
     this.transpiler = options.transpiler || this.defaultTranspiler
+    this.builtinModules = options.builtinModules || {}
+    this.resolver = options.resolver || new ModuleResolver({ importMap: options.importMap })
+    this.importMap = this.resolver.importMap
+    this.integrity = options.integrity
+    this.trace = options.trace
+    this.registerCss = options.registerCss
+    this.importMap.addBuiltins(Object.keys(this.builtinModules))
   }
 
   /**
@@ -79,8 +109,14 @@ export class ES6ImportHandler {
    * Called as: const mod = await __import__('./utils.mjs')
    */
   async handle(modulePath: string): Promise<any> {
-    const normalizedPath = this.normalizePath(modulePath)
-    const cacheKey = `${this.host}:${normalizedPath}`
+    if (this.importMap.isBuiltin(modulePath)) {
+      if (modulePath in this.builtinModules) return this.builtinModules[modulePath]
+      if (this.loadModuleDelegate) return this.loadModuleDelegate(modulePath, this.currentModulePath, this.executionContext)
+      throw new ModuleLoadError(`Built-in module ${modulePath} is not provided by this client`, { filename: modulePath })
+    }
+    const { specifier, raw } = splitAssetQuery(modulePath)
+    const normalizedPath = await this.normalizePath(specifier)
+    const cacheKey = `${this.host}:${normalizedPath}${raw ? '?raw' : ''}`
 
     this.onDiagnostics({
       phase: 'import',
@@ -93,6 +129,7 @@ export class ES6ImportHandler {
     // Check cache first
     if (this.moduleCache.has(cacheKey)) {
       console.debug('[ES6ImportHandler] Cache hit:', cacheKey)
+      beginSpan(this.trace, normalizedPath, 'import', 'ES6ImportHandler').end({ cacheHit: true })
       return this.moduleCache.get(cacheKey)
     }
 
@@ -117,7 +154,8 @@ export class ES6ImportHandler {
         }
       }
       // Fetch and transpile module
-      return this.loadAndTranspile(modulePath, normalizedPath, cacheKey)
+      if (!raw && assetKindFor(normalizedPath) === 'wasm') return this.loadWasmModule(normalizedPath, cacheKey)
+      return this.loadAndTranspile(modulePath, normalizedPath, cacheKey, raw)
     })()
     this.transpiling.set(cacheKey, promise)
 
@@ -130,36 +168,72 @@ export class ES6ImportHandler {
   }
 
   /**
-   * Fetch, transpile, and execute a module
+   * Fetch, transpile, and execute a module. Asset files (JSON, YAML, CSS,
+   * `?raw` text) are turned into modules without transpiling.
    */
   private async loadAndTranspile(
     originalPath: string,
     normalizedPath: string,
-    cacheKey: string
+    cacheKey: string,
+    raw: boolean = false
   ): Promise<any> {
     const startTime = Date.now()
     console.debug('[ES6ImportHandler] Loading module:', { originalPath, normalizedPath })
 
+    let span = beginSpan(this.trace, normalizedPath, 'fetch', 'ES6ImportHandler')
     try {
       // Fetch module source from host
       const moduleUrl = `${this.protocol}://${this.host}${normalizedPath}`
-      console.debug('[ES6ImportHandler] Fetching from:', moduleUrl)
-
-      const response = await fetch(moduleUrl)
-      if (!response.ok) {
-        throw new Error(`Failed to fetch ${moduleUrl}: ${response.status} ${response.statusText}`)
+      let code = this.integrity ? await this.integrity.cachedSource(normalizedPath) : null
+      const cacheHit = code !== null
+      let contentType: string | null = null
+      if (code === null) {
+        console.debug('[ES6ImportHandler] Fetching from:', moduleUrl)
+        const response = await fetch(moduleUrl)
+        if (!response.ok) {
+          throw new ModuleLoadError(`Failed to fetch ${moduleUrl}: ${response.status} ${response.statusText}`, {
+            url: moduleUrl,
+            status: response.status,
+            filename: normalizedPath,
+          })
+        }
+        code = await response.text()
+        contentType = response.headers.get('content-type')
+        console.debug('[ES6ImportHandler] Fetched code, length:', code.length)
+
+        if (this.integrity) {
+          const integrity = await this.integrity.verify(normalizedPath, code)
+          if (!this.integrity.accepts(integrity)) {
+            this.onDiagnostics({ phase: 'integrity', modulePath: normalizedPath, integrity })
+            throw new IntegrityError(describeIntegrityFailure(integrity), { url: moduleUrl, filename: normalizedPath })
+          }
+        }
       }
 
-      const code = await response.text()
-      console.debug('[ES6ImportHandler] Fetched code, length:', code.length)
-
-      // Transpile the code
-      console.debug('[ES6ImportHandler] Transpiling:', normalizedPath)
-      const transpiled = await this.transpiler(code, normalizedPath)
-      console.debug('[ES6ImportHandler] Transpiled code, length:', transpiled.length)
-
-      // Execute module with ES6 import support
-      const moduleExports = await this.executeModule(transpiled, normalizedPath)
+      span.end({ bytes: code.length, cacheHit, servedBy: `${this.protocol}://${this.host}` })
+
+      const asset = assetKindFor(normalizedPath, raw, contentType)
+      if (asset === 'wasm') return this.loadWasmModule(normalizedPath, cacheKey)
+      let moduleExports: any
+      if (asset) {
+        span = beginSpan(this.trace, normalizedPath, 'import', 'ES6ImportHandler')
+        moduleExports = buildTextAssetModule(asset, normalizedPath, code, { registerCss: this.registerCss })
+        span.end({ cacheHit: false })
+      } else {
+        // Transpile the code
+        console.debug('[ES6ImportHandler] Transpiling:', normalizedPath)
+        span = beginSpan(this.trace, normalizedPath, 'transform', 'ES6ImportHandler')
+        registerModuleSource(normalizedPath, code)
+        const transpiled = await this.transpiler(code, normalizedPath)
+        registerModuleSource(normalizedPath, code, transpiled)
+        console.debug('[ES6ImportHandler] Transpiled code, length:', transpiled.length)
+        span.end({ bytes: transpiled.length })
+
+        // Execute module with ES6 import support
+        span = beginSpan(this.trace, normalizedPath, 'import', 'ES6ImportHandler')
+        moduleExports = await this.executeModule(transpiled, normalizedPath)
+        span.end({ cacheHit: false })
+      }
 
       // Cache the result
       this.moduleCache.set(cacheKey, moduleExports)
@@ -180,6 +254,7 @@ export class ES6ImportHandler {
 
       return moduleExports
     } catch (err) {
+      span.fail(err)
       const duration = Date.now() - startTime
       console.error('[ES6ImportHandler] Failed to load module:', {
         path: normalizedPath,
@@ -199,6 +274,48 @@ export class ES6ImportHandler {
     }
   }
 
+  /**
+   * Fetch and compile a WebAssembly module
+   */
+  private async loadWasmModule(normalizedPath: string, cacheKey: string): Promise<any> {
+    const moduleUrl = `${this.protocol}://${this.host}${normalizedPath}`
+    let span = beginSpan(this.trace, normalizedPath, 'fetch', 'ES6ImportHandler')
+    try {
+      if (this.integrity) {
+        const integrity = binaryModuleIntegrity(normalizedPath)
+        if (!this.integrity.accepts(integrity)) {
+          this.onDiagnostics({ phase: 'integrity', modulePath: normalizedPath, integrity })
+          throw new IntegrityError(describeIntegrityFailure(integrity), { url: moduleUrl, filename: normalizedPath })
+        }
+      }
+      const response = await fetch(moduleUrl)
+      if (!response.ok) {
+        throw new ModuleLoadError(`Failed to fetch ${moduleUrl}: ${response.status} ${response.statusText}`, {
+          url: moduleUrl,
+          status: response.status,
+          filename: normalizedPath,
+        })
+      }
+      const bytes = await response.arrayBuffer()
+      span.end({ bytes: bytes.byteLength, cacheHit: false, servedBy: `${this.protocol}://${this.host}` })
+
+      span = beginSpan(this.trace, normalizedPath, 'import', 'ES6ImportHandler')
+      const moduleExports = await buildWasmModule(normalizedPath, bytes)
+      span.end({ cacheHit: false })
+      this.moduleCache.set(cacheKey, moduleExports)
+      return moduleExports
+    } catch (err) {
+      span.fail(err)
+      this.onDiagnostics({
+        phase: 'import',
+        action: 'load_error',
+        modulePath: normalizedPath,
+        error: err instanceof Error ? err.message : String(err),
+      })
+      throw err
+    }
+  }
+
   /**
    * Execute module code with ES6 import support
    */
@@ -227,6 +344,9 @@ return (async function(){
       `
       )
 
+      // Module code starts on line 7 of the generated Function source
+      registerModuleExecution(filename, { lineOffset: 6 })
+
       // Execute with import handler bound to this
       await fn(this.handle.bind(this), module, moduleExports)
 
@@ -239,46 +359,20 @@ return (async function(){
   }
 
   /**
-   * Normalize a module path to absolute path
+   * Normalize a module path to absolute path, relative to the currently executing module.
+   * Extensionless paths are probed on the host (see ModuleResolver).
    */
-  private normalizePath(modulePath: string): string {
-    // Handle relative imports relative to current module path when available
-    if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
-      try {
-        const base = this.currentModulePath && this.currentModulePath.startsWith('/')
-          ? this.currentModulePath
-          : `${this.baseUrl}/client/get-client.jsx`
-        const baseUrl = new URL(base, 'http://resolver.local')
-        const resolvedUrl = new URL(modulePath, baseUrl)
-        const resolved = resolvedUrl.pathname
-        console.debug('[ES6ImportHandler] Resolved relative path:', { modulePath, from: this.currentModulePath, resolved })
-        return resolved
-      } catch {
-        // Fallback to naive join with baseUrl
-        const cleaned = modulePath.replace(/^\.\//g, '')
-        const resolved = `${this.baseUrl}/${cleaned}`.replace(/\/+/g, '/').replace(/\/\.\//g, '/')
-        console.debug('[ES6ImportHandler] Resolved (fallback) relative path:', { modulePath, resolved })
-        return resolved
-      }
-    }
-
-    // Handle absolute imports
-    if (modulePath.startsWith('/')) {
-      return modulePath
+  private async normalizePath(modulePath: string): Promise<string> {
+    const fromPath = this.currentModulePath && this.currentModulePath.startsWith('/')
+      ? this.currentModulePath
+      : DEFAULT_HOOK_PATH
+    const exists = createHttpProbe((path, init) => fetch(`${this.protocol}://${this.host}${path}`, init))
+    const resolution = await this.resolver.resolveFile(modulePath, fromPath, exists)
+    if (resolution.type === 'builtin') {
+      throw new ModuleLoadError(`${modulePath} is a built-in module, not a peer path`, { filename: modulePath })
     }
-
-    // Handle @relay/* or other scoped imports
-    if (modulePath.startsWith('@')) {
-      // Map @relay/shared to actual module path
-      if (modulePath.startsWith('@relay/shared')) {
-        // This would need to be a special case - for now return as-is
-        return `/hooks${modulePath}`
-      }
-      return `${this.baseUrl}/${modulePath}`
-    }
-
-    // Default: assume relative to /hooks/
-    return `${this.baseUrl}/${modulePath}`
+    console.debug('[ES6ImportHandler] Resolved path:', { modulePath, from: this.currentModulePath, resolved: resolution.path })
+    return resolution.path
   }
 
   /**
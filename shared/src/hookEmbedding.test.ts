@@ -0,0 +1,136 @@
+/**
+ * Tests for relay:// URIs and hooks embedded from other repos
+ */
+
+import { EmbeddedHooks, embeddedPeerOrigin, embeddingUnavailable, formatRelayUri, parseRelayUri } from './hookEmbedding'
+import { ModuleLoadError } from './loaderErrors'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+const CLOCK = 'relay://node2.example/widgets@main/hooks/client/clock.jsx'
+
+function mockFetch(files: Record<string, string>) {
+    const fetchMock = jest.fn(async (url: string, _init?: RequestInit) => {
+        const body = files[url]
+        return {
+            ok: body !== undefined,
+            status: body !== undefined ? 200 : 404,
+            statusText: body !== undefined ? 'OK' : 'Not Found',
+            headers: { get: () => 'text/javascript' },
+            text: async () => body ?? '',
+        }
+    })
+    ;(globalThis as any).fetch = fetchMock
+    return fetchMock
+}
+
+// Hooks render their params, repo headers and peer URL so tests can see which context they ran with
+const moduleLoader: ModuleLoader = {
+    executeModule: jest.fn(async (code: string, filename: string) => ({
+        default: (ctx: HookContext) => ({ code, filename, params: ctx.params, headers: ctx.helpers.buildRepoHeaders?.(), url: ctx.helpers.buildPeerUrl('x') }),
+    })),
+}
+
+function embedded(registerTheme = jest.fn()) {
+    const createLoader = jest.fn((target) => new HookLoader({
+        host: target.host,
+        protocol: 'https',
+        moduleLoader,
+        transpiler: async (code) => code,
+    }))
+    const hooks = new EmbeddedHooks({
+        createLoader,
+        createContext: () => ({ React: {}, createElement: () => null, FileRenderer: () => null }),
+        registerTheme,
+    })
+    return { hooks, createLoader, registerTheme }
+}
+
+describe('relay:// URIs', () => {
+    test('parse and format', () => {
+        expect(parseRelayUri(CLOCK)).toEqual({ host: 'node2.example', repo: 'widgets', branch: 'main', path: '/hooks/client/clock.jsx' })
+        const feature = parseRelayUri('relay://127.0.0.1:8080/my%20repo@feature%2Fdark/hooks/a.jsx')
+        expect(feature).toEqual({ host: '127.0.0.1:8080', repo: 'my repo', branch: 'feature/dark', path: '/hooks/a.jsx' })
+        expect(formatRelayUri(feature)).toBe('relay://127.0.0.1:8080/my%20repo@feature%2Fdark/hooks/a.jsx')
+        expect(parseRelayUri('relay://peer/widgets/hooks/a.jsx').branch).toBeUndefined()
+    })
+
+    test('peer origins keep the scheme the peer list names', () => {
+        expect(embeddedPeerOrigin({ host: 'node2.example' })).toBe('https://node2.example')
+        expect(embeddedPeerOrigin({ host: '10.0.0.7:8080' })).toBe('http://10.0.0.7:8080')
+        const peers = ['https://10.0.0.7:8080', 'http://node2.example', 'plain.example:8443']
+        expect(embeddedPeerOrigin({ host: '10.0.0.7:8080' }, peers)).toBe('https://10.0.0.7:8080')
+        expect(embeddedPeerOrigin({ host: 'node2.example' }, peers)).toBe('http://node2.example')
+        expect(embeddedPeerOrigin({ host: 'plain.example:8443' }, peers)).toBe('http://plain.example:8443')
+    })
+
+    test('malformed URIs are module load errors', () => {
+        for (const bad of ['relay://peer/hooks', 'relay://peer/widgets@main/', 'relay:///widgets/a.jsx', 'https://peer/widgets/a.jsx']) {
+            expect(() => parseRelayUri(bad)).toThrow(ModuleLoadError)
+        }
+    })
+})
+
+describe('EmbeddedHooks', () => {
+    test('renders a hook with its own repo headers, peer and params', async () => {
+        const fetchMock = mockFetch({ 'https://node2.example/hooks/client/clock.jsx': 'clock' })
+        const { hooks } = embedded()
+        const element = await hooks.loadHook(CLOCK, { tz: 'UTC' })
+        expect(element).toMatchObject({
+            code: 'clock',
+            params: { tz: 'UTC' },
+            headers: { 'x-relay-repo': 'widgets', 'x-relay-branch': 'main' },
+            url: 'https://node2.example/x',
+        })
+        expect(fetchMock.mock.calls[0][1]?.headers).toEqual({ 'x-relay-repo': 'widgets', 'x-relay-branch': 'main' })
+    })
+
+    test('one loader and module cache per host/repo/branch', async () => {
+        const fetchMock = mockFetch({
+            'https://node2.example/hooks/client/lib.js': 'lib',
+            'https://node3.example/hooks/client/lib.js': 'other peer',
+        })
+        const { hooks, createLoader } = embedded()
+        const first = await hooks.importModule('relay://node2.example/widgets@main/hooks/client/lib.js')
+        expect(await hooks.importModule('relay://node2.example/widgets@main/hooks/client/lib.js')).toBe(first)
+        await hooks.importModule('relay://node2.example/widgets@dev/hooks/client/lib.js')
+        const other = await hooks.importModule('relay://node3.example/widgets@main/hooks/client/lib.js')
+        expect(other.default({ params: {}, helpers: { buildPeerUrl: () => '' } }).code).toBe('other peer')
+        expect(createLoader).toHaveBeenCalledTimes(3)
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+        expect(hooks.loaderFor(parseRelayUri(CLOCK))).toBe(createLoader.mock.results[0].value)
+    })
+
+    test('theme registrations are namespaced to the embedded repo', async () => {
+        mockFetch({ 'https://node2.example/hooks/client/theme.yaml': 'default_theme: dark\nthemes:\n  dark: { name: Dark }\n' })
+        const { hooks, registerTheme } = embedded()
+        const target = parseRelayUri(CLOCK)
+        const { helpers } = hooks.contextFor(target)
+        helpers.registerThemeStyles?.('default', { button: {} })
+        await helpers.registerThemesFromYaml?.('./theme.yaml')
+        expect(registerTheme.mock.calls).toEqual([
+            ['relay://node2.example/widgets@main#default', { button: {} }],
+            ['relay://node2.example/widgets@main#dark', { name: 'Dark' }],
+        ])
+        expect(hooks.themesOf(target)).toEqual(['relay://node2.example/widgets@main#default', 'relay://node2.example/widgets@main#dark'])
+    })
+})
+
+describe('HookLoader - relay:// imports', () => {
+    test('are delegated to the embedding loaders, or rejected without them', async () => {
+        const importRelayUri = jest.fn(async () => ({ embedded: true }))
+        const loader = new HookLoader({ host: 'peer.local', protocol: 'http', moduleLoader, importRelayUri })
+        expect(await loader.loadModule(CLOCK, '/hooks/client/get-client.jsx', {} as HookContext)).toEqual({ embedded: true })
+        expect(importRelayUri).toHaveBeenCalledWith(CLOCK)
+
+        const plain = new HookLoader({ host: 'peer.local', protocol: 'http', moduleLoader })
+        await expect(plain.loadModule(CLOCK, '/hooks/client/get-client.jsx', {} as HookContext)).rejects.toThrow(ModuleLoadError)
+    })
+
+    test('clients without embedding say why renderHook and relay:// imports fail', async () => {
+        const { renderHook, importRelayUri } = embeddingUnavailable('sandboxed hooks cannot embed hooks from other repos')
+        expect(() => renderHook(CLOCK)).toThrow(ModuleLoadError)
+        expect(() => renderHook(CLOCK)).toThrow(`${CLOCK}: sandboxed hooks cannot embed`)
+        const loader = new HookLoader({ host: 'peer.local', protocol: 'http', moduleLoader, importRelayUri })
+        await expect(loader.loadModule(CLOCK, '/hooks/client/get-client.jsx', {} as HookContext)).rejects.toThrow('sandboxed hooks cannot embed')
+    })
+})
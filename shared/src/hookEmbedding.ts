@@ -0,0 +1,285 @@
+/**
+ * Cross-Repository Hook Embedding
+ *
+ * A hook can render a hook published by another repo, or import one of its
+ * modules, through a `relay://` URI naming the peer, repo and branch:
+ *
+ *   const clock = helpers.renderHook('relay://node2.example/widgets@main/hooks/client/clock.jsx', { tz: 'UTC' })
+ *   import { formatDate } from 'relay://node2.example/widgets@main/hooks/client/lib/date.js'
+ *
+ * Every host/repo/branch gets its own HookLoader, so its resolver, import map
+ * and module cache are separate from the embedding repo's, and its requests
+ * carry its own repo headers. Themes it registers are namespaced under its
+ * URI so they cannot replace the embedding repo's themes.
+ */
+
+import { parse as parseYAML } from 'yaml'
+import type { ComponentType, HookContext, HookHelpers, HookLoader } from './runtimeLoader'
+import type { HookInstance } from './hookLifecycle'
+import { resolveRelativePath } from './importMap'
+import { ModuleLoadError } from './loaderErrors'
+import { normalizePeerHost, peerHostScheme } from './peerDiscovery'
+import { buildPeerUrl, buildRepoHeaders } from './urlBuilder'
+
+export const RELAY_URI_SCHEME = 'relay://'
+
+/**
+ * A module in another repo, as named by a relay:// URI
+ */
+export interface RelayHookTarget {
+  /** Peer host, with its port when not the default */
+  host: string
+  repo: string
+  /** Omitted to use the peer's default branch */
+  branch?: string
+  /** Absolute path of the module within the repo */
+  path: string
+}
+
+// relay://host[:port]/repo[@branch]/path, with repo and branch URI-encoded
+const RELAY_URI_RE = /^relay:\/\/([^/?#@]+)\/([^/?#@]+)(?:@([^/?#]+))?(\/[^?#]*)$/
+
+/**
+ * Whether a module specifier is a relay:// URI
+ */
+export function isRelayUri(spec: string): boolean {
+  return typeof spec === 'string' && spec.startsWith(RELAY_URI_SCHEME)
+}
+
+/**
+ * Parse `relay://host/repo@branch/path`
+ * @throws ModuleLoadError when the URI is malformed
+ */
+export function parseRelayUri(uri: string): RelayHookTarget {
+  const match = RELAY_URI_RE.exec(uri)
+  if (!match || match[4] === '/') {
+    throw new ModuleLoadError(`Invalid relay URI "${uri}"; expected relay://host/repo@branch/path/to/module.jsx`, { filename: uri })
+  }
+  try {
+    const target: RelayHookTarget = { host: match[1], repo: decodeURIComponent(match[2]), path: match[4] }
+    if (match[3]) target.branch = decodeURIComponent(match[3])
+    return target
+  } catch (cause) {
+    throw new ModuleLoadError(`Invalid relay URI "${uri}": bad percent-encoding`, { filename: uri, cause })
+  }
+}
+
+/**
+ * The relay:// URI of a target (inverse of parseRelayUri)
+ */
+export function formatRelayUri(target: RelayHookTarget): string {
+  return `${embeddedScopeKey(target)}${target.path}`
+}
+
+/**
+ * Identifies the repo checkout a target is loaded from; targets with the same
+ * key share a loader. Also the namespace of the themes its hooks register.
+ */
+export function embeddedScopeKey(target: Pick<RelayHookTarget, 'host' | 'repo' | 'branch'>): string {
+  const branch = target.branch ? `@${encodeURIComponent(target.branch)}` : ''
+  return `${RELAY_URI_SCHEME}${target.host}/${encodeURIComponent(target.repo)}${branch}`
+}
+
+/**
+ * Base URL of a target's peer, with the scheme its peer list entry names.
+ * Hosts not listed with one are assumed to be plain HTTP when they have an
+ * explicit port.
+ * @param knownPeers Peer hosts as the user listed them, e.g. `http://10.0.0.7:8080`
+ */
+export function embeddedPeerOrigin(target: Pick<RelayHookTarget, 'host'>, knownPeers: string[] = []): string {
+  const key = normalizePeerHost(target.host)
+  const listed = knownPeers.find((peer) => peerHostScheme(peer) && normalizePeerHost(peer) === key)
+  const scheme = listed ? peerHostScheme(listed) : target.host.includes(':') ? 'http' : 'https'
+  return `${scheme}://${target.host}`
+}
+
+/**
+ * helpers.renderHook and the relay:// import handler for a client or mode
+ * that does not embed other repos; both fail with a ModuleLoadError saying why
+ * @param reason e.g. "sandboxed hooks cannot embed hooks from other repos"
+ */
+export function embeddingUnavailable(reason: string): {
+  renderHook: NonNullable<HookHelpers['renderHook']>
+  importRelayUri: (uri: string) => Promise<never>
+} {
+  const unavailable = (uri: string) => new ModuleLoadError(`${uri}: ${reason}`, { filename: uri })
+  return {
+    renderHook: (uri) => {
+      throw unavailable(uri)
+    },
+    importRelayUri: async (uri) => {
+      throw unavailable(uri)
+    },
+  }
+}
+
+/**
+ * Name an embedded repo's theme is registered under, e.g. `relay://peer/widgets@main#dark`
+ */
+export function embeddedThemeName(target: Pick<RelayHookTarget, 'host' | 'repo' | 'branch'>, name: string): string {
+  return `${embeddedScopeKey(target)}#${name}`
+}
+
+/**
+ * Theme helpers handed to an embedded repo's hooks (and its `@relay/theme` import)
+ */
+export interface EmbeddedThemeHelpers {
+  registerThemeStyles: (themeName: string, definitions?: Record<string, unknown>) => void
+  registerThemesFromYaml: (path: string) => Promise<void>
+}
+
+export interface EmbeddedHooksOptions {
+  /**
+   * Build the loader for another repo. Give it its own resolver (not the
+   * embedding repo's) and the theme helpers as its `@relay/theme` built-in.
+   */
+  createLoader: (target: RelayHookTarget, themes: EmbeddedThemeHelpers) => HookLoader
+  /** React, createElement and FileRenderer for an embedded repo's hooks */
+  createContext: (target: RelayHookTarget) => { React: any; createElement: any; FileRenderer: ComponentType<{ path: string }> }
+  /** Platform implementation of helpers.renderHook, offered to embedded hooks too */
+  renderHook?: HookHelpers['renderHook']
+  /** Registers a theme under its namespaced name, e.g. unifiedBridge.registerTheme */
+  registerTheme: (name: string, definitions?: Record<string, unknown>) => void
+  /** Called after an embedded hook registered themes, e.g. to re-render CSS */
+  onThemesChanged?: () => void
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>
+  /** Peer hosts as the user listed them, so embedded peers keep their scheme */
+  knownPeers?: () => string[]
+}
+
+interface EmbeddedScope {
+  loader: HookLoader
+  themes: Set<string>
+}
+
+/**
+ * The loaders of the repos one renderer embeds hooks from, one per host/repo/branch
+ */
+export class EmbeddedHooks {
+  private options: EmbeddedHooksOptions
+  private scopes: Map<string, EmbeddedScope> = new Map()
+
+  constructor(options: EmbeddedHooksOptions) {
+    this.options = options
+  }
+
+  /**
+   * The loader for a target's repo, created on first use
+   */
+  loaderFor(target: RelayHookTarget): HookLoader {
+    return this.scopeFor(target).loader
+  }
+
+  /**
+   * Namespaced names of the themes a repo's hooks registered
+   */
+  themesOf(target: Pick<RelayHookTarget, 'host' | 'repo' | 'branch'>): string[] {
+    return Array.from(this.scopes.get(embeddedScopeKey(target))?.themes || [])
+  }
+
+  /**
+   * Build the context a module of the target's repo runs with
+   * @param target Repo the module belongs to
+   * @param fromPath Module path relative imports resolve against
+   * @param params Props passed to helpers.renderHook
+   * @param instance Lifecycle of the rendering, for helpers.onDispose
+   */
+  contextFor(target: RelayHookTarget, fromPath: string = target.path, params: Record<string, any> = {}, instance?: HookInstance): HookContext {
+    const { loader } = this.scopeFor(target)
+    const themes = this.themeHelpers(target)
+    const origin = this.peerOrigin(target)
+    const helpers: HookHelpers = {
+      buildPeerUrl: (p) => buildPeerUrl(origin, p.startsWith('/') ? p : `/${p}`),
+      loadModule: (spec, from) => {
+        if (isRelayUri(spec)) return this.importModule(spec)
+        const path = from || fromPath
+        return loader.loadModule(spec, path, this.contextFor(target, path, params, instance))
+      },
+      buildRepoHeaders: () => buildRepoHeaders(target.branch, target.repo),
+      ...themes,
+      onDispose: (cleanup) => {
+        if (instance) instance.onDispose(cleanup)
+        else void cleanup()
+      },
+    }
+    if (this.options.renderHook) helpers.renderHook = this.options.renderHook
+    return { ...this.options.createContext(target), Layout: undefined, params, helpers }
+  }
+
+  /**
+   * Base URL of a target's peer (see embeddedPeerOrigin)
+   */
+  peerOrigin(target: Pick<RelayHookTarget, 'host'>): string {
+    return embeddedPeerOrigin(target, this.options.knownPeers?.() || [])
+  }
+
+  /**
+   * Import a module of another repo (a `relay://` import)
+   * @returns The module's exports
+   */
+  async importModule(uri: string): Promise<any> {
+    const target = parseRelayUri(uri)
+    return this.loaderFor(target).loadModule(target.path, target.path, this.contextFor(target))
+  }
+
+  /**
+   * Load and execute a hook of another repo, as helpers.renderHook does
+   * @param uri relay:// URI of the hook module
+   * @param props Passed to the hook as `context.params`
+   * @param instance Lifecycle of this rendering
+   * @returns The element the hook returned
+   */
+  async loadHook(uri: string, props: Record<string, any> = {}, instance?: HookInstance): Promise<any> {
+    const target = parseRelayUri(uri)
+    return this.loaderFor(target).loadAndExecuteHook(target.path, this.contextFor(target, target.path, props, instance), instance)
+  }
+
+  /**
+   * Drop every embedded repo's loader and module cache
+   */
+  clear(): void {
+    this.scopes.forEach((scope) => scope.loader.clearCache())
+    this.scopes.clear()
+  }
+
+  private scopeFor(target: RelayHookTarget): EmbeddedScope {
+    const key = embeddedScopeKey(target)
+    let scope = this.scopes.get(key)
+    if (!scope) {
+      scope = { loader: this.options.createLoader(target, this.themeHelpers(target)), themes: new Set() }
+      this.scopes.set(key, scope)
+    }
+    return scope
+  }
+
+  private themeHelpers(target: RelayHookTarget): EmbeddedThemeHelpers {
+    const add = (name: string, definitions?: Record<string, unknown>) => {
+      const namespaced = embeddedThemeName(target, name)
+      this.options.registerTheme(namespaced, definitions)
+      this.scopes.get(embeddedScopeKey(target))?.themes.add(namespaced)
+    }
+    return {
+      registerThemeStyles: (name, definitions) => {
+        add(name, definitions)
+        this.options.onThemesChanged?.()
+      },
+      // The YAML's default_theme is ignored: an embedded repo never picks the page's theme
+      registerThemesFromYaml: async (path) => {
+        const fetcher = this.options.fetch || ((url: string, init?: RequestInit) => fetch(url, init))
+        const url = buildPeerUrl(this.peerOrigin(target), resolveRelativePath(path, target.path))
+        try {
+          const response = await fetcher(url, { headers: buildRepoHeaders(target.branch, target.repo) })
+          if (!response.ok) {
+            console.warn('[EmbeddedHooks] Failed to fetch themes from', url, response.status)
+            return
+          }
+          const config = parseYAML(await response.text()) as { themes?: Record<string, Record<string, unknown>> } | null
+          for (const [name, definitions] of Object.entries(config?.themes || {})) add(name, definitions)
+          this.options.onThemesChanged?.()
+        } catch (e) {
+          console.warn('[EmbeddedHooks] registerThemesFromYaml failed:', url, e)
+        }
+      },
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for hook instance disposal and the per-instance hook globals
+ */
+
+import { HookInstance, resetHookGlobals } from './hookLifecycle'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('HookInstance', () => {
+    afterEach(() => resetHookGlobals())
+
+    test('runs cleanups newest first, once, and keeps going past failures', async () => {
+        const instance = new HookInstance('/hooks/client/get-client.jsx')
+        const calls: string[] = []
+        instance.onDispose(() => { calls.push('first') })
+        instance.onDispose(() => { throw new Error('boom') })
+        instance.onDispose(async () => { calls.push('last') })
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => { })
+
+        await instance.dispose()
+        await instance.dispose()
+        expect(calls).toEqual(['last', 'first'])
+        expect(warn).toHaveBeenCalledTimes(1)
+        expect(instance.isDisposed).toBe(true)
+        warn.mockRestore()
+    })
+
+    test('a cleanup registered after disposal runs immediately', async () => {
+        const instance = new HookInstance('/hooks/a.jsx')
+        await instance.dispose()
+        const cleanup = jest.fn()
+        instance.onDispose(cleanup)
+        expect(cleanup).toHaveBeenCalled()
+    })
+
+    test('adopts the module unmount export, falling back to dispose', async () => {
+        const context = { helpers: {} } as HookContext
+        const unmount = jest.fn()
+        const first = new HookInstance('/hooks/a.jsx')
+        first.attach(context)
+        first.adopt({ default: () => null, unmount })
+        await first.dispose()
+        expect(unmount).toHaveBeenCalledWith(context)
+
+        const dispose = jest.fn()
+        const second = new HookInstance('/hooks/b.jsx')
+        second.adopt({ default: () => null, dispose })
+        await second.dispose()
+        expect(dispose).toHaveBeenCalled()
+    })
+
+    test('each instance starts with fresh globals and only clears its own', async () => {
+        const g = globalThis as any
+        g.__ctx__ = { stale: true }
+        g.__relay_meta = { filename: '/hooks/old.jsx' }
+
+        const first = new HookInstance('/hooks/a.jsx')
+        first.attach({} as HookContext)
+        expect(g.__ctx__).toBeUndefined()
+        expect(g.__relay_meta).toBeUndefined()
+
+        const second = new HookInstance('/hooks/b.jsx')
+        second.attach({} as HookContext)
+        g.__relay_meta = { filename: '/hooks/b.jsx' }
+        await first.dispose()
+        expect(g.__relay_meta).toEqual({ filename: '/hooks/b.jsx' })
+        await second.dispose()
+        expect(g.__relay_meta).toBeUndefined()
+    })
+})
+
+describe('HookLoader - hook lifecycle', () => {
+    beforeEach(() => {
+        ;(globalThis as any).fetch = jest.fn(async () => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: { get: () => 'text/javascript' },
+            text: async () => 'export default () => "ok"',
+        }))
+    })
+
+    test('hands the executed module to the instance', async () => {
+        const unmount = jest.fn()
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async () => ({ default: () => 'ok', unmount })),
+        }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+        })
+        const instance = new HookInstance('/hooks/client/get-client.js')
+        const context = {} as HookContext
+        expect(await loader.loadAndExecuteHook('/hooks/client/get-client.js', context, instance)).toBe('ok')
+        expect(unmount).not.toHaveBeenCalled()
+        await instance.dispose()
+        expect(unmount).toHaveBeenCalledWith(context)
+    })
+})
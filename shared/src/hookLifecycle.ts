@@ -0,0 +1,109 @@
+/**
+ * Hook Instance Lifecycle
+ *
+ * A HookInstance is one rendering of a hook: created by the renderer before
+ * loadAndExecuteHook and disposed when the tab closes, the host or hook path
+ * changes, or a hot reload replaces it. Hooks release intervals, streams and
+ * listeners in either of two ways:
+ *
+ *   export function unmount(context) { clearInterval(timer) }  // or `dispose`
+ *
+ *   helpers.onDispose(() => stream.getTracks().forEach((t) => t.stop()))
+ *
+ * Cleanups run in reverse registration order; a cleanup registered after
+ * disposal (e.g. by a hook that finished loading late) runs immediately.
+ */
+
+import type { HookContext } from './runtimeLoader'
+
+export type HookCleanup = () => void | Promise<void>
+
+// Globals the web loaders set while a hook module executes
+const HOOK_GLOBALS = ['__ctx__', '__relay_meta', '__hook_helpers', '__hook_file_renderer', '__currentModulePath']
+
+// The instance whose hook most recently started executing, i.e. the owner of the globals
+let globalsOwner: HookInstance | null = null
+
+/**
+ * Remove the per-execution hook globals so the next hook cannot see the previous one's
+ */
+export function resetHookGlobals(): void {
+  const g = globalThis as any
+  for (const name of HOOK_GLOBALS) {
+    try { delete g[name] } catch { }
+  }
+}
+
+export class HookInstance {
+  readonly hookPath: string
+  private cleanups: HookCleanup[] = []
+  private context: HookContext | null = null
+  private disposed = false
+
+  /**
+   * @param hookPath Path of the hook module this instance renders
+   */
+  constructor(hookPath: string) {
+    this.hookPath = hookPath
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed
+  }
+
+  /**
+   * Start executing the hook with a context; clears globals left by the previous instance
+   */
+  attach(context: HookContext): void {
+    resetHookGlobals()
+    globalsOwner = this
+    this.context = context
+  }
+
+  /**
+   * Register the hook module's `unmount` or `dispose` export, if any
+   */
+  adopt(mod: any): void {
+    const exported = mod && (typeof mod.unmount === 'function' ? mod.unmount : mod.dispose)
+    if (typeof exported !== 'function') return
+    const context = this.context
+    this.onDispose(() => exported.call(mod, context))
+  }
+
+  /**
+   * Register a cleanup to run when this instance is disposed
+   */
+  onDispose(cleanup: HookCleanup): void {
+    if (this.disposed) {
+      void this.run(cleanup)
+      return
+    }
+    this.cleanups.push(cleanup)
+  }
+
+  /**
+   * Run every cleanup (newest first) and reset the hook globals this instance set.
+   * Failing cleanups are logged and do not stop the rest.
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) return
+    this.disposed = true
+    const cleanups = this.cleanups.reverse()
+    this.cleanups = []
+    for (const cleanup of cleanups) await this.run(cleanup)
+    // Another instance may have started since; leave its globals alone
+    if (globalsOwner === this) {
+      resetHookGlobals()
+      globalsOwner = null
+    }
+    this.context = null
+  }
+
+  private async run(cleanup: HookCleanup): Promise<void> {
+    try {
+      await cleanup()
+    } catch (err) {
+      console.warn(`[HookInstance] Cleanup for ${this.hookPath} failed:`, err)
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for the headless hook harness: fake peer and runHook
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { runHook, startFakePeer, type FakePeer } from './hookTestHarness'
+
+async function writeFixture(files: Record<string, string>): Promise<string> {
+    const root = await mkdtemp(join(tmpdir(), 'relay-hook-'))
+    for (const [path, content] of Object.entries(files)) {
+        await mkdir(dirname(join(root, path)), { recursive: true })
+        await writeFile(join(root, path), content)
+    }
+    return root
+}
+
+describe('hook test harness', () => {
+    let main: string
+    let dev: string
+    let peer: FakePeer
+
+    beforeAll(async () => {
+        main = await writeFixture({
+            '.relay.yaml': 'client:\n  hooks:\n    get:\n      path: /hooks/client/get-client.jsx\n  imports:\n    ui: /hooks/lib/ui.jsx\n',
+            'hooks/client/get-client.jsx': [
+                "import { Title } from './title'",
+                "import config from './config.json'",
+                'export default function getClient(ctx) {',
+                '  ctx.helpers.onDispose(() => { globalThis.__harnessDisposed = true })',
+                '  return <main><Title text={config.title} /><ctx.FileRenderer path="/README.md" /></main>',
+                '}',
+            ].join('\n'),
+            'hooks/client/title.tsx': 'export const Title = ({ text }: { text: string }) => <h1>{text}</h1>',
+            'hooks/client/config.json': '{"title":"Hello from main"}',
+            'hooks/client/broken.jsx': 'export const notDefault = 1',
+        })
+        dev = await writeFixture({
+            'hooks/client/get-client.jsx': 'export default () => <p>dev branch</p>',
+        })
+        peer = await startFakePeer({ root: main, repo: 'demo', branches: { main, dev } })
+    })
+
+    afterAll(async () => {
+        await peer.close()
+        await rm(main, { recursive: true, force: true })
+        await rm(dev, { recursive: true, force: true })
+    })
+
+    test('the fake peer answers OPTIONS and branch-aware GETs', async () => {
+        const options = await (await fetch(`${peer.url}/`, { method: 'OPTIONS' })).json()
+        expect(options.client.imports).toEqual({ ui: '/hooks/lib/ui.jsx' })
+        expect(options.repos).toEqual([{ name: 'demo', branches: peer.heads }])
+
+        const get = (path: string, headers: Record<string, string> = {}) => fetch(`${peer.url}${path}`, { headers })
+        const onDev = await get('/hooks/client/get-client.jsx', { 'x-relay-branch': 'dev' })
+        expect(await onDev.text()).toContain('dev branch')
+        expect((await get('/hooks/client/config.json')).headers.get('content-type')).toBe('application/json')
+        expect((await get('/hooks/client/get-client.jsx', { 'x-relay-branch': 'gone' })).status).toBe(404)
+        expect((await get('/hooks/client/get-client.jsx', { 'x-relay-repo': 'other' })).status).toBe(404)
+        expect((await get('/%2e%2e/%2e%2e/etc/passwd')).status).toBe(404)
+        expect((await get('/hooks/client')).status).toBe(404)
+    })
+
+    test('runHook renders the hook and its imports through HookLoader', async () => {
+        const seen = peer.requests.length
+        const run = await runHook({ peer })
+        run.expectNoErrors()
+        run.expectText('Hello from main')
+        expect(run.toJSON()).toEqual({
+            type: 'main',
+            props: {},
+            children: [
+                { type: 'h1', props: {}, children: ['Hello from main'] },
+                { type: 'relay-file', props: { path: '/README.md' }, children: null },
+            ],
+        })
+        const requests = peer.requests.slice(seen).filter((r) => r.method !== 'OPTIONS')
+        expect(requests.map((r) => `${r.method} ${r.path} ${r.status}`)).toContain('HEAD /hooks/client/title.tsx 200')
+        expect(requests.every((r) => r.branch === 'main' && r.repo === 'demo')).toBe(true)
+
+        await run.unmount()
+        expect((globalThis as any).__harnessDisposed).toBe(true)
+    })
+
+    test('runHook loads the requested branch', async () => {
+        const run = await runHook({ peer, branch: 'dev' })
+        expect(run.text()).toBe('dev branch')
+    })
+
+    test('failures are reported through the error and diagnostics assertions', async () => {
+        const run = await runHook({ peer, hookPath: '/hooks/client/broken.jsx' })
+        expect(run.renderer).toBeNull()
+        expect(run.expectDiagnostic({ errorType: 'MissingDefaultExportError' }).phase).toBe('import')
+        expect(() => run.expectNoErrors()).toThrow(/broken\.jsx failed:\n {2}\[import MissingDefaultExportError\]/)
+        expect(() => run.expectText('anything')).toThrow(/rendered: ""/)
+    })
+})
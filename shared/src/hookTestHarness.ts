@@ -0,0 +1,359 @@
+/**
+ * Headless Hook Test Harness (Node only)
+ *
+ * Runs a repository's hooks in CI without a browser or a relay server:
+ *
+ *   const peer = await startFakePeer({ root: 'fixtures/repo' })
+ *   const run = await runHook({ peer })
+ *   run.expectNoErrors()
+ *   run.expectText('Welcome')
+ *   await run.unmount()
+ *   await peer.close()
+ *
+ * startFakePeer serves a fixture directory over HTTP on localhost the way a
+ * relay peer would: OPTIONS / returns the repo's .relay.yaml plus the repo and
+ * branch heads, and GET/HEAD honour `x-relay-branch`/`x-relay-repo`.
+ * runHook loads the hook through the real HookLoader with NodeModuleLoader and
+ * renders the returned element with react-test-renderer.
+ *
+ * Imported from `@clevertree/relay-client-shared/testing`; not part of the
+ * client bundle.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { readFile, stat } from 'node:fs/promises'
+import { createHash } from 'node:crypto'
+import { extname, join, resolve, sep } from 'node:path'
+import type { AddressInfo } from 'node:net'
+import React from 'react'
+import * as ReactJsxRuntime from 'react/jsx-runtime'
+import { act, create, type ReactTestRenderer, type ReactTestRendererJSON } from 'react-test-renderer'
+import ts from 'typescript'
+import { parse as parseYAML } from 'yaml'
+import { HookInstance } from './hookLifecycle'
+import { ModuleLoadError } from './loaderErrors'
+import { scanImportSpecifiers } from './moduleGraph'
+import { HookLoader, type HookContext, type HookHelpers, type LoaderDiagnostics, type ModuleLoader } from './runtimeLoader'
+import { buildRepoHeaders } from './urlBuilder'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.ts': 'text/javascript',
+  '.tsx': 'text/javascript',
+  '.json': 'application/json',
+  '.yaml': 'text/yaml',
+  '.yml': 'text/yaml',
+  '.css': 'text/css',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.wasm': 'application/wasm',
+}
+
+export interface FakePeerOptions {
+  /** Fixture directory served for the default branch */
+  root: string
+  /** Repo name listed in OPTIONS; requests naming another repo get a 404 (default: 'fixture') */
+  repo?: string
+  /** Branch name → fixture directory; the first is the default branch (default: { main: root }) */
+  branches?: Record<string, string>
+  /** Merged over the OPTIONS payload */
+  options?: Record<string, any>
+}
+
+/**
+ * A request the fake peer answered
+ */
+export interface FakePeerRequest {
+  method: string
+  path: string
+  branch: string | null
+  repo: string | null
+  status: number
+}
+
+export interface FakePeer {
+  /** Base URL, e.g. http://127.0.0.1:53211 */
+  url: string
+  /** host:port, as HookLoader expects it */
+  host: string
+  repo: string
+  /** Branch name → head commit reported in OPTIONS */
+  heads: Record<string, string>
+  /** Every request answered so far */
+  requests: FakePeerRequest[]
+  /** The OPTIONS / payload */
+  loadOptions(): Promise<Record<string, any>>
+  close(): Promise<void>
+}
+
+/**
+ * Serve a fixture directory as a relay peer on a free localhost port
+ */
+export async function startFakePeer(options: FakePeerOptions): Promise<FakePeer> {
+  const repo = options.repo || 'fixture'
+  const branches = options.branches || { main: options.root }
+  const defaultBranch = Object.keys(branches)[0]
+  const heads: Record<string, string> = {}
+  for (const branch of Object.keys(branches)) {
+    heads[branch] = createHash('sha1').update(`${repo}:${branch}`).digest('hex')
+  }
+  const requests: FakePeerRequest[] = []
+
+  const loadOptions = async (): Promise<Record<string, any>> => {
+    const relayYaml = await readFile(join(branches[defaultBranch], '.relay.yaml'), 'utf8').catch(() => null)
+    return {
+      client: { hooks: { get: { path: '/hooks/client/get-client.jsx' } } },
+      ...(relayYaml ? parseYAML(relayYaml) : {}),
+      repos: [{ name: repo, branches: heads }],
+      ...options.options,
+    }
+  }
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const method = req.method || 'GET'
+    const path = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname)
+    const branch = (req.headers['x-relay-branch'] as string | undefined) || null
+    const repoHeader = (req.headers['x-relay-repo'] as string | undefined) || null
+    const send = (status: number, body: string | Buffer, contentType: string) => {
+      requests.push({ method, path, branch, repo: repoHeader, status })
+      res.writeHead(status, { 'content-type': contentType })
+      res.end(method === 'HEAD' ? undefined : body)
+    }
+
+    if (method === 'OPTIONS') return send(200, JSON.stringify(await loadOptions()), 'application/json')
+    if (method !== 'GET' && method !== 'HEAD') return send(405, 'Method not allowed', 'text/plain')
+    if (repoHeader && repoHeader !== repo) return send(404, `Unknown repo ${repoHeader}`, 'text/plain')
+    const dir = branches[branch || defaultBranch]
+    if (!dir) return send(404, `Unknown branch ${branch}`, 'text/plain')
+
+    const root = resolve(dir)
+    const file = resolve(root, `.${path}`)
+    if (!file.startsWith(root + sep)) return send(404, 'Not found', 'text/plain')
+    const info = await stat(file).catch(() => null)
+    if (!info || !info.isFile()) return send(404, 'Not found', 'text/plain')
+    send(200, await readFile(file), CONTENT_TYPES[extname(file).toLowerCase()] || 'text/plain')
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      res.writeHead(500, { 'content-type': 'text/plain' })
+      res.end(String(err))
+    })
+  })
+  await new Promise<void>((done) => server.listen(0, '127.0.0.1', done))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    host: `127.0.0.1:${port}`,
+    repo,
+    heads,
+    requests,
+    loadOptions,
+    close: () => new Promise<void>((done, fail) => server.close((err) => (err ? fail(err) : done()))),
+  }
+}
+
+/**
+ * Transpile a hook module to CommonJS with TypeScript (automatic JSX runtime)
+ */
+export async function transpileForNode(code: string, filename: string): Promise<string> {
+  // Hooks put JSX in .js files too; TypeScript only parses it in .jsx/.tsx
+  const fileName = filename.replace(/\.m?js$/, '.jsx')
+  return ts.transpileModule(code, {
+    fileName,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+    },
+  }).outputText
+}
+
+/**
+ * Executes CommonJS hook modules in Node. Imports are loaded through
+ * helpers.loadModule before the module runs, so require() stays synchronous.
+ */
+export class NodeModuleLoader implements ModuleLoader {
+  async executeModule(code: string, filename: string, context: HookContext): Promise<any> {
+    const dependencies = new Map<string, any>()
+    await Promise.all(scanImportSpecifiers(code, (spec) => !spec.includes('${')).map(async (spec) => {
+      dependencies.set(spec, interop(await context.helpers.loadModule(spec, filename)))
+    }))
+    const require = (spec: string) => {
+      if (!dependencies.has(spec)) throw new ModuleLoadError(`${filename} requires ${spec}, which was not found while scanning its imports`, { filename })
+      return dependencies.get(spec)
+    }
+    const module = { exports: {} as any }
+    // eslint-disable-next-line no-new-func
+    new Function('require', 'module', 'exports', 'context', code)(require, module, module.exports, context)
+    return module.exports
+  }
+}
+
+// Lets TypeScript's default-import helper see `default` on builtins and asset modules
+function interop(mod: any): any {
+  if (mod && typeof mod === 'object' && 'default' in mod && !mod.__esModule) return { ...mod, __esModule: true }
+  return mod
+}
+
+export interface RunHookOptions {
+  peer: FakePeer
+  /** Hook to run (default: client.hooks.get.path from OPTIONS) */
+  hookPath?: string
+  /** Sent as x-relay-branch (default: the peer's default branch) */
+  branch?: string
+  /** Sent as x-relay-repo (default: the peer's repo) */
+  repo?: string
+  /** Default: transpileForNode */
+  transpiler?: (code: string, filename: string) => Promise<string>
+  /** Added to the react, react/jsx-runtime and @relay/* built-ins */
+  builtinModules?: Record<string, any>
+  /** Merged over the harness helpers */
+  helpers?: Partial<HookHelpers>
+  params?: Record<string, any>
+}
+
+/**
+ * Outcome of runHook: the rendered output, loader diagnostics and assertions on both.
+ * Assertions throw plain Errors, so they work under any test runner.
+ */
+export class HookTestRun {
+  readonly hookPath: string
+  readonly options: Record<string, any>
+  readonly diagnostics: LoaderDiagnostics[]
+  /** What loadAndExecuteHook threw, if anything */
+  readonly error: unknown
+  readonly renderer: ReactTestRenderer | null
+  private instance: HookInstance
+
+  constructor(init: {
+    hookPath: string
+    options: Record<string, any>
+    diagnostics: LoaderDiagnostics[]
+    error: unknown
+    renderer: ReactTestRenderer | null
+    instance: HookInstance
+  }) {
+    this.hookPath = init.hookPath
+    this.options = init.options
+    this.diagnostics = init.diagnostics
+    this.error = init.error
+    this.renderer = init.renderer
+    this.instance = init.instance
+  }
+
+  toJSON(): ReactTestRendererJSON | ReactTestRendererJSON[] | null {
+    return this.renderer ? this.renderer.toJSON() : null
+  }
+
+  /**
+   * All rendered text, concatenated
+   */
+  text(): string {
+    const collect = (node: ReactTestRendererJSON | ReactTestRendererJSON[] | string | null): string => {
+      if (node === null) return ''
+      if (typeof node === 'string') return node
+      if (Array.isArray(node)) return node.map(collect).join('')
+      return (node.children || []).map(collect).join('')
+    }
+    return collect(this.toJSON())
+  }
+
+  expectNoErrors(): void {
+    const failures = this.diagnostics.filter((d) => d.error)
+    if (!this.error && failures.length === 0) return
+    const lines = failures.map((d) => `  [${d.phase}${d.errorType ? ` ${d.errorType}` : ''}] ${d.error}`)
+    if (this.error && failures.length === 0) lines.push(`  ${(this.error as Error)?.message || String(this.error)}`)
+    throw new Error(`${this.hookPath} failed:\n${lines.join('\n')}`)
+  }
+
+  expectText(expected: string | RegExp): void {
+    const text = this.text()
+    const found = typeof expected === 'string' ? text.includes(expected) : expected.test(text)
+    if (!found) throw new Error(`Expected ${this.hookPath} to render ${String(expected)}; rendered: ${JSON.stringify(text)}`)
+  }
+
+  /**
+   * The first diagnostic matching every given field
+   */
+  expectDiagnostic(match: Partial<LoaderDiagnostics>): LoaderDiagnostics {
+    const found = this.diagnostics.find((d) => Object.entries(match).every(([key, value]) => d[key] === value))
+    if (!found) {
+      throw new Error(`No diagnostic matching ${JSON.stringify(match)}; got ${JSON.stringify(this.diagnostics.map((d) => ({ phase: d.phase, errorType: d.errorType, error: d.error })))}`)
+    }
+    return found
+  }
+
+  /**
+   * Unmount the rendered tree and dispose the hook (runs its unmount/onDispose cleanups)
+   */
+  async unmount(): Promise<void> {
+    if (this.renderer) {
+      const renderer = this.renderer
+      act(() => renderer.unmount())
+    }
+    await this.instance.dispose()
+  }
+}
+
+/**
+ * Load a hook from a fake peer with the real HookLoader and render it
+ */
+export async function runHook(options: RunHookOptions): Promise<HookTestRun> {
+  const { peer } = options
+  const g = globalThis as any
+  g.IS_REACT_ACT_ENVIRONMENT = true
+
+  const peerOptions = await peer.loadOptions()
+  const hookPath = options.hookPath || peerOptions.client?.hooks?.get?.path || '/hooks/client/get-client.jsx'
+  const branch = options.branch || Object.keys(peer.heads)[0]
+  const repo = options.repo || peer.repo
+  const diagnostics: LoaderDiagnostics[] = []
+  const builtinModules: Record<string, any> = {
+    'react': { ...React, default: React },
+    'react/jsx-runtime': ReactJsxRuntime,
+    'react/jsx-dev-runtime': ReactJsxRuntime,
+    '@relay/theme': { registerThemeStyles: () => { }, registerThemesFromYaml: async () => { } },
+    ...options.builtinModules,
+  }
+  const loader = new HookLoader({
+    host: peer.host,
+    protocol: 'http',
+    moduleLoader: new NodeModuleLoader(),
+    transpiler: options.transpiler || transpileForNode,
+    builtinModules,
+    onDiagnostics: (diag) => diagnostics.push(diag),
+  })
+  const instance = new HookInstance(hookPath)
+
+  const context: HookContext = {
+    React,
+    createElement: React.createElement,
+    // Rendered as a placeholder element tests can find by path
+    FileRenderer: ({ path }) => React.createElement('relay-file', { path }),
+    params: options.params || {},
+    helpers: {
+      buildPeerUrl: (path) => `${peer.url}${path.startsWith('/') ? path : `/${path}`}`,
+      buildRepoHeaders: () => buildRepoHeaders(branch, repo),
+      loadModule: (spec, fromPath) => loader.loadModule(spec, fromPath || hookPath, context),
+      onDispose: (cleanup) => instance.onDispose(cleanup),
+      ...options.helpers,
+    },
+  }
+
+  let renderer: ReactTestRenderer | null = null
+  let error: unknown = null
+  try {
+    const element = await loader.loadAndExecuteHook(hookPath, context, instance)
+    await act(async () => {
+      renderer = create(element)
+    })
+  } catch (err) {
+    error = err
+  }
+  return new HookTestRun({ hookPath, options: peerOptions, diagnostics, error, renderer, instance })
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for import map resolution and bare import rewriting
+ */
+
+import { ImportMapResolver, parseImportMap, resolveRelativePath, rewriteBareImports } from './importMap'
+import { ES6ImportHandler } from './es6ImportHandler'
+
+describe('ImportMapResolver', () => {
+    const resolver = new ImportMapResolver({
+        imports: {
+            'ui': '/hooks/lib/ui/index.tsx',
+            'utils/': '/hooks/lib/utils/',
+            'utils/date/': '/hooks/lib/date/',
+            'react': '/hooks/evil-react.js',
+            'remote': 'https://cdn.example.com/x.js',
+        },
+    })
+
+    test('resolves relative and absolute paths against the importer', () => {
+        expect(resolver.resolve('./a.jsx', '/hooks/client/get-client.jsx')).toEqual({ type: 'path', path: '/hooks/client/a.jsx' })
+        expect(resolver.resolve('../lib/b.js', '/hooks/client/x/y.js')).toEqual({ type: 'path', path: '/hooks/client/lib/b.js' })
+        expect(resolver.resolve('/hooks/./c/../d.js')).toEqual({ type: 'path', path: '/hooks/d.js' })
+    })
+
+    test('built-ins win over repo mappings', () => {
+        expect(resolver.resolve('react')).toEqual({ type: 'builtin', specifier: 'react' })
+        expect(resolver.resolve('@relay/theme')).toEqual({ type: 'builtin', specifier: '@relay/theme' })
+        expect(resolver.getRepoImports()).not.toHaveProperty('react')
+        expect(resolver.getRepoImports()).not.toHaveProperty('remote')
+    })
+
+    test('applies exact and longest-prefix mappings', () => {
+        expect(resolver.resolve('ui')).toEqual({ type: 'path', path: '/hooks/lib/ui/index.tsx', mappedFrom: 'ui' })
+        expect(resolver.resolve('utils/str.ts')).toMatchObject({ type: 'path', path: '/hooks/lib/utils/str.ts' })
+        expect(resolver.resolve('utils/date/fmt.ts')).toEqual({ type: 'path', path: '/hooks/lib/date/fmt.ts', mappedFrom: 'utils/date/' })
+    })
+
+    test('keeps legacy bare file names and rejects unknown packages', () => {
+        expect(resolver.resolve('helpers.js')).toMatchObject({ type: 'path', path: '/hooks/client/helpers.js' })
+        expect(() => resolver.resolve('lodash')).toThrow(/ModuleLoadError: Cannot resolve bare specifier "lodash"/)
+    })
+
+    test('resolveRelativePath clamps at the root', () => {
+        expect(resolveRelativePath('../../../x.js', '/hooks/a.js')).toBe('/x.js')
+    })
+})
+
+describe('parseImportMap', () => {
+    test('reads client.imports and import-map shaped payloads', () => {
+        expect(parseImportMap({ client: { imports: { ui: '/hooks/ui.tsx', bad: 3 } } })).toEqual({ ui: '/hooks/ui.tsx' })
+        expect(parseImportMap({ client: { importMap: { imports: { a: '/a.js' } } } })).toEqual({ a: '/a.js' })
+        expect(parseImportMap(null)).toEqual({})
+    })
+})
+
+describe('rewriteBareImports', () => {
+    test('rewrites bare static imports on the same line', () => {
+        const code = [
+            "import React, { useState as useS } from 'react'",
+            "import * as md from '@relay/markdown';",
+            "import { jsx as _jsx, jsxs as _jsxs } from \"react/jsx-runtime\"",
+            "import './side-effect.js'",
+            "import 'ui'",
+            "import local from './local.js'",
+        ].join('\n')
+        const out = rewriteBareImports(code).split('\n')
+        expect(out).toHaveLength(6)
+        expect(out[0]).toBe(
+            'const __import_0 = await __hook_import("react"); const React = (__import_0 && __import_0.default !== undefined ? __import_0.default : __import_0); const { useState: useS } = __import_0;'
+        )
+        expect(out[1]).toBe('const md = await __hook_import("@relay/markdown");')
+        expect(out[2]).toBe('const { jsx: _jsx, jsxs: _jsxs } = await __hook_import("react/jsx-runtime");')
+        expect(out[3]).toBe("import './side-effect.js'")
+        expect(out[4]).toBe('await __hook_import("ui");')
+        expect(out[5]).toBe("import local from './local.js'")
+    })
+})
+
+describe('ES6ImportHandler - import map', () => {
+    test('resolves through the same resolver as HookLoader', async () => {
+        const importMap = new ImportMapResolver({ imports: { ui: '/hooks/lib/ui.js' } })
+        const react = { createElement: () => null }
+        const handler = new ES6ImportHandler({ host: 'peer.local', importMap, builtinModules: { react } })
+        const delegate = jest.fn(async (path: string) => ({ path }))
+        handler.setLoadModuleDelegate(delegate)
+
+        expect(await handler.handle('react')).toBe(react)
+        await handler.handle('ui')
+        expect(delegate).toHaveBeenCalledWith('ui', null, null)
+        expect(handler.getCacheStats().entries).toEqual(['peer.local:/hooks/lib/ui.js'])
+    })
+})
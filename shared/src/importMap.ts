@@ -0,0 +1,209 @@
+/**
+ * Import Map Resolution for Relay Hooks
+ *
+ * Resolves module specifiers the same way on web and mobile:
+ *   - `./x` and `../x` resolve against the importing module
+ *   - `/hooks/x` is used as-is
+ *   - bare specifiers provided by the client (`react`, `@relay/*`) are built-ins
+ *   - other bare specifiers go through the repo's import map, declared in
+ *     `.relay.yaml` and served with OPTIONS:
+ *
+ *       client:
+ *         imports:
+ *           ui: /hooks/lib/ui/index.tsx
+ *           utils/: /hooks/lib/utils/     # prefix mapping: utils/date.ts
+ *
+ * Repo mappings cannot shadow built-ins and must point at paths on the peer.
+ */
+
+import { ModuleLoadError } from './loaderErrors'
+
+export type ImportMapEntries = Record<string, string>
+
+export type ImportResolution =
+  | { type: 'builtin'; specifier: string }
+  | { type: 'path'; path: string; mappedFrom?: string }
+
+/** Specifiers every client provides */
+export const DEFAULT_BUILTIN_SPECIFIERS = [
+  'react',
+  'react/jsx-runtime',
+  'react/jsx-dev-runtime',
+  '@relay/markdown',
+  '@relay/theme',
+  '@relay/meta',
+]
+
+/** Importer assumed when none is known (relative imports resolve next to it) */
+export const DEFAULT_HOOK_PATH = '/hooks/client/get-client.jsx'
+// Legacy helpers.loadModule('file.js') calls resolve next to the default hook
+const LEGACY_BARE_BASE = '/hooks/client/'
+
+/**
+ * Whether a specifier is bare (not relative or absolute)
+ */
+export function isBareSpecifier(spec: string): boolean {
+  return !!spec && !spec.startsWith('./') && !spec.startsWith('../') && !spec.startsWith('/')
+}
+
+/**
+ * Resolve `.` and `..` segments of a path, relative to a module path
+ * @param spec Relative or absolute path
+ * @param fromPath Path of the importing module
+ */
+export function resolveRelativePath(spec: string, fromPath: string = DEFAULT_HOOK_PATH): string {
+  let joined = spec
+  if (!spec.startsWith('/')) {
+    const base = fromPath && fromPath.startsWith('/') ? fromPath : DEFAULT_HOOK_PATH
+    joined = base.slice(0, base.lastIndexOf('/') + 1) + spec
+  }
+  const normalized: string[] = []
+  for (const part of joined.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..') normalized.pop()
+    else normalized.push(part)
+  }
+  return '/' + normalized.join('/')
+}
+
+/**
+ * Read repo import mappings from an OPTIONS payload (`client.imports`, or
+ * `client.importMap.imports` in import-map JSON shape)
+ */
+export function parseImportMap(options: unknown): ImportMapEntries {
+  const client = (options as { client?: { imports?: unknown; importMap?: { imports?: unknown } } } | null)?.client
+  const raw = client?.imports ?? client?.importMap?.imports
+  const entries: ImportMapEntries = {}
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return entries
+  for (const [specifier, target] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof target === 'string' && specifier) entries[specifier] = target
+  }
+  return entries
+}
+
+/**
+ * Resolves specifiers against client built-ins and repo import mappings
+ */
+export class ImportMapResolver {
+  private builtins: Set<string>
+  private imports: ImportMapEntries = {}
+
+  /**
+   * @param options.builtins Bare specifiers provided by the client (defaults to DEFAULT_BUILTIN_SPECIFIERS)
+   * @param options.imports Initial repo mappings
+   */
+  constructor(options: { builtins?: string[]; imports?: ImportMapEntries } = {}) {
+    this.builtins = new Set(options.builtins || DEFAULT_BUILTIN_SPECIFIERS)
+    if (options.imports) this.setRepoImports(options.imports)
+  }
+
+  /**
+   * Register additional client built-ins
+   */
+  addBuiltins(specifiers: string[]): void {
+    specifiers.forEach((s) => this.builtins.add(s))
+  }
+
+  /**
+   * Replace the repo's mappings. Invalid entries are dropped with a warning.
+   */
+  setRepoImports(imports: ImportMapEntries): void {
+    const accepted: ImportMapEntries = {}
+    for (const [specifier, target] of Object.entries(imports)) {
+      if (this.builtins.has(specifier)) {
+        console.warn('[ImportMap] Ignoring mapping that shadows a built-in:', specifier)
+      } else if (!isBareSpecifier(specifier)) {
+        console.warn('[ImportMap] Ignoring mapping for non-bare specifier:', specifier)
+      } else if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('//')) {
+        console.warn('[ImportMap] Ignoring mapping to another origin:', specifier, target)
+      } else if (specifier.endsWith('/') !== target.endsWith('/')) {
+        console.warn('[ImportMap] Prefix mappings need a trailing slash on both sides:', specifier, target)
+      } else {
+        accepted[specifier] = target
+      }
+    }
+    this.imports = accepted
+  }
+
+  getRepoImports(): ImportMapEntries {
+    return { ...this.imports }
+  }
+
+  isBuiltin(spec: string): boolean {
+    return this.builtins.has(spec)
+  }
+
+  /**
+   * Resolve a specifier
+   * @param spec Specifier as written in the importing module
+   * @param fromPath Path of the importing module
+   */
+  resolve(spec: string, fromPath: string = DEFAULT_HOOK_PATH): ImportResolution {
+    if (!isBareSpecifier(spec)) return { type: 'path', path: resolveRelativePath(spec, fromPath) }
+    if (this.builtins.has(spec)) return { type: 'builtin', specifier: spec }
+
+    const exact = this.imports[spec]
+    if (exact !== undefined) {
+      return { type: 'path', path: resolveRelativePath(exact, LEGACY_BARE_BASE), mappedFrom: spec }
+    }
+
+    // Longest matching prefix mapping wins, as in browser import maps
+    let prefix: string | null = null
+    for (const key of Object.keys(this.imports)) {
+      if (key.endsWith('/') && spec.startsWith(key) && (!prefix || key.length > prefix.length)) prefix = key
+    }
+    if (prefix) {
+      const target = this.imports[prefix] + spec.slice(prefix.length)
+      return { type: 'path', path: resolveRelativePath(target, LEGACY_BARE_BASE), mappedFrom: prefix }
+    }
+
+    // Unmapped bare file names keep their historical meaning (next to get-client)
+    if (/\.(m?[jt]sx?|json)$/.test(spec)) {
+      return { type: 'path', path: resolveRelativePath(spec, LEGACY_BARE_BASE) }
+    }
+    throw new ModuleLoadError(`Cannot resolve bare specifier "${spec}" from ${fromPath}; add it to client.imports in .relay.yaml`, {
+      filename: fromPath,
+    })
+  }
+}
+
+const STATIC_IMPORT_RE = /(^|[;\n])([ \t]*)import\s+(?:([\w$]+)\s*,?\s*)?(?:\*\s+as\s+([\w$]+)|\{([^}]*)\})?\s*(?:from\s*)?(['"])([^'"\n]+)\6[ \t]*;?/g
+
+/**
+ * Rewrite static imports of bare specifiers into awaited `__hook_import()`
+ * calls, which resolve through the loader at runtime. Blob-loaded modules
+ * cannot use bare specifiers directly. Rewrites stay on their line so
+ * source maps keep lining up.
+ * @param code Transpiled ES module source
+ * @param shouldRewrite Which specifiers to rewrite (default: all bare specifiers)
+ */
+export function rewriteBareImports(code: string, shouldRewrite: (spec: string) => boolean = isBareSpecifier): string {
+  let counter = 0
+  return code.replace(STATIC_IMPORT_RE, (match, lead, indent, defaultName, namespace, named, _q, spec) => {
+    if (!shouldRewrite(spec)) return match
+    const load = `await __hook_import(${JSON.stringify(spec)})`
+    if (!defaultName && !namespace && named === undefined) return `${lead}${indent}${load};`
+
+    const bindings: string[] = []
+    let source = load
+    if (defaultName) {
+      const tmp = `__import_${counter++}`
+      bindings.push(`const ${tmp} = ${load}`)
+      bindings.push(`const ${defaultName} = (${tmp} && ${tmp}.default !== undefined ? ${tmp}.default : ${tmp})`)
+      source = tmp
+    }
+    if (namespace) bindings.push(`const ${namespace} = ${source}`)
+    if (named !== undefined) {
+      const parts = String(named)
+        .split(',')
+        .map((p) => p.trim())
+        .filter(Boolean)
+        .map((p) => {
+          const [name, alias] = p.split(/\s+as\s+/)
+          return alias ? `${name.trim()}: ${alias.trim()}` : name
+        })
+      bindings.push(`const { ${parts.join(', ')} } = ${source}`)
+    }
+    return `${lead}${indent}${bindings.join('; ')};`
+  })
+}
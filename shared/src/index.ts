@@ -11,6 +11,7 @@ export {
   type LoaderDiagnostics,
   type ModuleLoader,
   type HookLoaderOptions,
+  type TranspileOutput,
   WebModuleLoader,
   RNModuleLoader,
   transpileCode,
@@ -20,6 +21,264 @@ export {
 
 export { ES6ImportHandler, type ImportHandlerOptions } from './es6ImportHandler'
 
+export {
+  type TranspilerBackendName,
+  type TranspilerSetting,
+  type TranspilerBackend,
+  type TranspileAttempt,
+  type ChainTranspileResult,
+  type TranspilerChainOptions,
+  type SwcLike,
+  type BabelLike,
+  TranspilerChain,
+  readTranspilerSetting,
+  wasmBackend,
+  swcBackend,
+  babelBackend,
+  simpleJsxBackend,
+  serverBackend,
+  getTranspilerChain,
+  setTranspilerChain,
+} from './transpilerChain'
+
+export {
+  type ModuleGraph,
+  type ModuleGraphNode,
+  scanImportSpecifiers,
+  isPrefetchableSpecifier,
+} from './moduleGraph'
+
+export {
+  type TranspileCacheStorage,
+  type TranspileCacheOptions,
+  type TranspileCacheStats,
+  TranspileCache,
+  hashSource,
+} from './transpileCache'
+
+export {
+  type RawSourceMap,
+  type SourceLocation,
+  type SourceExcerptLine,
+  appendInlineSourceMap,
+  extractInlineSourceMap,
+  registerModuleSource,
+  registerModuleExecution,
+  clearSourceRegistry,
+  buildCodeExcerpt,
+  resolveErrorLocation,
+  mapStackTrace,
+} from './sourceMaps'
+
+export {
+  type SandboxNode,
+  type SandboxModuleLoaderOptions,
+  SandboxModuleLoader,
+  sandboxTreeToElements,
+} from './sandboxModuleLoader'
+
+export { buildSandboxDocument } from './sandboxRuntime'
+
+export {
+  type HookCapability,
+  type CapabilityManifest,
+  type CapabilityRequest,
+  type CapabilityDecision,
+  type CapabilityGrants,
+  type CapabilityPlatform,
+  type HookStorage,
+  type HookClipboard,
+  type HookCapabilityState,
+  parseCapabilityManifest,
+  listCapabilityRequests,
+  pendingCapabilityRequests,
+  grantedCapabilityKeys,
+  describeCapabilityRequest,
+  capabilityOfKey,
+  buildCapabilityHelpers,
+} from './capabilities'
+
+export {
+  type ImportMapEntries,
+  type ImportResolution,
+  DEFAULT_BUILTIN_SPECIFIERS,
+  DEFAULT_HOOK_PATH,
+  ImportMapResolver,
+  isBareSpecifier,
+  resolveRelativePath,
+  parseImportMap,
+  rewriteBareImports,
+} from './importMap'
+
+export {
+  type ModuleExists,
+  MODULE_EXTENSIONS,
+  ModuleResolver,
+  hasModuleExtension,
+  probeCandidates,
+  createHttpProbe,
+} from './moduleResolver'
+
+export {
+  type IntegrityConfig,
+  type IntegrityManifest,
+  type IntegrityStatus,
+  type IntegrityResult,
+  type IntegrityVerifierOptions,
+  IntegrityVerifier,
+  VerifiedBlobCache,
+  parseIntegrityConfig,
+  parseIntegrityManifest,
+  fetchIntegrityManifest,
+  gitBlobHash,
+  computeIntegrityHash,
+  describeIntegrityFailure,
+} from './integrity'
+
+export {
+  type FailoverPeer,
+  type FailoverTarget,
+  type PeerFetchResult,
+  type PeerFetcherOptions,
+  PeerFetcher,
+  peerBaseUrl,
+  rankFailoverPeers,
+} from './peerFailover'
+
+export {
+  type DiscoveredPeer,
+  type PeerCrawlSeed,
+  type PeerCrawlOptions,
+  crawlPeers,
+  normalizePeerHost,
+  parseAdvertisedPeers,
+  peerHostScheme,
+} from './peerDiscovery'
+
+export {
+  type PeerProbeProtocol,
+  type PeerProbeTarget,
+  type PeerEndpointProbe,
+  type PeerProbePlanOptions,
+  type PeerProbeRunOptions,
+  DEFAULT_PROBE_PORTS,
+  parseAdvertisedEndpoints,
+  planPeerProbes,
+  runPeerProbe,
+  runPeerProbes,
+  isPeerApiProbe,
+} from './peerProbes'
+
+export {
+  type PeerHealthSample,
+  type PeerHealthSummary,
+  type PeerHealthSortKey,
+  DEFAULT_HEALTH_HISTORY,
+  healthSampleOf,
+  appendHealthSample,
+  retainPeerHealth,
+  parsePeerHealthHistory,
+  percentile,
+  summarizePeerHealth,
+  summarizePeerHealthByHost,
+  sparklineBars,
+  comparePeerHealth,
+  formatLastSeen,
+} from './peerHealth'
+
+export {
+  type RankablePeer,
+  type PeerScore,
+  type BestPeerOptions,
+  type PeerSwitchOptions,
+  rankPeersForRepo,
+  pickBestPeer,
+  choosePeerSwitch,
+  listHostedRepos,
+} from './bestPeer'
+
+export {
+  type PeerDetails,
+  type PeerListEntry,
+  type PeerListImport,
+  type PeerListFormat,
+  type PeerGroup,
+  PEER_LIST_VERSION,
+  PEER_SHARE_LINK_PREFIX,
+  readPeerList,
+  isPeerShareLink,
+  parsePeerShareLink,
+  parsePeerList,
+  exportPeerList,
+  formatPeerShareLink,
+  groupPeersByLabel,
+} from './peerList'
+
+export {
+  type CommitPin,
+  pinCommit,
+  observeBranchHead,
+  commitsBehind,
+  describeCommitPin,
+} from './commitPin'
+
+export {
+  type LoaderErrorInfo,
+  type LoaderErrorName,
+  type LoaderErrorHelp,
+  HookLoaderError,
+  ModuleLoadError,
+  HtmlInsteadOfCodeError,
+  IntegrityError,
+  TranspileError,
+  ExecutionError,
+  MissingDefaultExportError,
+  toExecutionError,
+  describeLoaderError,
+} from './loaderErrors'
+
+export {
+  type TraceSpanPhase,
+  type TraceSpanAttributes,
+  type TraceSpan,
+  type ActiveSpan,
+  type LoaderTraceOptions,
+  type ChromeTraceEvent,
+  type ChromeTrace,
+  type WaterfallRow,
+  LoaderTrace,
+  beginSpan,
+  buildWaterfall,
+} from './loaderTrace'
+
+export {
+  type AssetKind,
+  type AssetModuleOptions,
+  assetKindFor,
+  assetModuleSource,
+  binaryModuleIntegrity,
+  buildTextAssetModule,
+  buildWasmModule,
+  splitAssetQuery,
+} from './assetModules'
+
+export { type HookCleanup, HookInstance, resetHookGlobals } from './hookLifecycle'
+
+export {
+  type RelayHookTarget,
+  type EmbeddedThemeHelpers,
+  type EmbeddedHooksOptions,
+  RELAY_URI_SCHEME,
+  EmbeddedHooks,
+  isRelayUri,
+  parseRelayUri,
+  formatRelayUri,
+  embeddedScopeKey,
+  embeddedPeerOrigin,
+  embeddedThemeName,
+  embeddingUnavailable,
+} from './hookEmbedding'
+
 export { buildPeerUrl, buildRepoHeaders } from './urlBuilder'
 
 export { default as themedStylerBridge, ensureDefaultsLoaded } from './themedStylerBridge'
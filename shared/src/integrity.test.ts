@@ -0,0 +1,188 @@
+/**
+ * Tests for hook module integrity verification and the verified blob cache
+ */
+
+import {
+    IntegrityVerifier,
+    VerifiedBlobCache,
+    computeIntegrityHash,
+    gitBlobHash,
+    parseIntegrityConfig,
+    parseIntegrityManifest,
+} from './integrity'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('gitBlobHash', () => {
+    test('matches git hash-object', () => {
+        expect(gitBlobHash('')).toBe('e69de29bb2d1d6434b8b29ae775ad8c2e48c5391')
+        expect(gitBlobHash('hello world\n')).toBe('3b18e512dba79e4c8300dd08aeb37f8e728b8dad')
+    })
+
+    test('hashes UTF-8 bytes, not UTF-16 code units', () => {
+        expect(gitBlobHash('é')).not.toBe(gitBlobHash('é\u0000'))
+        expect(gitBlobHash('a'.repeat(1000))).toMatch(/^[0-9a-f]{40}$/)
+    })
+
+    test('computeIntegrityHash follows the expected format', async () => {
+        const blob = gitBlobHash('x')
+        expect(await computeIntegrityHash('x', blob)).toBe(blob)
+        const sri = await computeIntegrityHash('', 'sha256-AAAA')
+        if ((globalThis as any).crypto?.subtle) {
+            expect(sri).toBe('sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=')
+        } else {
+            expect(sri).toBeNull()
+        }
+    })
+})
+
+describe('integrity manifest', () => {
+    test('reads the OPTIONS config', () => {
+        expect(parseIntegrityConfig(null)).toEqual({ manifest: null, required: false })
+        expect(parseIntegrityConfig({ client: { integrity: '/.relay/integrity/{commit}.json' } }))
+            .toEqual({ manifest: '/.relay/integrity/{commit}.json', required: false })
+        expect(parseIntegrityConfig({ client: { integrity: { manifest: '/m/{commit}', required: true } } }))
+            .toEqual({ manifest: '/m/{commit}', required: true })
+    })
+
+    test('normalizes paths and drops malformed hashes', () => {
+        const manifest = parseIntegrityManifest({
+            commit: 'abc',
+            files: { 'hooks/a.js': 'E69DE29BB2D1D6434B8B29AE775AD8C2E48C5391', '/hooks/b.js': 'md5-xyz' },
+        }, 'abc')
+        expect(manifest).toEqual({ commit: 'abc', files: { '/hooks/a.js': 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391' } })
+    })
+
+    test('rejects a manifest for another commit', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => { })
+        expect(parseIntegrityManifest({ commit: 'other', files: {} }, 'abc')).toBeNull()
+        warn.mockRestore()
+    })
+})
+
+describe('IntegrityVerifier', () => {
+    const files = { '/hooks/a.js': gitBlobHash('export default 1') }
+    const loadManifest = jest.fn(async (commit: string) => ({ commit, files }))
+
+    test('verifies, refuses mismatches and unlisted files', async () => {
+        const verifier = new IntegrityVerifier({ loadManifest })
+        verifier.setCommit('abc')
+        const ok = await verifier.verify('/hooks/a.js', 'export default 1')
+        expect(ok.status).toBe('verified')
+        expect(verifier.accepts(ok)).toBe(true)
+
+        const bad = await verifier.verify('/hooks/a.js', 'export default 2')
+        expect(bad.status).toBe('mismatch')
+        expect(verifier.accepts(bad)).toBe(false)
+
+        const unlisted = await verifier.verify('/hooks/b.js', '')
+        expect(unlisted.status).toBe('unlisted')
+        expect(verifier.accepts(unlisted)).toBe(false)
+    })
+
+    test('unverified modules run unless verification is required', async () => {
+        const lenient = new IntegrityVerifier({ loadManifest: async () => null })
+        lenient.setCommit('abc')
+        const result = await lenient.verify('/hooks/a.js', 'x')
+        expect(result.status).toBe('unverified')
+        expect(lenient.accepts(result)).toBe(true)
+
+        const strict = new IntegrityVerifier({ loadManifest, required: true })
+        const noHead = await strict.verify('/hooks/a.js', 'export default 1')
+        expect(noHead.status).toBe('unverified')
+        expect(strict.accepts(noHead)).toBe(false)
+    })
+
+    test('shares verified blobs across verifiers by hash', async () => {
+        const blobCache = new VerifiedBlobCache()
+        const first = new IntegrityVerifier({ loadManifest, blobCache })
+        const second = new IntegrityVerifier({ loadManifest, blobCache })
+        first.setCommit('abc')
+        second.setCommit('abc')
+        expect(await second.cachedSource('/hooks/a.js')).toBeNull()
+        await first.verify('/hooks/a.js', 'export default 1')
+        expect(await second.cachedSource('/hooks/a.js')).toBe('export default 1')
+    })
+})
+
+describe('VerifiedBlobCache', () => {
+    test('evicts least recently used entries past the size limit', () => {
+        const cache = new VerifiedBlobCache({ maxBytes: 10 })
+        cache.set('a', '1234')
+        cache.set('b', '1234')
+        cache.get('a')
+        cache.set('c', '1234')
+        expect(cache.get('b')).toBeNull()
+        expect(cache.get('a')).toBe('1234')
+        expect(cache.size).toBe(2)
+    })
+})
+
+describe('HookLoader - integrity', () => {
+    const good = 'export default () => "ok"'
+    let body: string
+    let requested: number
+
+    beforeEach(() => {
+        body = good
+        requested = 0
+        ;(globalThis as any).fetch = jest.fn(async () => {
+            requested++
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: { get: () => 'text/javascript' },
+                text: async () => body,
+            }
+        })
+    })
+
+    const createLoader = (integrity: IntegrityVerifier, onDiagnostics = jest.fn()) => {
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async () => ({ default: () => 'ok' })),
+        }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            onDiagnostics,
+            prefetchDependencies: false,
+            integrity,
+        })
+        return { loader, moduleLoader, onDiagnostics }
+    }
+
+    const verifierFor = (blobCache?: VerifiedBlobCache) => {
+        const verifier = new IntegrityVerifier({
+            loadManifest: async (commit) => ({ commit, files: { '/hooks/client/get-client.js': gitBlobHash(good) } }),
+            blobCache,
+        })
+        verifier.setCommit('abc')
+        return verifier
+    }
+
+    test('refuses to execute a tampered module', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => { })
+        body = 'export default () => "evil"'
+        const { loader, moduleLoader, onDiagnostics } = createLoader(verifierFor())
+        await expect(loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext))
+            .rejects.toThrow(/IntegrityError: \/hooks\/client\/get-client.js does not match the commit at abc/)
+        expect(moduleLoader.executeModule).not.toHaveBeenCalled()
+        expect(onDiagnostics).toHaveBeenCalledWith(expect.objectContaining({
+            phase: 'integrity',
+            integrity: expect.objectContaining({ status: 'mismatch' }),
+        }))
+        error.mockRestore()
+    })
+
+    test('reuses verified sources from another peer without fetching', async () => {
+        const blobCache = new VerifiedBlobCache()
+        await createLoader(verifierFor(blobCache)).loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)
+        expect(requested).toBe(1)
+
+        const other = createLoader(verifierFor(blobCache))
+        await expect(other.loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)).resolves.toBe('ok')
+        expect(requested).toBe(1)
+    })
+})
@@ -0,0 +1,382 @@
+/**
+ * Hook Module Integrity
+ *
+ * Peers can publish a per-commit manifest of the hashes of the files a hook
+ * may load, advertised in OPTIONS:
+ *
+ *   client:
+ *     integrity:
+ *       manifest: /.relay/integrity/{commit}.json   # {commit} is the branch head
+ *       required: false                              # refuse hooks that can't be verified
+ *
+ * The manifest lists git blob ids (what `git ls-tree` prints) or SRI hashes:
+ *
+ *   { "commit": "<sha>", "files": { "hooks/client/get-client.jsx": "e69de29...", "hooks/lib/ui.tsx": "sha384-..." } }
+ *
+ * Fetched sources are checked against it before they are transpiled or run.
+ * Verified sources are cached by hash, so identical content is reused across
+ * peers without another download.
+ */
+
+export interface IntegrityConfig {
+  /** Manifest path or URL; `{commit}` is replaced by the branch head */
+  manifest: string | null
+  /** Refuse modules that cannot be verified (no manifest, unknown commit) */
+  required: boolean
+}
+
+export interface IntegrityManifest {
+  commit: string
+  /** Absolute module path -> git blob id or SRI hash */
+  files: Record<string, string>
+}
+
+export type IntegrityStatus =
+  /** Content matches the manifest */
+  | 'verified'
+  /** Content differs from the manifest */
+  | 'mismatch'
+  /** A manifest exists but does not list the file */
+  | 'unlisted'
+  /** Nothing to verify against (no manifest, unknown commit or hash algorithm) */
+  | 'unverified'
+
+export interface IntegrityResult {
+  status: IntegrityStatus
+  path: string
+  commit: string | null
+  expected?: string
+  actual?: string
+  reason?: string
+}
+
+export interface IntegrityVerifierOptions {
+  /** Fetch the manifest for a commit; resolve null when the peer has none */
+  loadManifest: (commit: string) => Promise<IntegrityManifest | null>
+  /** Refuse unverified modules instead of letting them run */
+  required?: boolean
+  /** Cache of verified sources, usually shared by every peer's verifier */
+  blobCache?: VerifiedBlobCache
+}
+
+const GIT_BLOB_ID = /^[0-9a-f]{40}$/i
+const SRI_HASH = /^(sha256|sha384|sha512)-([A-Za-z0-9+/]+={0,2})$/
+const SRI_DIGESTS: Record<string, string> = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' }
+
+/**
+ * Read the integrity settings from an OPTIONS payload (`client.integrity`)
+ */
+export function parseIntegrityConfig(options: unknown): IntegrityConfig {
+  const raw = (options as { client?: { integrity?: unknown } } | null)?.client?.integrity
+  if (typeof raw === 'string') return { manifest: raw, required: false }
+  if (!raw || typeof raw !== 'object') return { manifest: null, required: false }
+  const entry = raw as { manifest?: unknown; required?: unknown }
+  return {
+    manifest: typeof entry.manifest === 'string' && entry.manifest ? entry.manifest : null,
+    required: entry.required === true,
+  }
+}
+
+/**
+ * Normalize a manifest payload, keyed by absolute module path
+ * @param raw Parsed manifest JSON
+ * @param commit Commit the manifest was requested for
+ * @returns The manifest, or null when it is malformed or describes another commit
+ */
+export function parseIntegrityManifest(raw: unknown, commit: string): IntegrityManifest | null {
+  if (!raw || typeof raw !== 'object') return null
+  const data = raw as { commit?: unknown; files?: unknown }
+  if (typeof data.commit === 'string' && data.commit && data.commit !== commit) {
+    console.warn('[Integrity] Ignoring manifest for another commit:', data.commit, 'expected', commit)
+    return null
+  }
+  if (!data.files || typeof data.files !== 'object' || Array.isArray(data.files)) return null
+  const files: Record<string, string> = {}
+  for (const [path, hash] of Object.entries(data.files as Record<string, unknown>)) {
+    if (typeof hash !== 'string' || !(GIT_BLOB_ID.test(hash) || SRI_HASH.test(hash))) continue
+    files[path.startsWith('/') ? path : `/${path}`] = GIT_BLOB_ID.test(hash) ? hash.toLowerCase() : hash
+  }
+  return { commit, files }
+}
+
+/**
+ * Fetch and parse the manifest a peer publishes for a commit
+ * @param baseUrl Peer base URL (e.g. https://peer.example)
+ * @param manifestPath Manifest path or URL from IntegrityConfig, with a `{commit}` placeholder
+ * @param commit Branch head to verify against
+ * @returns The manifest, or null when the peer has none for this commit
+ */
+export async function fetchIntegrityManifest(baseUrl: string, manifestPath: string, commit: string): Promise<IntegrityManifest | null> {
+  const path = manifestPath.split('{commit}').join(commit)
+  const url = /^https?:\/\//.test(path) ? path : `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`
+  const response = await fetch(url)
+  if (!response.ok) return null
+  return parseIntegrityManifest(await response.json(), commit)
+}
+
+function utf8Bytes(input: string): Uint8Array {
+  if (typeof TextEncoder !== 'undefined') return new TextEncoder().encode(input)
+  const bytes: number[] = []
+  for (let i = 0; i < input.length; i++) {
+    let code = input.charCodeAt(i)
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < input.length) {
+      const low = input.charCodeAt(i + 1)
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00)
+        i++
+      }
+    }
+    if (code < 0x80) bytes.push(code)
+    else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f))
+    else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+    else bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * SHA-1 of a byte array, as hex. Plain JS because React Native has no
+ * SubtleCrypto; git blob ids only need SHA-1.
+ */
+function sha1Hex(bytes: Uint8Array): string {
+  const bitLength = bytes.length * 8
+  const padded = new Uint8Array((((bytes.length + 8) >> 6) + 1) << 6)
+  padded.set(bytes)
+  padded[bytes.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000))
+  view.setUint32(padded.length - 4, bitLength >>> 0)
+
+  let h0 = 0x67452301
+  let h1 = 0xefcdab89
+  let h2 = 0x98badcfe
+  let h3 = 0x10325476
+  let h4 = 0xc3d2e1f0
+  const w = new Uint32Array(80)
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4)
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16]
+      w[i] = (x << 1) | (x >>> 31)
+    }
+    let a = h0
+    let b = h1
+    let c = h2
+    let d = h3
+    let e = h4
+    for (let i = 0; i < 80; i++) {
+      let f: number
+      let k: number
+      if (i < 20) { f = (b & c) | (~b & d); k = 0x5a827999 }
+      else if (i < 40) { f = b ^ c ^ d; k = 0x6ed9eba1 }
+      else if (i < 60) { f = (b & c) | (b & d) | (c & d); k = 0x8f1bbcdc }
+      else { f = b ^ c ^ d; k = 0xca62c1d6 }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0
+      e = d
+      d = c
+      c = (b << 30) | (b >>> 2)
+      b = a
+      a = temp
+    }
+    h0 = (h0 + a) >>> 0
+    h1 = (h1 + b) >>> 0
+    h2 = (h2 + c) >>> 0
+    h3 = (h3 + d) >>> 0
+    h4 = (h4 + e) >>> 0
+  }
+  return [h0, h1, h2, h3, h4].map((h) => h.toString(16).padStart(8, '0')).join('')
+}
+
+/**
+ * Git blob id of file content (`git hash-object`)
+ */
+export function gitBlobHash(content: string): string {
+  const body = utf8Bytes(content)
+  const header = utf8Bytes(`blob ${body.length}\0`)
+  const bytes = new Uint8Array(header.length + body.length)
+  bytes.set(header)
+  bytes.set(body, header.length)
+  return sha1Hex(bytes)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    out += chars[(n >> 18) & 63] + chars[(n >> 12) & 63]
+    out += i + 1 < bytes.length ? chars[(n >> 6) & 63] : '='
+    out += i + 2 < bytes.length ? chars[n & 63] : '='
+  }
+  return out
+}
+
+/**
+ * Hash content in the same format as an expected manifest hash
+ * @param content File content
+ * @param expected Git blob id or SRI hash from the manifest
+ * @returns The content's hash, or null when the algorithm is unavailable on this platform
+ */
+export async function computeIntegrityHash(content: string, expected: string): Promise<string | null> {
+  if (GIT_BLOB_ID.test(expected)) return gitBlobHash(content)
+  const sri = SRI_HASH.exec(expected)
+  const subtle = (globalThis as any).crypto?.subtle
+  if (!sri || !subtle) return null
+  const digest = await subtle.digest(SRI_DIGESTS[sri[1]], utf8Bytes(content))
+  return `${sri[1]}-${toBase64(new Uint8Array(digest))}`
+}
+
+/**
+ * Verified module sources keyed by hash, bounded by total size (LRU)
+ */
+export class VerifiedBlobCache {
+  private entries: Map<string, string> = new Map()
+  private bytes = 0
+  private maxBytes: number
+
+  /**
+   * @param options.maxBytes Maximum total size of cached sources in characters (default: 20MB)
+   */
+  constructor(options: { maxBytes?: number } = {}) {
+    this.maxBytes = options.maxBytes ?? 20 * 1024 * 1024
+  }
+
+  get(hash: string): string | null {
+    const content = this.entries.get(hash)
+    if (content === undefined) return null
+    // Re-insert to mark as most recently used
+    this.entries.delete(hash)
+    this.entries.set(hash, content)
+    return content
+  }
+
+  set(hash: string, content: string): void {
+    if (content.length > this.maxBytes) return
+    const previous = this.entries.get(hash)
+    if (previous !== undefined) {
+      this.entries.delete(hash)
+      this.bytes -= previous.length
+    }
+    this.entries.set(hash, content)
+    this.bytes += content.length
+    for (const [key, value] of this.entries) {
+      if (this.bytes <= this.maxBytes) break
+      this.entries.delete(key)
+      this.bytes -= value.length
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.bytes = 0
+  }
+}
+
+/**
+ * Checks module sources from one peer against the manifest of its branch head
+ */
+export class IntegrityVerifier {
+  private loadManifest: (commit: string) => Promise<IntegrityManifest | null>
+  private required: boolean
+  private blobCache?: VerifiedBlobCache
+  private commit: string | null = null
+  private manifests: Map<string, Promise<IntegrityManifest | null>> = new Map()
+
+  constructor(options: IntegrityVerifierOptions) {
+    this.loadManifest = options.loadManifest
+    this.required = !!options.required
+    this.blobCache = options.blobCache
+  }
+
+  /**
+   * Set the commit that fetched modules must match (the branch head)
+   */
+  setCommit(commit: string | null | undefined): void {
+    this.commit = commit || null
+  }
+
+  getCommit(): string | null {
+    return this.commit
+  }
+
+  /**
+   * Change whether unverified modules are refused (e.g. once OPTIONS is known)
+   */
+  setRequired(required: boolean): void {
+    this.required = required
+  }
+
+  private manifest(): Promise<IntegrityManifest | null> {
+    const commit = this.commit
+    if (!commit) return Promise.resolve(null)
+    let pending = this.manifests.get(commit)
+    if (!pending) {
+      pending = this.loadManifest(commit).catch((err) => {
+        console.warn('[Integrity] Could not load manifest for', commit, err)
+        return null
+      })
+      this.manifests.set(commit, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Hash the manifest expects for a module, if any
+   */
+  async expectedHash(path: string): Promise<string | null> {
+    const manifest = await this.manifest()
+    return manifest?.files[path] ?? null
+  }
+
+  /**
+   * Source with the expected hash that was already verified, possibly from another peer
+   */
+  async cachedSource(path: string): Promise<string | null> {
+    if (!this.blobCache) return null
+    const expected = await this.expectedHash(path)
+    return expected ? this.blobCache.get(expected) : null
+  }
+
+  /**
+   * Check fetched content against the manifest; verified content is cached by hash
+   * @param path Absolute module path
+   * @param content Fetched source
+   */
+  async verify(path: string, content: string): Promise<IntegrityResult> {
+    const commit = this.commit
+    if (!commit) return { status: 'unverified', path, commit, reason: 'branch head is unknown' }
+    const manifest = await this.manifest()
+    if (!manifest) return { status: 'unverified', path, commit, reason: 'peer published no integrity manifest' }
+    const expected = manifest.files[path]
+    if (!expected) return { status: 'unlisted', path, commit, reason: 'not listed in the integrity manifest' }
+    const actual = await computeIntegrityHash(content, expected)
+    if (actual === null) return { status: 'unverified', path, commit, expected, reason: 'hash algorithm unavailable' }
+    if (actual !== expected) return { status: 'mismatch', path, commit, expected, actual }
+    this.blobCache?.set(expected, content)
+    return { status: 'verified', path, commit, expected, actual }
+  }
+
+  /**
+   * Whether a module with this result may run
+   */
+  accepts(result: IntegrityResult): boolean {
+    if (result.status === 'verified') return true
+    if (result.status === 'unverified') return !this.required
+    return false
+  }
+}
+
+/**
+ * One-line explanation of a refused module, used as the IntegrityError message
+ */
+export function describeIntegrityFailure(result: IntegrityResult): string {
+  const at = result.commit ? ` at ${result.commit.substring(0, 7)}` : ''
+  if (result.status === 'mismatch') {
+    return `${result.path} does not match the commit${at} (expected ${result.expected}, got ${result.actual})`
+  }
+  return `${result.path} could not be verified${at}: ${result.reason || result.status}`
+}
@@ -0,0 +1,111 @@
+/**
+ * Tests for the typed runtime loader errors
+ */
+
+import {
+    ExecutionError,
+    HookLoaderError,
+    HtmlInsteadOfCodeError,
+    IntegrityError,
+    MissingDefaultExportError,
+    ModuleLoadError,
+    TranspileError,
+    describeLoaderError,
+    toExecutionError,
+} from './loaderErrors'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('loader errors', () => {
+    test('keep the name prefix and carry request details', () => {
+        const err = new HtmlInsteadOfCodeError('/hooks/a.jsx returned HTML', {
+            url: 'http://peer/hooks/a.jsx',
+            status: 200,
+            filename: '/hooks/a.jsx',
+            contentType: 'text/html',
+        })
+        expect(err).toBeInstanceOf(ModuleLoadError)
+        expect(err).toBeInstanceOf(HookLoaderError)
+        expect(err.name).toBe('HtmlInsteadOfCodeError')
+        expect(err.message).toBe('HtmlInsteadOfCodeError: /hooks/a.jsx returned HTML')
+        expect(err).toMatchObject({ url: 'http://peer/hooks/a.jsx', status: 200, contentType: 'text/html' })
+        expect(new IntegrityError('x')).toBeInstanceOf(ModuleLoadError)
+        expect(new MissingDefaultExportError('/hooks/a.jsx').filename).toBe('/hooks/a.jsx')
+    })
+
+    test('toExecutionError wraps hook errors and passes loader errors through', () => {
+        const loadErr = new ModuleLoadError('missing')
+        expect(toExecutionError(loadErr, { filename: '/hooks/a.jsx' })).toBe(loadErr)
+
+        const syntax = toExecutionError(new SyntaxError('Unexpected token <'), { filename: '/hooks/a.jsx' })
+        expect(syntax).toBeInstanceOf(ExecutionError)
+        expect(syntax.message).toBe('ExecutionError: /hooks/a.jsx: Unexpected token <')
+        expect((syntax as ExecutionError).isSyntaxError).toBe(true)
+        expect((toExecutionError(new TypeError('x is undefined'), {}) as ExecutionError).isSyntaxError).toBe(false)
+    })
+
+    test('describeLoaderError gives remediation per type', () => {
+        expect(describeLoaderError(new ModuleLoadError('gone', { status: 404 }))?.title).toBe('Module request failed (HTTP 404)')
+        expect(describeLoaderError(new TranspileError('bad', { transpilerVersion: '1.2.0' }))?.steps.join(' ')).toContain('v1.2.0')
+        expect(describeLoaderError(new MissingDefaultExportError('/hooks/a.jsx'))?.title).toBe('Hook has no default export')
+        expect(describeLoaderError(new Error('plain'))).toBeNull()
+    })
+})
+
+describe('HookLoader - typed errors', () => {
+    let response: { status: number; contentType: string; body: string }
+
+    beforeEach(() => {
+        response = { status: 200, contentType: 'text/javascript', body: 'export default () => "ok"' }
+        ;(globalThis as any).fetch = jest.fn(async () => ({
+            ok: response.status < 400,
+            status: response.status,
+            statusText: '',
+            headers: { get: () => response.contentType },
+            text: async () => response.body,
+        }))
+        jest.spyOn(console, 'error').mockImplementation(() => { })
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    const load = (exports: any, onDiagnostics = jest.fn()) => {
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async () => {
+                if (exports instanceof Error) throw exports
+                return exports
+            }),
+        }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            onDiagnostics,
+            prefetchDependencies: false,
+        })
+        return loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)
+    }
+
+    test('HTTP failures and HTML responses are module load errors', async () => {
+        response.status = 404
+        await expect(load({ default: () => 'ok' })).rejects.toMatchObject({
+            name: 'ModuleLoadError',
+            status: 404,
+            url: 'http://peer.local/hooks/client/get-client.js',
+        })
+
+        response = { status: 200, contentType: 'text/html', body: '<!doctype html><html></html>' }
+        await expect(load({ default: () => 'ok' })).rejects.toBeInstanceOf(HtmlInsteadOfCodeError)
+    })
+
+    test('execution failures are typed and reported in diagnostics', async () => {
+        const onDiagnostics = jest.fn()
+        await expect(load({}, onDiagnostics)).rejects.toBeInstanceOf(MissingDefaultExportError)
+        expect(onDiagnostics).toHaveBeenCalledWith(expect.objectContaining({ errorType: 'MissingDefaultExportError' }))
+
+        const cause = new ReferenceError('h is not defined')
+        await expect(load(cause)).rejects.toMatchObject({ name: 'ExecutionError', cause, filename: '/hooks/client/get-client.js' })
+    })
+})
@@ -0,0 +1,202 @@
+/**
+ * Runtime Loader Errors
+ *
+ * Typed errors thrown while fetching, transpiling and executing hooks, so UIs
+ * can tell failures apart with `instanceof` instead of matching messages.
+ * Messages keep their historical `ModuleLoadError: ...` style prefix, which
+ * logs and stack-trace mapping still rely on.
+ */
+
+import type { TranspileAttempt } from './transpilerChain'
+
+export interface LoaderErrorInfo {
+  /** URL the module was fetched from */
+  url?: string
+  /** HTTP status of the fetch */
+  status?: number
+  /** Module path on the peer (e.g. /hooks/client/get-client.jsx) */
+  filename?: string
+  transpilerVersion?: string
+  /** Underlying error */
+  cause?: unknown
+}
+
+export type LoaderErrorName =
+  | 'ModuleLoadError'
+  | 'HtmlInsteadOfCodeError'
+  | 'IntegrityError'
+  | 'TranspileError'
+  | 'ExecutionError'
+  | 'MissingDefaultExportError'
+
+/**
+ * Base class of every error the hook loaders throw on purpose
+ */
+export class HookLoaderError extends Error {
+  name: LoaderErrorName
+  url?: string
+  status?: number
+  filename?: string
+  transpilerVersion?: string
+  cause?: unknown
+
+  constructor(name: LoaderErrorName, message: string, info: LoaderErrorInfo = {}) {
+    super(`${name}: ${message}`)
+    this.name = name
+    this.url = info.url
+    this.status = info.status
+    this.filename = info.filename
+    this.transpilerVersion = info.transpilerVersion
+    this.cause = info.cause
+  }
+}
+
+/**
+ * A module could not be fetched or resolved
+ */
+export class ModuleLoadError extends HookLoaderError {
+  constructor(message: string, info?: LoaderErrorInfo, name: LoaderErrorName = 'ModuleLoadError') {
+    super(name, message, info)
+  }
+}
+
+/**
+ * The peer answered a module request with an HTML page (SPA fallback, error page)
+ */
+export class HtmlInsteadOfCodeError extends ModuleLoadError {
+  contentType: string
+
+  constructor(message: string, info: LoaderErrorInfo & { contentType: string }) {
+    super(message, info, 'HtmlInsteadOfCodeError')
+    this.contentType = info.contentType
+  }
+}
+
+/**
+ * Module source does not match the peer's integrity manifest (see integrity.ts)
+ */
+export class IntegrityError extends ModuleLoadError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, info, 'IntegrityError')
+  }
+}
+
+/**
+ * Source could not be transpiled to runnable JavaScript
+ */
+export class TranspileError extends HookLoaderError {
+  /** Backends the transpiler chain tried, when it raised or passed on this error */
+  attempts?: TranspileAttempt[]
+
+  constructor(message: string, info?: LoaderErrorInfo & { attempts?: TranspileAttempt[] }) {
+    super('TranspileError', message, info)
+    this.attempts = info?.attempts
+  }
+}
+
+/**
+ * A module threw while it was evaluated or while its default export ran
+ */
+export class ExecutionError extends HookLoaderError {
+  /** The engine rejected the transpiled code (usually untranspiled JSX) */
+  isSyntaxError: boolean
+
+  constructor(message: string, info?: LoaderErrorInfo, name: LoaderErrorName = 'ExecutionError') {
+    super(name, message, info)
+    const cause = info?.cause as { name?: unknown } | undefined
+    this.isSyntaxError = cause instanceof SyntaxError || cause?.name === 'SyntaxError'
+  }
+}
+
+/**
+ * A hook module ran but has no default export function
+ */
+export class MissingDefaultExportError extends ExecutionError {
+  constructor(filename: string, info?: LoaderErrorInfo) {
+    super(`${filename} does not export a default function`, { filename, ...info }, 'MissingDefaultExportError')
+  }
+}
+
+/**
+ * Wrap an error thrown by hook code as an ExecutionError; loader errors pass through
+ * @param err Thrown value
+ * @param info Module the error came from
+ */
+export function toExecutionError(err: unknown, info: LoaderErrorInfo): HookLoaderError {
+  if (err instanceof HookLoaderError) return err
+  const message = err instanceof Error ? err.message : String(err)
+  return new ExecutionError(info.filename ? `${info.filename}: ${message}` : message, { ...info, cause: err })
+}
+
+/**
+ * What a user or hook author can do about a loader error
+ */
+export interface LoaderErrorHelp {
+  title: string
+  steps: string[]
+}
+
+/**
+ * Remediation for a loader error, or null for errors the loader did not raise
+ */
+export function describeLoaderError(error: unknown): LoaderErrorHelp | null {
+  if (error instanceof HtmlInsteadOfCodeError) {
+    return {
+      title: 'The peer returned a web page instead of code',
+      steps: [
+        `Check that ${error.filename || 'the module'} exists in the repository at this branch.`,
+        'If the peer sits behind an SPA fallback (e.g. nginx try_files), exclude /hooks/ from it.',
+      ],
+    }
+  }
+  if (error instanceof IntegrityError) {
+    return {
+      title: 'Hook code does not match the published commit',
+      steps: [
+        'The peer may be serving modified files. Try another peer for this repository.',
+        'If you run this peer, regenerate its integrity manifest for the current branch head.',
+      ],
+    }
+  }
+  if (error instanceof ModuleLoadError) {
+    return {
+      title: error.status ? `Module request failed (HTTP ${error.status})` : 'Module could not be loaded',
+      steps: error.status === 404
+        ? ['Check the import path and file extension; paths are case-sensitive.', 'Bare imports need an entry under client.imports in .relay.yaml.']
+        : ['Check that the peer is reachable, then retry.', 'Bare imports need an entry under client.imports in .relay.yaml.'],
+    }
+  }
+  if (error instanceof TranspileError) {
+    return {
+      title: 'Hook source could not be transpiled',
+      steps: [
+        'Fix the syntax error at the location shown; check that every JSX tag is closed.',
+        `Transpiler ${error.transpilerVersion ? `v${error.transpilerVersion}` : 'version unknown'}; if it failed to load, reload the page or enable server transpilation in Settings.`,
+      ],
+    }
+  }
+  if (error instanceof MissingDefaultExportError) {
+    return {
+      title: 'Hook has no default export',
+      steps: [
+        'Export the hook as `export default function (ctx) { ... }`.',
+        'CommonJS hooks can assign `module.exports.default` instead.',
+      ],
+    }
+  }
+  if (error instanceof ExecutionError) {
+    return error.isSyntaxError
+      ? {
+        title: 'The transpiled hook is not valid JavaScript',
+        steps: [
+          'JSX probably reached the engine untranspiled; use a .jsx/.tsx extension or add a `// @use-jsx` comment.',
+          'Check the browser console for transpiler warnings.',
+        ],
+      }
+      : {
+        title: 'The hook threw while running',
+        steps: ['Check the location and stack trace below; the error comes from the hook code itself.'],
+      }
+  }
+  return null
+}
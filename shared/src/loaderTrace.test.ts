@@ -0,0 +1,111 @@
+/**
+ * Tests for loader tracing and the Chrome trace export
+ */
+
+import { LoaderTrace, buildWaterfall } from './loaderTrace'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('LoaderTrace', () => {
+    const clock = () => {
+        let t = 0
+        return { now: () => t, advance: (ms: number) => { t += ms } }
+    }
+
+    test('records spans with attributes and notifies subscribers', () => {
+        const { now, advance } = clock()
+        const trace = new LoaderTrace({ now })
+        const listener = jest.fn()
+        const unsubscribe = trace.subscribe(listener)
+
+        const span = trace.begin('/hooks/a.jsx', 'fetch', 'HookLoader')
+        advance(12)
+        span.end({ bytes: 100, servedBy: 'http://peer' })
+        span.fail(new Error('ignored after end'))
+        trace.begin('/hooks/b.jsx', 'transform', 'HookLoader').fail(new Error('bad'))
+
+        expect(trace.getSpans()).toEqual([
+            expect.objectContaining({ module: '/hooks/a.jsx', phase: 'fetch', start: 0, end: 12, bytes: 100, servedBy: 'http://peer' }),
+            expect.objectContaining({ module: '/hooks/b.jsx', error: 'bad' }),
+        ])
+        expect(listener).toHaveBeenCalledTimes(4)
+        unsubscribe()
+        trace.clear()
+        expect(listener).toHaveBeenCalledTimes(4)
+    })
+
+    test('drops the oldest spans past maxSpans', () => {
+        const trace = new LoaderTrace({ maxSpans: 2 })
+        for (const module of ['/a', '/b', '/c']) trace.begin(module, 'fetch', 'HookLoader').end()
+        expect(trace.getSpans().map((s) => s.module)).toEqual(['/b', '/c'])
+    })
+
+    test('exports finished spans as Chrome trace events, one thread per module', () => {
+        const { now, advance } = clock()
+        const trace = new LoaderTrace({ now })
+        advance(1)
+        const fetch = trace.begin('/hooks/a.jsx', 'fetch', 'HookLoader')
+        advance(2.5)
+        fetch.end({ cacheHit: true })
+        trace.begin('/hooks/b.jsx', 'import', 'ES6ImportHandler')
+
+        const { traceEvents } = trace.toChromeTrace()
+        expect(traceEvents).toEqual([
+            { name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 1, args: { name: '/hooks/a.jsx' } },
+            {
+                name: 'fetch /hooks/a.jsx',
+                cat: 'fetch',
+                ph: 'X',
+                ts: 1000,
+                dur: 2500,
+                pid: 1,
+                tid: 1,
+                args: { loader: 'HookLoader', cacheHit: true },
+            },
+        ])
+    })
+
+    test('buildWaterfall places spans on a shared axis', () => {
+        const rows = buildWaterfall([
+            { id: 1, module: '/a', phase: 'fetch', loader: 'HookLoader', start: 10, end: 30 },
+            { id: 2, module: '/a', phase: 'transform', loader: 'HookLoader', start: 30, end: null },
+            { id: 3, module: '/b', phase: 'fetch', loader: 'HookLoader', start: 20, end: 50 },
+        ])
+        expect(rows.map((r) => [r.offset, r.width])).toEqual([[0, 0.5], [0.5, 0.5], [0.25, 0.75]])
+    })
+})
+
+describe('HookLoader - tracing', () => {
+    beforeEach(() => {
+        ;(globalThis as any).fetch = jest.fn(async () => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: { get: () => 'text/javascript' },
+            text: async () => 'export default () => "ok"',
+        }))
+    })
+
+    test('records fetch, transform, import and exec spans for the hook', async () => {
+        const trace = new LoaderTrace()
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async () => ({ default: () => 'ok' })),
+        }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+            trace,
+        })
+        await loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)
+
+        expect(trace.getSpans()).toEqual([
+            expect.objectContaining({ phase: 'fetch', bytes: 25, cacheHit: false, servedBy: 'http://peer.local' }),
+            expect.objectContaining({ phase: 'transform', bytes: 25, cacheHit: false }),
+            expect.objectContaining({ phase: 'import' }),
+            expect.objectContaining({ phase: 'exec' }),
+        ])
+        expect(trace.getSpans().every((s) => s.module === '/hooks/client/get-client.js' && s.end !== null)).toBe(true)
+    })
+})
@@ -0,0 +1,223 @@
+/**
+ * Loader Tracing
+ *
+ * Per-module spans (fetch, transform, import, exec) recorded by HookLoader and
+ * ES6ImportHandler. A single trace can be shared by every loader of a client
+ * so the debug views show one timeline, and exported as Chrome trace-event
+ * JSON (chrome://tracing, Perfetto) for offline analysis.
+ */
+
+export type TraceSpanPhase = 'fetch' | 'transform' | 'import' | 'exec'
+
+/**
+ * Details recorded when a span ends
+ */
+export interface TraceSpanAttributes {
+  /** Size of the source (fetch) or output (transform) */
+  bytes?: number
+  /** Served from the verified blob cache, transpile cache or module cache */
+  cacheHit?: boolean
+  /** Base URL of the peer that served the module */
+  servedBy?: string
+  /** Transpiler backend that produced the output (transform) */
+  backend?: string
+  error?: string
+}
+
+export interface TraceSpan extends TraceSpanAttributes {
+  id: number
+  /** Module path on the peer (e.g. /hooks/client/get-client.jsx) */
+  module: string
+  phase: TraceSpanPhase
+  /** Loader that recorded the span (e.g. HookLoader) */
+  loader: string
+  /** Milliseconds on the trace clock */
+  start: number
+  /** Null while the span is still open */
+  end: number | null
+}
+
+/**
+ * Handle for a span that has been started
+ */
+export interface ActiveSpan {
+  end(attributes?: TraceSpanAttributes): void
+  /** End the span with the error's message */
+  fail(err: unknown, attributes?: TraceSpanAttributes): void
+}
+
+export interface LoaderTraceOptions {
+  /** Oldest spans are dropped past this count (default: 2000) */
+  maxSpans?: number
+  /** Clock in milliseconds (default: performance.now, falling back to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Chrome trace-event format (https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU)
+ */
+export interface ChromeTraceEvent {
+  name: string
+  cat?: string
+  ph: 'X' | 'M'
+  /** Microseconds */
+  ts: number
+  dur?: number
+  pid: number
+  tid: number
+  args?: Record<string, unknown>
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[]
+  displayTimeUnit: 'ms'
+}
+
+/**
+ * A span placed on a waterfall, as fractions of the traced time range
+ */
+export interface WaterfallRow {
+  span: TraceSpan
+  /** Start relative to the first span, 0..1 */
+  offset: number
+  /** Duration relative to the whole range, 0..1 */
+  width: number
+  durationMs: number
+}
+
+const DEFAULT_MAX_SPANS = 2000
+
+const NOOP_SPAN: ActiveSpan = { end: () => { }, fail: () => { } }
+
+function defaultNow(): number {
+  const perf = (globalThis as any).performance
+  return perf && typeof perf.now === 'function' ? perf.now() : Date.now()
+}
+
+/**
+ * Collects loader spans; subscribers are notified whenever a span starts or ends
+ */
+export class LoaderTrace {
+  private spans: TraceSpan[] = []
+  private nextId = 1
+  private maxSpans: number
+  private now: () => number
+  private listeners: Set<() => void> = new Set()
+
+  constructor(options: LoaderTraceOptions = {}) {
+    this.maxSpans = options.maxSpans ?? DEFAULT_MAX_SPANS
+    this.now = options.now || defaultNow
+  }
+
+  /**
+   * Start a span
+   * @param module Module path the work is for
+   * @param phase Loader phase
+   * @param loader Name of the recording loader
+   */
+  begin(module: string, phase: TraceSpanPhase, loader: string): ActiveSpan {
+    const span: TraceSpan = { id: this.nextId++, module, phase, loader, start: this.now(), end: null }
+    this.spans.push(span)
+    if (this.spans.length > this.maxSpans) this.spans.splice(0, this.spans.length - this.maxSpans)
+    this.notify()
+    const end = (attributes?: TraceSpanAttributes) => {
+      if (span.end !== null) return
+      Object.assign(span, attributes)
+      span.end = this.now()
+      this.notify()
+    }
+    return {
+      end,
+      fail: (err, attributes) => end({ ...attributes, error: err instanceof Error ? err.message : String(err) }),
+    }
+  }
+
+  /**
+   * Recorded spans, oldest first
+   */
+  getSpans(): TraceSpan[] {
+    return this.spans.slice()
+  }
+
+  clear(): void {
+    this.spans = []
+    this.notify()
+  }
+
+  /**
+   * Listen for span changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Export finished spans as Chrome trace events, one thread per module
+   */
+  toChromeTrace(): ChromeTrace {
+    const threads = new Map<string, number>()
+    const traceEvents: ChromeTraceEvent[] = []
+    for (const span of this.spans) {
+      if (span.end === null) continue
+      let tid = threads.get(span.module)
+      if (tid === undefined) {
+        tid = threads.size + 1
+        threads.set(span.module, tid)
+        traceEvents.push({ name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid, args: { name: span.module } })
+      }
+      const args: Record<string, unknown> = { loader: span.loader }
+      if (span.bytes !== undefined) args.bytes = span.bytes
+      if (span.cacheHit !== undefined) args.cacheHit = span.cacheHit
+      if (span.servedBy) args.servedBy = span.servedBy
+      if (span.backend) args.backend = span.backend
+      if (span.error) args.error = span.error
+      traceEvents.push({
+        name: `${span.phase} ${span.module}`,
+        cat: span.phase,
+        ph: 'X',
+        ts: Math.round(span.start * 1000),
+        dur: Math.round((span.end - span.start) * 1000),
+        pid: 1,
+        tid,
+        args,
+      })
+    }
+    return { traceEvents, displayTimeUnit: 'ms' }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (err) {
+        console.warn('[LoaderTrace] Listener failed', err)
+      }
+    })
+  }
+}
+
+/**
+ * Start a span on an optional trace
+ */
+export function beginSpan(trace: LoaderTrace | undefined, module: string, phase: TraceSpanPhase, loader: string): ActiveSpan {
+  return trace ? trace.begin(module, phase, loader) : NOOP_SPAN
+}
+
+/**
+ * Lay spans out on a shared time axis. Open spans extend to the latest timestamp seen.
+ * @param spans Spans in start order (see LoaderTrace.getSpans)
+ */
+export function buildWaterfall(spans: TraceSpan[]): WaterfallRow[] {
+  if (spans.length === 0) return []
+  const first = Math.min(...spans.map((s) => s.start))
+  const last = Math.max(...spans.map((s) => s.end ?? s.start))
+  const range = Math.max(last - first, 1)
+  return spans.map((span) => {
+    const durationMs = (span.end ?? last) - span.start
+    return { span, offset: (span.start - first) / range, width: durationMs / range, durationMs }
+  })
+}
@@ -0,0 +1,192 @@
+/**
+ * Tests for module dependency graph scanning, HookLoader prefetching and invalidation
+ */
+
+import { scanImportSpecifiers, isPrefetchableSpecifier } from './moduleGraph'
+import { ImportMapResolver } from './importMap'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+describe('moduleGraph - scanImportSpecifiers', () => {
+    test('collects relative and absolute specifiers from transpiled forms', () => {
+        const code = [
+            "const a = await __hook_import('./a.jsx')",
+            'const b = await context.helpers.loadModule("../lib/b.js")',
+            "const c = await import('/hooks/client/c.jsx')",
+            "import { d } from './d.js'",
+            "export * from './e.js'",
+            "const f = require('./f.js')",
+        ].join('\n')
+        expect(scanImportSpecifiers(code).sort()).toEqual(
+            ['../lib/b.js', './a.jsx', './d.js', './e.js', './f.js', '/hooks/client/c.jsx'].sort()
+        )
+    })
+
+    test('ignores bare, duplicate and templated specifiers', () => {
+        const code = [
+            "import React from 'react'",
+            "import { md } from '@relay/markdown'",
+            "await __hook_import('./same.jsx')",
+            "await __hook_import('./same.jsx')",
+            'await __hook_import(`./${name}.jsx`)',
+        ].join('\n')
+        expect(scanImportSpecifiers(code)).toEqual(['./same.jsx'])
+    })
+
+    test('isPrefetchableSpecifier only accepts peer paths', () => {
+        expect(isPrefetchableSpecifier('./x.js')).toBe(true)
+        expect(isPrefetchableSpecifier('/hooks/x.js')).toBe(true)
+        expect(isPrefetchableSpecifier('react')).toBe(false)
+        expect(isPrefetchableSpecifier('')).toBe(false)
+    })
+})
+
+describe('HookLoader - dependency prefetch', () => {
+    const files: Record<string, string> = {
+        '/hooks/client/get-client.js': "export default async () => (await __hook_import('./a.js')).default",
+        '/hooks/client/a.js': "const b = __hook_import('./lib/b.js'); export default 'a'",
+        '/hooks/client/lib/b.js': "const a = __hook_import('../a.js'); export default 'b'",
+    }
+    let requested: string[]
+
+    beforeEach(() => {
+        requested = []
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => {
+            const path = new URL(url).pathname
+            requested.push(path)
+            const body = files[path]
+            return {
+                ok: body !== undefined,
+                status: body !== undefined ? 200 : 404,
+                statusText: body !== undefined ? 'OK' : 'Not Found',
+                headers: { get: () => 'text/javascript' },
+                text: async () => body || '',
+            }
+        })
+    })
+
+    const createLoader = (onDiagnostics = jest.fn()) => {
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async (code: string) => ({ default: () => code })),
+        }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            onDiagnostics,
+        })
+        return { loader, moduleLoader }
+    }
+
+    test('walks the graph once, handling cycles', async () => {
+        const { loader } = createLoader()
+        const context = {} as HookContext
+        const graph = await loader.prefetchDependencies(
+            '/hooks/client/get-client.js',
+            files['/hooks/client/get-client.js'],
+            context
+        )
+        expect(Object.keys(graph.nodes).sort()).toEqual([
+            '/hooks/client/a.js',
+            '/hooks/client/get-client.js',
+            '/hooks/client/lib/b.js',
+        ])
+        expect(graph.nodes['/hooks/client/a.js'].dependencies).toEqual(['/hooks/client/lib/b.js'])
+        expect(requested.sort()).toEqual(['/hooks/client/a.js', '/hooks/client/lib/b.js'])
+
+        // Prefetched modules are executed without another request
+        await loader.loadModule('./a.js', '/hooks/client/get-client.js', context)
+        expect(requested).toHaveLength(2)
+    })
+
+    test('records failed dependencies without throwing', async () => {
+        const { loader } = createLoader()
+        const graph = await loader.prefetchDependencies(
+            '/hooks/client/get-client.js',
+            "__hook_import('./missing.js')",
+            {} as HookContext
+        )
+        expect(graph.nodes['/hooks/client/missing.js'].status).toBe('failed')
+        expect(graph.nodes['/hooks/client/missing.js'].error).toMatch(/ModuleLoadError/)
+    })
+
+    test('loadAndExecuteHook reports the graph in prefetch diagnostics', async () => {
+        const onDiagnostics = jest.fn()
+        const { loader } = createLoader(onDiagnostics)
+        await loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)
+        const prefetch = onDiagnostics.mock.calls.map((c) => c[0]).find((d) => d.phase === 'prefetch')
+        expect(prefetch?.graph?.entry).toBe('/hooks/client/get-client.js')
+        expect(prefetch?.details?.modules).toBe(3)
+    })
+})
+
+describe('HookLoader - hot reload invalidation', () => {
+    test('invalidates changed modules and their importers only', async () => {
+        const files: Record<string, string> = {
+            '/hooks/client/app.js': "const u = __hook_import('./util.js'); export default 'app'",
+            '/hooks/client/util.js': "export default 'util'",
+            '/hooks/client/other.js': "export default 'other'",
+        }
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: { get: () => 'text/javascript' },
+            text: async () => files[new URL(url).pathname],
+        }))
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader: { executeModule: jest.fn(async (code: string) => ({ default: code })) },
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+        })
+        const context = {} as HookContext
+        await loader.loadModule('/hooks/client/app.js', undefined, context)
+        await loader.loadModule('/hooks/client/util.js', undefined, context)
+        await loader.loadModule('/hooks/client/other.js', undefined, context)
+
+        expect(await loader.invalidateChanged(context)).toEqual([])
+
+        files['/hooks/client/util.js'] = "export default 'util v2'"
+        const invalidated = await loader.invalidateChanged(context)
+        expect(invalidated.sort()).toEqual(['/hooks/client/app.js', '/hooks/client/util.js'])
+
+        const util = await loader.loadModule('/hooks/client/util.js', undefined, context)
+        expect(util.default).toContain('util v2')
+    })
+
+    test('importers of import-mapped modules and assets are invalidated too', async () => {
+        const files: Record<string, string> = {
+            '/hooks/client/app.js': "const ui = __hook_import('ui'); const notes = __hook_import('./notes.txt?raw'); export default 'app'",
+            '/hooks/lib/ui.js': "export default 'ui'",
+            '/hooks/client/notes.txt': 'notes',
+        }
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: { get: () => 'text/javascript' },
+            text: async () => files[new URL(url).pathname],
+        }))
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader: { executeModule: jest.fn(async (code: string) => ({ default: code })) },
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+            importMap: new ImportMapResolver({ imports: { ui: '/hooks/lib/ui.js' } }),
+        })
+        const context = {} as HookContext
+        await loader.loadModule('/hooks/client/app.js', undefined, context)
+        await loader.loadModule('ui', '/hooks/client/app.js', context)
+        await loader.loadModule('./notes.txt?raw', '/hooks/client/app.js', context)
+
+        files['/hooks/lib/ui.js'] = "export default 'ui v2'"
+        expect((await loader.invalidateChanged(context)).sort()).toEqual(['/hooks/client/app.js', '/hooks/lib/ui.js'])
+
+        await loader.loadModule('/hooks/client/app.js', undefined, context)
+        files['/hooks/client/notes.txt'] = 'notes v2'
+        expect((await loader.invalidateChanged(context)).sort()).toEqual(['/hooks/client/app.js', '/hooks/client/notes.txt'])
+    })
+})
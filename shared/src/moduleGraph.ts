@@ -0,0 +1,73 @@
+/**
+ * Module Dependency Graph for Relay Hooks
+ *
+ * Statically scans transpiled hook output for import specifiers so the
+ * HookLoader can fetch and transpile a hook's whole dependency tree in
+ * parallel before executing it, instead of one round-trip per import.
+ */
+
+/**
+ * A single module discovered while prefetching
+ */
+export interface ModuleGraphNode {
+  path: string
+  url?: string
+  /** Base URL of the peer that served the module (differs from the tab's peer after failover) */
+  servedBy?: string
+  /** Transpiler backend that produced the module's code, or 'cache' (see transpilerChain.ts) */
+  transpiledBy?: string
+  dependencies: string[]
+  status: 'ready' | 'failed'
+  error?: string
+  durationMs?: number
+}
+
+/**
+ * Dependency graph rooted at a hook entry module
+ */
+export interface ModuleGraph {
+  entry: string
+  nodes: Record<string, ModuleGraphNode>
+  durationMs?: number
+  truncated?: boolean
+}
+
+// Forms an import can take after transpilation: the Rust transpiler rewrites
+// import() to __hook_import() or helpers.loadModule(), the server fallback
+// emits context.helpers.loadModule(), and untranspiled modules keep static
+// import/export-from or require() calls.
+const IMPORT_PATTERNS: RegExp[] = [
+  /\b__hook_import\s*\(\s*(['"`])([^'"`]+)\1\s*\)/g,
+  /\bloadModule\s*\(\s*(['"`])([^'"`]+)\1/g,
+  /\bimport\s*\(\s*(['"`])([^'"`]+)\1\s*\)/g,
+  /\b(?:import|export)\s+(?:[\w$*{}\s,]+?\s+from\s+)?(['"])([^'"]+)\1/g,
+  /\brequire\s*\(\s*(['"])([^'"]+)\1\s*\)/g,
+]
+
+/**
+ * Whether a specifier points at a peer-hosted module (relative or absolute path).
+ * Bare specifiers such as `react` or `@relay/theme` are provided by the client.
+ */
+export function isPrefetchableSpecifier(spec: string): boolean {
+  if (!spec || spec.includes('${')) return false
+  return spec.startsWith('./') || spec.startsWith('../') || spec.startsWith('/')
+}
+
+/**
+ * Collect the unique prefetchable import specifiers referenced by a module
+ * @param code Transpiled module source
+ * @param include Which specifiers to keep (default: relative/absolute paths only)
+ * @returns Unique matching specifiers
+ */
+export function scanImportSpecifiers(code: string, include: (spec: string) => boolean = isPrefetchableSpecifier): string[] {
+  const found = new Set<string>()
+  for (const pattern of IMPORT_PATTERNS) {
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(code)) !== null) {
+      const spec = match[2].trim()
+      if (spec && include(spec)) found.add(spec)
+    }
+  }
+  return Array.from(found)
+}
@@ -0,0 +1,186 @@
+/**
+ * Tests for the module resolver shared by HookLoader, ES6ImportHandler and the mobile loader
+ */
+
+import { ES6ImportHandler } from './es6ImportHandler'
+import { DEFAULT_HOOK_PATH, ImportMapResolver } from './importMap'
+import { ModuleLoadError } from './loaderErrors'
+import {
+    ModuleResolver,
+    createHttpProbe,
+    hasModuleExtension,
+    probeCandidates,
+} from './moduleResolver'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+const existsIn = (files: string[]) => jest.fn(async (path: string) => files.includes(path))
+
+describe('hasModuleExtension', () => {
+    test('recognizes module and asset extensions on the last segment only', () => {
+        for (const path of ['/a.js', '/a.mjs', '/a.cjs', '/a.jsx', '/a.ts', '/a.tsx', '/a.json', '/a.css', '/a.yaml', '/a.wasm']) {
+            expect(hasModuleExtension(path)).toBe(true)
+        }
+        expect(hasModuleExtension('/hooks/lib/utils')).toBe(false)
+        expect(hasModuleExtension('/hooks/v1.2/utils')).toBe(false)
+        expect(hasModuleExtension('/hooks/lib/date.utils')).toBe(false)
+        expect(hasModuleExtension('/hooks/lib/')).toBe(false)
+    })
+})
+
+describe('probeCandidates', () => {
+    test('tries files before directory index files', () => {
+        expect(probeCandidates('/hooks/lib/ui')).toEqual([
+            '/hooks/lib/ui.tsx',
+            '/hooks/lib/ui.ts',
+            '/hooks/lib/ui.jsx',
+            '/hooks/lib/ui.js',
+            '/hooks/lib/ui.mjs',
+            '/hooks/lib/ui/index.tsx',
+            '/hooks/lib/ui/index.ts',
+            '/hooks/lib/ui/index.jsx',
+            '/hooks/lib/ui/index.js',
+            '/hooks/lib/ui/index.mjs',
+        ])
+    })
+
+    test('a trailing slash probes only index files; extensions are kept as-is', () => {
+        expect(probeCandidates('/hooks/lib/ui/', ['.tsx', '.js'])).toEqual(['/hooks/lib/ui/index.tsx', '/hooks/lib/ui/index.js'])
+        expect(probeCandidates('/hooks/lib/ui.jsx')).toEqual(['/hooks/lib/ui.jsx'])
+    })
+})
+
+describe('ModuleResolver', () => {
+    test('resolves relative imports against the default hook when no importer is known', () => {
+        const resolver = new ModuleResolver()
+        expect(DEFAULT_HOOK_PATH).toBe('/hooks/client/get-client.jsx')
+        expect(resolver.resolve('./lib/a.js')).toEqual({ type: 'path', path: '/hooks/client/lib/a.js' })
+        expect(resolver.resolve('../shared/a.js', '')).toEqual({ type: 'path', path: '/hooks/shared/a.js' })
+        expect(resolver.resolve('utils.mjs')).toEqual({ type: 'path', path: '/hooks/client/utils.mjs' })
+        expect(resolver.resolve('/hooks/x/../y.js', '/hooks/query/q.jsx')).toEqual({ type: 'path', path: '/hooks/y.js' })
+        expect(resolver.resolve('react')).toEqual({ type: 'builtin', specifier: 'react' })
+    })
+
+    test('does not probe paths that already have an extension', async () => {
+        const exists = existsIn([])
+        const resolution = await new ModuleResolver().resolveFile('./a.jsx', '/hooks/client/x.jsx', exists)
+        expect(resolution).toEqual({ type: 'path', path: '/hooks/client/a.jsx' })
+        expect(exists).not.toHaveBeenCalled()
+    })
+
+    test('probes extensionless paths and remembers the result', async () => {
+        const resolver = new ModuleResolver()
+        const exists = existsIn(['/hooks/client/lib/date.ts', '/hooks/client/lib/date/index.tsx'])
+        const first = await resolver.resolveFile('./lib/date', '/hooks/client/get-client.jsx', exists)
+        expect(first).toEqual({ type: 'path', path: '/hooks/client/lib/date.ts' })
+        expect(exists.mock.calls.map(([p]) => p)).toEqual(['/hooks/client/lib/date.tsx', '/hooks/client/lib/date.ts'])
+
+        // Same module imported from elsewhere, and synchronously, reuses the probe
+        await resolver.resolveFile('../client/lib/date', '/hooks/query/q.jsx', exists)
+        expect(exists).toHaveBeenCalledTimes(2)
+        expect(resolver.resolve('./lib/date')).toEqual({ type: 'path', path: '/hooks/client/lib/date.ts' })
+    })
+
+    test('falls back to directory index files', async () => {
+        const resolution = await new ModuleResolver().resolveFile('/hooks/lib/ui', null, existsIn(['/hooks/lib/ui/index.jsx']))
+        expect(resolution).toEqual({ type: 'path', path: '/hooks/lib/ui/index.jsx' })
+    })
+
+    test('probes import-map targets and keeps the mapping', async () => {
+        const importMap = new ImportMapResolver({ imports: { ui: '/hooks/lib/ui', 'utils/': '/hooks/lib/utils/' } })
+        const resolver = new ModuleResolver({ importMap })
+        const exists = existsIn(['/hooks/lib/ui/index.tsx', '/hooks/lib/utils/date.js'])
+        expect(await resolver.resolveFile('ui', null, exists)).toEqual({ type: 'path', path: '/hooks/lib/ui/index.tsx', mappedFrom: 'ui' })
+        expect(await resolver.resolveFile('utils/date', null, exists)).toEqual({ type: 'path', path: '/hooks/lib/utils/date.js', mappedFrom: 'utils/' })
+    })
+
+    test('shares concurrent probes for the same path', async () => {
+        const resolver = new ModuleResolver()
+        const exists = existsIn(['/hooks/a.js'])
+        await Promise.all([resolver.resolveFile('/hooks/a', null, exists), resolver.resolveFile('/hooks/a', null, exists)])
+        expect(exists.mock.calls.map(([p]) => p)).toEqual(['/hooks/a.tsx', '/hooks/a.ts', '/hooks/a.jsx', '/hooks/a.js'])
+    })
+
+    test('reports every candidate when nothing exists, and retries later', async () => {
+        const resolver = new ModuleResolver({ extensions: ['.ts', '.js'] })
+        const files: string[] = []
+        const exists = jest.fn(async (path: string) => files.includes(path))
+        const failure = resolver.resolveFile('./missing', '/hooks/client/x.jsx', exists)
+        await expect(failure).rejects.toBeInstanceOf(ModuleLoadError)
+        await expect(failure).rejects.toMatchObject({
+            status: 404,
+            message: 'ModuleLoadError: /hooks/client/missing not found; tried /hooks/client/missing.ts, /hooks/client/missing.js, /hooks/client/missing/index.ts, /hooks/client/missing/index.js',
+        })
+
+        files.push('/hooks/client/missing.js')
+        expect(await resolver.resolveFile('./missing', '/hooks/client/x.jsx', exists)).toEqual({ type: 'path', path: '/hooks/client/missing.js' })
+    })
+
+    test('clearProbeCache forgets probed paths', async () => {
+        const resolver = new ModuleResolver()
+        await resolver.resolveFile('/hooks/a', null, existsIn(['/hooks/a.ts']))
+        resolver.clearProbeCache()
+        expect(resolver.resolve('/hooks/a')).toEqual({ type: 'path', path: '/hooks/a' })
+    })
+})
+
+describe('createHttpProbe', () => {
+    const response = (status: number, contentType = 'text/javascript') =>
+        ({ ok: status < 400, status, headers: { get: () => contentType } }) as unknown as Response
+
+    test('uses HEAD, falling back to GET when the peer does not support it', async () => {
+        const request = jest.fn(async (_path: string, init: RequestInit) => response(init.method === 'HEAD' ? 405 : 200))
+        expect(await createHttpProbe(request)('/hooks/a.js')).toBe(true)
+        expect(request.mock.calls.map(([, init]) => init.method)).toEqual(['HEAD', 'GET'])
+    })
+
+    test('treats 404s and HTML fallbacks as missing', async () => {
+        expect(await createHttpProbe(async () => response(404))('/hooks/a.js')).toBe(false)
+        expect(await createHttpProbe(async () => response(200, 'text/html; charset=utf-8'))('/hooks/a.js')).toBe(false)
+    })
+})
+
+describe('loaders - extension probing', () => {
+    const files: Record<string, string> = {
+        '/hooks/client/lib/util.ts': 'export const x = 1',
+    }
+
+    beforeEach(() => {
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => {
+            const path = new URL(url).pathname
+            const body = files[path]
+            return {
+                ok: body !== undefined,
+                status: body !== undefined ? 200 : 404,
+                statusText: '',
+                headers: { get: () => 'text/javascript' },
+                text: async () => body ?? '',
+            }
+        })
+    })
+
+    test('HookLoader and ES6ImportHandler resolve an extensionless import to the same file', async () => {
+        const resolver = new ModuleResolver()
+        const moduleLoader: ModuleLoader = { executeModule: jest.fn(async () => ({ x: 1 })) }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => code,
+            prefetchDependencies: false,
+            resolver,
+        })
+        await loader.loadModule('./lib/util', '/hooks/client/get-client.jsx', {} as HookContext)
+        expect(moduleLoader.executeModule).toHaveBeenCalledWith(
+            'export const x = 1',
+            '/hooks/client/lib/util.ts',
+            expect.anything(),
+            'http://peer.local/hooks/client/lib/util.ts',
+        )
+
+        const handler = new ES6ImportHandler({ host: 'peer.local', protocol: 'http', resolver })
+        const delegate = jest.fn(async () => ({ x: 1 }))
+        handler.setLoadModuleDelegate(delegate)
+        await handler.handle('./lib/util')
+        expect(handler.getCacheStats().entries).toEqual(['peer.local:/hooks/client/lib/util.ts'])
+    })
+})
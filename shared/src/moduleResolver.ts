@@ -0,0 +1,127 @@
+/**
+ * Module Resolution for Relay Hooks
+ *
+ * The one resolver HookLoader, ES6ImportHandler and the mobile module loader
+ * share, so a hook resolves its imports identically on web and React Native:
+ *   - specifiers go through the import map first (see importMap.ts)
+ *   - paths without a known file extension are probed on the peer, in order:
+ *       x.tsx, x.ts, x.jsx, x.js, x.mjs, then x/index.tsx ... x/index.mjs
+ *     (a trailing slash probes only the index files)
+ *   - probe results are remembered, so later synchronous resolves agree
+ */
+
+import { DEFAULT_HOOK_PATH, ImportMapResolver, type ImportResolution } from './importMap'
+import { ModuleLoadError } from './loaderErrors'
+
+/** Extensions tried, in order, for extensionless imports */
+export const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs']
+
+// Files that are requested as-is, never probed
+const KNOWN_EXTENSION_RE = /\.(?:[cm]?[jt]sx?|json|css|ya?ml|wasm|txt|md)$/i
+
+/**
+ * Whether a peer is serving a file at a path
+ */
+export type ModuleExists = (path: string) => Promise<boolean>
+
+/**
+ * Whether the last segment of a path has a file extension the loaders understand
+ */
+export function hasModuleExtension(path: string): boolean {
+  return KNOWN_EXTENSION_RE.test(path.slice(path.lastIndexOf('/') + 1))
+}
+
+/**
+ * Paths to try for an extensionless module path, in probing order
+ * @param path Absolute module path
+ * @param extensions Extensions to try (default: MODULE_EXTENSIONS)
+ */
+export function probeCandidates(path: string, extensions: string[] = MODULE_EXTENSIONS): string[] {
+  if (hasModuleExtension(path)) return [path]
+  const dir = path.endsWith('/') ? path.slice(0, -1) : path
+  const files = path.endsWith('/') ? [] : extensions.map((ext) => `${path}${ext}`)
+  return [...files, ...extensions.map((ext) => `${dir}/index${ext}`)]
+}
+
+/**
+ * Probe over HTTP: HEAD each candidate, falling back to GET for peers without HEAD support.
+ * HTML responses (SPA fallbacks) do not count as a file.
+ * @param request Issues a request for an absolute peer path
+ */
+export function createHttpProbe(request: (path: string, init: RequestInit) => Promise<Response>): ModuleExists {
+  return async (path) => {
+    let response = await request(path, { method: 'HEAD' })
+    if (response.status === 405 || response.status === 501) response = await request(path, { method: 'GET' })
+    return response.ok && !(response.headers.get('content-type') || '').toLowerCase().includes('text/html')
+  }
+}
+
+/**
+ * Resolves specifiers to peer paths through the import map, probing extensionless paths
+ */
+export class ModuleResolver {
+  readonly importMap: ImportMapResolver
+  private extensions: string[]
+  private found: Map<string, string> = new Map()
+  private probing: Map<string, Promise<string>> = new Map()
+
+  /**
+   * @param options.importMap Import map to resolve bare specifiers with (default: a new one)
+   * @param options.extensions Extensions to probe (default: MODULE_EXTENSIONS)
+   */
+  constructor(options: { importMap?: ImportMapResolver; extensions?: string[] } = {}) {
+    this.importMap = options.importMap || new ImportMapResolver()
+    this.extensions = options.extensions || MODULE_EXTENSIONS
+  }
+
+  /**
+   * Resolve without probing. Extensionless paths already probed resolve to the file found.
+   * @param spec Specifier as written in the importing module
+   * @param fromPath Path of the importing module
+   */
+  resolve(spec: string, fromPath: string = DEFAULT_HOOK_PATH): ImportResolution {
+    const resolution = this.importMap.resolve(spec, fromPath || DEFAULT_HOOK_PATH)
+    if (resolution.type !== 'path') return resolution
+    const probed = this.found.get(resolution.path)
+    return probed ? { ...resolution, path: probed } : resolution
+  }
+
+  /**
+   * Resolve to a file the peer serves, probing extensionless paths
+   * @param spec Specifier as written in the importing module
+   * @param fromPath Path of the importing module
+   * @param exists Probe for candidate paths (see createHttpProbe)
+   */
+  async resolveFile(spec: string, fromPath: string | null | undefined, exists: ModuleExists): Promise<ImportResolution> {
+    const resolution = this.resolve(spec, fromPath || DEFAULT_HOOK_PATH)
+    if (resolution.type !== 'path' || hasModuleExtension(resolution.path)) return resolution
+    return { ...resolution, path: await this.probe(resolution.path, exists) }
+  }
+
+  /**
+   * Forget probe results (e.g. after the branch head moved)
+   */
+  clearProbeCache(): void {
+    this.found.clear()
+    this.probing.clear()
+  }
+
+  private probe(path: string, exists: ModuleExists): Promise<string> {
+    const pending = this.probing.get(path)
+    if (pending) return pending
+    const candidates = probeCandidates(path, this.extensions)
+    const run = (async () => {
+      for (const candidate of candidates) {
+        if (await exists(candidate)) {
+          this.found.set(path, candidate)
+          return candidate
+        }
+      }
+      throw new ModuleLoadError(`${path} not found; tried ${candidates.join(', ')}`, { filename: path, status: 404 })
+    })()
+    this.probing.set(path, run)
+    // Failed probes are retried on the next import
+    run.catch(() => this.probing.delete(path))
+    return run
+  }
+}
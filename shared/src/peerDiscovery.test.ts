@@ -0,0 +1,123 @@
+/**
+ * Tests for gossip peer discovery
+ */
+
+import { crawlPeers, normalizePeerHost, parseAdvertisedPeers } from './peerDiscovery'
+
+// Advertised lists by normalized host
+function network(graph: Record<string, unknown>) {
+    return jest.fn(async (host: string) => {
+        const list = graph[normalizePeerHost(host)]
+        if (list instanceof Error) throw list
+        return list
+    })
+}
+
+const noWait = { sleep: async () => { }, minIntervalMs: 0 }
+
+describe('normalizePeerHost', () => {
+    test('drops scheme, path, case and default ports', () => {
+        expect(normalizePeerHost('https://Node.Example/some/path')).toBe('node.example')
+        expect(normalizePeerHost('https://node.example:443')).toBe('node.example')
+        expect(normalizePeerHost('http://node.example:80/')).toBe('node.example')
+        expect(normalizePeerHost('node.example:8080')).toBe('node.example:8080')
+        expect(normalizePeerHost('http://[::1]:8088')).toBe('[::1]:8088')
+    })
+
+    test('rejects things that are not hosts', () => {
+        for (const bad of ['', 'ftp://node.example', 'user@node.example', 'https://a b', 'javascript://x']) {
+            expect(normalizePeerHost(bad)).toBe('')
+        }
+    })
+})
+
+describe('parseAdvertisedPeers', () => {
+    test('accepts strings and host/url objects, skipping junk', () => {
+        expect(parseAdvertisedPeers([
+            'https://a.example/path',
+            { host: 'b.example:8080' },
+            { url: 'http://c.example' },
+            42,
+            'not a host',
+        ])).toEqual(['https://a.example', 'b.example:8080', 'http://c.example'])
+        expect(parseAdvertisedPeers({ peers: [] })).toEqual([])
+        expect(parseAdvertisedPeers(['a.example', 'b.example', 'c.example'], 2)).toEqual(['a.example', 'b.example'])
+    })
+})
+
+describe('crawlPeers', () => {
+    test('walks the graph breadth-first up to the depth limit', async () => {
+        const fetchAdvertised = network({
+            'a.example': ['https://b.example'],
+            'b.example': ['c.example'],
+            'c.example': ['d.example'],
+        })
+        // Seeds without a fetched list are asked for one
+        expect(await crawlPeers({ seeds: ['https://lonely.example'], fetchAdvertised, ...noWait })).toEqual([])
+        expect(fetchAdvertised).toHaveBeenCalledWith('https://lonely.example')
+
+        const fromSeed = await crawlPeers({
+            seeds: [{ host: 'https://seed.example', advertised: ['a.example'] }],
+            fetchAdvertised,
+            ...noWait,
+            now: () => 1,
+        })
+        expect(fromSeed).toEqual([
+            { host: 'a.example', via: 'seed.example', depth: 1, discoveredAt: 1 },
+            { host: 'https://b.example', via: 'a.example', depth: 2, discoveredAt: 1 },
+        ])
+        // b.example is at the depth limit, so its list is never requested
+        expect(fetchAdvertised.mock.calls.map(([host]) => host)).toEqual(['https://lonely.example', 'a.example'])
+    })
+
+    test('dedups by normalized host and skips known, blocked and remote-loopback peers', async () => {
+        const found = await crawlPeers({
+            seeds: [{ host: 'https://seed.example', advertised: ['https://SEED.example/', 'old.example', 'spam.example', 'localhost:8080', 'x.example', 'http://x.example:80'] }],
+            known: ['https://old.example'],
+            blocked: ['spam.example'],
+            fetchAdvertised: network({}),
+            ...noWait,
+        })
+        expect(found.map((p) => p.host)).toEqual(['x.example'])
+    })
+
+    test('takes local-network addresses only from peers on a local network', async () => {
+        const advertised = ['192.168.1.5:8080', 'http://10.0.0.7', '172.20.0.2', '169.254.1.1', '100.64.0.9', '[fd00::1]', '[fe80::1]', 'nas.local', 'router', '172.32.0.1', 'public.example']
+        const fromPublic = await crawlPeers({ seeds: [{ host: 'https://seed.example', advertised }], fetchAdvertised: network({}), ...noWait })
+        expect(fromPublic.map((p) => p.host)).toEqual(['172.32.0.1', 'public.example'])
+
+        const fromLan = await crawlPeers({ seeds: [{ host: '192.168.1.2:8080', advertised }], fetchAdvertised: network({}), ...noWait })
+        expect(fromLan.map((p) => p.host)).toEqual(advertised)
+    })
+
+    test('stops at the peer limit and tolerates unreachable peers', async () => {
+        const fetchAdvertised = network({ 'a.example': new Error('offline') })
+        const found = await crawlPeers({
+            seeds: [{ host: 'seed.example', advertised: ['a.example', 'b.example', 'c.example'] }],
+            fetchAdvertised,
+            maxPeers: 2,
+            ...noWait,
+        })
+        expect(found.map((p) => p.host)).toEqual(['a.example', 'b.example'])
+        expect(fetchAdvertised).not.toHaveBeenCalled()
+
+        expect(await crawlPeers({ seeds: ['a.example'], fetchAdvertised, ...noWait })).toEqual([])
+        expect(fetchAdvertised).toHaveBeenCalledTimes(1)
+    })
+
+    test('spaces OPTIONS requests by the minimum interval', async () => {
+        let clock = 0
+        const waits: number[] = []
+        await crawlPeers({
+            seeds: ['a.example', 'b.example', 'c.example'],
+            fetchAdvertised: network({}),
+            minIntervalMs: 100,
+            now: () => clock,
+            sleep: async (ms) => {
+                waits.push(ms)
+                clock += ms
+            },
+        })
+        expect(waits).toEqual([100, 100])
+    })
+})
@@ -0,0 +1,208 @@
+/**
+ * Gossip Peer Discovery
+ *
+ * Peers advertise the peers they know in their OPTIONS response:
+ *
+ *   { "repos": [...], "peers": ["https://node-dfw2.relaynet.online", "10.0.0.7:8080"] }
+ *
+ * Entries may also be objects with a `host` or `url`. Clients crawl that
+ * graph breadth-first from their configured peers, bounded in depth and
+ * peer count, deduplicated by normalized host and rate-limited, so a large
+ * or hostile list cannot make the client flood the network. Discovered
+ * peers are kept apart from user-added ones until the user promotes or
+ * blocks them. Local-network addresses are only taken from peers that are
+ * on a local network themselves.
+ */
+
+/**
+ * A peer found through another peer's advertised list
+ */
+export interface DiscoveredPeer {
+  /** Host as advertised, without path (e.g. `https://node.example` or `node.example:8080`) */
+  host: string
+  /** Normalized host of the peer that advertised it */
+  via: string
+  /** 1 when advertised by a configured peer, 2 when advertised by one of those, ... */
+  depth: number
+  discoveredAt: number
+}
+
+/**
+ * A peer to start crawling from
+ */
+export interface PeerCrawlSeed {
+  host: string
+  /** Its OPTIONS `peers` field when already fetched (e.g. by the last probe); fetched otherwise */
+  advertised?: unknown
+}
+
+export interface PeerCrawlOptions {
+  /** Configured (user-added) peers */
+  seeds: Array<string | PeerCrawlSeed>
+  /** Fetch a peer's OPTIONS `peers` field; rejections count as an empty list */
+  fetchAdvertised: (host: string) => Promise<unknown>
+  /** Hosts already listed (e.g. peers discovered earlier); not reported again */
+  known?: string[]
+  /** Normalized hosts the user blocked; never reported or crawled */
+  blocked?: string[]
+  /** Hops from the seeds (default: 2) */
+  maxDepth?: number
+  /** Stop after this many new peers (default: 32) */
+  maxPeers?: number
+  /** Entries read from one peer's list (default: 64) */
+  maxPerPeer?: number
+  /** Minimum time between OPTIONS requests (default: 250ms) */
+  minIntervalMs?: number
+  signal?: AbortSignal
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+}
+
+const DEFAULT_MAX_DEPTH = 2
+const DEFAULT_MAX_PEERS = 32
+const DEFAULT_MAX_PER_PEER = 64
+const DEFAULT_MIN_INTERVAL_MS = 250
+
+// host or [ipv6], optional port
+const HOST_RE = /^(\[[0-9a-f:.]+\]|[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}))?$/
+
+/**
+ * Split an advertised or user-entered peer into scheme, host and port
+ * @returns null when it is not a plain host[:port] or http(s) URL
+ */
+function splitPeerHost(input: string): { scheme: string | null; host: string; port: string | null } | null {
+  const trimmed = input.trim().toLowerCase()
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):\/\//.exec(trimmed)
+  const scheme = schemeMatch ? schemeMatch[1] : null
+  if (scheme && scheme !== 'http' && scheme !== 'https') return null
+  const rest = scheme ? trimmed.slice(schemeMatch![0].length) : trimmed
+  const authority = rest.split(/[/?#]/, 1)[0]
+  if (authority.includes('@')) return null
+  const match = HOST_RE.exec(authority)
+  if (!match) return null
+  return { scheme, host: match[1], port: match[2] || null }
+}
+
+/**
+ * Dedup key for a peer: lowercase host[:port] without scheme, path or default port
+ * @returns '' when the input is not a usable host
+ */
+export function normalizePeerHost(input: string): string {
+  const parts = typeof input === 'string' ? splitPeerHost(input) : null
+  if (!parts) return ''
+  const defaultPort = parts.scheme === 'http' ? '80' : '443'
+  return parts.port && parts.port !== defaultPort ? `${parts.host}:${parts.port}` : parts.host
+}
+
+/**
+ * Scheme a user-entered or advertised peer names, or null when it names none
+ */
+export function peerHostScheme(input: string): 'http' | 'https' | null {
+  const parts = typeof input === 'string' ? splitPeerHost(input) : null
+  return (parts?.scheme as 'http' | 'https' | null | undefined) || null
+}
+
+function isLoopback(normalized: string): boolean {
+  const host = normalized.replace(/:\d+$/, '')
+  return host === 'localhost' || host.startsWith('127.') || host === '[::1]'
+}
+
+/**
+ * Whether a normalized host only means something on a local network: loopback, private,
+ * shared (CGNAT), link-local and unspecified addresses, and LAN-only names
+ */
+function isLocalNetwork(normalized: string): boolean {
+  if (isLoopback(normalized)) return true
+  const host = normalized.replace(/:\d+$/, '')
+  if (host.startsWith('[')) {
+    const v6 = host.slice(1, -1)
+    return v6 === '::' || /^f[cd][0-9a-f]{0,2}:/.test(v6) || /^fe[89ab][0-9a-f]?:/.test(v6)
+  }
+  const ipv4 = /^(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/.exec(host)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return a === 0 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)
+      || (a === 169 && b === 254) || (a === 100 && b >= 64 && b <= 127)
+  }
+  return !host.includes('.') || /\.(local|localhost|internal|lan|home\.arpa)$/.test(host)
+}
+
+/**
+ * Read the hosts a peer advertises from its OPTIONS `peers` field
+ * @param advertised The field's value (array of strings or `{ host }` / `{ url }` objects)
+ * @param limit Maximum entries to read
+ * @returns Hosts with scheme kept and path dropped; malformed entries are skipped
+ */
+export function parseAdvertisedPeers(advertised: unknown, limit: number = DEFAULT_MAX_PER_PEER): string[] {
+  if (!Array.isArray(advertised)) return []
+  const hosts: string[] = []
+  for (const entry of advertised.slice(0, limit)) {
+    const raw = typeof entry === 'string'
+      ? entry
+      : entry && typeof entry === 'object' ? (entry as Record<string, unknown>).url ?? (entry as Record<string, unknown>).host : null
+    if (typeof raw !== 'string') continue
+    const parts = splitPeerHost(raw)
+    if (!parts) continue
+    const authority = parts.port ? `${parts.host}:${parts.port}` : parts.host
+    hosts.push(parts.scheme ? `${parts.scheme}://${authority}` : authority)
+  }
+  return hosts
+}
+
+/**
+ * Crawl the advertised-peer graph breadth-first from the seeds
+ * @returns Newly found peers, nearest first
+ */
+export async function crawlPeers(options: PeerCrawlOptions): Promise<DiscoveredPeer[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+  const maxPeers = options.maxPeers ?? DEFAULT_MAX_PEERS
+  const maxPerPeer = options.maxPerPeer ?? DEFAULT_MAX_PER_PEER
+  const minInterval = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS
+  const now = options.now || (() => Date.now())
+  const sleep = options.sleep || ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  const blocked = new Set(options.blocked || [])
+
+  const seeds: PeerCrawlSeed[] = options.seeds.map((seed) => (typeof seed === 'string' ? { host: seed } : seed))
+  const seen = new Set<string>()
+  for (const host of [...seeds.map((s) => s.host), ...(options.known || [])]) {
+    const normalized = normalizePeerHost(host)
+    if (normalized) seen.add(normalized)
+  }
+
+  let nextRequestAt = 0
+  const fetchAdvertised = async (host: string): Promise<unknown> => {
+    const wait = nextRequestAt - now()
+    if (wait > 0) await sleep(wait)
+    nextRequestAt = now() + minInterval
+    try {
+      return await options.fetchAdvertised(host)
+    } catch {
+      return null
+    }
+  }
+
+  const found: DiscoveredPeer[] = []
+  let frontier = seeds
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: PeerCrawlSeed[] = []
+    for (const peer of frontier) {
+      if (options.signal?.aborted) return found
+      const via = normalizePeerHost(peer.host)
+      const advertised = peer.advertised !== undefined ? peer.advertised : await fetchAdvertised(peer.host)
+      for (const host of parseAdvertisedPeers(advertised, maxPerPeer)) {
+        const normalized = normalizePeerHost(host)
+        if (seen.has(normalized) || blocked.has(normalized)) continue
+        // A remote peer's "localhost" is its own machine, not ours
+        if (isLoopback(normalized) && !isLoopback(via)) continue
+        // Nor may a public peer point us at hosts on our own network
+        if (isLocalNetwork(normalized) && !isLocalNetwork(via)) continue
+        seen.add(normalized)
+        found.push({ host, via, depth, discoveredAt: now() })
+        if (found.length >= maxPeers) return found
+        next.push({ host })
+      }
+    }
+    frontier = next
+  }
+  return found
+}
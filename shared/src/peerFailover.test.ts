@@ -0,0 +1,121 @@
+/**
+ * Tests for failing repo fetches over to equivalent peers
+ */
+
+import { PeerFetcher, peerBaseUrl, rankFailoverPeers, type FailoverPeer } from './peerFailover'
+import { HookLoader, type HookContext, type ModuleLoader } from './runtimeLoader'
+
+const repo = (head: string) => [{ name: 'site', branches: { main: head } }]
+
+describe('rankFailoverPeers', () => {
+    const peers: FailoverPeer[] = [
+        { host: 'slow.test', probes: [{ ok: true, latencyMs: 200 }], reposWithBranches: repo('abc') },
+        { host: 'fast.test:8080', probes: [{ ok: false }, { ok: true, latencyMs: 20 }], reposWithBranches: repo('abc') },
+        { host: 'stale.test', probes: [{ ok: true, latencyMs: 5 }], reposWithBranches: repo('old') },
+        { host: 'down.test', probes: [{ ok: false, latencyMs: 1 }], reposWithBranches: repo('abc') },
+        { host: 'https://primary.test', probes: [{ ok: true, latencyMs: 1 }], reposWithBranches: repo('abc') },
+    ]
+
+    test('keeps healthy peers at the same head, fastest first', () => {
+        expect(rankFailoverPeers(peers, { repo: 'site', branch: 'main', head: 'abc' }, 'primary.test')).toEqual([
+            'http://fast.test:8080',
+            'https://slow.test',
+        ])
+    })
+
+    test('ranks by the peer API probes, not git or IPFS endpoints', () => {
+        const withGateway: FailoverPeer[] = [
+            ...peers,
+            { host: 'gateway.test', probes: [{ protocol: 'https', ok: false }, { protocol: 'ipfs-gateway', ok: true, latencyMs: 2 }], reposWithBranches: repo('abc') },
+            { host: 'mixed.test', probes: [{ protocol: 'https', ok: true, latencyMs: 100 }, { protocol: 'git', ok: true, latencyMs: 3 }], reposWithBranches: repo('abc') },
+        ]
+        expect(rankFailoverPeers(withGateway, { repo: 'site', branch: 'main', head: 'abc' }, 'primary.test')).toEqual([
+            'http://fast.test:8080',
+            'https://mixed.test',
+            'https://slow.test',
+        ])
+    })
+
+    test('never fails over without a known head or to another repo', () => {
+        expect(rankFailoverPeers(peers, { repo: 'site', branch: 'main', head: null })).toEqual([])
+        expect(rankFailoverPeers(peers, { repo: 'other', branch: 'main', head: 'abc' })).toEqual([])
+    })
+
+    test('peerBaseUrl normalizes hosts', () => {
+        expect(peerBaseUrl('peer.test')).toBe('https://peer.test')
+        expect(peerBaseUrl('peer.test:8080')).toBe('http://peer.test:8080')
+        expect(peerBaseUrl('https://peer.test/')).toBe('https://peer.test')
+    })
+})
+
+describe('PeerFetcher', () => {
+    let down: Set<string>
+    let requested: string[]
+
+    beforeEach(() => {
+        down = new Set()
+        requested = []
+        ;(globalThis as any).fetch = jest.fn(async (url: string) => {
+            requested.push(url)
+            const origin = new URL(url).origin
+            if (down.has(origin)) throw new TypeError('Failed to fetch')
+            if (origin === 'https://broken.test') return { ok: false, status: 503, statusText: 'Unavailable' }
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: { get: () => 'text/javascript' },
+                text: async () => `export default () => ${JSON.stringify(origin)}`,
+            }
+        })
+    })
+
+    test('fails over on network errors and 5xx, recording the serving peer', async () => {
+        const onServed = jest.fn()
+        const fetcher = new PeerFetcher({
+            primary: 'https://primary.test',
+            candidates: () => ['https://broken.test', 'https://backup.test'],
+            onServed,
+        })
+        down.add('https://primary.test')
+        const result = await fetcher.fetch('/hooks/a.js')
+        expect(result.baseUrl).toBe('https://backup.test')
+        expect(result.failedOver).toBe(true)
+        expect(fetcher.servedBy('/hooks/a.js')).toBe('https://backup.test')
+        expect(onServed).toHaveBeenCalledWith('/hooks/a.js', 'https://backup.test')
+
+        // Failed peers are tried last while cooling down
+        requested = []
+        await fetcher.fetch('/hooks/b.js')
+        expect(requested).toEqual(['https://backup.test/hooks/b.js'])
+    })
+
+    test('does not fail over non-GET requests', async () => {
+        const fetcher = new PeerFetcher({ primary: 'https://primary.test', candidates: () => ['https://backup.test'] })
+        down.add('https://primary.test')
+        await expect(fetcher.fetch('/git-pull', { method: 'POST' })).rejects.toThrow('Failed to fetch')
+        expect(requested).toEqual(['https://primary.test/git-pull'])
+    })
+
+    test('HookLoader loads hooks from a failover peer', async () => {
+        down.add('https://primary.test')
+        const moduleLoader: ModuleLoader = {
+            executeModule: jest.fn(async (code: string) => ({ default: () => code })),
+        }
+        const loader = new HookLoader({
+            host: 'primary.test',
+            protocol: 'https',
+            moduleLoader,
+            transpiler: async (code) => code,
+            peers: new PeerFetcher({ primary: 'https://primary.test', candidates: () => ['https://backup.test'] }),
+        })
+        const result = await loader.loadAndExecuteHook('/hooks/client/get-client.js', {} as HookContext)
+        expect(result).toContain('https://backup.test')
+        expect(moduleLoader.executeModule).toHaveBeenCalledWith(
+            expect.any(String),
+            '/hooks/client/get-client.js',
+            expect.anything(),
+            'https://backup.test/hooks/client/get-client.js'
+        )
+    })
+})
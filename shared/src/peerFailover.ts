@@ -0,0 +1,181 @@
+/**
+ * Multi-peer Failover for Repo Fetches
+ *
+ * Any peer that advertises the same repo with the same branch head serves
+ * identical files, so a GET that fails on the tab's peer (network error or
+ * 5xx) is retried on those peers, fastest probe first. Which peer served each
+ * path is recorded so loaders and the UI can report it.
+ */
+
+import { isPeerApiProbe } from './peerProbes'
+
+/**
+ * What failover needs to know about a known peer (a subset of the client's peer state)
+ */
+export interface FailoverPeer {
+  host: string
+  probes?: Array<{ protocol?: string; ok: boolean; latencyMs?: number }>
+  reposWithBranches?: Array<{ name: string; branches: Record<string, string> }>
+}
+
+/**
+ * The content a fetch must come from
+ */
+export interface FailoverTarget {
+  repo?: string
+  branch: string
+  /** Branch head commit; peers at another commit are never used */
+  head?: string | null
+}
+
+export interface PeerFetchResult {
+  response: Response
+  /** Base URL of the peer that served the request */
+  baseUrl: string
+  url: string
+  /** Whether a peer other than the primary served it */
+  failedOver: boolean
+}
+
+export interface PeerFetcherOptions {
+  /** Base URL of the tab's own peer (e.g. https://peer.example) */
+  primary: string
+  /** Base URLs of equivalent peers in preference order (see rankFailoverPeers) */
+  candidates?: () => string[]
+  /** Called with the peer that served each successful request */
+  onServed?: (path: string, baseUrl: string) => void
+  /** How long a peer that failed is tried last (default: 30s) */
+  cooldownMs?: number
+}
+
+const DEFAULT_COOLDOWN_MS = 30000
+
+/**
+ * Normalize a peer host to a base URL without a trailing slash
+ */
+export function peerBaseUrl(host: string): string {
+  const base = host.startsWith('http://') || host.startsWith('https://')
+    ? host
+    : host.includes(':') ? `http://${host}` : `https://${host}`
+  return base.replace(/\/+$/, '')
+}
+
+/**
+ * Peers that can stand in for the primary, fastest first. A peer qualifies
+ * when a probe succeeded and it advertises the target repo at the same head.
+ * @param peers Known peers
+ * @param target Repo, branch and head the content must match
+ * @param primary Base URL or host of the tab's own peer (excluded)
+ */
+export function rankFailoverPeers(peers: FailoverPeer[], target: FailoverTarget, primary?: string): string[] {
+  if (!target.head) return []
+  const primaryUrl = primary ? peerBaseUrl(primary) : null
+  const ranked: Array<{ baseUrl: string; latency: number }> = []
+  for (const peer of peers) {
+    const baseUrl = peerBaseUrl(peer.host)
+    if (baseUrl === primaryUrl) continue
+    // Git and IPFS endpoints say nothing about how fast the peer serves files
+    const healthy = (peer.probes || []).filter((p) => p.ok && isPeerApiProbe(p))
+    if (healthy.length === 0) continue
+    const repos = peer.reposWithBranches || []
+    const repo = target.repo ? repos.find((r) => r.name === target.repo) : repos[0]
+    if (!repo || repo.branches?.[target.branch] !== target.head) continue
+    const latency = Math.min(...healthy.map((p) => p.latencyMs ?? Number.MAX_SAFE_INTEGER))
+    ranked.push({ baseUrl, latency })
+  }
+  return ranked.sort((a, b) => a.latency - b.latency).map((r) => r.baseUrl)
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429
+}
+
+/**
+ * Fetches repo paths from the primary peer, failing over to equivalent peers
+ */
+export class PeerFetcher {
+  readonly primary: string
+  private candidates: () => string[]
+  private onServed?: (path: string, baseUrl: string) => void
+  private cooldownMs: number
+  private failedAt: Map<string, number> = new Map()
+  private served: Map<string, string> = new Map()
+
+  constructor(options: PeerFetcherOptions) {
+    this.primary = peerBaseUrl(options.primary)
+    this.candidates = options.candidates || (() => [])
+    this.onServed = options.onServed
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS
+  }
+
+  /**
+   * Replace the candidate list provider (e.g. when peer state or the branch head changes)
+   */
+  setCandidates(candidates: () => string[]): void {
+    this.candidates = candidates
+  }
+
+  /**
+   * Peers to try, in order: the primary and candidates, with recently failed peers last
+   */
+  peerOrder(): string[] {
+    const now = Date.now()
+    const all = Array.from(new Set([this.primary, ...this.candidates().map(peerBaseUrl)]))
+    const coolingDown = (baseUrl: string) => now - (this.failedAt.get(baseUrl) ?? -Infinity) < this.cooldownMs
+    return [...all.filter((b) => !coolingDown(b)), ...all.filter(coolingDown)]
+  }
+
+  /**
+   * Fetch a repo path. Only GET/HEAD requests fail over; other methods go to the primary.
+   * @param path Absolute path on the peer (e.g. /hooks/client/get-client.jsx)
+   * @param init Fetch options
+   * @returns The response of the first peer that answered without a retryable error
+   */
+  async fetch(path: string, init?: RequestInit): Promise<PeerFetchResult> {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`
+    const method = (init?.method || 'GET').toUpperCase()
+    const order = method === 'GET' || method === 'HEAD' ? this.peerOrder() : [this.primary]
+
+    let lastError: unknown = null
+    let lastResponse: PeerFetchResult | null = null
+    for (const baseUrl of order) {
+      const url = `${baseUrl}${normalizedPath}`
+      try {
+        const response = await fetch(url, init)
+        const result = { response, baseUrl, url, failedOver: baseUrl !== this.primary }
+        if (isRetryableStatus(response.status)) {
+          this.failedAt.set(baseUrl, Date.now())
+          lastResponse = result
+          continue
+        }
+        this.failedAt.delete(baseUrl)
+        if (result.failedOver) console.debug(`[PeerFetcher] ${normalizedPath} served by ${baseUrl} instead of ${this.primary}`)
+        this.served.set(normalizedPath, baseUrl)
+        this.onServed?.(normalizedPath, baseUrl)
+        return result
+      } catch (err) {
+        // A caller abort is not a peer failure
+        if (init?.signal?.aborted) throw err
+        this.failedAt.set(baseUrl, Date.now())
+        lastError = err
+      }
+    }
+    // Every peer failed; surface the last HTTP error, or the network error
+    if (lastResponse) return lastResponse
+    throw lastError instanceof Error ? lastError : new Error(`PeerFetchError: ${normalizedPath} could not be fetched from any peer`)
+  }
+
+  /**
+   * Peer that last served a path, if it was fetched through this fetcher
+   */
+  servedBy(path: string): string | null {
+    return this.served.get(path.startsWith('/') ? path : `/${path}`) ?? null
+  }
+
+  /**
+   * Every path fetched so far with the peer that served it
+   */
+  getServedBy(): Record<string, string> {
+    return Object.fromEntries(this.served)
+  }
+}
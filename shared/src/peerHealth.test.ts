@@ -0,0 +1,80 @@
+/**
+ * Tests for peer health history and its summaries
+ */
+
+import {
+    appendHealthSample,
+    comparePeerHealth,
+    formatLastSeen,
+    healthSampleOf,
+    parsePeerHealthHistory,
+    percentile,
+    retainPeerHealth,
+    sparklineBars,
+    summarizePeerHealth,
+    type PeerHealthSample,
+} from './peerHealth'
+
+const history: PeerHealthSample[] = [
+    { ts: 1000, ok: true, latencyMs: 40 },
+    { ts: 2000, ok: false },
+    { ts: 3000, ok: true, latencyMs: 10 },
+    { ts: 4000, ok: true, latencyMs: 200 },
+    { ts: 5000, ok: false },
+]
+
+describe('peer health samples', () => {
+    test('a round is up when an API probe answered, at its fastest latency', () => {
+        expect(healthSampleOf([
+            { protocol: 'https', ok: true, latencyMs: 80 },
+            { protocol: 'http', ok: true, latencyMs: 30 },
+            { protocol: 'ipfs-gateway', ok: true, latencyMs: 5 },
+        ], 1)).toEqual({ ts: 1, ok: true, latencyMs: 30 })
+        expect(healthSampleOf([{ protocol: 'git', ok: true, latencyMs: 5 }, { protocol: 'https', ok: false }], 2)).toEqual({ ts: 2, ok: false })
+        expect(healthSampleOf([], 3)).toEqual({ ts: 3, ok: false })
+    })
+
+    test('history is bounded and persisted samples are validated', () => {
+        const appended = appendHealthSample(history, { ts: 6000, ok: true }, 3)
+        expect(appended.map((s) => s.ts)).toEqual([4000, 5000, 6000])
+        expect(parsePeerHealthHistory({
+            'a.example': [...history, { ts: 'x', ok: true }, null],
+            'b.example': 'junk',
+            'c.example': [],
+        }, 4)).toEqual({ 'a.example': history.slice(1) })
+        expect(parsePeerHealthHistory(null)).toEqual({})
+    })
+
+    test('only histories of listed hosts are retained', () => {
+        expect(retainPeerHealth({ 'a.example': history, 'gone.example': history }, ['a.example', 'b.example'])).toEqual({ 'a.example': history })
+    })
+})
+
+describe('summarizePeerHealth', () => {
+    test('uptime, latency percentiles and last seen', () => {
+        expect(summarizePeerHealth(history)).toEqual({ samples: 5, uptime: 0.6, p50: 40, p95: 200, lastSeen: 4000 })
+        expect(summarizePeerHealth(undefined)).toEqual({ samples: 0, uptime: null, p50: null, p95: null, lastSeen: null })
+        expect(percentile([5, 1, 4, 2, 3], 50)).toBe(3)
+        expect(percentile([5, 1, 4, 2, 3], 0)).toBe(1)
+    })
+
+    test('sparkline bars are relative to the slowest sample; down samples are null', () => {
+        expect(sparklineBars(history, 4)).toEqual([null, 0.1, 1, null])
+    })
+
+    test('sorts healthiest first with unprobed peers last', () => {
+        const peers = [
+            { host: 'flaky.example', health: summarizePeerHealth(history) },
+            { host: 'new.example', health: summarizePeerHealth([]) },
+            { host: 'stable.example', health: summarizePeerHealth([{ ts: 500, ok: true, latencyMs: 90 }]) },
+        ]
+        const order = (key: 'host' | 'uptime' | 'latency' | 'lastSeen') =>
+            [...peers].sort((a, b) => comparePeerHealth(a, b, key)).map((p) => p.host)
+        expect(order('uptime')).toEqual(['stable.example', 'flaky.example', 'new.example'])
+        expect(order('latency')).toEqual(['flaky.example', 'stable.example', 'new.example'])
+        expect(order('lastSeen')).toEqual(['flaky.example', 'stable.example', 'new.example'])
+        expect(order('host')).toEqual(['flaky.example', 'new.example', 'stable.example'])
+        expect(formatLastSeen(null)).toBe('never')
+        expect(formatLastSeen(0, 5 * 60 * 1000)).toBe('5m ago')
+    })
+})
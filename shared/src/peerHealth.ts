@@ -0,0 +1,162 @@
+/**
+ * Peer Health History
+ *
+ * Each probe replaces a peer's current probe results, so the client also
+ * keeps a bounded history of one sample per probe round. The history is
+ * what tells a flaky peer from a stable one: uptime, latency percentiles
+ * and when the peer last answered are all computed from it.
+ */
+
+import { isPeerApiProbe } from './peerProbes'
+
+/**
+ * The outcome of one probe round for a peer
+ */
+export interface PeerHealthSample {
+  ts: number
+  /** Whether the peer API answered */
+  ok: boolean
+  /** Fastest API probe, when it answered */
+  latencyMs?: number
+}
+
+export interface PeerHealthSummary {
+  samples: number
+  /** Fraction of samples the peer answered (0-1); null without samples */
+  uptime: number | null
+  p50: number | null
+  p95: number | null
+  /** Last time the peer answered */
+  lastSeen: number | null
+}
+
+export type PeerHealthSortKey = 'host' | 'uptime' | 'latency' | 'lastSeen'
+
+/** Samples kept per peer: a day of probes at the 5-minute auto-refresh */
+export const DEFAULT_HEALTH_HISTORY = 288
+
+/**
+ * Reduce a probe round to a health sample
+ * @param probes The peer's probe results (only its API probes count)
+ */
+export function healthSampleOf(probes: Array<{ protocol?: string; ok: boolean; latencyMs?: number }>, ts: number = Date.now()): PeerHealthSample {
+  const latencies = probes
+    .filter((p) => p.ok && isPeerApiProbe(p))
+    .map((p) => p.latencyMs)
+  if (latencies.length === 0) return { ts, ok: false }
+  const measured = latencies.filter((l): l is number => typeof l === 'number')
+  return measured.length > 0 ? { ts, ok: true, latencyMs: Math.min(...measured) } : { ts, ok: true }
+}
+
+/**
+ * Append a sample, dropping the oldest beyond the limit
+ */
+export function appendHealthSample(history: PeerHealthSample[] | undefined, sample: PeerHealthSample, limit: number = DEFAULT_HEALTH_HISTORY): PeerHealthSample[] {
+  const next = [...(history || []), sample]
+  return next.length > limit ? next.slice(next.length - limit) : next
+}
+
+/**
+ * Keep only the histories of the given hosts, so peers that left the list don't linger in storage
+ */
+export function retainPeerHealth(histories: Record<string, PeerHealthSample[]>, hosts: string[]): Record<string, PeerHealthSample[]> {
+  const listed = new Set(hosts)
+  return Object.fromEntries(Object.entries(histories).filter(([host]) => listed.has(host)))
+}
+
+/**
+ * Read persisted histories, dropping malformed samples
+ * @param stored Parsed JSON of a host -> samples map
+ */
+export function parsePeerHealthHistory(stored: unknown, limit: number = DEFAULT_HEALTH_HISTORY): Record<string, PeerHealthSample[]> {
+  const histories: Record<string, PeerHealthSample[]> = {}
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return histories
+  for (const [host, samples] of Object.entries(stored as Record<string, unknown>)) {
+    if (!Array.isArray(samples)) continue
+    const valid = samples.filter((s): s is PeerHealthSample =>
+      !!s && typeof s.ts === 'number' && typeof s.ok === 'boolean' && (s.latencyMs === undefined || typeof s.latencyMs === 'number'))
+    if (valid.length > 0) histories[host] = valid.slice(-limit)
+  }
+  return histories
+}
+
+/**
+ * Nearest-rank percentile
+ * @param p Percentile (0-100)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+export function summarizePeerHealth(history: PeerHealthSample[] | undefined): PeerHealthSummary {
+  const samples = history || []
+  const up = samples.filter((s) => s.ok)
+  const latencies = up.map((s) => s.latencyMs).filter((l): l is number => typeof l === 'number')
+  return {
+    samples: samples.length,
+    uptime: samples.length > 0 ? up.length / samples.length : null,
+    p50: percentile(latencies, 50),
+    p95: percentile(latencies, 95),
+    lastSeen: up.length > 0 ? Math.max(...up.map((s) => s.ts)) : null,
+  }
+}
+
+/**
+ * Summaries of every peer's history, by host
+ */
+export function summarizePeerHealthByHost(histories: Record<string, PeerHealthSample[]>): Record<string, PeerHealthSummary> {
+  const summaries: Record<string, PeerHealthSummary> = {}
+  for (const [host, history] of Object.entries(histories)) summaries[host] = summarizePeerHealth(history)
+  return summaries
+}
+
+/**
+ * Bar heights for a latency sparkline of the latest samples
+ * @param bars Maximum number of bars
+ * @returns Heights relative to the slowest sample (0.1-1), oldest first; null where the peer was down
+ */
+export function sparklineBars(history: PeerHealthSample[] | undefined, bars: number = 24): Array<number | null> {
+  const recent = (history || []).slice(-bars)
+  const max = Math.max(1, ...recent.map((s) => (s.ok ? s.latencyMs ?? 0 : 0)))
+  // An up sample always gets a visible bar, even without a latency
+  return recent.map((s) => (s.ok ? Math.max(0.1, (s.latencyMs ?? 0) / max) : null))
+}
+
+/**
+ * Compare two peers for sorting by a health column; healthiest first, then by host.
+ * Peers without samples sort last.
+ */
+export function comparePeerHealth(
+  a: { host: string; health: PeerHealthSummary },
+  b: { host: string; health: PeerHealthSummary },
+  key: PeerHealthSortKey,
+): number {
+  const byHost = a.host.localeCompare(b.host)
+  if (key === 'host') return byHost
+  const value = (h: PeerHealthSummary): number | null => {
+    if (key === 'uptime') return h.uptime === null ? null : -h.uptime
+    if (key === 'latency') return h.p50
+    return h.lastSeen === null ? null : -h.lastSeen
+  }
+  const va = value(a.health)
+  const vb = value(b.health)
+  if (va === vb) return byHost
+  if (va === null) return 1
+  if (vb === null) return -1
+  return va - vb || byHost
+}
+
+/**
+ * Short "last seen" text, e.g. `just now`, `5m ago`, `3d ago`
+ */
+export function formatLastSeen(lastSeen: number | null, now: number = Date.now()): string {
+  if (lastSeen === null) return 'never'
+  const seconds = Math.max(0, Math.round((now - lastSeen) / 1000))
+  if (seconds < 60) return 'just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+  return `${Math.floor(seconds / 86400)}d ago`
+}
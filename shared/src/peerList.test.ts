@@ -0,0 +1,65 @@
+/**
+ * Tests for peer list import/export and label groups
+ */
+
+import { exportPeerList, formatPeerShareLink, groupPeersByLabel, parsePeerList, parsePeerShareLink, type PeerListEntry } from './peerList'
+
+const entries: PeerListEntry[] = [
+    { host: 'https://node-dfw1.relaynet.online', label: 'public' },
+    { host: '10.0.0.7:8080', label: 'staging', note: 'Rebuilt nightly', settings: { autoProbe: false } },
+    { host: 'node.example' },
+]
+
+describe('peer list files', () => {
+    test('round-trips through JSON and YAML', () => {
+        const json = exportPeerList(entries)
+        expect(JSON.parse(json)).toEqual({ version: 1, peers: entries })
+        expect(parsePeerList(json)).toEqual({ peers: entries, skipped: 0 })
+
+        const yaml = exportPeerList(entries, 'yaml')
+        expect(yaml).toContain('label: staging')
+        expect(parsePeerList(yaml)).toEqual({ peers: entries, skipped: 0 })
+    })
+
+    test('accepts plain hosts and drops unusable or repeated ones', () => {
+        expect(parsePeerList('["node.example", {"url": "https://b.example", "label": " team "}, {"label": "x"}, "NODE.example:443"]')).toEqual({
+            peers: [{ host: 'node.example' }, { host: 'https://b.example', label: 'team' }],
+            skipped: 2,
+        })
+        expect(parsePeerList('node.example\n10.0.0.7:8080, c.example').peers.map((p) => p.host))
+            .toEqual(['node.example', '10.0.0.7:8080', 'c.example'])
+        expect(() => parsePeerList('{"peers": 3}')).toThrow('PeerListError')
+    })
+
+    test('reads host:port lists that YAML would take for a mapping', () => {
+        expect(parsePeerList('host1:8080, host2').peers).toEqual([{ host: 'host1:8080' }, { host: 'host2' }])
+        expect(parsePeerList('10.0.0.7:8080\nhttp://node.example:3000/\n[::1]:8088; b.example').peers.map((p) => p.host))
+            .toEqual(['10.0.0.7:8080', 'http://node.example:3000/', '[::1]:8088', 'b.example'])
+        // A YAML list of mappings is still read as YAML
+        expect(parsePeerList('- host: host1:8080\n  label: team\n').peers).toEqual([{ host: 'host1:8080', label: 'team' }])
+    })
+})
+
+describe('share links', () => {
+    test('carry the whole list on one line', () => {
+        const link = formatPeerShareLink(entries)
+        expect(link.startsWith('relay://peers?list=')).toBe(true)
+        expect(link).not.toMatch(/\s/)
+        expect(parsePeerList(link)).toEqual({ peers: entries, skipped: 0 })
+    })
+
+    test('a bare relay://host shares one peer', () => {
+        expect(parsePeerShareLink('relay://10.0.0.7:8080/').peers).toEqual([{ host: '10.0.0.7:8080' }])
+        expect(() => parsePeerShareLink('relay://node.example/site/index.jsx')).toThrow('not a peer share link')
+        expect(() => parsePeerShareLink('relay://peers?list=%7B')).toThrow('malformed')
+    })
+})
+
+test('groupPeersByLabel lists labelled groups by name, then unlabelled peers', () => {
+    const groups = groupPeersByLabel([...entries, { host: 'a.example', label: 'public' }], (p) => p.label)
+    expect(groups.map((g) => [g.label, g.peers.map((p) => p.host)])).toEqual([
+        ['public', ['https://node-dfw1.relaynet.online', 'a.example']],
+        ['staging', ['10.0.0.7:8080']],
+        [null, ['node.example']],
+    ])
+})
@@ -0,0 +1,198 @@
+/**
+ * Peer List Import/Export
+ *
+ * A peer list travels as a JSON or YAML file:
+ *
+ *   version: 1
+ *   peers:
+ *     - host: https://node-dfw1.relaynet.online
+ *       label: public
+ *     - host: 10.0.0.7:8080
+ *       label: staging
+ *       note: Rebuilt nightly
+ *
+ * or as a share link, `relay://peers?list=<the JSON, URI-encoded>`, which
+ * pastes into chat as one line. A bare `relay://host[:port]` shares a
+ * single peer. On import, entries may also be plain host strings, and a
+ * plain list of hosts (one per line, or comma separated) is accepted too.
+ *
+ * Labels group peers in the peer list (e.g. "staging", "team", "public").
+ */
+
+import { parse as parseYAML, stringify as stringifyYAML } from 'yaml'
+import { normalizePeerHost } from './peerDiscovery'
+
+/**
+ * What the user keeps about a peer besides its host
+ */
+export interface PeerDetails {
+  /** Group the peer is listed under */
+  label?: string
+  note?: string
+  /** Client settings for the peer, carried as-is */
+  settings?: Record<string, unknown>
+}
+
+export interface PeerListEntry extends PeerDetails {
+  host: string
+}
+
+export interface PeerListImport {
+  peers: PeerListEntry[]
+  /** Entries dropped because they had no usable host, or repeated one */
+  skipped: number
+}
+
+export type PeerListFormat = 'json' | 'yaml'
+
+export interface PeerGroup<T> {
+  /** null for peers without a label */
+  label: string | null
+  peers: T[]
+}
+
+export const PEER_LIST_VERSION = 1
+export const PEER_SHARE_LINK_PREFIX = 'relay://peers?list='
+
+// relay://host[:port], optionally with a trailing slash
+const PEER_LINK_RE = /^relay:\/\/([^/?#@\s]+)\/?$/
+// One entry of a plain host list: [http(s)://]host[:port][/]
+const PLAIN_HOST_RE = /^(?:https?:\/\/)?(?:[\w-]+(?:\.[\w-]+)*|\[[\da-f:]+\])(?::\d+)?\/?$/i
+// Separators of a plain host list
+const HOST_LIST_SEPARATOR = /[\s,;]+/
+
+/**
+ * Split a plain host list, or null when the text is not one
+ */
+function splitHostList(text: string): string[] | null {
+  const hosts = text.split(HOST_LIST_SEPARATOR).filter(Boolean)
+  return hosts.length > 0 && hosts.every((h) => PLAIN_HOST_RE.test(h)) ? hosts : null
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Only the fields that are set, so exports stay short
+ */
+function compactEntry(entry: PeerListEntry): PeerListEntry {
+  const compact: PeerListEntry = { host: entry.host }
+  if (entry.label) compact.label = entry.label
+  if (entry.note) compact.note = entry.note
+  if (entry.settings && Object.keys(entry.settings).length > 0) compact.settings = entry.settings
+  return compact
+}
+
+function readEntry(raw: unknown): PeerListEntry | null {
+  const fields = typeof raw === 'string' ? { host: raw } : isPlainObject(raw) ? raw : null
+  const host = typeof fields?.host === 'string' ? fields.host.trim() : typeof fields?.url === 'string' ? fields.url.trim() : ''
+  if (!fields || !normalizePeerHost(host)) return null
+  const entry: PeerListEntry = { host }
+  if (typeof fields.label === 'string' && fields.label.trim()) entry.label = fields.label.trim()
+  if (typeof fields.note === 'string' && fields.note.trim()) entry.note = fields.note.trim()
+  if (isPlainObject(fields.settings)) entry.settings = fields.settings
+  return entry
+}
+
+/**
+ * Read entries from a parsed list, dropping unusable and repeated hosts
+ * @param data `{ peers: [...] }`, an array of entries, or a string of hosts
+ */
+export function readPeerList(data: unknown): PeerListImport {
+  const raw = typeof data === 'string'
+    ? data.split(HOST_LIST_SEPARATOR).filter(Boolean)
+    : Array.isArray(data) ? data : isPlainObject(data) && Array.isArray(data.peers) ? data.peers : null
+  if (!raw) throw new Error('PeerListError: expected a list of peers')
+  const seen = new Set<string>()
+  const peers: PeerListEntry[] = []
+  for (const item of raw) {
+    const entry = readEntry(item)
+    const key = entry ? normalizePeerHost(entry.host) : ''
+    if (!entry || seen.has(key)) continue
+    seen.add(key)
+    peers.push(entry)
+  }
+  return { peers, skipped: raw.length - peers.length }
+}
+
+/**
+ * Whether pasted text is a peer share link rather than a file's contents
+ */
+export function isPeerShareLink(text: string): boolean {
+  const trimmed = typeof text === 'string' ? text.trim() : ''
+  return trimmed.startsWith(PEER_SHARE_LINK_PREFIX) || PEER_LINK_RE.test(trimmed)
+}
+
+/**
+ * Parse a `relay://peers?list=...` or `relay://host` link
+ * @throws Error when it is neither
+ */
+export function parsePeerShareLink(link: string): PeerListImport {
+  const trimmed = link.trim()
+  if (trimmed.startsWith(PEER_SHARE_LINK_PREFIX)) {
+    let data: unknown
+    try {
+      data = JSON.parse(decodeURIComponent(trimmed.slice(PEER_SHARE_LINK_PREFIX.length)))
+    } catch {
+      throw new Error('PeerListError: the share link is truncated or malformed')
+    }
+    return readPeerList(data)
+  }
+  const single = PEER_LINK_RE.exec(trimmed)
+  if (!single || single[1] === 'peers') throw new Error(`PeerListError: "${trimmed}" is not a peer share link`)
+  return readPeerList([single[1]])
+}
+
+/**
+ * Parse an imported file or pasted text: a share link, JSON, YAML or a plain list of hosts
+ * @throws Error when nothing in it reads as a peer list
+ */
+export function parsePeerList(text: string): PeerListImport {
+  if (isPeerShareLink(text)) return parsePeerShareLink(text)
+  // Checked before YAML, which reads `host:8080, other` as a mapping
+  const hosts = splitHostList(text)
+  if (hosts) return readPeerList(hosts)
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    try {
+      data = parseYAML(text)
+    } catch (e) {
+      throw new Error(`PeerListError: not JSON or YAML (${e instanceof Error ? e.message : String(e)})`)
+    }
+  }
+  return readPeerList(data)
+}
+
+/**
+ * File contents for a peer list
+ */
+export function exportPeerList(entries: PeerListEntry[], format: PeerListFormat = 'json'): string {
+  const list = { version: PEER_LIST_VERSION, peers: entries.map(compactEntry) }
+  return format === 'yaml' ? stringifyYAML(list) : `${JSON.stringify(list, null, 2)}\n`
+}
+
+/**
+ * One-line share link for a peer list (inverse of parsePeerShareLink)
+ */
+export function formatPeerShareLink(entries: PeerListEntry[]): string {
+  return `${PEER_SHARE_LINK_PREFIX}${encodeURIComponent(JSON.stringify(entries.map(compactEntry)))}`
+}
+
+/**
+ * Group peers by label: labelled groups by name, then the unlabelled ones.
+ * Peers keep their order within a group.
+ */
+export function groupPeersByLabel<T>(peers: T[], labelOf: (peer: T) => string | undefined): Array<PeerGroup<T>> {
+  const groups = new Map<string | null, T[]>()
+  for (const peer of peers) {
+    const label = labelOf(peer)?.trim() || null
+    const group = groups.get(label)
+    if (group) group.push(peer)
+    else groups.set(label, [peer])
+  }
+  return Array.from(groups, ([label, members]) => ({ label, peers: members }))
+    .sort((a, b) => (a.label === null ? 1 : b.label === null ? -1 : a.label.localeCompare(b.label)))
+}
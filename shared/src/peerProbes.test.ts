@@ -0,0 +1,104 @@
+/**
+ * Tests for per-protocol peer endpoint probes
+ */
+
+import { parseAdvertisedEndpoints, planPeerProbes, runPeerProbe, runPeerProbes, type PeerProbeTarget } from './peerProbes'
+
+const summary = (targets: PeerProbeTarget[]) => targets.map((t) => [t.protocol, t.port, t.method ? `${t.method} ${t.url}` : t.unprobeable || 'tcp'])
+
+function response(status: number, contentType = 'text/plain') {
+    return { ok: status >= 200 && status < 300, status, headers: { get: () => contentType } } as unknown as Response
+}
+
+describe('planPeerProbes', () => {
+    test('probes the peer API over HTTPS with a plain-HTTP fallback', () => {
+        expect(summary(planPeerProbes('node.example'))).toEqual([
+            ['https', 443, 'HEAD https://node.example/'],
+            ['http', 80, 'OPTIONS http://node.example/'],
+        ])
+        expect(summary(planPeerProbes('http://10.0.0.7:8080'))).toEqual([['http', 8080, 'OPTIONS http://10.0.0.7:8080/']])
+        expect(summary(planPeerProbes('node.example', { secureContext: true }))).toEqual([['https', 443, 'HEAD https://node.example/']])
+    })
+
+    test('adds the endpoints advertised in OPTIONS, per protocol and port', () => {
+        const targets = planPeerProbes('https://node.example', {
+            endpoints: {
+                git: 'https://node.example/git/widgets.git',
+                ssh: 2222,
+                'ipfs-api': 5001,
+                'ipfs-gateway': 'https://node.example:8443/gateway',
+                'ipfs-swarm': 4001,
+                ftp: 21,
+            },
+        })
+        expect(summary(targets)).toEqual([
+            ['https', 443, 'HEAD https://node.example/'],
+            ['git', 443, 'GET https://node.example/git/widgets.git/info/refs?service=git-upload-pack'],
+            ['ssh', 2222, 'tcp'],
+            ['ipfs-api', 5001, 'POST http://node.example:5001/api/v0/version'],
+            ['ipfs-gateway', 8443, 'GET https://node.example:8443/gateway/ipfs/bafkqaaa'],
+            ['ipfs-swarm', 4001, 'tcp'],
+        ])
+        // Plain-HTTP endpoints cannot be reached from an HTTPS page
+        const secure = planPeerProbes('https://node.example', { endpoints: { 'ipfs-api': 5001 }, secureContext: true })
+        expect(summary(secure)[1]).toEqual(['ipfs-api', 5001, 'Plain HTTP is blocked on an HTTPS page'])
+    })
+
+    test('ignores endpoints on other hosts', () => {
+        const targets = planPeerProbes('https://node.example', {
+            endpoints: {
+                git: 'https://victim.example/repo.git',
+                'ipfs-api': 'http://192.168.1.1:5001/prefix',
+                'ipfs-gateway': 'https://ipfs.node.example',
+                http: 'http://10.0.0.1',
+                ssh: 'other.example:22',
+            },
+        })
+        expect(summary(targets)).toEqual([['https', 443, 'HEAD https://node.example/']])
+    })
+
+    test('falls back to smart-HTTP on the peer for its first repo, or git:// for a port', () => {
+        expect(summary(planPeerProbes('node.example:8080', { repos: [{ name: 'my site' }] })).pop())
+            .toEqual(['git', 8080, 'GET http://node.example:8080/my%20site.git/info/refs?service=git-upload-pack'])
+        expect(summary(planPeerProbes('node.example', { repos: ['site'], endpoints: { git: 9418 } })).pop())
+            .toEqual(['git', 9418, 'tcp'])
+    })
+
+    test('skips malformed endpoints', () => {
+        expect(parseAdvertisedEndpoints({ ssh: 0, git: 'not a url', 'ipfs-api': 70000, 'ipfs-gateway': 8081 })).toEqual({ 'ipfs-gateway': 8081 })
+        expect(parseAdvertisedEndpoints(['git'])).toEqual({})
+    })
+})
+
+describe('runPeerProbe', () => {
+    const git: PeerProbeTarget = { protocol: 'git', port: 443, hostname: 'node.example', url: 'https://node.example/site.git/info/refs?service=git-upload-pack', method: 'GET', contentType: 'application/x-git-upload-pack-advertisement' }
+
+    test('reports the median latency of successful samples', async () => {
+        let clock = 0
+        const latencies = [30, 10, 20]
+        const fetchMock = jest.fn(async () => {
+            clock += latencies.shift()!
+            return response(200, 'application/x-git-upload-pack-advertisement')
+        })
+        const result = await runPeerProbe(git, { fetch: fetchMock, now: () => clock })
+        expect(result).toEqual({ protocol: 'git', port: 443, ok: true, latencyMs: 20 })
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    test('a git endpoint must answer with the upload-pack advertisement', async () => {
+        expect(await runPeerProbe(git, { fetch: async () => response(200, 'text/html'), samples: 1 }))
+            .toEqual({ protocol: 'git', port: 443, ok: false, error: 'Unexpected content type text/html' })
+        expect(await runPeerProbe(git, { fetch: async () => response(404), samples: 1 }))
+            .toMatchObject({ ok: false, error: 'HTTP 404' })
+    })
+
+    test('TCP endpoints need a native probe', async () => {
+        const [ssh, swarm] = planPeerProbes('node.example', { endpoints: { ssh: 22, 'ipfs-swarm': 4001 }, secureContext: true }).slice(1)
+        expect(await runPeerProbe(ssh)).toEqual({ protocol: 'ssh', port: 22, ok: false, error: 'TCP probe requires native module' })
+        const probeTcp = jest.fn(async (t: PeerProbeTarget) => ({ protocol: t.protocol, port: t.port, ok: true, latencyMs: 7 }))
+        expect(await runPeerProbes([ssh, swarm], { probeTcp })).toEqual([
+            { protocol: 'ssh', port: 22, ok: true, latencyMs: 7 },
+            { protocol: 'ipfs-swarm', port: 4001, ok: true, latencyMs: 7 },
+        ])
+    })
+})
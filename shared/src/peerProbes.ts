@@ -0,0 +1,286 @@
+/**
+ * Peer Endpoint Probes
+ *
+ * Besides the HTTP(S) API every peer serves, a peer may expose git, ssh and
+ * IPFS endpoints. It advertises them in its OPTIONS response, each as a port
+ * on the peer's own host or as a URL on that host:
+ *
+ *   { "endpoints": { "git": "https://node.example/git/widgets.git", "ssh": 2222,
+ *                    "ipfs-api": 5001, "ipfs-gateway": "https://node.example:8443/gateway", "ipfs-swarm": 4001 } }
+ *
+ * URLs naming any other host are ignored, so a peer cannot make clients
+ * send requests to third parties or to their own local network.
+ *
+ * planPeerProbes turns a host and its advertised endpoints into one target
+ * per protocol and port, and runPeerProbes measures them. HTTP-based
+ * endpoints (gateway, API, git smart-HTTP `info/refs`) are probed with
+ * fetch; raw TCP endpoints (git://, ssh, IPFS swarm) need a native probe
+ * and are reported as unprobed without one.
+ */
+
+export type PeerProbeProtocol = 'https' | 'http' | 'git' | 'ssh' | 'ipfs-api' | 'ipfs-gateway' | 'ipfs-swarm'
+
+/**
+ * Ports assumed when an endpoint is advertised without one
+ */
+export const DEFAULT_PROBE_PORTS: Record<PeerProbeProtocol, number> = {
+  https: 443,
+  http: 80,
+  git: 9418,
+  ssh: 22,
+  'ipfs-api': 5001,
+  'ipfs-gateway': 8080,
+  'ipfs-swarm': 4001,
+}
+
+/**
+ * One endpoint to probe
+ */
+export interface PeerProbeTarget {
+  protocol: PeerProbeProtocol
+  port: number
+  hostname: string
+  /** Request the probe makes; absent for raw TCP endpoints */
+  url?: string
+  method?: 'GET' | 'HEAD' | 'OPTIONS' | 'POST'
+  /** Any response counts, even an opaque no-cors one (plain reachability) */
+  anyResponse?: boolean
+  /** Content type a successful response must have */
+  contentType?: string
+  /** Why the client cannot probe it (e.g. mixed content) */
+  unprobeable?: string
+}
+
+/**
+ * The outcome of probing one endpoint (the shape of a client's PeerProbe)
+ */
+export interface PeerEndpointProbe {
+  protocol: PeerProbeProtocol
+  port: number
+  ok: boolean
+  /** Median of the successful samples */
+  latencyMs?: number
+  error?: string
+}
+
+export interface PeerProbePlanOptions {
+  /** The OPTIONS `endpoints` field */
+  endpoints?: unknown
+  /** Repos the peer serves; the first one is used for the default git smart-HTTP probe */
+  repos?: unknown[]
+  /** Whether plain-HTTP requests would be blocked as mixed content (an HTTPS page) */
+  secureContext?: boolean
+}
+
+export interface PeerProbeRunOptions {
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>
+  /** Connect to a raw TCP endpoint (native platforms only) */
+  probeTcp?: (target: PeerProbeTarget) => Promise<PeerEndpointProbe>
+  /** Requests per endpoint (default: 3) */
+  samples?: number
+  /** Per-request timeout (default: 5000ms) */
+  timeoutMs?: number
+  now?: () => number
+}
+
+const DEFAULT_SAMPLES = 3
+const DEFAULT_TIMEOUT_MS = 5000
+
+// The empty identity CID; every gateway serves it without touching the network
+const IPFS_GATEWAY_PROBE_PATH = '/ipfs/bafkqaaa'
+const GIT_UPLOAD_PACK_TYPE = 'application/x-git-upload-pack-advertisement'
+
+const PROTOCOLS = Object.keys(DEFAULT_PROBE_PORTS) as PeerProbeProtocol[]
+
+interface Endpoint {
+  scheme: string | null
+  hostname: string
+  port: number | null
+  /** Path without trailing slash ('' for the root) */
+  path: string
+}
+
+/**
+ * Parse `scheme://host:port/path`, `host:port` or `host`
+ * @returns null when it names no usable host
+ */
+function parseEndpoint(input: string): Endpoint | null {
+  const match = /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\[[0-9a-fA-F:.]+\]|[A-Za-z0-9.-]+)(?::(\d{1,5}))?(\/[^?#]*)?$/.exec(input.trim())
+  if (!match) return null
+  return {
+    scheme: match[1] ? match[1].toLowerCase() : null,
+    hostname: match[2].toLowerCase(),
+    port: match[3] ? parseInt(match[3], 10) : null,
+    path: (match[4] || '').replace(/\/+$/, ''),
+  }
+}
+
+function originOf(scheme: string, hostname: string, port: number): string {
+  const defaultPort = scheme === 'http' ? 80 : 443
+  return `${scheme}://${hostname}${port === defaultPort ? '' : `:${port}`}`
+}
+
+function isValidPort(port: unknown): port is number {
+  return typeof port === 'number' && Number.isInteger(port) && port > 0 && port < 65536
+}
+
+/**
+ * Read the OPTIONS `endpoints` field
+ * @returns Endpoints by protocol; unknown protocols and malformed values are skipped
+ */
+export function parseAdvertisedEndpoints(endpoints: unknown): Partial<Record<PeerProbeProtocol, number | string>> {
+  const parsed: Partial<Record<PeerProbeProtocol, number | string>> = {}
+  if (!endpoints || typeof endpoints !== 'object' || Array.isArray(endpoints)) return parsed
+  for (const protocol of PROTOCOLS) {
+    const value = (endpoints as Record<string, unknown>)[protocol]
+    if (isValidPort(value) || (typeof value === 'string' && parseEndpoint(value))) parsed[protocol] = value
+  }
+  return parsed
+}
+
+/**
+ * The endpoints to probe for a peer: its HTTP(S) API, then what it advertises
+ * @param host Peer host as configured (`node.example`, `10.0.0.7:8080` or a URL)
+ */
+export function planPeerProbes(host: string, options: PeerProbePlanOptions = {}): PeerProbeTarget[] {
+  const peer = parseEndpoint(host)
+  if (!peer) return []
+  const { hostname } = peer
+  const advertised = parseAdvertisedEndpoints(options.endpoints)
+  const targets: PeerProbeTarget[] = []
+  const add = (target: PeerProbeTarget) => {
+    if (targets.some((t) => t.protocol === target.protocol && t.port === target.port)) return
+    if (options.secureContext && target.url?.startsWith('http://')) {
+      target = { protocol: target.protocol, port: target.port, hostname: target.hostname, unprobeable: 'Plain HTTP is blocked on an HTTPS page' }
+    }
+    targets.push(target)
+  }
+  const http = (protocol: 'https' | 'http', port: number, path = '') => {
+    add(protocol === 'https'
+      // no-cors: a peer without CORS headers is still reachable
+      ? { protocol, port, hostname, url: `${originOf('https', hostname, port)}${path}/`, method: 'HEAD', anyResponse: true }
+      : { protocol, port, hostname, url: `${originOf('http', hostname, port)}${path}/`, method: 'OPTIONS' })
+  }
+
+  // The peer's own API: as configured, or HTTPS with a plain-HTTP fallback
+  if (peer.scheme === 'https' || peer.scheme === 'http') {
+    http(peer.scheme, peer.port ?? DEFAULT_PROBE_PORTS[peer.scheme], peer.path)
+  } else {
+    http('https', peer.port ?? 443)
+    if (!options.secureContext) http('http', peer.port ?? 80)
+  }
+  // Hosts with an explicit port are assumed to be plain HTTP, as elsewhere
+  const baseScheme = peer.scheme === 'http' || (!peer.scheme && peer.port !== null && peer.port !== 443) ? 'http' : 'https'
+  const basePort = peer.port ?? DEFAULT_PROBE_PORTS[baseScheme]
+
+  for (const protocol of PROTOCOLS) {
+    const value = advertised[protocol]
+    if (value === undefined) continue
+    const endpoint = typeof value === 'number'
+      ? { scheme: null, hostname, port: value, path: '' }
+      : parseEndpoint(value)!
+    if (endpoint.hostname !== hostname) continue
+    const port = endpoint.port ?? (endpoint.scheme === 'http' ? 80 : endpoint.scheme === 'https' ? 443 : DEFAULT_PROBE_PORTS[protocol])
+    const webScheme = endpoint.scheme === 'http' || endpoint.scheme === 'https' ? endpoint.scheme : null
+    const origin = originOf(webScheme || 'http', hostname, port)
+
+    switch (protocol) {
+      case 'https':
+      case 'http':
+        http(protocol, port, endpoint.path)
+        break
+      case 'ipfs-api':
+        add({ protocol, port, hostname, url: `${origin}${endpoint.path}/api/v0/version`, method: 'POST' })
+        break
+      case 'ipfs-gateway':
+        add({ protocol, port, hostname, url: `${origin}${endpoint.path}${IPFS_GATEWAY_PROBE_PATH}`, method: 'GET' })
+        break
+      case 'git':
+        // A URL is a smart-HTTP repo; a port (or git://) is a git daemon
+        if (webScheme) {
+          add({ protocol, port, hostname, url: `${origin}${endpoint.path}/info/refs?service=git-upload-pack`, method: 'GET', contentType: GIT_UPLOAD_PACK_TYPE })
+        } else {
+          add({ protocol, port, hostname })
+        }
+        break
+      default:
+        add({ protocol, port, hostname })
+    }
+  }
+
+  // Without an advertised git endpoint, try the conventional smart-HTTP layout on the peer itself
+  if (advertised.git === undefined) {
+    const repo = options.repos?.map((r) => (typeof r === 'string' ? r : (r as { name?: unknown } | null)?.name)).find((r) => typeof r === 'string')
+    if (repo) {
+      const url = `${originOf(baseScheme, hostname, basePort)}${peer.path}/${encodeURIComponent(repo)}.git/info/refs?service=git-upload-pack`
+      add({ protocol: 'git', port: basePort, hostname, url, method: 'GET', contentType: GIT_UPLOAD_PACK_TYPE })
+    }
+  }
+  return targets
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Probe one endpoint
+ * @returns ok when at least one sample succeeded
+ */
+export async function runPeerProbe(target: PeerProbeTarget, options: PeerProbeRunOptions = {}): Promise<PeerEndpointProbe> {
+  const { protocol, port } = target
+  if (target.unprobeable) return { protocol, port, ok: false, error: target.unprobeable }
+  if (!target.url) {
+    if (!options.probeTcp) return { protocol, port, ok: false, error: 'TCP probe requires native module' }
+    try {
+      return await options.probeTcp(target)
+    } catch (e) {
+      return { protocol, port, ok: false, error: e instanceof Error ? e.message : String(e) }
+    }
+  }
+
+  const fetcher = options.fetch || ((url: string, init?: RequestInit) => fetch(url, init))
+  const now = options.now || (() => Date.now())
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const latencies: number[] = []
+  let error: string | undefined
+  for (let i = 0; i < (options.samples ?? DEFAULT_SAMPLES); i++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    const start = now()
+    try {
+      const init: RequestInit = { method: target.method || 'GET', signal: controller.signal }
+      if (target.anyResponse) init.mode = 'no-cors'
+      const response = await fetcher(target.url, init)
+      const type = response.headers?.get('content-type') || ''
+      if (target.anyResponse || (response.ok && (!target.contentType || type.startsWith(target.contentType)))) {
+        latencies.push(now() - start)
+      } else {
+        error = response.ok ? `Unexpected content type ${type || '(none)'}` : `HTTP ${response.status}`
+      }
+    } catch (e) {
+      error = controller.signal.aborted ? 'Timed out' : e instanceof Error ? e.message : String(e)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+  if (latencies.length === 0) return { protocol, port, ok: false, error: error || 'Probe failed' }
+  return { protocol, port, ok: true, latencyMs: Math.round(median(latencies)) }
+}
+
+/**
+ * Probe all endpoints in parallel
+ * @returns Results in target order
+ */
+export function runPeerProbes(targets: PeerProbeTarget[], options: PeerProbeRunOptions = {}): Promise<PeerEndpointProbe[]> {
+  return Promise.all(targets.map((target) => runPeerProbe(target, options)))
+}
+
+/**
+ * Whether a probe measured the peer's own API, as opposed to a side endpoint (git, IPFS, ...)
+ */
+export function isPeerApiProbe(probe: { protocol?: string }): boolean {
+  return !probe.protocol || probe.protocol === 'https' || probe.protocol === 'http'
+}
@@ -27,17 +27,33 @@ describe('runtimeLoader - JSX Automatic Runtime', () => {
         if (!React || !React.createElement) return undefined
         return (type: any, config: any, maybeKey: any) => {
             let key = null
+            let ref = null
+            let props: any = {}
+
             if (maybeKey !== undefined) {
                 key = String(maybeKey)
             }
-            if (config && 'key' in config) {
-                key = String(config.key)
-                // Remove key from config before passing to createElement
-                const { key: _k, ...propsWithoutKey } = config
-                return React.createElement(type, { ...propsWithoutKey, key }, undefined)
+
+            // Filter out key and ref from props, keep everything else (including children); the key argument wins over config.key
+            if (config) {
+                for (let propName in config) {
+                    if (propName === 'key') {
+                        if (maybeKey === undefined) key = String(config.key)
+                    } else if (propName === 'ref') {
+                        ref = config.ref
+                    } else {
+                        props[propName] = config[propName]
+                    }
+                }
+            }
+
+            return {
+                '$$typeof': Symbol.for('react.element'),
+                type,
+                key,
+                ref: ref || null,
+                props
             }
-            // Pass key separately
-            return React.createElement(type, { ...config, key }, undefined)
         }
     }
 
@@ -7,6 +7,20 @@
  */
 
 import { ES6ImportHandler, type ImportHandlerOptions } from './es6ImportHandler'
+import { scanImportSpecifiers, type ModuleGraph, type ModuleGraphNode } from './moduleGraph'
+import { CUSTOM_TRANSPILER_BACKEND, hashSource, type TranspileCache } from './transpileCache'
+import { registerModuleExecution, registerModuleSource } from './sourceMaps'
+import type { HookCapabilityState, HookClipboard, HookStorage } from './capabilities'
+import { DEFAULT_HOOK_PATH, type ImportMapResolver } from './importMap'
+import { ModuleResolver, createHttpProbe, type ModuleExists } from './moduleResolver'
+import { describeIntegrityFailure, type IntegrityResult, type IntegrityVerifier } from './integrity'
+import { HookLoaderError, HtmlInsteadOfCodeError, IntegrityError, MissingDefaultExportError, ModuleLoadError, TranspileError, toExecutionError } from './loaderErrors'
+import type { PeerFetcher } from './peerFailover'
+import { beginSpan, type LoaderTrace } from './loaderTrace'
+import type { HookCleanup, HookInstance } from './hookLifecycle'
+import { assetKindFor, assetModuleSource, binaryModuleIntegrity, buildTextAssetModule, buildWasmModule, splitAssetQuery, type AssetKind } from './assetModules'
+import { getTranspilerChain, type TranspileAttempt, type TranspilerBackendName } from './transpilerChain'
+import { isRelayUri } from './hookEmbedding'
 
 // Provide type definitions for global scope (for React and process availability)
 declare const global: any
@@ -27,6 +41,16 @@ export interface TransformResult {
   sourceMaps?: string
 }
 
+/**
+ * What a HookLoader transpiler returns; plain strings are accepted too
+ */
+export interface TranspileOutput {
+  code: string
+  /** Backend that produced the code (see transpilerChain.ts) */
+  backend?: TranspilerBackendName
+  attempts?: TranspileAttempt[]
+}
+
 /**
  * Context passed to executed hooks
  */
@@ -49,19 +73,33 @@ export interface HookHelpers {
   buildPeerUrl: (path: string) => string
   loadModule: (modulePath: string, fromPath?: string) => Promise<any>
   setBranch?: (branch: string) => void
-  buildRepoHeaders?: (branch?: string, repo?: string) => Record<string, string>
+  buildRepoHeaders?: (branch?: string, repo?: string, commit?: string) => Record<string, string>
   registerThemeStyles?: (themeName: string, definitions?: Record<string, unknown>) => void
   registerThemesFromYaml?: (path: string) => Promise<void>
+  /** Capabilities granted from the repo's manifest; the helpers below are only present when granted */
+  capabilities?: HookCapabilityState
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>
+  storage?: HookStorage
+  clipboard?: HookClipboard
+  /** Run a cleanup when the hook is unmounted (tab closed, host/path changed, hot reload) */
+  onDispose?: (cleanup: HookCleanup) => void
+  /** Render a hook from another repo (`relay://host/repo@branch/path`) with `props` as its params */
+  renderHook?: (uri: string, props?: Record<string, unknown>) => any
 }
 
 /**
  * Diagnostics and error information
  */
 export interface LoaderDiagnostics {
-  phase: 'init' | 'options' | 'fetch' | 'transform' | 'import' | 'exec'
+  phase: 'init' | 'options' | 'fetch' | 'integrity' | 'transform' | 'prefetch' | 'import' | 'exec'
   kind?: 'get' | 'query' | 'put'
   error?: string
+  /** Name of the typed loader error (see loaderErrors.ts), e.g. 'TranspileError' */
+  errorType?: string
   details?: Record<string, any>
+  graph?: ModuleGraph
+  /** Backend that transpiled the entry hook ('cache' on a transpile cache hit) and the backends tried */
+  transpiler?: { backend?: string; attempts?: TranspileAttempt[] }
   [key: string]: any
 }
 
@@ -84,6 +122,11 @@ export interface ModuleLoader {
  * Web-specific module loader: uses Function constructor for Metro compatibility
  */
 export class WebModuleLoader implements ModuleLoader {
+  // Each loader (the tab's repo, every embedded repo) keeps its own import
+  // function, so a module's later imports never resolve through another repo's helpers
+  private static nextScope = 0
+  private readonly importScope = `loader${WebModuleLoader.nextScope++}`
+
   async executeModule(code: string, filename: string, context: HookContext, fetchUrl?: string): Promise<any> {
     // Note: preamble is now added BEFORE transpilation in transpileCode(),
     // so we no longer need to add it again here
@@ -109,11 +152,13 @@ export class WebModuleLoader implements ModuleLoader {
             throw e
           }
         }
+        ; (window as any).__hook_import_scopes = { ...(window as any).__hook_import_scopes, [this.importScope]: (window as any).__hook_import_with }
 
       // Build a per-module alias that binds the caller filename. This ensures any
       // rewritten calls to __hook_import(spec) inside this module resolve relative
       // to this file, regardless of other modules being loaded later.
-      const perModuleAlias = `const __hook_import = (spec) => (globalThis.__hook_import_with ? globalThis.__hook_import_with(String(spec), ${JSON.stringify(filename)}) : Promise.reject(new Error('__hook_import_with not available')));\n`
+      const importWith = `((globalThis.__hook_import_scopes || {})[${JSON.stringify(this.importScope)}] || globalThis.__hook_import_with)`
+      const perModuleAlias = `const __hook_import = (spec) => (${importWith} ? ${importWith}(String(spec), ${JSON.stringify(filename)}) : Promise.reject(new Error('__hook_import_with not available')));\n`
 
       // If the transpiled code contains ESM export syntax, evaluate it as an ES module
       // by creating a blob and dynamic-importing it. This allows transpilers that emit
@@ -131,6 +176,8 @@ export class WebModuleLoader implements ModuleLoader {
           // Just inject the per-module alias and execute
           const blob = new Blob([perModuleAlias, code], { type: 'text/javascript' })
           const blobUrl = URL.createObjectURL(blob)
+          // The per-module alias occupies the first line of the blob
+          registerModuleExecution(filename, { lineOffset: 1, url: blobUrl })
             // Ensure globals are available for module execution
             ; (window as any).__hook_react = context.React
           // Provide JSX runtime globals for transpiled output
@@ -184,11 +231,11 @@ export class WebModuleLoader implements ModuleLoader {
                 key = String(maybeKey)
               }
 
-              // Filter out key and ref from props, keep everything else (including children)
+              // Filter out key and ref from props, keep everything else (including children); the key argument wins over config.key
               if (config) {
                 for (let propName in config) {
                   if (propName === 'key') {
-                    key = String(config.key)
+                    if (maybeKey === undefined) key = String(config.key)
                   } else if (propName === 'ref') {
                     ref = config.ref
                   } else {
@@ -265,6 +312,9 @@ try {
         `
       )
 
+      // Module code starts on line 7 of the generated Function source
+      registerModuleExecution(filename, { lineOffset: 6, url: fetchUrl })
+
         // Execute the module code
         // Track current module path for nested lazy loads
         ; (window as any).__currentModulePath = filename
@@ -337,11 +387,11 @@ try {
                 key = String(maybeKey)
               }
 
-              // Filter out key and ref from props, keep everything else (including children)
+              // Filter out key and ref from props, keep everything else (including children); the key argument wins over config.key
               if (config) {
                 for (let propName in config) {
                   if (propName === 'key') {
-                    key = String(config.key)
+                    if (maybeKey === undefined) key = String(config.key)
                   } else if (propName === 'ref') {
                     ref = config.ref
                   } else {
@@ -419,11 +469,11 @@ try {
             key = String(maybeKey)
           }
 
-          // Filter out key and ref from props, keep everything else (including children)
+          // Filter out key and ref from props, keep everything else (including children); the key argument wins over config.key
           if (config) {
             for (let propName in config) {
               if (propName === 'key') {
-                key = String(config.key)
+                if (maybeKey === undefined) key = String(config.key)
               } else if (propName === 'ref') {
                 ref = config.ref
               } else {
@@ -458,14 +508,15 @@ try {
       // Return the module exports
       const mod = module.exports
       if (!mod || typeof mod.default !== 'function') {
-        throw new Error('Hook module does not export a default function')
+        throw new MissingDefaultExportError(filename, { url: fetchUrl })
       }
 
       return mod
     } finally {
       // Clean up global after async operations may complete
       setTimeout(() => {
-        delete (window as any).__ctx__
+        // A later hook may have replaced the context in the meantime
+        if ((window as any).__ctx__ === context) delete (window as any).__ctx__
         try { delete (window as any).__hook_import } catch { }
         delete (window as any).__currentModulePath
       }, 500)
@@ -505,7 +556,6 @@ export class RNModuleLoader implements ModuleLoader {
     if (options?.host) {
       this.importHandler = new ES6ImportHandler({
         host: options.host,
-        baseUrl: '/hooks',
         onDiagnostics: options?.onDiagnostics,
         transpiler: this.transpiler,
       })
@@ -572,6 +622,9 @@ try {
         }
       }
 
+      // Module code starts on line 5 of the generated Function source
+      registerModuleExecution(filename, { lineOffset: 4, url: fetchUrl })
+
       // Expose global import shim for transpiled code
       ; (globalThis as any).__currentModulePath = filename
         ; (globalThis as any).__hook_import = importFn
@@ -616,239 +669,20 @@ try {
 }
 
 /**
- * Transpile TypeScript/JSX to JavaScript (using @babel/standalone)
+ * Transpile TypeScript/JSX to JavaScript with the default transpiler chain
+ * (see transpilerChain.ts), honoring the client/server transpiler setting
  *
  * @param code Source code to transpile
  * @param options Transform configuration
- * @param toCommonJs If true, also transform ESM imports/exports to CommonJS (for RN)
- * @returns Transpiled code
+ * @returns Transpiled code with its source map inline
  */
 export async function transpileCode(
   code: string,
   options: TransformOptions,
   _toCommonJs: boolean = false
 ): Promise<string> {
-  // STRICT MODE: Disable SWC/Babel/server fallbacks.
-  // Only use the new Rust crate WASM binding if available on the page.
-  // The web app must load the crate and expose globalThis.__hook_transpile_jsx(source, filename) => string
-
-  const filename = options.filename || 'module.tsx'
-  const g: any = (typeof globalThis !== 'undefined' ? (globalThis as any) : {})
-  const wasmTranspile: any = g.__hook_transpile_jsx
-  const version = g.__hook_transpiler_version || 'unknown'
-  const forceServer: boolean = !!g.__forceServerTranspile
-
-  // If Settings forces server-side transpiler, bypass WASM and call server
-  if (forceServer) {
-    try {
-      const resp = await fetch('/api/transpile', {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ code, filename, to_common_js: false }),
-      } as any)
-      if (!resp.ok) {
-        const txt = await resp.text().catch(() => '')
-        throw new Error(`ServerTranspileError: ${resp.status} ${resp.statusText} ${txt}`)
-      }
-      const data: any = await resp.json()
-      if (!data?.ok || !data?.code) {
-        throw new Error(`ServerTranspileError: ${data?.diagnostics || 'unknown error'}`)
-      }
-      const out = String(data.code)
-      const rewritten = out.replace(/\bimport\s*\(/g, 'context.helpers.loadModule(')
-      return rewritten + `\n//# sourceURL=${filename}`
-    } catch (e) {
-      throw e
-    }
-  }
-
-  if (typeof wasmTranspile !== 'function') {
-    const availableKeys = Object.keys(g).filter(k => k.startsWith('__')).join(', ')
-    console.error('[transpileCode] WASM not ready:', {
-      hasGlobalThis: typeof globalThis !== 'undefined',
-      hasHook: '__hook_transpile_jsx' in g,
-      type: typeof wasmTranspile,
-      globalKeys: availableKeys || '(none)'
-    })
-    // Optional server fallback when enabled via Settings
-    if ((g as any).__allowServerTranspile) {
-      console.warn('[transpileCode] WASM not ready; attempting server fallback /api/transpile')
-      try {
-        const resp = await fetch('/api/transpile', {
-          method: 'POST',
-          headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ code, filename, to_common_js: false }),
-        } as any)
-        if (!resp.ok) {
-          const txt = await resp.text().catch(() => '')
-          throw new Error(`ServerTranspileError: ${resp.status} ${resp.statusText} ${txt}`)
-        }
-        const data: any = await resp.json()
-        if (!data?.ok || !data?.code) {
-          throw new Error(`ServerTranspileError: ${data?.diagnostics || 'unknown error'}`)
-        }
-        const out = String(data.code)
-        const rewritten = out.replace(/\bimport\s*\(/g, 'context.helpers.loadModule(')
-        return rewritten + `\n//# sourceURL=${filename}`
-      } catch (e) {
-        console.error('[transpileCode] Server fallback failed:', e)
-      }
-    }
-    throw new Error(`HookTranspiler WASM not loaded (v${version}): expected globalThis.__hook_transpile_jsx(source, filename)`)
-  }
-
-  // Extract JSX pragma (default to h / React.Fragment)
-  let pragmaFn = 'h'
-  let pragmaFragFn = 'React.Fragment'
-  const pragmaMatch = code.match(/\/\*+\s*@jsx\s+([\w.]+)\s*\*+\//)
-  const pragmaFragMatch = code.match(/\/\*+\s*@jsxFrag\s+([\w.]+)\s*\*+\//)
-  if (pragmaMatch && pragmaMatch[1]) pragmaFn = pragmaMatch[1]
-  if (pragmaFragMatch && pragmaFragMatch[1]) pragmaFragFn = pragmaFragMatch[1]
-  const preamble = ``
-  const codeWithPreamble = preamble + code
-
-  // DEBUG: Check if function is actually callable
-  let out: any;
-  try {
-    out = await wasmTranspile(codeWithPreamble, filename)
-  } catch (callError) {
-    console.error('[transpileCode] WASM call threw exception:', callError)
-    // Optional server fallback when enabled
-    if ((g as any).__allowServerTranspile) {
-      console.warn('[transpileCode] Attempting server fallback due to WASM exception')
-      try {
-        const resp = await fetch('/api/transpile', {
-          method: 'POST',
-          headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ code, filename, to_common_js: false }),
-        } as any)
-        if (!resp.ok) {
-          const txt = await resp.text().catch(() => '')
-          throw new Error(`ServerTranspileError: ${resp.status} ${resp.statusText} ${txt}`)
-        }
-        const data: any = await resp.json()
-        if (!data?.ok || !data?.code) {
-          throw new Error(`ServerTranspileError: ${data?.diagnostics || 'unknown error'}`)
-        }
-        const out = String(data.code)
-        const rewritten = out.replace(/\bimport\s*\(/g, 'context.helpers.loadModule(')
-        return rewritten + `\n//# sourceURL=${filename}`
-      } catch (e) {
-        console.error('[transpileCode] Server fallback failed after WASM exception:', e)
-      }
-    }
-    throw callError
-  }
-
-  // Handle WASM result object: { code: string | null, map: string | null, error: string | null }
-  let transpiledCode: string;
-  if (typeof out === 'object' && out !== null) {
-    if (out.error) {
-      // WASM returned an error
-      const errorMsg = `TranspileError: ${filename}: ${out.error} (v${version})`
-      console.error('[transpileCode] JSX transpilation failed:', {
-        filename,
-        inputSize: code.length,
-        errorMessage: errorMsg,
-        codePreview: code.substring(0, 200)
-      })
-        // Make transpiled code available for debugging
-        ; (globalThis as any).__lastTranspiledCode = null
-        ; (globalThis as any).__lastTranspileError = errorMsg
-
-      // Optional server fallback for user-enabled path
-      if ((g as any).__allowServerTranspile) {
-        console.warn('[transpileCode] WASM returned error; attempting server fallback')
-        try {
-          const resp = await fetch('/api/transpile', {
-            method: 'POST',
-            headers: { 'content-type': 'application/json' },
-            body: JSON.stringify({ code, filename, to_common_js: false }),
-          } as any)
-          if (!resp.ok) {
-            const txt = await resp.text().catch(() => '')
-            throw new Error(`ServerTranspileError: ${resp.status} ${resp.statusText} ${txt}`)
-          }
-          const data: any = await resp.json()
-          if (!data?.ok || !data?.code) {
-            throw new Error(`ServerTranspileError: ${data?.diagnostics || 'unknown error'}`)
-          }
-          transpiledCode = String(data.code)
-          const rewritten = transpiledCode.replace(/\bimport\s*\(/g, 'context.helpers.loadModule(')
-          return rewritten + `\n//# sourceURL=${filename}`
-        } catch (e) {
-          console.error('[transpileCode] Server fallback failed after WASM error:', e)
-        }
-      }
-      throw new Error(errorMsg)
-    }
-
-    if (!out.code) {
-      throw new Error(`HookTranspiler returned empty code for ${filename}`)
-    }
-
-    transpiledCode = out.code
-  } else if (typeof out === 'string') {
-    // Legacy string return (shouldn't happen with current WASM, but handle it)
-    transpiledCode = out
-  } else {
-    throw new Error(`HookTranspiler returned unexpected type: ${typeof out}`)
-  }
-
-  // Store for debugging if needed
-  if (transpiledCode.startsWith('TranspileError:')) {
-    const errorMsg = `${transpiledCode} (v${version})`
-    console.error('[transpileCode] JSX transpilation failed:', {
-      filename,
-      inputSize: code.length,
-      errorMessage: errorMsg,
-      codePreview: code.substring(0, 200)
-    })
-      // Make transpiled code available for debugging
-      ; (globalThis as any).__lastTranspiledCode = transpiledCode
-      ; (globalThis as any).__lastTranspileError = errorMsg
-    // Optional server fallback for user-enabled path
-    if ((g as any).__allowServerTranspile) {
-      console.warn('[transpileCode] WASM returned TranspileError; attempting server fallback')
-      try {
-        const resp = await fetch('/api/transpile', {
-          method: 'POST',
-          headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ code, filename, to_common_js: false }),
-        } as any)
-        if (!resp.ok) {
-          const txt = await resp.text().catch(() => '')
-          throw new Error(`ServerTranspileError: ${resp.status} ${resp.statusText} ${txt}`)
-        }
-        const data: any = await resp.json()
-        if (!data?.ok || !data?.code) {
-          throw new Error(`ServerTranspileError: ${data?.diagnostics || 'unknown error'}`)
-        }
-        transpiledCode = String(data.code)
-        const rewritten = transpiledCode.replace(/\bimport\s*\(/g, 'context.helpers.loadModule(')
-        return rewritten + `\n//# sourceURL=${filename}`
-      } catch (e) {
-        console.error('[transpileCode] Server fallback failed after TranspileError:', e)
-      }
-    }
-    throw new Error(errorMsg)
-  }
-
-  // Store transpiled code for debugging
-  ; (globalThis as any).__lastTranspiledCode = transpiledCode
-
-  // Check if output still has JSX syntax (< followed by uppercase letter)
-  const stillHasJsx = /<[A-Z]/.test(transpiledCode);
-  if (stillHasJsx) {
-    console.warn('[transpileCode] WARNING: Output still contains JSX syntax! Transpilation may have failed silently.');
-    console.warn('[transpileCode] Transpiled code available at: window.__lastTranspiledCode');
-  } else if (transpiledCode.includes('React.createElement(')) {
-    console.log('[transpileCode] ✓ Output contains React.createElement() calls - transpilation successful')
-  }
-
-  // Rust transpiler already handles dynamic import() rewriting to __hook_import()
-  // No need for JS post-processing
-  return transpiledCode + `\n//# sourceURL=${filename}`
+  const result = await getTranspilerChain().transpile(code, options.filename || 'module.tsx')
+  return result.code
 }
 
 /**
@@ -868,17 +702,101 @@ export interface HookLoaderOptions {
   host: string
   protocol: 'http' | 'https'
   moduleLoader: ModuleLoader
-  transpiler?: (code: string, filename: string) => Promise<string>
+  /** Custom transpiler; defaults to the transpiler chain, which reports the backend it used */
+  transpiler?: (code: string, filename: string) => Promise<string | TranspileOutput>
   onDiagnostics?: (diag: LoaderDiagnostics) => void
+  /** Fetch and transpile the hook's dependency graph in parallel before execution (default: true) */
+  prefetchDependencies?: boolean
+  /** Persistent transpile output cache shared across sessions */
+  transpileCache?: TranspileCache
+  /** Resolver for module specifiers; pass the same instance to ES6ImportHandler */
+  resolver?: ModuleResolver
+  /** Import map for bare specifiers, when no resolver is passed */
+  importMap?: ImportMapResolver
+  /** Modules the client provides for built-in specifiers (e.g. react, @relay/theme) */
+  builtinModules?: Record<string, any>
+  /** Verify fetched sources against the peer's per-commit integrity manifest */
+  integrity?: IntegrityVerifier
+  /** Fail GETs over to other peers serving the same repo head; its primary should be this host */
+  peers?: PeerFetcher
+  /** Records fetch/transform/import/exec spans per module */
+  trace?: LoaderTrace
+  /** Applies stylesheets imported by hooks (`import './styles.css'`) */
+  registerCss?: (id: string, css: string) => void
+  /** Loads `relay://` imports through the other repo's own loader (see hookEmbedding.ts) */
+  importRelayUri?: (uri: string) => Promise<any>
+}
+
+/**
+ * Module source as fetched from the peer (or reused from the verified blob cache)
+ */
+interface FetchedSource {
+  code: string
+  moduleUrl: string
+  /** Base URL of the peer that served the source */
+  servedBy: string
+  /** Null when no integrity verifier is configured */
+  integrity: IntegrityResult | null
+  /** Null when reused from the verified blob cache */
+  contentType: string | null
+}
+
+/**
+ * Fetched and transpiled module source, ready for execution
+ */
+interface PreparedModule {
+  code: string
+  moduleUrl: string
+  servedBy: string
+  sourceHash: string
+  /** Set for JSON/YAML/CSS/text files, whose code is the untranspiled file contents */
+  asset: AssetKind | null
+  /** Transpiler backend, or 'cache' */
+  transpiledBy?: string
+}
+
+/**
+ * Transpiled module code and where it came from
+ */
+interface TranspiledModule extends TranspileOutput {
+  cacheHit: boolean
+}
+
+/**
+ * Bookkeeping for an executed module, used to invalidate it when its source changes
+ */
+interface LoadedModuleInfo {
+  path: string
+  sourceHash: string
+  dependencies: string[]
 }
 
+// Upper bound on modules fetched ahead of execution for a single hook
+const MAX_PREFETCH_MODULES = 64
+
+// Imports this loader fetches: relative, absolute and import-mapped bare
+// specifiers; relay:// imports belong to another repo's loader
+const isLoaderSpecifier = (spec: string): boolean => !spec.includes('${') && !isRelayUri(spec)
+
 export class HookLoader {
   private host: string
   private protocol: 'http' | 'https'
   private moduleLoader: ModuleLoader
-  private transpiler?: (code: string, filename: string) => Promise<string>
+  private transpiler?: (code: string, filename: string) => Promise<string | TranspileOutput>
   private onDiagnostics: (diag: LoaderDiagnostics) => void
+  private prefetchEnabled: boolean
+  private transpileCache?: TranspileCache
+  private resolver: ModuleResolver
+  private importMap: ImportMapResolver
+  private builtinModules: Record<string, any>
+  private integrity?: IntegrityVerifier
+  private peers?: PeerFetcher
+  private trace?: LoaderTrace
+  private registerCss?: (id: string, css: string) => void
+  private importRelayUri?: (uri: string) => Promise<any>
   private moduleCache: Map<string, any> = new Map()
+  private prefetchCache: Map<string, Promise<PreparedModule>> = new Map()
+  private loadedModules: Map<string, LoadedModuleInfo> = new Map()
   private logTranspileResult(filename: string, code: string): void {
     const containsExport = /\bexport\b/.test(code)
     const sample = code.substring(0, 200).replace(/\n/g, '\\n')
@@ -895,14 +813,442 @@ export class HookLoader {
     this.moduleLoader = options.moduleLoader
     this.transpiler = options.transpiler
     this.onDiagnostics = options.onDiagnostics || (() => { })
+    this.prefetchEnabled = options.prefetchDependencies !== false
+    this.transpileCache = options.transpileCache
+    this.builtinModules = options.builtinModules || {}
+    this.resolver = options.resolver || new ModuleResolver({ importMap: options.importMap })
+    this.importMap = this.resolver.importMap
+    this.importMap.addBuiltins(Object.keys(this.builtinModules))
+    this.integrity = options.integrity
+    this.peers = options.peers
+    this.trace = options.trace
+    this.registerCss = options.registerCss
+    this.importRelayUri = options.importRelayUri
   }
 
-  private buildRequestHeaders(context: HookContext): Record<string, string> {
+  private buildRequestHeaders(context?: HookContext): Record<string, string> {
     const builder = context?.helpers?.buildRepoHeaders
     if (!builder) return {}
     return { ...builder() }
   }
 
+  /**
+   * Probe for extensionless module paths with this loader's request headers and peers
+   */
+  private probeFor(context?: HookContext): ModuleExists {
+    const headers = this.buildRequestHeaders(context)
+    return createHttpProbe(async (path, init) => (await this.request(path, { ...init, headers })).response)
+  }
+
+  /**
+   * Resolve a module specifier to an absolute peer path, probing extensionless paths
+   * @param modulePath Relative, absolute or repo-mapped bare specifier
+   * @param fromPath Path of the importing module
+   * @param context Hook context (used for probe request headers)
+   * @returns Normalized absolute path (e.g. /hooks/client/lib/utils.jsx)
+   */
+  private async resolveModuleFile(modulePath: string, fromPath: string, context?: HookContext): Promise<string> {
+    const resolution = await this.resolver.resolveFile(modulePath, fromPath, this.probeFor(context))
+    if (resolution.type === 'builtin') {
+      throw new ModuleLoadError(`${modulePath} is a built-in module, not a peer path`, { filename: modulePath })
+    }
+    return resolution.path
+  }
+
+  /**
+   * Resolve a module specifier to an absolute peer path without probing
+   * @param modulePath Relative, absolute or repo-mapped bare specifier
+   * @param fromPath Path of the importing module
+   * @returns Normalized absolute path (e.g. /hooks/client/lib/utils.jsx)
+   */
+  private resolveModulePath(modulePath: string, fromPath: string = DEFAULT_HOOK_PATH): string {
+    const resolution = this.resolver.resolve(modulePath, fromPath)
+    if (resolution.type === 'builtin') {
+      throw new ModuleLoadError(`${modulePath} is a built-in module, not a peer path`, { filename: modulePath })
+    }
+    const dbg = (globalThis as any).__HOOK_DEBUG || (typeof localStorage !== 'undefined' && localStorage.getItem('hookDebug') === '1')
+    if (dbg) {
+      try { console.debug('[HookLoader.loadModule] resolved', { modulePath, fromPath, ...resolution }) } catch { }
+    }
+    return resolution.path
+  }
+
+  /**
+   * GET a peer path, through the failover peers when configured
+   * @returns The response, its URL and the base URL of the peer that served it
+   */
+  private async request(path: string, init?: RequestInit): Promise<{ response: Response; url: string; servedBy: string }> {
+    if (this.peers) {
+      const result = await this.peers.fetch(path, init)
+      return { response: result.response, url: result.url, servedBy: result.baseUrl }
+    }
+    const servedBy = `${this.protocol}://${this.host}`
+    return { response: await fetch(`${servedBy}${path}`, init), url: `${servedBy}${path}`, servedBy }
+  }
+
+  /**
+   * Import map shared with other loaders (e.g. ES6ImportHandler) so they resolve identically
+   */
+  getImportMap(): ImportMapResolver {
+    return this.importMap
+  }
+
+  /**
+   * Resolver shared with other loaders, including its probe results
+   */
+  getResolver(): ModuleResolver {
+    return this.resolver
+  }
+
+  /**
+   * Run the custom transpiler, or the default transpiler chain
+   */
+  private async runTranspiler(code: string, filename: string): Promise<TranspileOutput> {
+    if (!this.transpiler) return getTranspilerChain().transpile(code, filename)
+    const out = await this.transpiler(code, filename)
+    const result = typeof out === 'string' ? { code: out } : out
+    this.logTranspileResult(filename, result.code)
+    return result
+  }
+
+  /**
+   * Run a transpile, serving and storing the output through the persistent cache
+   */
+  private async cachedTranspile(code: string, filename: string): Promise<TranspiledModule> {
+    const span = beginSpan(this.trace, filename, 'transform', 'HookLoader')
+    try {
+      // Output is cached per backend; only serve what the transpiler in use would produce
+      const backends = this.transpiler ? [CUSTOM_TRANSPILER_BACKEND] : getTranspilerChain().servableBackends()
+      const cached = this.transpileCache ? await this.transpileCache.get(code, filename, backends) : null
+      if (cached !== null) {
+        console.debug(`[HookLoader] Transpile cache hit for ${filename}`)
+        span.end({ bytes: cached.length, cacheHit: true })
+        return { code: cached, cacheHit: true }
+      }
+      const out = await this.runTranspiler(code, filename)
+      // Persisting is best-effort and must not delay execution
+      if (this.transpileCache) void this.transpileCache.set(code, filename, out.code, out.backend || CUSTOM_TRANSPILER_BACKEND)
+      span.end({ bytes: out.code.length, cacheHit: false, backend: out.backend })
+      return { ...out, cacheHit: false }
+    } catch (err) {
+      span.fail(err)
+      throw err
+    }
+  }
+
+  /**
+   * Transpile module source if it needs it (RN always routes through custom transpiler)
+   */
+  private async transpileModule(code: string, filename: string): Promise<TranspiledModule> {
+    const shouldTranspile = !!this.transpiler || looksLikeTsOrJsx(code, filename)
+    if (!shouldTranspile) return { code, cacheHit: false }
+    return this.cachedTranspile(code, filename)
+  }
+
+  /**
+   * Fetch a module's source (see fetchVerifiedSource), recorded as a fetch span
+   */
+  private async fetchSource(normalizedPath: string, context: HookContext | undefined, diag: LoaderDiagnostics): Promise<FetchedSource> {
+    const span = beginSpan(this.trace, normalizedPath, 'fetch', 'HookLoader')
+    try {
+      const fetched = await this.fetchVerifiedSource(normalizedPath, context, diag)
+      span.end({ bytes: fetched.code.length, cacheHit: !!diag.fetch?.cached, servedBy: fetched.servedBy })
+      return fetched
+    } catch (err) {
+      span.fail(err, { servedBy: diag.fetch?.servedBy })
+      throw err
+    }
+  }
+
+  /**
+   * Fetch a module's source and check it against the integrity manifest.
+   * Sources already verified under the expected hash are reused without a request.
+   * @param normalizedPath Absolute module path on the peer
+   * @param context Hook context (used for repo/branch request headers)
+   * @param diag Diagnostics to record the response and phase on
+   */
+  private async fetchVerifiedSource(normalizedPath: string, context: HookContext | undefined, diag: LoaderDiagnostics): Promise<FetchedSource> {
+    if (this.integrity) {
+      const cached = await this.integrity.cachedSource(normalizedPath)
+      if (cached !== null) {
+        console.debug(`[HookLoader] Reusing verified source for ${normalizedPath}`)
+        const servedBy = this.peers?.primary || `${this.protocol}://${this.host}`
+        diag.fetch = { cached: true }
+        return { code: cached, moduleUrl: `${servedBy}${normalizedPath}`, servedBy, integrity: await this.integrity.verify(normalizedPath, cached), contentType: null }
+      }
+    }
+
+    const requestHeaders = this.buildRequestHeaders(context)
+    const fetchOptions = Object.keys(requestHeaders).length ? { headers: requestHeaders } : undefined
+    const { response, url: moduleUrl, servedBy } = await this.request(normalizedPath, fetchOptions)
+    diag.fetch = {
+      status: response.status,
+      ok: response.ok,
+      contentType: response.headers.get('content-type'),
+      servedBy,
+    }
+    if (!response.ok) {
+      throw new ModuleLoadError(`${moduleUrl} → ${response.status} ${response.statusText}`, { url: moduleUrl, status: response.status, filename: normalizedPath })
+    }
+    const ct = (response.headers.get('content-type') || '').toLowerCase()
+    if (ct.includes('text/html')) {
+      // Server likely returned an HTML error page; don't try to execute it
+      throw new HtmlInsteadOfCodeError(`${moduleUrl} returned HTML (content-type=${ct})`, { url: moduleUrl, status: response.status, filename: normalizedPath, contentType: ct })
+    }
+    const code = await response.text()
+    const contentType = response.headers.get('content-type')
+    if (!this.integrity) return { code, moduleUrl, servedBy, integrity: null, contentType }
+
+    diag.phase = 'integrity'
+    const integrity = await this.integrity.verify(normalizedPath, code)
+    diag.integrity = integrity
+    if (!this.integrity.accepts(integrity)) {
+      diag.details = { ...(diag.details || {}), moduleUrl, filename: normalizedPath }
+      throw new IntegrityError(describeIntegrityFailure(integrity), { url: moduleUrl, filename: normalizedPath })
+    }
+    if (integrity.status !== 'verified') {
+      console.debug(`[HookLoader] Running unverified module ${normalizedPath}: ${integrity.reason}`)
+    }
+    return { code, moduleUrl, servedBy, integrity, contentType }
+  }
+
+  /**
+   * Fetch and transpile a module without executing it. Asset files are
+   * fetched but left as-is (see assetModules.ts).
+   * @param normalizedPath Absolute module path on the peer
+   * @param context Hook context (used for repo/branch request headers)
+   * @param reportErrors Emit integrity/transform diagnostics on failure (off while prefetching)
+   * @param raw Imported with `?raw`: keep the file as text whatever its type
+   */
+  private async prepareModule(normalizedPath: string, context: HookContext | undefined, reportErrors: boolean = true, raw: boolean = false): Promise<PreparedModule> {
+    const fetchDiag: LoaderDiagnostics = { phase: 'fetch' }
+    let fetched: FetchedSource
+    try {
+      fetched = await this.fetchSource(normalizedPath, context, fetchDiag)
+    } catch (err) {
+      if (reportErrors && fetchDiag.phase === 'integrity') {
+        this.onDiagnostics({ ...fetchDiag, error: (err as any)?.message || String(err) })
+      }
+      throw err
+    }
+    const { code, moduleUrl, servedBy } = fetched
+
+    const asset = assetKindFor(normalizedPath, raw, fetched.contentType)
+    if (asset) return { code, moduleUrl, servedBy, sourceHash: hashSource(code), asset }
+
+    registerModuleSource(normalizedPath, code)
+    try {
+      const transpiled = await this.transpileModule(code, normalizedPath)
+      registerModuleSource(normalizedPath, code, transpiled.code)
+      const transpiledBy = transpiled.cacheHit ? 'cache' : transpiled.backend
+      return { code: transpiled.code, moduleUrl, servedBy, sourceHash: hashSource(code), asset: null, transpiledBy }
+    } catch (err) {
+      const msg = (err as any)?.message || String(err)
+      const diag: LoaderDiagnostics = {
+        phase: 'transform',
+        error: msg,
+        details: { moduleUrl, filename: normalizedPath, ...(err as any) }
+      }
+      if (reportErrors) this.onDiagnostics(diag)
+      if (err instanceof TranspileError) throw err
+      throw new TranspileError(`${normalizedPath}: ${msg}`, { url: moduleUrl, filename: normalizedPath, transpilerVersion: (globalThis as any).__hook_transpiler_version, cause: err })
+    }
+  }
+
+  /**
+   * Walk the import graph of an already-transpiled module, fetching and
+   * transpiling every reachable peer module in parallel. Prepared sources are
+   * kept in the prefetch cache so the later on-demand loadModule() calls
+   * execute without another round-trip. Failures are recorded in the graph
+   * but not thrown: the real error surfaces when the module is imported.
+   * @param entryPath Absolute path of the entry module
+   * @param entryCode Transpiled entry module source
+   * @param context Hook context (used for request headers)
+   * @returns The discovered dependency graph
+   */
+  async prefetchDependencies(entryPath: string, entryCode: string, context: HookContext): Promise<ModuleGraph> {
+    const startTime = Date.now()
+    const graph: ModuleGraph = { entry: entryPath, nodes: {} }
+    const seen = new Set<string>([entryPath])
+
+    // Bare specifiers are included so repo import-map targets are prefetched too
+    const exists = this.probeFor(context)
+    const resolveDependencies = async (code: string, fromPath: string): Promise<string[]> => {
+      const specs = scanImportSpecifiers(code, isLoaderSpecifier)
+      const paths = await Promise.all(specs.map(async (spec) => {
+        // ?raw imports and wasm binaries are fetched when imported
+        const { specifier, raw } = splitAssetQuery(spec)
+        if (raw) return null
+        try {
+          const resolution = await this.resolver.resolveFile(specifier, fromPath, exists)
+          if (resolution.type !== 'path' || assetKindFor(resolution.path) === 'wasm') return null
+          return resolution.path
+        } catch {
+          // Unresolvable specifiers are reported when the module actually imports them
+          return null
+        }
+      }))
+      return paths.filter((path): path is string => path !== null)
+    }
+
+    const visit = async (path: string): Promise<void> => {
+      const cacheKey = `${this.host}:${path}`
+      const node: ModuleGraphNode = { path, dependencies: [], status: 'ready' }
+      graph.nodes[path] = node
+      const nodeStart = Date.now()
+      try {
+        if (!this.moduleCache.has(cacheKey) && !this.prefetchCache.has(cacheKey)) {
+          const pending = this.prepareModule(path, context, false)
+          this.prefetchCache.set(cacheKey, pending)
+          // Drop failed entries so loadModule() retries and reports the error itself
+          pending.catch(() => this.prefetchCache.delete(cacheKey))
+        }
+        const prepared = this.prefetchCache.get(cacheKey)
+        if (!prepared) return
+        const { code, moduleUrl, servedBy, asset, transpiledBy } = await prepared
+        node.url = moduleUrl
+        node.servedBy = servedBy
+        node.transpiledBy = transpiledBy
+        node.dependencies = asset ? [] : await resolveDependencies(code, path)
+      } catch (err) {
+        node.status = 'failed'
+        node.error = err instanceof Error ? err.message : String(err)
+      } finally {
+        node.durationMs = Date.now() - nodeStart
+      }
+      await Promise.all(node.dependencies.map(enqueue))
+    }
+
+    const enqueue = async (path: string): Promise<void> => {
+      if (seen.has(path)) return
+      if (seen.size >= MAX_PREFETCH_MODULES) {
+        graph.truncated = true
+        return
+      }
+      seen.add(path)
+      await visit(path)
+    }
+
+    const entryDependencies = await resolveDependencies(entryCode, entryPath)
+    graph.nodes[entryPath] = {
+      path: entryPath,
+      url: `${this.protocol}://${this.host}${entryPath}`,
+      dependencies: entryDependencies,
+      status: 'ready',
+    }
+    await Promise.all(entryDependencies.map(enqueue))
+    graph.durationMs = Date.now() - startTime
+    return graph
+  }
+
+  /**
+   * Fetch and transpile a module without executing it, e.g. so it can run in
+   * an isolated realm. Uses sources already prepared by the prefetch pass.
+   * Assets are built here and returned as ES modules exporting their data.
+   * @param modulePath Relative or absolute path to module
+   * @param fromPath Path of the importing module
+   * @param context Hook context (used for repo/branch request headers)
+   * @returns Transpiled code with its resolved filename and URL
+   */
+  async fetchModule(
+    modulePath: string,
+    fromPath: string = DEFAULT_HOOK_PATH,
+    context?: HookContext
+  ): Promise<{ code: string; filename: string; url: string }> {
+    if (isRelayUri(modulePath)) {
+      throw new ModuleLoadError(`${modulePath}: relay:// modules cannot be imported by sandboxed hooks`, { filename: fromPath })
+    }
+    const { specifier, raw } = splitAssetQuery(modulePath)
+    const filename = await this.resolveModuleFile(specifier, fromPath, context)
+    const cacheKey = `${this.host}:${filename}`
+    const prefetched = raw ? undefined : this.prefetchCache.get(cacheKey)
+    const prepared = (prefetched && await prefetched.catch(() => null))
+      || await this.prepareModule(filename, context, true, raw)
+    if (!prepared.asset) return { code: prepared.code, filename, url: prepared.moduleUrl }
+    if (prepared.asset === 'wasm') {
+      throw new ModuleLoadError(`${filename}: WebAssembly modules cannot be imported by sandboxed hooks`, { filename, url: prepared.moduleUrl })
+    }
+    // The sandbox executes what it gets, so it gets the asset's data rather than its source
+    const mod = this.buildAssetModule(prepared.asset, filename, prepared.code)
+    return { code: assetModuleSource(mod), filename, url: prepared.moduleUrl }
+  }
+
+  /**
+   * Build the exports of a fetched text asset, recorded as an import span
+   */
+  private buildAssetModule(kind: Exclude<AssetKind, 'wasm'>, normalizedPath: string, text: string): Record<string, any> {
+    const span = beginSpan(this.trace, normalizedPath, 'import', 'HookLoader')
+    try {
+      const mod = buildTextAssetModule(kind, normalizedPath, text, { registerCss: this.registerCss })
+      span.end({ cacheHit: false })
+      return mod
+    } catch (err) {
+      span.fail(err)
+      this.onDiagnostics({
+        phase: 'import',
+        error: (err as any)?.message || String(err),
+        errorType: err instanceof HookLoaderError ? err.name : undefined,
+        details: { filename: normalizedPath },
+      })
+      throw err
+    }
+  }
+
+  /**
+   * Fetch and compile a WebAssembly module
+   * @param normalizedPath Absolute module path on the peer
+   * @param context Hook context (used for repo/branch request headers)
+   */
+  private async loadWasmModule(normalizedPath: string, context: HookContext): Promise<Record<string, any>> {
+    const fetchSpan = beginSpan(this.trace, normalizedPath, 'fetch', 'HookLoader')
+    let bytes: ArrayBuffer
+    try {
+      if (this.integrity) {
+        const integrity = binaryModuleIntegrity(normalizedPath)
+        if (!this.integrity.accepts(integrity)) {
+          throw new IntegrityError(describeIntegrityFailure(integrity), { filename: normalizedPath })
+        }
+      }
+      const requestHeaders = this.buildRequestHeaders(context)
+      const fetchOptions = Object.keys(requestHeaders).length ? { headers: requestHeaders } : undefined
+      const { response, url: moduleUrl, servedBy } = await this.request(normalizedPath, fetchOptions)
+      if (!response.ok) {
+        throw new ModuleLoadError(`${moduleUrl} → ${response.status} ${response.statusText}`, { url: moduleUrl, status: response.status, filename: normalizedPath })
+      }
+      bytes = await response.arrayBuffer()
+      fetchSpan.end({ bytes: bytes.byteLength, cacheHit: false, servedBy })
+    } catch (err) {
+      fetchSpan.fail(err)
+      throw err
+    }
+
+    const span = beginSpan(this.trace, normalizedPath, 'import', 'HookLoader')
+    try {
+      const mod = await buildWasmModule(normalizedPath, bytes)
+      span.end({ cacheHit: false })
+      return mod
+    } catch (err) {
+      span.fail(err)
+      throw err
+    }
+  }
+
+  /**
+   * Peer paths a module imports, for invalidation: relative, absolute and
+   * import-mapped specifiers, including assets (a ?raw import depends on the file)
+   */
+  private dependencyPaths(code: string, fromPath: string): string[] {
+    const paths = new Set<string>()
+    for (const spec of scanImportSpecifiers(code, isLoaderSpecifier)) {
+      try {
+        paths.add(this.resolveModulePath(splitAssetQuery(spec).specifier, fromPath))
+      } catch {
+        // Built-ins have no source to change; unresolvable specifiers fail the import itself
+      }
+    }
+    return Array.from(paths)
+  }
+
   /**
    * Load a module from the peer/repo, with optional transpilation
    * @param modulePath Relative or absolute path to module
@@ -912,136 +1258,98 @@ export class HookLoader {
    */
   async loadModule(
     modulePath: string,
-    fromPath: string = '/hooks/client/get-client.jsx',
+    fromPath: string = DEFAULT_HOOK_PATH,
     context: HookContext
   ): Promise<any> {
-    // Resolve path robustly relative to the current hook file path
-    let normalizedPath = modulePath
-    try {
-      const dbg = (globalThis as any).__HOOK_DEBUG || (typeof localStorage !== 'undefined' && localStorage.getItem('hookDebug') === '1')
-      if (dbg) {
-        try { console.debug('[HookLoader.loadModule] start', { modulePath, fromPath }) } catch { }
+    if (isRelayUri(modulePath)) {
+      if (!this.importRelayUri) {
+        throw new ModuleLoadError(`${modulePath}: this client does not load modules from other repos`, { filename: fromPath })
       }
-      if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
-        // Ensure the base includes the 'client' segment by default
-        const base = fromPath && fromPath.startsWith('/') ? fromPath : '/hooks/client/get-client.jsx'
-        const baseUrl = new URL(base, 'http://resolver.local')
-        const resolved = new URL(modulePath, baseUrl)
-        normalizedPath = resolved.pathname
-      } else if (!modulePath.startsWith('/')) {
-        normalizedPath = `/hooks/client/${modulePath}`
-      }
-      // Normalize path by resolving .. and . segments
-      const parts = normalizedPath.split('/').filter(Boolean)
-      const normalized: string[] = []
-      for (const part of parts) {
-        if (part === '..') {
-          normalized.pop()
-        } else if (part !== '.') {
-          normalized.push(part)
-        }
-      }
-      normalizedPath = '/' + normalized.join('/')
-      if (dbg) {
-        try { console.debug('[HookLoader.loadModule] normalized', { modulePath, fromPath, normalizedPath }) } catch { }
+      return this.importRelayUri(modulePath)
+    }
+    const { specifier, raw } = splitAssetQuery(modulePath)
+    const resolution = await this.resolver.resolveFile(specifier, fromPath, this.probeFor(context))
+    if (resolution.type === 'builtin') {
+      if (resolution.specifier === '@relay/meta') {
+        // Describes the importing module itself
+        const dirname = fromPath.substring(0, fromPath.lastIndexOf('/'))
+        return { filename: fromPath, dirname, url: `${this.protocol}://${this.host}${fromPath}` }
       }
-    } catch (_) {
-      // Fallback to previous logic if URL API not available for some reason
-      const baseDir = (fromPath || '/hooks/client/get-client.jsx').split('/').slice(0, -1).join('/') || '/hooks/client'
-      const combined = `${baseDir}/${modulePath}`
-      // Normalize by resolving .. and . segments
-      const parts = combined.split('/').filter(Boolean)
-      const normalized: string[] = []
-      for (const part of parts) {
-        if (part === '..') {
-          normalized.pop()
-        } else if (part !== '.') {
-          normalized.push(part)
-        }
+      if (!(resolution.specifier in this.builtinModules)) {
+        throw new ModuleLoadError(`Built-in module ${resolution.specifier} is not provided by this client`, { filename: resolution.specifier })
       }
-      normalizedPath = '/' + normalized.join('/')
-      try {
-        const dbg2 = (globalThis as any).__HOOK_DEBUG || (typeof localStorage !== 'undefined' && localStorage.getItem('hookDebug') === '1')
-        if (dbg2) console.debug('[HookLoader.loadModule] normalized (fallback)', { modulePath, fromPath, normalizedPath })
-      } catch { }
+      return this.builtinModules[resolution.specifier]
     }
+    const normalizedPath = resolution.path
 
-    // Check cache
-    const cacheKey = `${this.host}:${normalizedPath}`
+    // Check cache (a ?raw import is a different module from the file itself)
+    const cacheKey = `${this.host}:${normalizedPath}${raw ? '?raw' : ''}`
     if (this.moduleCache.has(cacheKey)) {
+      beginSpan(this.trace, normalizedPath, 'import', 'HookLoader').end({ cacheHit: true })
       return this.moduleCache.get(cacheKey)
     }
 
-    const moduleUrl = `${this.protocol}://${this.host}${normalizedPath}`
-    const requestHeaders = this.buildRequestHeaders(context)
-    const fetchOptions = Object.keys(requestHeaders).length ? { headers: requestHeaders } : undefined
-
     try {
-      const response = await fetch(moduleUrl, fetchOptions)
-      if (!response.ok) {
-        throw new Error(`ModuleLoadError: ${moduleUrl} → ${response.status} ${response.statusText}`)
-      }
-      const ct = (response.headers.get('content-type') || '').toLowerCase()
-      if (ct.includes('text/html')) {
-        // Server likely returned an HTML error page; don't try to execute it
-        throw new Error(`ModuleLoadError: ${moduleUrl} returned HTML (content-type=${ct})`)
+      if (!raw && assetKindFor(normalizedPath) === 'wasm') {
+        const mod = await this.loadWasmModule(normalizedPath, context)
+        this.moduleCache.set(cacheKey, mod)
+        return mod
       }
 
-      const code = await response.text()
-
-      // Transpile if needed (RN always routes through custom transpiler)
-      let finalCode = code
-      const shouldTranspile = !!this.transpiler || looksLikeTsOrJsx(code, normalizedPath)
-      if (shouldTranspile) {
-        try {
-          if (this.transpiler) {
-            finalCode = await this.transpiler(code, normalizedPath)
-            this.logTranspileResult(normalizedPath, finalCode)
-          } else {
-            finalCode = await transpileCode(
-              code,
-              { filename: normalizedPath },
-              false // Web uses import, not CommonJS
-            )
-          }
-        } catch (err) {
-          const msg = (err as any)?.message || String(err)
-          const diag: LoaderDiagnostics = {
-            phase: 'transform',
-            error: msg,
-            details: { moduleUrl, filename: normalizedPath, ...(err as any) }
-          }
-          this.onDiagnostics(diag)
-          throw new Error(`TranspileError: ${normalizedPath}: ${msg}`)
-        }
+      // Reuse source prepared by the prefetch pass when available
+      let prepared: PreparedModule | null = null
+      const prefetched = this.prefetchCache.get(cacheKey)
+      if (prefetched) {
+        this.prefetchCache.delete(cacheKey)
+        prepared = await prefetched.catch(() => null)
+      }
+      if (!prepared) {
+        prepared = await this.prepareModule(normalizedPath, context, true, raw)
+      }
+      const { code: finalCode, moduleUrl, sourceHash, asset } = prepared
+
+      if (asset) {
+        const mod = asset === 'wasm'
+          ? await this.loadWasmModule(normalizedPath, context)
+          : this.buildAssetModule(asset, normalizedPath, finalCode)
+        this.moduleCache.set(cacheKey, mod)
+        this.loadedModules.set(cacheKey, { path: normalizedPath, sourceHash, dependencies: [] })
+        return mod
       }
 
       // Execute and cache
       let mod: any
+      const span = beginSpan(this.trace, normalizedPath, 'import', 'HookLoader')
       try {
         mod = await this.moduleLoader.executeModule(finalCode, normalizedPath, context, moduleUrl)
+        span.end({ cacheHit: false })
       } catch (execErr) {
-        const execMsg = (execErr as any)?.message || String(execErr)
-        const syntaxMatch = execMsg.match(/Unexpected token|missing \)|SyntaxError/)
+        span.fail(execErr)
+        const error = toExecutionError(execErr, {
+          url: moduleUrl,
+          filename: normalizedPath,
+          transpilerVersion: (globalThis as any).__hook_transpiler_version || 'unknown',
+        })
         const diag: LoaderDiagnostics = {
           phase: 'import',
-          error: execMsg,
+          error: error.message,
+          errorType: error.name,
           details: {
             filename: normalizedPath,
-            isSyntaxError: !!syntaxMatch,
-            transpilerVersion: (globalThis as any).__hook_transpiler_version || 'unknown'
+            isSyntaxError: 'isSyntaxError' in error ? error.isSyntaxError : false,
+            transpilerVersion: error.transpilerVersion
           }
         }
-        console.error('[RuntimeLoader] Module execution failed:', {
-          filename: normalizedPath,
-          error: execMsg,
-          isSyntaxError: !!syntaxMatch,
-          transpilerVersion: (globalThis as any).__hook_transpiler_version
-        })
+        console.error('[RuntimeLoader] Module execution failed:', diag)
         this.onDiagnostics(diag)
-        throw execErr
+        throw error
       }
       this.moduleCache.set(cacheKey, mod)
+      this.loadedModules.set(cacheKey, {
+        path: normalizedPath,
+        sourceHash,
+        dependencies: this.dependencyPaths(finalCode, normalizedPath),
+      })
       return mod
     } catch (err) {
       console.error('[HookLoader.loadModule] Failed:', modulePath, err)
@@ -1053,47 +1361,20 @@ export class HookLoader {
    * Load and execute a hook module
    * @param hookPath Path to the hook module (from OPTIONS)
    * @param context The hook context to pass
+   * @param instance Lifecycle of this rendering; receives the module's unmount/dispose export
    * @returns Executed hook element/result
    */
-  async loadAndExecuteHook(hookPath: string, context: HookContext): Promise<any> {
+  async loadAndExecuteHook(hookPath: string, context: HookContext, instance?: HookInstance): Promise<any> {
     const diag: LoaderDiagnostics = { phase: 'init' }
 
     try {
       diag.phase = 'fetch'
-      const hookUrl = `${this.protocol}://${this.host}${hookPath}`
-      console.debug(`[HookLoader] Fetching hook from: ${hookUrl}`)
-      const requestHeaders = this.buildRequestHeaders(context)
-      const fetchOptions = Object.keys(requestHeaders).length ? { headers: requestHeaders } : undefined
-
-      let response: Response
-      let code: string
-
-      try {
-        // Try fetch with a timeout using XMLHttpRequest as fallback
-        response = await fetch(hookUrl, fetchOptions)
-        code = await response.text()
-      } catch (fetchErr) {
-        console.error('[HookLoader] Fetch failed, got error immediately:', fetchErr)
-        throw fetchErr
-      }
-
+      console.debug(`[HookLoader] Fetching hook from: ${this.protocol}://${this.host}${hookPath}`)
+      const { code, moduleUrl: hookUrl } = await this.fetchSource(hookPath, context, diag)
       console.debug(`[HookLoader] Received hook code (${code.length} chars)`)
 
-      diag.fetch = {
-        status: response.status,
-        ok: response.ok,
-        contentType: response.headers.get('content-type'),
-      }
-
-      if (!response.ok) {
-        throw new Error(`ModuleLoadError: ${hookUrl} → ${response.status} ${response.statusText}`)
-      }
-      const ct = (response.headers.get('content-type') || '').toLowerCase()
-      if (ct.includes('text/html')) {
-        throw new Error(`ModuleLoadError: ${hookUrl} returned HTML (content-type=${ct})`)
-      }
-
       diag.codeLength = code.length
+      registerModuleSource(hookPath, code)
 
       // Transpile if needed
       diag.phase = 'transform'
@@ -1103,53 +1384,93 @@ export class HookLoader {
         try {
           console.debug(`[HookLoader] Transpiling ${hookPath}`)
 
-          // Use custom transpiler if provided (e.g., for React Native with CommonJS conversion)
-          if (this.transpiler) {
-            finalCode = await this.transpiler(code, hookPath)
-            this.logTranspileResult(hookPath, finalCode)
-          } else {
-            finalCode = await transpileCode(
-              code,
-              { filename: hookPath, hasJsxPragma: /@jsx\s+h/m.test(code) },
-              false // Web uses dynamic import
-            )
+          const transpiled = await this.cachedTranspile(code, hookPath)
+          finalCode = transpiled.code
+          diag.transpiler = {
+            backend: transpiled.cacheHit ? 'cache' : transpiled.backend,
+            attempts: transpiled.attempts,
           }
+          registerModuleSource(hookPath, code, finalCode)
           console.debug(`[HookLoader] Transpilation complete (${finalCode.length} chars)`)
         } catch (err) {
           const msg = (err as any)?.message || String(err)
           console.warn('[HookLoader] JSX transpilation failed', { hookPath, error: msg })
           diag.transpileWarn = msg
           diag.details = { ...(diag.details || {}), filename: hookPath }
+          if (err instanceof TranspileError && err.attempts) diag.transpiler = { attempts: err.attempts }
           diag.error = msg
           this.onDiagnostics(diag)
-          throw new Error(`TranspileError: ${hookPath}: ${msg}`)
+          throw err instanceof TranspileError
+            ? err
+            : new TranspileError(`${hookPath}: ${msg}`, {
+              url: hookUrl,
+              filename: hookPath,
+              transpilerVersion: (globalThis as any).__hook_transpiler_version,
+              cause: err,
+            })
         }
       }
 
+      // Fetch + transpile the dependency graph in parallel before execution
+      if (this.prefetchEnabled) {
+        diag.phase = 'prefetch'
+        const graph = await this.prefetchDependencies(hookPath, finalCode, context)
+        diag.graph = graph
+        const nodes = Object.values(graph.nodes)
+        console.debug(`[HookLoader] Prefetched ${nodes.length - 1} dependencies in ${graph.durationMs}ms`)
+        this.onDiagnostics({
+          phase: 'prefetch',
+          graph,
+          details: {
+            filename: hookPath,
+            modules: nodes.length,
+            failed: nodes.filter((n) => n.status === 'failed').map((n) => n.path),
+          },
+        })
+      }
+
       // Execute
       diag.phase = 'import'
       console.debug(`[HookLoader] Executing hook module`)
 
       try {
         // Pass the actual fetch URL for @relay/meta injection, not the logical path
-        const mod = await this.moduleLoader.executeModule(finalCode, hookPath, context, hookUrl)
-
-        if (!mod || typeof mod.default !== 'function') {
-          throw new Error('Hook module does not export a default function')
+        const importSpan = beginSpan(this.trace, hookPath, 'import', 'HookLoader')
+        let mod: any
+        try {
+          instance?.attach(context)
+          mod = await this.moduleLoader.executeModule(finalCode, hookPath, context, hookUrl)
+          if (!mod || typeof mod.default !== 'function') {
+            throw new MissingDefaultExportError(hookPath, { url: hookUrl })
+          }
+          instance?.adopt(mod)
+          importSpan.end()
+        } catch (err) {
+          importSpan.fail(err)
+          throw err
         }
 
         diag.phase = 'exec'
         console.debug(`[HookLoader] Calling hook function`)
-        const element = await mod.default(context)
+        const execSpan = beginSpan(this.trace, hookPath, 'exec', 'HookLoader')
+        let element: any
+        try {
+          element = await mod.default(context)
+          execSpan.end()
+        } catch (err) {
+          execSpan.fail(err)
+          throw err
+        }
         console.debug(`[HookLoader] Hook executed successfully`)
 
         return element
       } catch (execErr) {
         console.error('[HookLoader] Hook execution error:', execErr)
-        throw execErr
+        throw toExecutionError(execErr, { url: hookUrl, filename: hookPath })
       }
     } catch (err) {
       diag.error = err instanceof Error ? err.message : String(err)
+      if (err instanceof HookLoaderError) diag.errorType = err.name
       diag.stack = err instanceof Error ? err.stack : undefined
       console.error('[HookLoader] Error during loadAndExecuteHook:', diag)
       this.onDiagnostics(diag)
@@ -1157,10 +1478,68 @@ export class HookLoader {
     }
   }
 
+  /**
+   * Drop cached modules and every module that (transitively) imports them
+   * @param paths Absolute module paths to invalidate
+   * @returns All invalidated paths
+   */
+  invalidate(paths: string[]): string[] {
+    const invalidated = new Set<string>(paths)
+    // Importers hold bindings to the stale exports, so they must re-execute too
+    let grew = true
+    while (grew) {
+      grew = false
+      this.loadedModules.forEach((info) => {
+        if (!invalidated.has(info.path) && info.dependencies.some((dep) => invalidated.has(dep))) {
+          invalidated.add(info.path)
+          grew = true
+        }
+      })
+    }
+    invalidated.forEach((path) => {
+      const cacheKey = `${this.host}:${path}`
+      this.moduleCache.delete(cacheKey)
+      this.prefetchCache.delete(cacheKey)
+      this.loadedModules.delete(cacheKey)
+      // ?raw imports of the file are cached separately
+      this.moduleCache.delete(`${cacheKey}?raw`)
+      this.loadedModules.delete(`${cacheKey}?raw`)
+    })
+    return Array.from(invalidated)
+  }
+
+  /**
+   * Re-fetch the source of every cached module and invalidate those that
+   * changed (e.g. after the branch head moved). Unchanged modules stay cached.
+   * @param context Hook context (used for repo/branch request headers)
+   * @returns Invalidated module paths
+   */
+  async invalidateChanged(context: HookContext): Promise<string[]> {
+    const requestHeaders = this.buildRequestHeaders(context)
+    const fetchOptions = Object.keys(requestHeaders).length ? { headers: requestHeaders } : undefined
+    const modules = Array.from(this.loadedModules.values())
+    const changed: string[] = []
+    await Promise.all(modules.map(async (info) => {
+      try {
+        const { response } = await this.request(info.path, fetchOptions)
+        const code = response.ok ? await response.text() : null
+        if (code === null || hashSource(code) !== info.sourceHash) changed.push(info.path)
+      } catch {
+        changed.push(info.path)
+      }
+    }))
+    const invalidated = changed.length ? this.invalidate(changed) : []
+    console.debug(`[HookLoader] Checked ${modules.length} cached modules, invalidated ${invalidated.length}`, invalidated)
+    return invalidated
+  }
+
   /**
    * Clear module cache (useful for hot reload or cleanup)
    */
   clearCache(): void {
     this.moduleCache.clear()
+    this.prefetchCache.clear()
+    this.loadedModules.clear()
+    this.resolver.clearProbeCache()
   }
 }
@@ -0,0 +1,143 @@
+/**
+ * Tests for sandbox tree conversion and sanitization
+ */
+
+import { sandboxTreeToElements, type SandboxNode } from './sandboxModuleLoader'
+import { buildSandboxDocument } from './sandboxRuntime'
+
+const Fragment = 'Fragment'
+const createElement = (type: any, props: any, ...children: any[]) => ({ type, props: props || {}, children })
+
+describe('sandboxTreeToElements', () => {
+    test('converts elements and forwards handlers by callback id', () => {
+        const dispatch = jest.fn()
+        const tree: SandboxNode = {
+            t: 'e',
+            type: 'button',
+            key: 'b',
+            props: { className: 'btn', onClick: { $fn: 'f1' } },
+            c: ['Click'],
+        }
+        const el = sandboxTreeToElements(tree, createElement, Fragment, dispatch)
+        expect(el.type).toBe('button')
+        expect(el.props.className).toBe('btn')
+        expect(el.props.key).toBe('b')
+        expect(el.children).toEqual(['Click'])
+
+        el.props.onClick({ type: 'click', target: { value: 'x', name: 'n' }, nativeEvent: {} })
+        expect(dispatch).toHaveBeenCalledWith('f1', [
+            expect.objectContaining({ $event: true, type: 'click', target: expect.objectContaining({ value: 'x', name: 'n' }) }),
+        ])
+    })
+
+    test('drops blocked tags, raw handlers, injected HTML and script URLs', () => {
+        const tree: SandboxNode = {
+            t: 'f',
+            c: [
+                { t: 'e', type: 'script', props: {}, c: ['alert(1)'] },
+                { t: 'e', type: 'IFRAME', props: { src: 'https://example.com' }, c: [] },
+                {
+                    t: 'e',
+                    type: 'a',
+                    props: {
+                        href: ' javascript:alert(1)',
+                        onClick: 'alert(1)',
+                        dangerouslySetInnerHTML: { __html: '<img onerror=alert(1)>' },
+                        title: 'ok',
+                    },
+                    c: [],
+                },
+            ],
+        }
+        const el = sandboxTreeToElements(tree, createElement, Fragment, jest.fn())
+        expect(el.type).toBe(Fragment)
+        expect(el.children[0]).toBeNull()
+        expect(el.children[1]).toBeNull()
+        expect(el.children[2].props).toEqual({ title: 'ok' })
+    })
+
+    test('renders only known host components and converts element props', () => {
+        const Markdown = () => null
+        const tree: SandboxNode = {
+            t: 'f',
+            c: [
+                { t: 'h', name: 'MarkdownRenderer', props: { content: '# hi', header: { $node: { t: 'e', type: 'b', props: {}, c: ['x'] } } }, c: [] },
+                { t: 'h', name: 'Unknown', props: {}, c: [] },
+            ],
+        }
+        const el = sandboxTreeToElements(tree, createElement, Fragment, jest.fn(), { MarkdownRenderer: Markdown })
+        expect(el.children[0].type).toBe(Markdown)
+        expect(el.children[0].props.content).toBe('# hi')
+        expect(el.children[0].props.header.type).toBe('b')
+        expect(el.children[1]).toBeNull()
+    })
+})
+
+describe('buildSandboxDocument', () => {
+    test('embeds the runtime without closing its own script tag early', () => {
+        const html = buildSandboxDocument()
+        expect(html.match(/<\/script>/g)).toHaveLength(1)
+        expect(html).toContain('sandboxRuntimeMain')
+        // Granted helpers are the sandbox's only network access
+        expect(html).toContain(`content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:"`)
+    })
+})
+
+describe('sandboxRuntimeMain', () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 10))
+
+    test('renders a hook to serialized data and re-renders on forwarded events', async () => {
+        const html = buildSandboxDocument()
+        const script = html.slice(html.indexOf('<script>') + '<script>'.length, html.lastIndexOf('</script>'))
+        const posted: any[] = []
+        const listeners: ((event: any) => void)[] = []
+        const parent = { postMessage: (msg: any) => posted.push(msg) }
+        const fakeWindow = { parent, addEventListener: (_type: string, fn: any) => listeners.push(fn) }
+        new Function('globalThis', script)(fakeWindow)
+        const send = (data: any) => listeners.forEach((fn) => fn({ source: parent, data: { ...data, __relayHost: true } }))
+
+        expect(posted[0]).toEqual({ type: 'ready', __relaySandbox: true })
+
+        const code = [
+            'module.exports.default = function (ctx) {',
+            '  const R = ctx.React',
+            '  function Counter() {',
+            '    const [n, setN] = R.useState(0)',
+            "    return R.createElement('button', { onClick: () => setN(n + 1) }, 'n=' + n)",
+            '  }',
+            '  return R.createElement(Counter)',
+            '}',
+        ].join('\n')
+        send({ type: 'load', code, filename: '/hooks/client/get-client.js' })
+        await flush()
+        const first = posted.filter((m) => m.type === 'render').pop()
+        expect(first.tree).toMatchObject({ t: 'e', type: 'button', c: ['n=0'] })
+
+        send({ type: 'event', id: first.tree.props.onClick.$fn, args: [] })
+        await flush()
+        expect(posted.filter((m) => m.type === 'render').pop().tree.c).toEqual(['n=1'])
+    })
+
+    test('offers only the granted capability helpers, as host calls', async () => {
+        const html = buildSandboxDocument()
+        const script = html.slice(html.indexOf('<script>') + '<script>'.length, html.lastIndexOf('</script>'))
+        const posted: any[] = []
+        const listeners: ((event: any) => void)[] = []
+        const parent = { postMessage: (msg: any) => posted.push(msg) }
+        new Function('globalThis', script)({ parent, addEventListener: (_type: string, fn: any) => listeners.push(fn) })
+        const send = (data: any) => listeners.forEach((fn) => fn({ source: parent, data: { ...data, __relayHost: true } }))
+
+        const code = [
+            'module.exports.default = function (ctx) {',
+            "  ctx.helpers.storage.setItem('k', 'v')",
+            "  const h = ctx.helpers",
+            "  return ctx.React.createElement('p', null, [h.capabilities.has('storage'), h.capabilities.has('fetch'), typeof h.fetch, typeof h.clipboard].join(','))",
+            '}',
+        ].join('\n')
+        const calls = ['storage.getItem', 'storage.setItem', 'storage.removeItem']
+        send({ type: 'load', code, filename: '/hooks/client/get-client.js', calls, granted: ['storage'] })
+        await flush()
+        expect(posted.find((m) => m.type === 'call')).toMatchObject({ name: 'storage.setItem', args: ['k', 'v'] })
+        expect(posted.filter((m) => m.type === 'render').pop().tree.c).toEqual(['true,false,undefined,undefined'])
+    })
+})
@@ -0,0 +1,370 @@
+/**
+ * Sandboxed Module Loader
+ *
+ * Opt-in ModuleLoader that executes untrusted peer hooks inside an
+ * `<iframe sandbox="allow-scripts">` instead of the client's own realm.
+ * The hook renders against the runtime in sandboxRuntime.ts and posts its
+ * element tree back as plain data; this side sanitizes the tree, turns it into
+ * real elements and forwards DOM events to the sandbox by callback id.
+ *
+ * Message protocol (all messages carry `__relaySandbox` or `__relayHost`):
+ *   host -> sandbox: load { code, filename, url, params, baseUrl, calls, granted }
+ *                    event { id, args }, response { requestId, result | error }, unmount
+ *   sandbox -> host: ready, render { tree }, error { name, message, stack }
+ *                    import { requestId, spec, from }, call { requestId, name, args }
+ *
+ * Granted capability helpers (helpers.fetch, storage, clipboard) reach the
+ * sandbox only as host calls, so this is the one mode in which a hook cannot
+ * go around them: the iframe has an opaque origin, no storage and no
+ * clipboard access of its own. `calls` lists the host calls the hook may make.
+ */
+
+import { ModuleLoadError } from './loaderErrors'
+import type { HookContext, ModuleLoader } from './runtimeLoader'
+import { buildSandboxDocument } from './sandboxRuntime'
+
+/**
+ * Serialized element tree posted by the sandbox
+ */
+export type SandboxNode =
+  | string
+  | null
+  | { t: 'e'; type: string; key?: string | null; props: Record<string, unknown>; c: SandboxNode[] }
+  | { t: 'h'; name: string; key?: string | null; props: Record<string, unknown>; c: SandboxNode[] }
+  | { t: 'f'; key?: string | null; c: SandboxNode[] }
+
+export interface SandboxModuleLoaderOptions {
+  /** Fetch and transpile a module imported from inside the sandbox (e.g. HookLoader.fetchModule) */
+  resolveModule: (spec: string, fromPath: string) => Promise<{ code: string; filename: string; url: string }>
+  /** Components the sandbox may render by name; FileRenderer defaults to context.FileRenderer */
+  hostComponents?: Record<string, any>
+  /** Functions the sandbox may call by name; theme helpers default to context.helpers */
+  hostCalls?: Record<string, (...args: any[]) => unknown>
+  /** Base URL for context.helpers.buildPeerUrl inside the sandbox */
+  baseUrl?: string
+  /** Delay before an unmounted session's iframe is removed (lets StrictMode remounts reuse it) */
+  disposeDelayMs?: number
+}
+
+const BLOCKED_TAGS = new Set(['script', 'iframe', 'object', 'embed', 'frame', 'frameset', 'base', 'meta', 'link', 'style'])
+const URL_PROPS = new Set(['href', 'src', 'action', 'formAction', 'xlinkHref'])
+const UNSAFE_URL = /^\s*(javascript|vbscript|data:text\/html)/i
+
+/**
+ * Serialize a DOM/React event into something that can cross postMessage
+ */
+function serializeEvent(arg: any): unknown {
+  if (!arg || typeof arg !== 'object' || !('nativeEvent' in arg || 'target' in arg)) {
+    try {
+      return JSON.parse(JSON.stringify(arg ?? null))
+    } catch {
+      return null
+    }
+  }
+  const target = arg.target || {}
+  return {
+    $event: true,
+    type: arg.type,
+    key: arg.key,
+    code: arg.code,
+    altKey: arg.altKey,
+    ctrlKey: arg.ctrlKey,
+    metaKey: arg.metaKey,
+    shiftKey: arg.shiftKey,
+    button: arg.button,
+    target: {
+      value: target.value,
+      checked: target.checked,
+      name: target.name,
+      id: target.id,
+    },
+  }
+}
+
+/**
+ * Turn a serialized sandbox tree into elements, dropping anything that could
+ * execute code in the client's realm
+ * @param node Tree posted by the sandbox
+ * @param createElement Host createElement
+ * @param Fragment Host Fragment component
+ * @param dispatch Invoked with a callback id and serialized arguments when a handler fires
+ * @param hostComponents Components the sandbox may reference by name
+ */
+export function sandboxTreeToElements(
+  node: SandboxNode,
+  createElement: (type: any, props: any, ...children: any[]) => any,
+  Fragment: any,
+  dispatch: (id: string, args: unknown[]) => void,
+  hostComponents: Record<string, any> = {}
+): any {
+  if (node === null || node === undefined) return null
+  if (typeof node === 'string') return node
+
+  const convertChildren = (children: SandboxNode[] | undefined) =>
+    (children || []).map((child) => sandboxTreeToElements(child, createElement, Fragment, dispatch, hostComponents))
+
+  const convertValue = (value: any, path: string): any => {
+    if (value && typeof value === 'object') {
+      if (typeof value.$fn === 'string') {
+        const id = value.$fn
+        const handler = (...args: any[]) => {
+          if (path === 'onSubmit' && args[0] && typeof args[0].preventDefault === 'function') args[0].preventDefault()
+          dispatch(id, args.map(serializeEvent))
+        }
+        return handler
+      }
+      if ('$node' in value) return sandboxTreeToElements(value.$node, createElement, Fragment, dispatch, hostComponents)
+      if (Array.isArray(value)) return value.map((v) => convertValue(v, path))
+      const out: Record<string, unknown> = {}
+      for (const name of Object.keys(value)) out[name] = convertValue(value[name], `${path}.${name}`)
+      return out
+    }
+    return value
+  }
+
+  const convertProps = (props: Record<string, unknown>, key: string | null | undefined, isDom: boolean) => {
+    const out: Record<string, unknown> = {}
+    for (const name of Object.keys(props || {})) {
+      const value = props[name] as any
+      if (name === 'dangerouslySetInnerHTML' || name === 'ref' || name === 'key') continue
+      if (isDom && /^on[A-Z]/.test(name) && !(value && typeof value.$fn === 'string')) continue
+      if (isDom && URL_PROPS.has(name) && typeof value === 'string' && UNSAFE_URL.test(value)) continue
+      out[name] = convertValue(value, name)
+    }
+    if (key != null) out.key = key
+    return out
+  }
+
+  if (node.t === 'f') {
+    return createElement(Fragment, node.key != null ? { key: node.key } : null, ...convertChildren(node.c))
+  }
+  if (node.t === 'h') {
+    const component = hostComponents[node.name]
+    if (!component) {
+      console.warn('[SandboxModuleLoader] Unknown host component:', node.name)
+      return null
+    }
+    return createElement(component, convertProps(node.props, node.key, false), ...convertChildren(node.c))
+  }
+  if (node.t === 'e') {
+    const type = String(node.type).toLowerCase()
+    if (BLOCKED_TAGS.has(type) || !/^[a-z][a-z0-9-]*$/.test(type)) {
+      console.warn('[SandboxModuleLoader] Dropped blocked element:', node.type)
+      return null
+    }
+    return createElement(node.type, convertProps(node.props, node.key, true), ...convertChildren(node.c))
+  }
+  return null
+}
+
+/**
+ * One hook instance running in its own iframe
+ */
+class SandboxSession {
+  private iframe: HTMLIFrameElement | null = null
+  private listeners = new Set<() => void>()
+  private disposeTimer: ReturnType<typeof setTimeout> | null = null
+  private options: SandboxModuleLoaderOptions
+  private context: HookContext
+  tree: SandboxNode = null
+  error: Error | null = null
+
+  constructor(options: SandboxModuleLoaderOptions, context: HookContext) {
+    this.options = options
+    this.context = context
+  }
+
+  start(code: string, filename: string, url?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false
+      const settle = (err?: Error) => {
+        if (settled) return
+        settled = true
+        if (err) reject(err)
+        else resolve()
+      }
+
+      const iframe = document.createElement('iframe')
+      iframe.setAttribute('sandbox', 'allow-scripts')
+      iframe.setAttribute('aria-hidden', 'true')
+      iframe.style.display = 'none'
+      iframe.srcdoc = buildSandboxDocument()
+      this.iframe = iframe
+
+      this.onMessage = (event: MessageEvent) => {
+        if (event.source !== iframe.contentWindow) return
+        const msg = event.data
+        if (!msg || !msg.__relaySandbox) return
+        switch (msg.type) {
+          case 'ready':
+            this.post({
+              type: 'load',
+              code,
+              filename,
+              url,
+              params: this.cloneParams(),
+              baseUrl: this.options.baseUrl || '',
+              calls: Object.keys(this.hostCalls()),
+              granted: this.context.helpers?.capabilities?.granted || [],
+            })
+            break
+          case 'render':
+            this.tree = msg.tree
+            this.error = null
+            this.notify()
+            settle()
+            break
+          case 'error': {
+            // Loader errors raised in the sandbox keep their type, so the host shows their remediation
+            const err = msg.name === 'ModuleLoadError' ? new ModuleLoadError(msg.message) : new Error(msg.message)
+            if (msg.stack) err.stack = msg.stack
+            this.error = err
+            this.notify()
+            settle(err)
+            break
+          }
+          case 'import':
+            void this.respond(msg.requestId, () => this.options.resolveModule(String(msg.spec), String(msg.from)))
+            break
+          case 'call':
+            void this.respond(msg.requestId, async () => {
+              const fn = this.hostCalls()[msg.name]
+              if (!fn) throw new Error(`Host call not allowed: ${msg.name}`)
+              return (await fn(...(msg.args || []))) ?? null
+            })
+            break
+        }
+      }
+      window.addEventListener('message', this.onMessage)
+      document.body.appendChild(iframe)
+    })
+  }
+
+  private onMessage: ((event: MessageEvent) => void) | null = null
+
+  private post(msg: Record<string, unknown>): void {
+    this.iframe?.contentWindow?.postMessage({ ...msg, __relayHost: true }, '*')
+  }
+
+  private async respond(requestId: number, run: () => Promise<unknown>): Promise<void> {
+    try {
+      this.post({ type: 'response', requestId, result: await run() })
+    } catch (e) {
+      this.post({ type: 'response', requestId, error: e instanceof Error ? e.message : String(e) })
+    }
+  }
+
+  private cloneParams(): Record<string, unknown> {
+    try {
+      return JSON.parse(JSON.stringify(this.context.params || {}))
+    } catch {
+      return {}
+    }
+  }
+
+  private hostCalls(): Record<string, (...args: any[]) => unknown> {
+    const helpers = this.context.helpers || ({} as HookContext['helpers'])
+    const { fetch: grantedFetch, storage, clipboard } = helpers
+    return {
+      ...(helpers.registerThemeStyles ? { registerThemeStyles: helpers.registerThemeStyles } : {}),
+      ...(helpers.registerThemesFromYaml ? { registerThemesFromYaml: helpers.registerThemesFromYaml } : {}),
+      // Responses cannot cross postMessage; the sandbox rebuilds one from these fields
+      ...(grantedFetch ? {
+        fetch: async (url: string, init?: RequestInit) => {
+          const response = await grantedFetch(url, init)
+          const headers: Array<[string, string]> = []
+          response.headers.forEach((value, name) => headers.push([name, value]))
+          return { url: response.url, status: response.status, statusText: response.statusText, headers, body: await response.text() }
+        },
+      } : {}),
+      ...(storage ? {
+        'storage.getItem': storage.getItem,
+        'storage.setItem': storage.setItem,
+        'storage.removeItem': storage.removeItem,
+      } : {}),
+      ...(clipboard ? { 'clipboard.readText': clipboard.readText, 'clipboard.writeText': clipboard.writeText } : {}),
+      ...(this.options.hostCalls || {}),
+    }
+  }
+
+  hostComponents(): Record<string, any> {
+    return { FileRenderer: this.context.FileRenderer, ...(this.options.hostComponents || {}) }
+  }
+
+  dispatch = (id: string, args: unknown[]) => {
+    this.post({ type: 'event', id, args })
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    if (this.disposeTimer) {
+      clearTimeout(this.disposeTimer)
+      this.disposeTimer = null
+    }
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.scheduleDispose()
+    }
+  }
+
+  /**
+   * Remove the iframe unless a view subscribes again before the delay passes
+   */
+  scheduleDispose(delayMs: number = this.options.disposeDelayMs ?? 1000): void {
+    if (this.disposeTimer) clearTimeout(this.disposeTimer)
+    this.disposeTimer = setTimeout(() => this.dispose(), delayMs)
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+
+  dispose(): void {
+    if (!this.iframe) return
+    this.post({ type: 'unmount' })
+    if (this.onMessage) window.removeEventListener('message', this.onMessage)
+    this.iframe.remove()
+    this.iframe = null
+    this.onMessage = null
+  }
+}
+
+/**
+ * ModuleLoader that runs each hook in a sandboxed iframe (web only)
+ */
+export class SandboxModuleLoader implements ModuleLoader {
+  private options: SandboxModuleLoaderOptions
+
+  constructor(options: SandboxModuleLoaderOptions) {
+    this.options = options
+  }
+
+  async executeModule(code: string, filename: string, context: HookContext, fetchUrl?: string): Promise<any> {
+    const session = new SandboxSession(this.options, context)
+    try {
+      await session.start(code, filename, fetchUrl)
+    } catch (err) {
+      session.dispose()
+      throw err
+    }
+    console.debug('[SandboxModuleLoader] Hook rendered in sandbox:', filename)
+    // Sessions whose view never mounts (e.g. a superseded render) must not leak their iframe
+    session.scheduleDispose(10000)
+
+    const SandboxedView = () => {
+      const React = context.React
+      const [, forceUpdate] = React.useReducer((n: number) => n + 1, 0)
+      React.useEffect(() => {
+        const unsubscribe = session.subscribe(forceUpdate)
+        // Pick up any render posted between the first paint and subscribing
+        forceUpdate()
+        return unsubscribe
+      }, [])
+      if (session.error) throw session.error
+      return sandboxTreeToElements(session.tree, React.createElement, React.Fragment, session.dispatch, session.hostComponents())
+    }
+
+    // The hook's default export already ran inside the sandbox; hand back its live view
+    return { default: (ctx: HookContext) => ctx.createElement(SandboxedView) }
+  }
+}
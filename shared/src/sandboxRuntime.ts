@@ -0,0 +1,544 @@
+/**
+ * Sandboxed Hook Runtime
+ *
+ * Runs inside an `<iframe sandbox="allow-scripts">`: an opaque origin with no
+ * access to the client's window, storage or state store. Transpiled hook
+ * modules execute against a minimal React-compatible runtime (elements,
+ * function/class components, common hooks, context) and the rendered tree is
+ * posted to the host as plain data; see SandboxModuleLoader for the host side
+ * and the message protocol.
+ *
+ * sandboxRuntimeMain() is stringified into the iframe document, so it must
+ * stay self-contained: no imports, no references to module scope, and no
+ * syntax a bundler would lower into shared helpers (classes, spread, async).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export function sandboxRuntimeMain(): void {
+  const g: any = globalThis as any
+  const host: any = g.parent
+  const post = (msg: any) => host.postMessage(Object.assign({}, msg, { __relaySandbox: true }), '*')
+
+  const ELEMENT = 'relay.sandbox.element'
+  const FRAGMENT = 'relay.sandbox.fragment'
+
+  // --- Elements ---------------------------------------------------------
+
+  function createElement(type: any, config: any): any {
+    const children = Array.prototype.slice.call(arguments, 2)
+    const props: any = {}
+    let key: string | null = null
+    if (config) {
+      for (const name in config) {
+        if (name === 'key') key = config.key == null ? null : String(config.key)
+        else if (name !== 'ref' && name !== '__self' && name !== '__source') props[name] = config[name]
+      }
+    }
+    if (children.length === 1) props.children = children[0]
+    else if (children.length > 1) props.children = children
+    return { $$typeof: ELEMENT, type, key, props }
+  }
+
+  function jsx(type: any, config: any, maybeKey?: any): any {
+    const el = createElement(type, config)
+    if (maybeKey !== undefined) el.key = String(maybeKey)
+    return el
+  }
+
+  function isValidElement(value: any): boolean {
+    return !!value && value.$$typeof === ELEMENT
+  }
+
+  function hostComponent(name: string): any {
+    return { $$host: name }
+  }
+
+  // --- Components and hooks ---------------------------------------------
+
+  function Component(this: any, props: any) {
+    this.props = props
+    this.state = {}
+  }
+  Component.prototype.isReactComponent = {}
+  Component.prototype.setState = function (this: any, update: any) {
+    const next = typeof update === 'function' ? update(this.state, this.props) : update
+    this.state = Object.assign({}, this.state, next)
+    scheduleRender()
+  }
+  Component.prototype.forceUpdate = function () {
+    scheduleRender()
+  }
+
+  let current: any = null
+  const instances = new Map<string, any>()
+  let pendingEffects: (() => void)[] = []
+  const contextValues = new Map<any, any[]>()
+
+  function nextSlot(): any {
+    if (!current) throw new Error('Hooks can only be called inside the body of a function component')
+    return { inst: current, i: current.index++ }
+  }
+
+  function depsChanged(prev: any[] | undefined, next: any[] | undefined): boolean {
+    if (!prev || !next || prev.length !== next.length) return true
+    return next.some((dep, i) => !Object.is(dep, prev[i]))
+  }
+
+  function useReducer(reducer: any, initialArg: any, init?: any): [any, any] {
+    const { inst, i } = nextSlot()
+    if (!(i in inst.hooks)) {
+      const slot: any = { value: init ? init(initialArg) : initialArg, reducer }
+      slot.dispatch = (action: any) => {
+        const next = slot.reducer(slot.value, action)
+        if (!Object.is(next, slot.value)) {
+          slot.value = next
+          scheduleRender()
+        }
+      }
+      inst.hooks[i] = slot
+    }
+    const slot = inst.hooks[i]
+    slot.reducer = reducer
+    return [slot.value, slot.dispatch]
+  }
+
+  function useState(initial: any): [any, any] {
+    return useReducer(
+      (state: any, action: any) => (typeof action === 'function' ? action(state) : action),
+      initial,
+      (value: any) => (typeof value === 'function' ? value() : value)
+    )
+  }
+
+  function useMemo(factory: any, deps?: any[]): any {
+    const { inst, i } = nextSlot()
+    const slot = inst.hooks[i]
+    if (!slot || depsChanged(slot.deps, deps)) {
+      inst.hooks[i] = { value: factory(), deps }
+    }
+    return inst.hooks[i].value
+  }
+
+  function useCallback(fn: any, deps?: any[]): any {
+    return useMemo(() => fn, deps)
+  }
+
+  function useRef(initial: any): any {
+    const { inst, i } = nextSlot()
+    if (!(i in inst.hooks)) inst.hooks[i] = { current: initial }
+    return inst.hooks[i]
+  }
+
+  function useEffect(effect: any, deps?: any[]): void {
+    const { inst, i } = nextSlot()
+    const slot = inst.hooks[i] || (inst.hooks[i] = { effect: true })
+    if (depsChanged(slot.deps, deps)) {
+      slot.deps = deps
+      pendingEffects.push(() => {
+        if (typeof slot.cleanup === 'function') slot.cleanup()
+        const cleanup = effect()
+        slot.cleanup = typeof cleanup === 'function' ? cleanup : null
+      })
+    }
+  }
+
+  function useId(): string {
+    const { inst, i } = nextSlot()
+    return `:s${inst.id.length}-${i}:`
+  }
+
+  function createContext(defaultValue: any): any {
+    const context: any = { defaultValue }
+    context.Provider = { $$provider: context }
+    context.Consumer = { $$consumer: context }
+    return context
+  }
+
+  function useContext(context: any): any {
+    const stack = contextValues.get(context)
+    return stack && stack.length ? stack[stack.length - 1] : context.defaultValue
+  }
+
+  const React: any = {
+    createElement,
+    isValidElement,
+    Fragment: FRAGMENT,
+    StrictMode: FRAGMENT,
+    Suspense: FRAGMENT,
+    Component,
+    PureComponent: Component,
+    createContext,
+    useState,
+    useReducer,
+    useMemo,
+    useCallback,
+    useRef,
+    useEffect,
+    useLayoutEffect: useEffect,
+    useContext,
+    useId,
+    memo: (component: any) => component,
+    forwardRef: (render: any) => (props: any) => render(props, null),
+    Children: {
+      toArray: (children: any): any[] => (Array.isArray(children)
+        ? children.reduce((all: any[], child: any) => all.concat(React.Children.toArray(child)), [])
+        : children == null ? [] : [children]),
+      map: (children: any, fn: any) => React.Children.toArray(children).map(fn),
+      count: (children: any) => React.Children.toArray(children).length,
+    },
+  }
+
+  // --- Rendering to serializable data -----------------------------------
+
+  let rootElement: any = null
+  let renderScheduled = false
+  let callbacks = new Map<string, any>()
+  let callbackSeq = 0
+  let visited = new Set<string>()
+
+  function serializeValue(value: any, path: string, depth: number): any {
+    if (typeof value === 'function') {
+      const id = `f${callbackSeq++}`
+      callbacks.set(id, value)
+      return { $fn: id }
+    }
+    if (value === null || typeof value !== 'object') return typeof value === 'undefined' ? undefined : value
+    if (isValidElement(value)) return { $node: renderNode(value, path) }
+    if (depth > 8) return null
+    if (Array.isArray(value)) return value.map((v, i) => serializeValue(v, `${path}[${i}]`, depth + 1))
+    const out: any = {}
+    Object.keys(value).forEach((name) => {
+      out[name] = serializeValue(value[name], `${path}.${name}`, depth + 1)
+    })
+    return out
+  }
+
+  function serializeProps(props: any, path: string): any {
+    const out: any = {}
+    Object.keys(props).forEach((name) => {
+      if (name !== 'children') out[name] = serializeValue(props[name], `${path}@${name}`, 0)
+    })
+    return out
+  }
+
+  function renderChildren(children: any, path: string): any[] {
+    if (children === undefined) return []
+    const list = Array.isArray(children) ? children : [children]
+    return list.map((child, i) => renderNode(child, `${path}.${isValidElement(child) && child.key != null ? `k${child.key}` : i}`))
+  }
+
+  function renderComponent(type: any, props: any, path: string): any {
+    const id = `${path}:${type.displayName || type.name || 'anonymous'}`
+    visited.add(id)
+    let inst = instances.get(id)
+    if (!inst) {
+      inst = { id, hooks: [], index: 0 }
+      instances.set(id, inst)
+    }
+    const previous = current
+    current = inst
+    inst.index = 0
+    try {
+      if (type.prototype && type.prototype.isReactComponent) {
+        if (!inst.component) {
+          inst.component = new type(props)
+          const mounted = inst.component
+          if (typeof mounted.componentDidMount === 'function') pendingEffects.push(() => mounted.componentDidMount())
+        }
+        inst.component.props = props
+        return renderNode(inst.component.render(), `${id}/`)
+      }
+      return renderNode(type(props), `${id}/`)
+    } finally {
+      current = previous
+    }
+  }
+
+  function renderNode(node: any, path: string): any {
+    if (node == null || typeof node === 'boolean') return null
+    if (typeof node === 'string' || typeof node === 'number') return String(node)
+    if (Array.isArray(node)) return { t: 'f', c: renderChildren(node, path) }
+    if (typeof node.then === 'function') return null
+    if (!isValidElement(node)) return String(node)
+
+    const { type, props, key } = node
+    if (type === FRAGMENT) return { t: 'f', key, c: renderChildren(props.children, path) }
+    if (typeof type === 'string') {
+      return { t: 'e', type, key, props: serializeProps(props, path), c: renderChildren(props.children, path) }
+    }
+    if (type && type.$$host) {
+      return { t: 'h', name: type.$$host, key, props: serializeProps(props, path), c: renderChildren(props.children, path) }
+    }
+    if (type && type.$$provider) {
+      const context = type.$$provider
+      const stack = contextValues.get(context) || []
+      contextValues.set(context, stack)
+      stack.push(props.value)
+      try {
+        return { t: 'f', key, c: renderChildren(props.children, path) }
+      } finally {
+        stack.pop()
+      }
+    }
+    if (type && type.$$consumer) {
+      return renderNode(typeof props.children === 'function' ? props.children(useContext(type.$$consumer)) : null, `${path}~`)
+    }
+    if (typeof type === 'function') {
+      const rendered = renderComponent(type, props, path)
+      return key == null ? rendered : { t: 'f', key, c: [rendered] }
+    }
+    return null
+  }
+
+  function unmount(inst: any): void {
+    inst.hooks.forEach((slot: any) => {
+      if (slot && typeof slot.cleanup === 'function') {
+        try { slot.cleanup() } catch (e) { postError(e) }
+      }
+    })
+    if (inst.component && typeof inst.component.componentWillUnmount === 'function') {
+      try { inst.component.componentWillUnmount() } catch (e) { postError(e) }
+    }
+  }
+
+  function doRender(): void {
+    renderScheduled = false
+    if (!rootElement) return
+    callbacks = new Map()
+    callbackSeq = 0
+    visited = new Set()
+    let tree: any
+    try {
+      tree = renderNode(rootElement, 'root')
+    } catch (e) {
+      pendingEffects = []
+      postError(e)
+      return
+    }
+    instances.forEach((inst, id) => {
+      if (!visited.has(id)) {
+        unmount(inst)
+        instances.delete(id)
+      }
+    })
+    post({ type: 'render', tree })
+    const effects = pendingEffects
+    pendingEffects = []
+    effects.forEach((run) => {
+      try { run() } catch (e) { postError(e) }
+    })
+  }
+
+  function scheduleRender(): void {
+    if (renderScheduled) return
+    renderScheduled = true
+    Promise.resolve().then(doRender)
+  }
+
+  function postError(e: any): void {
+    post({ type: 'error', name: e && e.name, message: (e && e.message) || String(e), stack: e && e.stack ? String(e.stack) : undefined })
+  }
+
+  // --- Host requests ----------------------------------------------------
+
+  let requestSeq = 0
+  const pendingRequests = new Map<number, { resolve: (v: any) => void; reject: (e: any) => void }>()
+
+  function request(type: string, payload: any): Promise<any> {
+    const requestId = ++requestSeq
+    return new Promise((resolve, reject) => {
+      pendingRequests.set(requestId, { resolve, reject })
+      post(Object.assign({}, payload, { type, requestId }))
+    })
+  }
+
+  const callHost = (name: string) => function () {
+    return request('call', { name, args: serializeValue(Array.prototype.slice.call(arguments), 'call', 0) })
+  }
+
+  // --- Module execution -------------------------------------------------
+
+  let context: any = null
+  const modules = new Map<string, Promise<any>>()
+  const dynamicImport = new Function('u', 'return import(u)')
+
+  function builtin(spec: string): any {
+    if (spec === 'react') return Object.assign({}, React, { default: React })
+    if (spec === 'react/jsx-runtime' || spec === 'react/jsx-dev-runtime') return { jsx, jsxs: jsx, jsxDEV: jsx, Fragment: FRAGMENT }
+    return g.__relay_builtins[spec] || null
+  }
+
+  function executeModule(code: string, filename: string, url?: string): Promise<any> {
+    g.__relay_meta = { filename, dirname: filename.substring(0, filename.lastIndexOf('/')), url: url || filename }
+    g.__currentModulePath = filename
+    const alias = `const __hook_import = (spec) => globalThis.__hook_import_with(String(spec), ${JSON.stringify(filename)});\n`
+    if (/\bexport\b/.test(code)) {
+      const blobUrl = URL.createObjectURL(new Blob([alias, code], { type: 'text/javascript' }))
+      const revoke = () => URL.revokeObjectURL(blobUrl)
+      return dynamicImport(blobUrl).then((mod: any) => {
+        revoke()
+        return mod
+      }, (e: any) => {
+        revoke()
+        throw e
+      })
+    }
+    const module: any = { exports: {} }
+    try {
+      const fn = new Function('require', 'module', 'exports', 'context', alias + code)
+      fn((spec: string) => builtin(spec) || {}, module, module.exports, context)
+    } catch (e) {
+      return Promise.reject(e)
+    }
+    return Promise.resolve(module.exports)
+  }
+
+  function importModule(spec: string, fromPath: string): Promise<any> {
+    if (spec === '@relay/meta') {
+      return Promise.resolve({ filename: fromPath, dirname: fromPath.substring(0, fromPath.lastIndexOf('/')), url: fromPath })
+    }
+    const provided = builtin(spec)
+    if (provided) return Promise.resolve(provided)
+    const cacheKey = `${fromPath}|${spec}`
+    if (!modules.has(cacheKey)) {
+      modules.set(cacheKey, request('import', { spec, from: fromPath }).then(
+        (mod: any) => executeModule(mod.code, mod.filename, mod.url)
+      ))
+    }
+    return modules.get(cacheKey) as Promise<any>
+  }
+
+  // Granted capabilities are host calls; the iframe has no network, storage or clipboard access of its own
+  function capabilityHelpers(calls: string[], granted: string[]): any {
+    const allowed = (name: string) => calls.indexOf(name) >= 0
+    const helpers: any = {
+      capabilities: {
+        granted,
+        has: (capability: string) => granted.some((key) => key === capability || key.split(':')[0] === capability),
+      },
+    }
+    if (allowed('fetch')) {
+      const hostFetch: any = callHost('fetch')
+      helpers.fetch = (url: string, init?: any) => hostFetch(url, init).then((r: any) => new Response(
+        r.status === 204 || r.status === 205 || r.status === 304 ? null : r.body,
+        { status: r.status, statusText: r.statusText, headers: r.headers },
+      ))
+    }
+    if (allowed('storage.getItem')) {
+      helpers.storage = {
+        getItem: callHost('storage.getItem'),
+        setItem: callHost('storage.setItem'),
+        removeItem: callHost('storage.removeItem'),
+      }
+    }
+    if (allowed('clipboard.readText')) {
+      helpers.clipboard = { readText: callHost('clipboard.readText'), writeText: callHost('clipboard.writeText') }
+    }
+    return helpers
+  }
+
+  function load(msg: any): Promise<void> {
+    const baseUrl = String(msg.baseUrl || '')
+    const registerThemeStyles = callHost('registerThemeStyles')
+    const registerThemesFromYaml = callHost('registerThemesFromYaml')
+    context = {
+      React,
+      createElement,
+      FileRenderer: hostComponent('FileRenderer'),
+      Layout: undefined,
+      params: msg.params || {},
+      helpers: Object.assign({
+        buildPeerUrl: (p: string) => `${baseUrl}${p.startsWith('/') ? p : `/${p}`}`,
+        loadModule: (spec: string, fromPath?: string) => importModule(spec, fromPath || g.__currentModulePath || msg.filename),
+        registerThemeStyles,
+        registerThemesFromYaml,
+        // Hooks of other repos would run in the page, outside this sandbox
+        renderHook: (uri: string) => {
+          const err = new Error(`${uri}: sandboxed hooks cannot embed hooks from other repos`)
+          err.name = 'ModuleLoadError'
+          throw err
+        },
+      }, capabilityHelpers(msg.calls || [], msg.granted || [])),
+    }
+    g.__ctx__ = context
+    g.React = React
+    g.__hook_react = React
+    g.__hook_jsx_runtime = { jsx, jsxs: jsx, Fragment: FRAGMENT }
+    g.__jsx = jsx
+    g.__jsxs = jsx
+    g.__Fragment = FRAGMENT
+    g.__relay_builtins = {
+      '@relay/markdown': { MarkdownRenderer: hostComponent('MarkdownRenderer') },
+      '@relay/theme': { registerThemeStyles, registerThemesFromYaml },
+    }
+    g.__hook_import_with = (spec: string, fromPath: string) => importModule(spec, fromPath)
+
+    return executeModule(msg.code, msg.filename, msg.url)
+      .then((mod: any) => {
+        if (!mod || typeof mod.default !== 'function') {
+          throw new Error('Hook module does not export a default function')
+        }
+        return mod.default(context)
+      })
+      .then((element: any) => {
+        rootElement = element
+        doRender()
+      })
+      .catch(postError)
+  }
+
+  function reviveArg(arg: any): any {
+    if (!arg || !arg.$event) return arg
+    const noop = () => { }
+    return Object.assign({}, arg, { currentTarget: arg.target, preventDefault: noop, stopPropagation: noop, persist: noop })
+  }
+
+  g.addEventListener('message', (event: any) => {
+    if (event.source !== host) return
+    const msg = event.data
+    if (!msg || !msg.__relayHost) return
+    switch (msg.type) {
+      case 'load':
+        void load(msg)
+        break
+      case 'event': {
+        const handler = callbacks.get(msg.id)
+        if (!handler) return
+        try {
+          handler.apply(null, (msg.args || []).map(reviveArg))
+        } catch (e) {
+          postError(e)
+        }
+        break
+      }
+      case 'response': {
+        const pending = pendingRequests.get(msg.requestId)
+        if (!pending) return
+        pendingRequests.delete(msg.requestId)
+        if (msg.error) pending.reject(new Error(msg.error))
+        else pending.resolve(msg.result)
+        break
+      }
+      case 'unmount':
+        instances.forEach(unmount)
+        instances.clear()
+        rootElement = null
+        break
+    }
+  })
+
+  post({ type: 'ready' })
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+// Inline runtime, blob: modules and Function() only; no network (connect-src falls back to
+// 'none'), so granted fetch is the only way out of the sandbox
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:"
+
+/**
+ * HTML document for the sandbox iframe's srcdoc
+ */
+export function buildSandboxDocument(): string {
+  const source = `(${sandboxRuntimeMain.toString()})()`.replace(/<\/script/gi, '<\\/script')
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}"></head><body><script>${source}</script></body></html>`
+}
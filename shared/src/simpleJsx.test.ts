@@ -0,0 +1,87 @@
+/**
+ * Golden-file tests for the dependency-free JSX/TSX transformer
+ *
+ * Each input in __fixtures__/simpleJsx has a `.expected.js` next to it in the form the
+ * WASM hook-transpiler emits (React classic runtime). Formatting differs, so both are
+ * executed and compared by the element tree they render and the imports they keep.
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { TranspileError } from './loaderErrors'
+import { transformJsxToJs } from './simpleJsx'
+
+const FIXTURES = join(__dirname, '__fixtures__', 'simpleJsx')
+
+const Fragment = Symbol('Fragment')
+
+// Element trees as plain data; function props are called so their bodies are compared too
+function normalize(value: any): any {
+    if (typeof value === 'function') return { calls: normalize(value('arg')) }
+    if (Array.isArray(value)) return value.map(normalize)
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, normalize(v)]))
+    }
+    return value
+}
+
+const React = {
+    Fragment,
+    createElement: (type: any, props: any, ...children: any[]) => ({
+        type: type === Fragment ? '#fragment' : typeof type === 'string' ? type : type.name,
+        props: normalize(props),
+        children: normalize(children),
+    }),
+}
+
+function render(code: string): unknown {
+    const body = code
+        .replace(/^import\s[^\n]*$/gm, '')
+        .replace(/^export default /m, 'exports.default = ')
+    const exports: { default?: (props: object) => unknown } = {}
+    new Function('React', 'exports', body)(React, exports)
+    return exports.default!({})
+}
+
+const imports = (code: string) => (code.match(/^import\s[^\n]*$/gm) || []).map((line) => line.replace(/;$/, '').replace(/\s+/g, ' '))
+
+describe('transformJsxToJs golden files', () => {
+    const inputs = readdirSync(FIXTURES).filter((name) => /\.(jsx|tsx)$/.test(name))
+
+    test.each(inputs)('%s', (name) => {
+        const source = readFileSync(join(FIXTURES, name), 'utf8')
+        const expected = readFileSync(join(FIXTURES, name.replace(/\.\w+$/, '.expected.js')), 'utf8')
+        const output = transformJsxToJs(source, name)
+
+        expect(output.replace(/"(?:[^"\\]|\\.)*"/g, '""')).not.toMatch(/<\/?[A-Za-z]/)
+        expect(imports(output)).toEqual(imports(expected))
+        expect(render(output)).toEqual(render(expected))
+        // Line numbers survive (plus the sourceURL comment)
+        expect(output.split('\n')).toHaveLength(source.split('\n').length + 1)
+    })
+})
+
+describe('transformJsxToJs', () => {
+    test('reports malformed JSX with its position', () => {
+        const mismatched = () => transformJsxToJs('const a = (\n  <div>\n    <span>\n  </div>\n)', 'bad.jsx')
+        expect(mismatched).toThrow(TranspileError)
+        expect(mismatched).toThrow(/bad\.jsx:4:\d+: Expected corresponding closing tag for <span> but found <\/div>/)
+        expect(() => transformJsxToJs('<div>', 'open.jsx')).toThrow(/open\.jsx:1:1: Unterminated JSX element <div>/)
+        expect(() => transformJsxToJs('<a b={} />', 'empty.jsx')).toThrow(/must be assigned a non-empty expression/)
+    })
+
+    test('leaves non-JSX uses of < and braces alone', () => {
+        const code = 'if (a < b && c > d) { x = /<p>/.test(s) ? `${"<b>"}` : \'<i>\' }'
+        expect(transformJsxToJs(code, 'plain.js')).toBe(`${code}\n//# sourceURL=plain.js`)
+    })
+
+    test('honors a custom pragma', () => {
+        expect(transformJsxToJs('<><a href="#" /></>', 'h.jsx', { pragma: 'h', pragmaFrag: 'Frag' }))
+            .toBe('h(Frag, null, h("a", { href: "#" }))\n//# sourceURL=h.jsx')
+    })
+
+    test('type assertions and generics in .ts files', () => {
+        const out = transformJsxToJs('const n = <number>value\nconst f = <T>(x: T): T => x\nconst ok = a < b', 'util.ts')
+        expect(out).toBe('const n = value\nconst f = (x) => x\nconst ok = a < b\n//# sourceURL=util.ts')
+    })
+})
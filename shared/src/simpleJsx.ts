@@ -1,145 +1,1274 @@
 // Lightweight, dependency-free JSX → JS transformer for our runtime loader use-cases
-// NOTE: This is a pragmatic transformer that supports a common subset used by template hooks.
+//
+// Last resort of the transpiler chain (see transpilerChain.ts). A small scanner
+// copies plain JavaScript through untouched and parses what has to be rewritten
+// with recursive descent, so nested braces, strings and comments never confuse it.
 // Supported:
-// - Element and Component tags: <div>, <Layout>, <UI.Button>
-// - Self-closing and paired tags
-// - Props: key="str", key={expr}, boolean shorthand (key), spread {...obj}
-// - Children: nested elements, text nodes, and {expr} blocks
-// - Basic whitespace trimming for text children
-// - Very light TS erasure (strips type-only constructs heuristically)
-
-function escapeStringLiteral(s: string): string {
-  return s.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$/g, "$$").replace(/\n/g, "\\n")
+// - Element and Component tags: <div>, <Layout>, <UI.Button>, <svg:rect>, fragments <>...</>
+// - Self-closing and paired tags, checked against each other
+// - Props: key="str", key={expr} (any nesting, e.g. style={{a: {b: 1}}}), key={<El />},
+//   boolean shorthand (key), spread {...obj}, hyphenated and namespaced names
+// - Children: nested elements, text (JSX whitespace rules, HTML entities), {expr},
+//   {...spread} and {/* comments */}
+// - TypeScript erasure in .ts/.tsx files: annotations, interfaces, type aliases, type-only
+//   imports/exports, generics, `as`/`satisfies`, non-null `!`, class member modifiers;
+//   enums become objects the way tsc emits them
+// Output uses the React classic runtime like the WASM hook-transpiler, and keeps the
+// line numbers of the source so stack traces still point at the right place.
+
+import { TranspileError } from './loaderErrors'
+
+export interface SimpleJsxOptions {
+  /** Element factory (default: React.createElement) */
+  pragma?: string
+  /** Fragment component (default: React.Fragment) */
+  pragmaFrag?: string
+  /** Erase TypeScript syntax (default: .ts/.tsx/.mts/.cts files) */
+  typescript?: boolean
 }
 
-function stripTypeScript(source: string): string {
-  let code = source
-  // Remove import type/export type lines
-  code = code.replace(/^(\s*)import\s+type\s+[^;]+;?/gm, '$1')
-  code = code.replace(/^(\s*)export\s+type\s+[^;]+;?/gm, '$1')
-  // Remove standalone interface/type declarations (safer)
-  code = code.replace(/^(\s*)(?:export\s+)?interface\s+[A-Za-z_$][\w$]*\s*{[\s\S]*?}\s*$/gm, '$1')
-  code = code.replace(/^(\s*)(?:export\s+)?type\s+[A-Za-z_$][\w$]*\s*=\s*[\s\S]*?;\s*$/gm, '$1')
-  // IMPORTANT: do NOT strip generic/annotation patterns like `: T` globally.
-  // Global regex removal can corrupt valid JS object literals (e.g., `key: value`).
-  return code
+type Mode = 'code' | 'params' | 'class' | 'specifiers'
+
+interface Token {
+  type: 'punct' | 'word' | 'value'
+  text: string
 }
 
-function parseProps(attrSrc: string): string {
-  // Build object expression as string
-  const props: string[] = []
-  let s = attrSrc.trim()
-  while (s.length) {
-    // Spread {...obj}
-    let m = s.match(/^\{\s*\.\.\.([^}]+)\}\s*/)
-    if (m) {
-      props.push(`...(${m[1].trim()})`)
-      s = s.slice(m[0].length)
-      continue
-    }
-    // key={expr}
-    m = s.match(/^([A-Za-z_][A-Za-z0-9_-]*)\s*=\s*\{([^}]*)\}\s*/)
-    if (m) {
-      props.push(`${m[1]}: (${m[2].trim()})`)
-      s = s.slice(m[0].length)
-      continue
-    }
-    // key="str" or key='str'
-    m = s.match(/^([A-Za-z_][A-Za-z0-9_-]*)\s*=\s*(["'])(.*?)\2\s*/)
-    if (m) {
-      props.push(`${m[1]}: ${JSON.stringify(m[3])}`)
-      s = s.slice(m[0].length)
-      continue
-    }
-    // boolean shorthand: key
-    m = s.match(/^([A-Za-z_][A-Za-z0-9_-]*)\b\s*/)
-    if (m) {
-      props.push(`${m[1]}: true`)
-      s = s.slice(m[0].length)
-      continue
-    }
-    // If nothing matched, break to avoid infinite loop
-    break
-  }
-  if (props.length === 0) return 'null'
-  // Merge spreads using Object.assign if present
-  const hasSpread = props.some(p => p.startsWith('...'))
-  if (!hasSpread) return `{ ${props.join(', ')} }`
-  // Convert to Object.assign({}, ...spread, keyed)
-  const parts = props.map(p => p.startsWith('...') ? p.slice(3) : `{ ${p} }`)
-  return `Object.assign({}, ${parts.join(', ')})`
+// State of one bracket level
+interface Frame {
+  mode: Mode
+  /** Open `?` of conditional expressions, so their `:` is not taken for a type annotation */
+  ternaries: number
+  /** Inside a const/let/var declaration */
+  declaring: boolean
+  /** The next identifier or pattern is a declared binding */
+  expectBinding: boolean
 }
 
-function trimText(t: string): string {
-  // Collapse whitespace and trim
-  const collapsed = t.replace(/\s+/g, ' ')
-  return collapsed.trim()
+// Keywords after which an expression (and so a regex or JSX) can start
+const EXPRESSION_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw',
+  'case', 'do', 'else', 'yield', 'await', 'default',
+])
+// Keywords followed by a parenthesized condition rather than parameters
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'with'])
+const CLASS_MODIFIERS = new Set(['public', 'private', 'protected', 'readonly', 'override', 'abstract', 'declare'])
+const TYPE_PREFIXES = new Set(['typeof', 'keyof', 'readonly', 'unique', 'infer', 'asserts', 'new', 'abstract'])
+
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=',
+  '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>',
+]
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®',
+  trade: '™', hellip: '…', mdash: '—', ndash: '–', laquo: '«', raquo: '»', lsquo: '‘',
+  rsquo: '’', ldquo: '“', rdquo: '”', middot: '·', bull: '•', times: '×', divide: '÷',
+  deg: '°', larr: '←', rarr: '→', uarr: '↑', darr: '↓', euro: '€', pound: '£', yen: '¥',
 }
 
-function transformOnce(input: string): { code: string; changed: boolean } {
-  let code = input
-  let changed = false
+// Thrown while speculatively skipping a type; the caller backtracks
+class NotAType extends Error { }
+
+const isIdentStart = (ch: string | undefined) => !!ch && /[A-Za-z_$\u0080-\uffff]/.test(ch)
+const isIdentPart = (ch: string | undefined) => !!ch && /[\w$\u0080-\uffff]/.test(ch)
+const isJsxNamePart = (ch: string | undefined) => !!ch && /[\w$\-\u0080-\uffff]/.test(ch)
+const countNewlines = (text: string) => (text.match(/\n/g) || []).length
 
-  // Self-closing tags first: <Tag a={1} />
-  code = code.replace(/<([A-Za-z_][\w\.]*)\s*([^>]*)\/>/g, (_m, tag: string, attrs: string) => {
-    changed = true
-    const props = parseProps(attrs || '')
-    const tagExpr = /^[a-z]/.test(tag) ? `'${tag}'` : tag
-    return `_jsx_(${tagExpr}, ${props})`
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return ENTITIES[name] ?? entity
   })
+}
 
-  // Paired tags without nesting (handled iteratively): <Tag ...>children</Tag>
-  // Use a tempered dot to avoid crossing nested pairs; run repeatedly by outer loop.
-  code = code.replace(/<([A-Za-z_][\w\.]*)\s*([^>]*)>([\s\S]*?)<\/\1>/g, (_m, tag: string, attrs: string, body: string) => {
-    changed = true
-    const props = parseProps(attrs || '')
-    // Split children by braces to preserve expressions
-    const children: string[] = []
-    let rest = body
-    while (rest.length) {
-      const expr = rest.match(/^\s*\{([^}]*)\}\s*/)
-      if (expr) {
-        const v = expr[1].trim()
-        if (v) children.push(`(${v})`)
-        rest = rest.slice(expr[0].length)
+// JSX text whitespace: lines are trimmed where they meet a line break, blank lines dropped,
+// and the remaining lines joined with single spaces
+function cleanJsxText(raw: string): string {
+  const lines = raw.split(/\r\n|\n|\r/)
+  let lastNonEmpty = 0
+  lines.forEach((line, i) => { if (/[^ \t]/.test(line)) lastNonEmpty = i })
+  let text = ''
+  lines.forEach((line, i) => {
+    let trimmed = line.replace(/\t/g, ' ')
+    if (i > 0) trimmed = trimmed.replace(/^ +/, '')
+    if (i < lines.length - 1) trimmed = trimmed.replace(/ +$/, '')
+    if (!trimmed) return
+    text += i === lastNonEmpty ? trimmed : `${trimmed} `
+  })
+  return decodeEntities(text)
+}
+
+const propKey = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name))
+
+function isTypeScriptFile(filename: string): boolean {
+  return /\.[mc]?tsx?$/.test(filename.split('?')[0])
+}
+
+class JsxTransformer {
+  private readonly src: string
+  private readonly filename: string
+  private readonly pragma: string
+  private readonly pragmaFrag: string
+  private readonly ts: boolean
+  private readonly jsx: boolean
+  private pos = 0
+  private out: string[] = []
+  private prev: Token | null = null
+  private prevEnd = 0
+  private frame: Frame = { mode: 'code', ternaries: 0, declaring: false, expectBinding: false }
+  // `function` seen, its parameter list not yet
+  private functionPending = false
+  // `class` seen, its body not yet
+  private classHead = false
+  // Type parameters were just erased, so the next `(` is a parameter list
+  private afterTypeParams = false
+  // Inside an import/export statement, before its `from` string
+  private moduleClause = false
+  // Source line breaks skipped inside JSX, re-emitted before the next child or attribute
+  private pendingNewlines = 0
+  // The last thing copied was a `//` comment
+  private lineComment = false
+
+  constructor(src: string, filename: string, options: SimpleJsxOptions) {
+    this.src = src
+    this.filename = filename
+    this.pragma = options.pragma || 'React.createElement'
+    this.pragmaFrag = options.pragmaFrag || 'React.Fragment'
+    this.ts = options.typescript ?? isTypeScriptFile(filename)
+    // Plain .ts files have no JSX; `<T>x` there is a type assertion
+    this.jsx = !/\.[mc]?ts$/.test(filename.split('?')[0])
+  }
+
+  transform(): string {
+    this.code(null)
+    return this.out.join('')
+  }
+
+  // ---- scanning helpers
+
+  private peek(offset = 0): string | undefined {
+    return this.src[this.pos + offset]
+  }
+
+  private fail(message: string, at = this.pos): never {
+    const before = this.src.slice(0, at)
+    const line = countNewlines(before) + 1
+    const column = at - before.lastIndexOf('\n')
+    throw new TranspileError(`${this.filename}:${line}:${column}: ${message}`, { filename: this.filename })
+  }
+
+  private emit(text: string): void {
+    this.out.push(text)
+  }
+
+  private copy(from: number, to: number = this.pos): void {
+    if (to > from) this.out.push(this.src.slice(from, to))
+  }
+
+  // Drop erased source but keep its line breaks
+  private erase(from: number, to: number = this.pos): void {
+    const lines = countNewlines(this.src.slice(from, to))
+    if (lines) this.out.push('\n'.repeat(lines))
+  }
+
+  private capture(run: () => void): string {
+    const saved = this.out
+    this.out = []
+    try {
+      run()
+      return this.out.join('')
+    } finally {
+      this.out = saved
+    }
+  }
+
+  private setPrev(type: Token['type'], text: string): void {
+    this.prev = { type, text }
+    this.prevEnd = this.pos
+    this.lineComment = false
+  }
+
+  // Whether an expression can start here (so `/` is a regex and `<` is JSX)
+  private expressionAllowed(): boolean {
+    const prev = this.prev
+    if (!prev) return true
+    if (prev.type === 'value') return false
+    if (prev.type === 'word') return EXPRESSION_KEYWORDS.has(prev.text)
+    return true
+  }
+
+  // Whether the previous token ends an operand (for `as`, `!` and type arguments)
+  private afterOperand(): boolean {
+    const prev = this.prev
+    return !!prev && (prev.type === 'value' || (prev.type === 'word' && !EXPRESSION_KEYWORDS.has(prev.text)))
+  }
+
+  private wordAt(at: number): string {
+    let end = at
+    if (!isIdentStart(this.src[end])) return ''
+    while (isIdentPart(this.src[end])) end++
+    return this.src.slice(at, end)
+  }
+
+  private readWord(): string {
+    const word = this.wordAt(this.pos)
+    this.pos += word.length
+    return word
+  }
+
+  // Position after whitespace and comments starting at `at`
+  private skipTrivia(at: number): number {
+    let i = at
+    for (;;) {
+      const ch = this.src[i]
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v' || ch === '\u00a0' || ch === '\ufeff') {
+        i++
+      } else if (ch === '/' && this.src[i + 1] === '/') {
+        while (i < this.src.length && this.src[i] !== '\n') i++
+      } else if (ch === '/' && this.src[i + 1] === '*') {
+        const end = this.src.indexOf('*/', i + 2)
+        if (end < 0) this.fail('Unterminated comment', i)
+        i = end + 2
+      } else {
+        return i
+      }
+    }
+  }
+
+  private trivia(): void {
+    this.pos = this.skipTrivia(this.pos)
+  }
+
+  private isWordAt(at: number, word: string): boolean {
+    return this.wordAt(at) === word
+  }
+
+  // ---- JavaScript
+
+  // Copy code until `close` (left unconsumed) or the end of input
+  private code(close: string | null): void {
+    const src = this.src
+    while (this.pos < src.length) {
+      const start = this.pos
+      const ch = src[start]
+      const next = src[start + 1]
+      if (ch === close) return
+
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v' || ch === '\u00a0' || ch === '\ufeff') {
+        this.pos++
+        while (/[ \t\n\r\f\v\u00a0\ufeff]/.test(src[this.pos] || '')) this.pos++
+        this.copy(start)
+      } else if (ch === '/' && (next === '/' || next === '*')) {
+        this.pos = this.skipTrivia(start)
+        this.copy(start)
+        this.lineComment = /\/\/[^\n]*$/.test(src.slice(start, this.pos).trimEnd())
+      } else if (ch === '"' || ch === "'") {
+        this.string()
+        this.copy(start)
+        this.setPrev('value', ch)
+        this.moduleClause = false
+      } else if (ch === '`') {
+        this.template()
+        this.setPrev('value', '`')
+      } else if (isIdentStart(ch) || ch === '#') {
+        this.word()
+      } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next || ''))) {
+        this.pos++
+        while (/[\w.]/.test(src[this.pos] || '') || ((src[this.pos] === '+' || src[this.pos] === '-') && /[eE]/.test(src[this.pos - 1]) && !/^0[xX]/.test(src.slice(start, start + 2)))) this.pos++
+        this.copy(start)
+        this.setPrev('value', '0')
+      } else if (ch === '/' && this.expressionAllowed()) {
+        this.regex()
+        this.copy(start)
+        this.setPrev('value', '/')
+      } else if (ch === '<' && this.lessThan()) {
         continue
+      } else if (ch === '(') {
+        this.paren()
+      } else if (ch === '[') {
+        this.bracket()
+      } else if (ch === '{') {
+        this.brace()
+      } else {
+        this.punctuator()
       }
-      // Next literal until next brace or end
-      const nextBrace = rest.indexOf('{')
-      const lit = nextBrace === -1 ? rest : rest.slice(0, nextBrace)
-      const t = trimText(lit)
-      if (t) children.push(JSON.stringify(t))
-      rest = nextBrace === -1 ? '' : rest.slice(nextBrace)
     }
-    const tagExpr = /^[a-z]/.test(tag) ? `'${tag}'` : tag
-    if (children.length) {
-      return `_jsx_(${tagExpr}, ${props}, ${children.join(', ')})`
+    if (close) this.fail(`Expected '${close}' before the end of the file`)
+  }
+
+  // Run `code` for a nested bracket level with its own frame
+  private nested(close: string, mode: Mode): void {
+    const saved = this.frame
+    this.frame = { mode, ternaries: 0, declaring: false, expectBinding: false }
+    try {
+      this.code(close)
+    } finally {
+      this.frame = saved
     }
-    return `_jsx_(${tagExpr}, ${props})`
-  })
+  }
 
-  return { code, changed }
-}
+  private string(): void {
+    const quote = this.src[this.pos]
+    const start = this.pos
+    this.pos++
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === '\\') {
+        this.pos += 2
+      } else if (ch === quote) {
+        this.pos++
+        return
+      } else if (ch === '\n') {
+        break
+      } else {
+        this.pos++
+      }
+    }
+    this.fail('Unterminated string literal', start)
+  }
 
-export function transformJsxToJs(sourceCode: string, filename = 'module.jsx'): string {
-  const raw = stripTypeScript(sourceCode)
-  let code = raw
-  let guard = 0
-  try {
-    // Repeatedly apply until no JSX-looking patterns remain or guard trips
-    while (guard++ < 50) {
-      const res = transformOnce(code)
-      code = res.code
-      if (!res.changed) break
+  private template(): void {
+    const start = this.pos
+    this.pos++
+    let chunk = start
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === '\\') {
+        this.pos += 2
+      } else if (ch === '`') {
+        this.pos++
+        this.copy(chunk)
+        return
+      } else if (ch === '$' && this.src[this.pos + 1] === '{') {
+        this.pos += 2
+        this.copy(chunk)
+        this.setPrev('punct', '${')
+        this.nested('}', 'code')
+        chunk = this.pos
+        this.pos++
+      } else {
+        this.pos++
+      }
+    }
+    this.fail('Unterminated template literal', start)
+  }
+
+  private regex(): void {
+    const start = this.pos
+    let inClass = false
+    this.pos++
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === '\n') break
+      if (ch === '\\') {
+        this.pos += 2
+        continue
+      }
+      this.pos++
+      if (ch === '[') inClass = true
+      else if (ch === ']') inClass = false
+      else if (ch === '/' && !inClass) {
+        while (isIdentPart(this.src[this.pos])) this.pos++
+        return
+      }
+    }
+    this.fail('Unterminated regular expression', start)
+  }
+
+  private punctuator(): void {
+    const start = this.pos
+    const op = PUNCTUATORS.find((p) => this.src.startsWith(p, start)) || this.src[start]
+    const frame = this.frame
+    if (this.ts) {
+      const typed = frame.mode === 'params' || frame.mode === 'class'
+      // Non-null assertion: x!.y, x!)
+      if (op === '!' && this.prevEnd === start && this.afterOperand()) {
+        this.pos++
+        return
+      }
+      // Optional parameter or class member: a?: T, a?)
+      if (op === '?' && typed && /[:,)=;]/.test(this.src[this.skipTrivia(start + 1)] || '')) {
+        this.pos++
+        return
+      }
+      if (op === ':' && frame.ternaries === 0 && typed) {
+        this.pos++
+        this.skipType()
+        this.erase(start)
+        return
+      }
+    }
+    this.pos += op.length
+    this.emit(op)
+    if (op === '?') frame.ternaries++
+    else if (op === ':' && frame.ternaries > 0) frame.ternaries--
+    else if (op === ';') {
+      frame.declaring = false
+      frame.expectBinding = false
+      this.moduleClause = false
+    } else if (op === ',' && frame.declaring) frame.expectBinding = true
+    else if (op === '=') frame.expectBinding = false
+    // `a++ / b` divides; treat the operand as still open
+    this.setPrev(op === '++' || op === '--' ? 'value' : 'punct', op)
+  }
+
+  private word(): void {
+    const start = this.pos
+    if (this.src[start] === '#') this.pos++
+    this.readWord()
+    const word = this.src.slice(start, this.pos)
+    const frame = this.frame
+    const member = this.prev?.type === 'punct' && (this.prev.text === '.' || this.prev.text === '?.')
+
+    if (this.ts && !member && this.typeScriptWord(word, start)) return
+
+    this.emit(word)
+    this.setPrev('word', word)
+    if (member) {
+      this.prev = { type: 'value', text: word }
+      return
+    }
+    switch (word) {
+      case 'function':
+        this.functionPending = true
+        this.moduleClause = false
+        break
+      case 'class':
+        this.classHead = true
+        this.moduleClause = false
+        break
+      case 'default':
+        this.moduleClause = false
+        break
+      case 'import':
+      case 'export':
+        this.moduleClause = true
+        break
+      case 'const':
+      case 'let':
+      case 'var':
+        this.moduleClause = false
+        frame.declaring = true
+        frame.expectBinding = true
+        return
+      case 'this':
+      case 'super':
+      case 'null':
+      case 'true':
+      case 'false':
+        this.prev = { type: 'value', text: word }
+        break
+    }
+    if (frame.expectBinding && !EXPRESSION_KEYWORDS.has(word)) {
+      frame.expectBinding = false
+      this.bindingAnnotation()
+    }
+  }
+
+  // Erase `: Type` (and a definite-assignment `!`) after a declared binding
+  private bindingAnnotation(): void {
+    if (!this.ts) return
+    const start = this.pos
+    let at = this.skipTrivia(start)
+    if (this.src[at] === '!' && this.src[at + 1] !== '=') at = this.skipTrivia(at + 1)
+    if (this.src[at] !== ':') return
+    this.pos = at + 1
+    this.skipType()
+    this.erase(start)
+  }
+
+  private paren(): void {
+    const params = this.ts && this.isParameterList()
+    this.functionPending = false
+    this.afterTypeParams = false
+    this.pos++
+    this.emit('(')
+    this.setPrev('punct', '(')
+    this.nested(')', params ? 'params' : 'code')
+    this.pos++
+    this.emit(')')
+    this.setPrev('value', ')')
+    if (params) this.returnType()
+  }
+
+  private returnType(): void {
+    const start = this.pos
+    const at = this.skipTrivia(start)
+    if (this.src[at] !== ':') return
+    this.pos = at + 1
+    this.skipType()
+    this.erase(start)
+  }
+
+  private isParameterList(): boolean {
+    if (this.functionPending || this.afterTypeParams) return true
+    const prev = this.prev
+    if (prev?.type === 'word' && prev.text === 'catch') return true
+    const end = this.matchingBracket(this.pos)
+    if (end < 0) return false
+    const after = this.skipTrivia(end + 1)
+    if (this.src.startsWith('=>', after)) return true
+    const method = prev?.type === 'word' && !CONTROL_KEYWORDS.has(prev.text) && !EXPRESSION_KEYWORDS.has(prev.text)
+    if (method && this.src[after] === '{') return true
+    if (this.src[after] !== ':') return false
+    // `(a): T =>` or `name(a): T {`, but not `c ? (a) : b`
+    const saved = this.pos
+    try {
+      this.pos = after + 1
+      this.skipType()
+      const rest = this.skipTrivia(this.pos)
+      return this.src.startsWith('=>', rest) || (method && this.src[rest] === '{')
+    } catch (err) {
+      if (err instanceof NotAType) return false
+      throw err
+    } finally {
+      this.pos = saved
+    }
+  }
+
+  private bracket(): void {
+    const frame = this.frame
+    const binding = frame.expectBinding
+    if (this.ts && frame.mode === 'class' && /^\[\s*[A-Za-z_$][\w$]*\s*:/.test(this.src.slice(this.pos, this.pos + 200))) {
+      this.indexSignature()
+      return
+    }
+    frame.expectBinding = false
+    this.pos++
+    this.emit('[')
+    this.setPrev('punct', '[')
+    this.nested(']', 'code')
+    this.pos++
+    this.emit(']')
+    this.setPrev('value', ']')
+    if (binding) this.bindingAnnotation()
+  }
+
+  // `[key: string]: T;` in a class body
+  private indexSignature(): void {
+    const start = this.pos
+    this.skipBalanced()
+    this.pos = this.skipTrivia(this.pos)
+    if (this.src[this.pos] === ':') {
+      this.pos++
+      this.skipType()
+    }
+    const at = this.skipTrivia(this.pos)
+    if (this.src[at] === ';' || this.src[at] === ',') this.pos = at + 1
+    this.erase(start)
+  }
+
+  private brace(): void {
+    const frame = this.frame
+    const binding = frame.expectBinding
+    const prev = this.prev
+    const specifiers = this.moduleClause && !!prev && (prev.text === ',' || prev.text === 'import' || prev.text === 'export')
+    const mode: Mode = this.classHead ? 'class' : specifiers ? 'specifiers' : 'code'
+    frame.expectBinding = false
+    this.classHead = false
+    this.pos++
+    this.emit('{')
+    this.setPrev('punct', '{')
+    this.nested('}', mode)
+    this.pos++
+    this.emit('}')
+    this.setPrev('value', '}')
+    if (binding) this.bindingAnnotation()
+  }
+
+  // Handle `<`: JSX, type arguments/parameters, or a plain operator (returns false)
+  private lessThan(): boolean {
+    const start = this.pos
+    if (this.expressionAllowed()) {
+      if (this.ts && (!this.jsx || /^<\s*(const\s+)?[A-Za-z_$][\w$]*\s*(,|extends\b)/.test(this.src.slice(start, start + 100)))) {
+        // Generic arrow `<T,>(x: T) => x`, or in .ts files a type assertion `<T>x`
+        this.skipTypeArguments()
+        this.erase(start)
+        this.afterTypeParams = this.src[this.skipTrivia(this.pos)] === '('
+        return true
+      }
+      if (this.jsx && /[A-Za-z_$>\u0080-\uffff]/.test(this.src[this.skipTrivia(start + 1)] || '')) {
+        const lead = this.pendingNewlines
+        this.pendingNewlines = 0
+        this.emit(this.element())
+        this.pendingNewlines = lead
+        this.setPrev('value', '>')
+        return true
+      }
+      return false
+    }
+    if (!this.ts || !(this.functionPending || this.classHead || this.afterOperand())) return false
+    // f<T>(x), new Map<K, V>(), function f<T>(), class A<T> extends B<T>
+    try {
+      this.skipTypeArguments()
+    } catch (err) {
+      if (!(err instanceof NotAType)) throw err
+      this.pos = start
+      return false
+    }
+    const next = this.src[this.skipTrivia(this.pos)]
+    if (!this.functionPending && !this.classHead && next !== '(' && next !== '`') {
+      this.pos = start
+      return false
+    }
+    this.erase(start)
+    this.afterTypeParams = this.functionPending || this.frame.mode === 'class'
+    return true
+  }
+
+  // Returns true when the word was TypeScript-only syntax and has been erased or rewritten
+  private typeScriptWord(word: string, start: number): boolean {
+    const frame = this.frame
+    const after = this.skipTrivia(this.pos)
+    const nextWord = this.wordAt(after)
+
+    switch (word) {
+      case 'interface':
+        if (!nextWord) return false
+        this.interfaceDeclaration()
+        this.erase(start)
+        return true
+      case 'type':
+        if (frame.mode === 'specifiers') {
+          // import { type A, b } / export { type A as B }: drop the specifier
+          if (!nextWord || nextWord === 'as') return false
+          this.pos = after + nextWord.length
+          const alias = this.skipTrivia(this.pos)
+          if (this.isWordAt(alias, 'as')) {
+            this.pos = this.skipTrivia(alias + 2)
+            this.readWord()
+          }
+          const comma = this.skipTrivia(this.pos)
+          if (this.src[comma] === ',') this.pos = comma + 1
+          this.erase(start)
+          return true
+        }
+        if (!nextWord || !/^[=<]/.test(this.src[this.skipTrivia(after + nextWord.length)] || '')) return false
+        this.typeAlias()
+        this.erase(start)
+        return true
+      case 'declare':
+        if (!nextWord || this.src.slice(start, after).includes('\n')) return false
+        if (frame.mode === 'class') {
+          this.pos = after
+          this.erase(start)
+          return true
+        }
+        this.skipStatement()
+        this.erase(start)
+        return true
+      case 'enum':
+        if (!nextWord) return false
+        this.enumDeclaration(start)
+        return true
+      case 'namespace':
+      case 'module':
+        if (!nextWord || frame.mode !== 'code' || !/[{.]/.test(this.src[this.skipTrivia(after + nextWord.length)] || '')) return false
+        this.fail(`TypeScript ${word} declarations are not supported`, start)
+        break
+      case 'this':
+        // function f(this: Window, a) → function f(a)
+        if (frame.mode !== 'params' || this.prev?.text !== '(' || this.src[after] !== ':') return false
+        this.pos = after + 1
+        this.skipType()
+        if (this.src[this.skipTrivia(this.pos)] === ',') this.pos = this.skipTrivia(this.pos) + 1
+        this.erase(start)
+        return true
+      case 'abstract':
+        if (nextWord !== 'class' && frame.mode !== 'class') return false
+        this.pos = after
+        this.erase(start)
+        return true
+      case 'implements':
+        if (!this.classHead) return false
+        this.pos = after
+        this.skipType()
+        while (this.src[this.skipTrivia(this.pos)] === ',') {
+          this.pos = this.skipTrivia(this.pos) + 1
+          this.skipType()
+        }
+        this.erase(start)
+        return true
+      case 'as':
+      case 'satisfies':
+        if (frame.mode === 'specifiers' || !this.afterOperand() || !/[\w$'"`{[(\-]/.test(this.src[after] || '')) return false
+        this.skipType()
+        this.erase(start)
+        return true
+      case 'import':
+      case 'export':
+        return this.typeOnlyModuleStatement(word, start, after, nextWord)
+      case 'const':
+        if (nextWord !== 'enum') return false
+        this.pos = after
+        this.erase(start)
+        return true
+    }
+    if (CLASS_MODIFIERS.has(word) && (frame.mode === 'class' || frame.mode === 'params')) {
+      if (!(nextWord || /[[#'"]/.test(this.src[after] || ''))) return false
+      if (frame.mode === 'params') this.fail('TypeScript parameter properties are not supported', start)
+      this.pos = after
+      this.erase(start)
+      return true
+    }
+    return false
+  }
+
+  // `import type ...`, `export type { ... }`, `export interface`, `export declare`, `export type X =`
+  private typeOnlyModuleStatement(word: string, start: number, after: number, nextWord: string): boolean {
+    const typeOnly = nextWord === 'type' && /^[{*A-Za-z_$]/.test(this.src[this.skipTrivia(after + 4)] || '')
+      && !(word === 'import' && /^(from|,)/.test(this.src.slice(this.skipTrivia(after + 4))))
+    if (typeOnly) {
+      this.pos = after + 4
+      const afterType = this.skipTrivia(this.pos)
+      const aliasName = this.wordAt(afterType)
+      if (word === 'export' && aliasName && /^[=<]/.test(this.src[this.skipTrivia(afterType + aliasName.length)] || '')) {
+        this.typeAlias()
+      } else {
+        this.skipStatement()
+      }
+      this.erase(start)
+      return true
+    }
+    if (word === 'export' && (nextWord === 'interface' || nextWord === 'declare')) {
+      this.pos = after + nextWord.length
+      if (nextWord === 'interface') this.interfaceDeclaration()
+      else this.skipStatement()
+      this.erase(start)
+      return true
+    }
+    return false
+  }
+
+  private interfaceDeclaration(): void {
+    this.trivia()
+    this.readWord()
+    this.trivia()
+    if (this.peek() === '<') this.skipTypeArguments()
+    this.trivia()
+    if (this.isWordAt(this.pos, 'extends')) {
+      this.pos += 'extends'.length
+      do {
+        if (this.peek() === ',') this.pos++
+        this.skipType()
+        this.trivia()
+      } while (this.peek() === ',')
+    }
+    this.trivia()
+    if (this.peek() !== '{') this.fail("Expected '{' in interface declaration")
+    this.skipBalanced()
+  }
+
+  private typeAlias(): void {
+    this.trivia()
+    this.readWord()
+    this.trivia()
+    if (this.peek() === '<') this.skipTypeArguments()
+    this.trivia()
+    if (this.peek() !== '=') this.fail("Expected '=' in type alias")
+    this.pos++
+    this.skipType()
+    const at = this.skipTrivia(this.pos)
+    if (this.src[at] === ';') this.pos = at + 1
+  }
+
+  // Skip to the end of a statement: `;`, or a line break or closing brace at this level
+  private skipStatement(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === ';') {
+        this.pos++
+        return
+      }
+      if (ch === '\n' || ch === '}') return
+      if (ch === '{' || ch === '(' || ch === '[') {
+        this.skipBalanced()
+      } else if (ch === '"' || ch === "'") {
+        this.string()
+      } else if (ch === '/' && (this.src[this.pos + 1] === '/' || this.src[this.pos + 1] === '*')) {
+        this.trivia()
+      } else {
+        this.pos++
+      }
+    }
+  }
+
+  // enum E { A, B = 'b', C = 4 } → the object tsc emits, with reverse mappings for numeric members
+  private enumDeclaration(start: number): void {
+    this.trivia()
+    const name = this.readWord()
+    this.trivia()
+    if (this.peek() !== '{') this.fail("Expected '{' in enum declaration")
+    this.pos++
+    const members: string[] = []
+    const statements: string[] = []
+    let next: string | number = 0
+    for (;;) {
+      this.trivia()
+      if (this.peek() === '}') break
+      let key: string
+      if (this.peek() === '"' || this.peek() === "'") {
+        const quoted = this.pos
+        this.string()
+        key = this.src.slice(quoted + 1, this.pos - 1)
+      } else {
+        key = this.readWord()
+        if (!key) this.fail('Expected an enum member name')
+      }
+      this.trivia()
+      let value: string
+      let numeric = true
+      if (this.peek() === '=') {
+        this.pos++
+        const from = this.pos
+        this.skipInitializer()
+        value = this.src.slice(from, this.pos).trim()
+        for (const member of members) {
+          if (!/^[A-Za-z_$][\w$]*$/.test(member)) continue
+          value = value.replace(new RegExp(`(^|[^.\\w$])${member.replace(/\$/g, '\\$')}(?![\\w$])`, 'g'), (_m, before: string) => `${before}${name}[${JSON.stringify(member)}]`)
+        }
+        if (/^['"`]/.test(value)) {
+          numeric = false
+          next = NaN
+        } else {
+          next = /^-?\d+(\.\d+)?$/.test(value) ? Number(value) + 1 : `${name}[${JSON.stringify(key)}] + 1`
+        }
+      } else {
+        if (typeof next === 'number' && Number.isNaN(next)) this.fail(`Enum member '${key}' must have an initializer`)
+        value = String(next)
+        next = typeof next === 'number' ? next + 1 : `${name}[${JSON.stringify(key)}] + 1`
+      }
+      members.push(key)
+      statements.push(numeric
+        ? `${name}[${name}[${JSON.stringify(key)}] = ${value}] = ${JSON.stringify(key)};`
+        : `${name}[${JSON.stringify(key)}] = ${value};`)
+      this.trivia()
+      if (this.peek() === ',') this.pos++
+    }
+    this.pos++
+    this.emit(`var ${name}; (function (${name}) { ${statements.join(' ')} })(${name} || (${name} = {}));`)
+    this.erase(start)
+    this.setPrev('punct', ';')
+    this.moduleClause = false
+  }
+
+  // An enum initializer: up to `,` or `}` at this level
+  private skipInitializer(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === ',' || ch === '}') return
+      if (ch === '(' || ch === '[' || ch === '{') this.skipBalanced()
+      else if (ch === '"' || ch === "'") this.string()
+      else if (ch === '`') this.skipTemplateRaw()
+      else this.pos++
+    }
+  }
+
+  // ---- Types (skipped, never emitted)
+
+  private skipType(): void {
+    this.skipUnionType()
+    const at = this.skipTrivia(this.pos)
+    if (!this.isWordAt(at, 'extends')) return
+    // A constraint (<T extends U>) or a conditional type (T extends U ? X : Y)
+    this.pos = at + 'extends'.length
+    this.skipUnionType()
+    const question = this.skipTrivia(this.pos)
+    if (this.src[question] !== '?' || this.src[question + 1] === '.') return
+    this.pos = question + 1
+    this.skipType()
+    this.trivia()
+    if (this.peek() !== ':') throw new NotAType()
+    this.pos++
+    this.skipType()
+  }
+
+  // A | B & C[]
+  private skipUnionType(): void {
+    this.trivia()
+    if ((this.peek() === '|' && this.peek(1) !== '|') || (this.peek() === '&' && this.peek(1) !== '&')) this.pos++
+    for (;;) {
+      this.skipTypeOperand()
+      // T[] and T[K]
+      while (this.src[this.skipTrivia(this.pos)] === '[' && !this.src.slice(this.pos, this.skipTrivia(this.pos)).includes('\n')) {
+        this.trivia()
+        this.skipBalanced()
+      }
+      const at = this.skipTrivia(this.pos)
+      const ch = this.src[at]
+      if ((ch === '|' && this.src[at + 1] !== '|' && this.src[at + 1] !== '=') || (ch === '&' && this.src[at + 1] !== '&' && this.src[at + 1] !== '=')) {
+        this.pos = at + 1
+        continue
+      }
+      return
     }
-    if (guard >= 50) {
-      throw new Error('JSX transform hit iteration limit; possible deeply nested or malformed JSX')
+  }
+
+  private skipTypeOperand(): void {
+    this.trivia()
+    const ch = this.peek()
+    if (ch === '(') {
+      this.skipBalanced()
+      const at = this.skipTrivia(this.pos)
+      if (this.src.startsWith('=>', at)) {
+        this.pos = at + 2
+        this.skipType()
+      }
+    } else if (ch === '<') {
+      // Generic function type <T>(x: T) => T
+      this.skipTypeArguments()
+      this.trivia()
+      if (this.peek() !== '(') throw new NotAType()
+      this.skipTypeOperand()
+    } else if (ch === '{' || ch === '[') {
+      this.skipBalanced()
+    } else if (ch === '"' || ch === "'") {
+      this.string()
+    } else if (ch === '`') {
+      this.skipTemplateRaw()
+    } else if (ch === '-' || /[0-9]/.test(ch || '')) {
+      this.pos++
+      while (/[\w.]/.test(this.peek() || '')) this.pos++
+    } else if (isIdentStart(ch)) {
+      const word = this.readWord()
+      const at = this.skipTrivia(this.pos)
+      if (TYPE_PREFIXES.has(word) && /[\w$([{'"`<-]/.test(this.src[at] || '')) {
+        this.skipTypeOperand()
+        return
+      }
+      if (word === 'import' && this.src[at] === '(') this.skipBalanced()
+      // Qualified names and type arguments: React.FC<Props>
+      while (this.peek() === '.' && isIdentStart(this.peek(1))) {
+        this.pos++
+        this.readWord()
+      }
+      if (this.src[this.skipTrivia(this.pos)] === '<') {
+        this.trivia()
+        this.skipTypeArguments()
+      }
+      // Type predicate: x is string
+      const predicate = this.skipTrivia(this.pos)
+      if (this.isWordAt(predicate, 'is')) {
+        this.pos = predicate + 2
+        this.skipType()
+      }
+    } else {
+      throw new NotAType()
     }
+  }
+
+  // <A, B extends C = D> as type arguments or parameters
+  private skipTypeArguments(): void {
+    if (this.peek() !== '<') throw new NotAType()
+    this.pos++
+    for (;;) {
+      this.trivia()
+      const modifier = this.wordAt(this.pos)
+      if ((modifier === 'const' || modifier === 'in' || modifier === 'out') && isIdentStart(this.src[this.skipTrivia(this.pos + modifier.length)])) {
+        this.pos += modifier.length
+      }
+      this.skipType()
+      this.trivia()
+      if (this.peek() === '=' && this.peek(1) !== '>') {
+        this.pos++
+        this.skipType()
+        this.trivia()
+      }
+      if (this.peek() === ',') {
+        this.pos++
+        this.trivia()
+        if (this.peek() === '>') {
+          this.pos++
+          return
+        }
+        continue
+      }
+      if (this.peek() === '>') {
+        this.pos++
+        return
+      }
+      throw new NotAType()
+    }
+  }
+
+  // Skip a bracketed group starting at pos (strings, templates and comments aware)
+  private skipBalanced(): void {
+    const end = this.matchingBracket(this.pos)
+    if (end < 0) throw new NotAType()
+    this.pos = end + 1
+  }
+
+  private skipTemplateRaw(): void {
+    const start = this.pos
+    this.pos++
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === '\\') this.pos += 2
+      else if (ch === '`') {
+        this.pos++
+        return
+      } else if (ch === '$' && this.src[this.pos + 1] === '{') {
+        this.pos++
+        this.skipBalanced()
+      } else this.pos++
+    }
+    this.fail('Unterminated template literal', start)
+  }
+
+  // Index of the bracket closing the one at `open`, or -1
+  private matchingBracket(open: number): number {
+    const src = this.src
+    const stack: string[] = []
+    let i = open
+    while (i < src.length) {
+      const ch = src[i]
+      if (ch === '(' || ch === '[' || ch === '{') {
+        stack.push(ch === '(' ? ')' : ch === '[' ? ']' : '}')
+        i++
+      } else if (ch === ')' || ch === ']' || ch === '}') {
+        if (stack.pop() !== ch) return -1
+        if (!stack.length) return i
+        i++
+      } else if (ch === '"' || ch === "'") {
+        i++
+        while (i < src.length && src[i] !== ch && src[i] !== '\n') i += src[i] === '\\' ? 2 : 1
+        i++
+      } else if (ch === '`') {
+        i++
+        while (i < src.length && src[i] !== '`') {
+          if (src[i] === '\\') i += 2
+          else if (src[i] === '$' && src[i + 1] === '{') {
+            const end = this.matchingBracket(i + 1)
+            if (end < 0) return -1
+            i = end + 1
+          } else i++
+        }
+        i++
+      } else if (ch === '/' && (src[i + 1] === '/' || src[i + 1] === '*')) {
+        const end = src[i + 1] === '/' ? src.indexOf('\n', i) : src.indexOf('*/', i + 2) + 1
+        if (end <= 0) return -1
+        i = end + 1
+      } else {
+        i++
+      }
+    }
+    return -1
+  }
+
+  // ---- JSX
+
+  private takeNewlines(): string {
+    const lines = '\n'.repeat(this.pendingNewlines)
+    this.pendingNewlines = 0
+    return lines
+  }
+
+  // Skip whitespace and comments inside a tag, remembering line breaks
+  private jsxTrivia(): void {
+    const start = this.pos
+    this.trivia()
+    this.pendingNewlines += countNewlines(this.src.slice(start, this.pos))
+  }
+
+  private element(): string {
+    const start = this.pos
+    this.pos++
+    this.jsxTrivia()
+    if (this.peek() === '>') {
+      this.pos++
+      const children = this.children(null, start)
+      return `${this.pragma}(${this.pragmaFrag}, null${children.map((c) => `, ${c}`).join('')})${this.takeNewlines()}`
+    }
+    const name = this.jsxName()
+    this.jsxTrivia()
+    if (this.ts && this.peek() === '<') {
+      try {
+        this.skipTypeArguments()
+      } catch (err) {
+        if (err instanceof NotAType) this.fail(`Invalid type arguments on <${name}>`)
+        throw err
+      }
+      this.jsxTrivia()
+    }
+    const props: string[] = []
+    let selfClosing = false
+    for (;;) {
+      this.jsxTrivia()
+      const ch = this.peek()
+      if (ch === undefined) this.fail(`Unterminated JSX tag <${name}>`, start)
+      if (ch === '/') {
+        this.pos++
+        this.jsxTrivia()
+        if (this.peek() !== '>') this.fail(`Expected '>' to close <${name} />`)
+        this.pos++
+        selfClosing = true
+        break
+      }
+      if (ch === '>') {
+        this.pos++
+        break
+      }
+      const lead = this.takeNewlines()
+      if (ch === '{') {
+        const spread = this.expressionContainer()
+        if (!spread.startsWith('...')) this.fail(`Expected '...' in spread attribute of <${name}>`)
+        props.push(lead + spread)
+        continue
+      }
+      const attribute = this.jsxName(false)
+      if (!attribute) this.fail(`Unexpected character '${ch}' in <${name}>`)
+      this.jsxTrivia()
+      let value = 'true'
+      if (this.peek() === '=') {
+        this.pos++
+        this.jsxTrivia()
+        value = this.attributeValue(attribute)
+      }
+      props.push(`${lead}${propKey(attribute)}: ${value}`)
+    }
+    const children = selfClosing ? [] : this.children(name, start)
+    const tag = !name.includes('.') && (name.includes(':') || name.includes('-') || /^[a-z]/.test(name)) ? JSON.stringify(name) : name
+    const propsExpr = props.length ? `{ ${props.join(', ')} }` : 'null'
+    return `${this.pragma}(${tag}, ${propsExpr}${children.map((c) => `, ${c}`).join('')})${this.takeNewlines()}`
+  }
+
+  // Tag or attribute name: div, my-el, UI.Button, svg:rect
+  private jsxName(tag = true): string {
+    const start = this.pos
+    if (!isIdentStart(this.peek())) {
+      if (tag) this.fail('Expected a JSX tag name')
+      return ''
+    }
+    while (isJsxNamePart(this.peek())) this.pos++
+    if (this.peek() === ':' && isIdentStart(this.peek(1))) {
+      this.pos++
+      while (isJsxNamePart(this.peek())) this.pos++
+    } else if (tag) {
+      while (this.peek() === '.' && isIdentStart(this.peek(1))) {
+        this.pos++
+        while (isIdentPart(this.peek())) this.pos++
+      }
+    }
+    return this.src.slice(start, this.pos)
+  }
+
+  private attributeValue(attribute: string): string {
+    const ch = this.peek()
+    if (ch === '"' || ch === "'") {
+      const end = this.src.indexOf(ch, this.pos + 1)
+      if (end < 0) this.fail(`Unterminated string in attribute '${attribute}'`)
+      const raw = this.src.slice(this.pos + 1, end)
+      this.pos = end + 1
+      this.pendingNewlines += countNewlines(raw)
+      return JSON.stringify(decodeEntities(raw))
+    }
+    if (ch === '{') {
+      const expr = this.expressionContainer()
+      if (!expr) this.fail(`JSX attribute '${attribute}' must be assigned a non-empty expression`)
+      return expr
+    }
+    if (ch === '<') {
+      const lead = this.pendingNewlines
+      this.pendingNewlines = 0
+      const element = this.element()
+      this.pendingNewlines = lead
+      return element
+    }
+    return this.fail(`Expected a string, {expression} or element as the value of '${attribute}'`)
+  }
+
+  // `{ expr }` → the transformed expression, '' for an empty or comment-only container
+  private expressionContainer(): string {
+    const start = this.pos
+    this.pos++
+    const lead = this.pendingNewlines
+    this.pendingNewlines = 0
+    const prev = this.prev
+    this.setPrev('punct', '{')
+    const inner = this.capture(() => this.nested('}', 'code'))
+    const lineComment = this.lineComment
+    if (this.peek() !== '}') this.fail("Expected '}' to close the JSX expression", start)
+    this.pos++
+    this.prev = prev
+    this.pendingNewlines = lead
+    const withoutComments = inner.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/[^\n]*/g, '').trim()
+    if (!withoutComments) {
+      this.pendingNewlines += countNewlines(inner)
+      return ''
+    }
+    const expr = inner.trim()
+    const leading = countNewlines(inner.slice(0, inner.indexOf(expr)))
+    const trailing = countNewlines(inner.slice(inner.indexOf(expr) + expr.length))
+    // Keep a trailing line comment from swallowing what follows
+    const end = lineComment ? '\n' : ''
+    this.pendingNewlines += Math.max(0, trailing - (end ? 1 : 0))
+    return `${'\n'.repeat(leading)}${expr}${end}`
+  }
+
+  // Children up to the closing tag of `name` (null for a fragment)
+  private children(name: string | null, start: number): string[] {
+    const children: string[] = []
+    const label = name === null ? '<>' : `<${name}>`
+    for (;;) {
+      const ch = this.peek()
+      if (ch === undefined) this.fail(`Unterminated JSX element ${label}`, start)
+      if (ch === '<') {
+        const at = this.skipTrivia(this.pos + 1)
+        if (this.src[at] === '/') {
+          this.pos = at + 1
+          this.jsxTrivia()
+          const closing = this.peek() === '>' ? null : this.jsxName()
+          this.jsxTrivia()
+          if (this.peek() !== '>') this.fail(`Expected '>' in closing tag of ${label}`)
+          this.pos++
+          if (closing !== name) {
+            this.fail(`Expected corresponding closing tag for ${label} but found ${closing === null ? '</>' : `</${closing}>`}`)
+          }
+          return children
+        }
+        const lead = this.takeNewlines()
+        children.push(lead + this.element())
+      } else if (ch === '{') {
+        const lead = this.takeNewlines()
+        const expr = this.expressionContainer()
+        if (expr) children.push(lead + expr)
+        else this.pendingNewlines += countNewlines(lead)
+      } else {
+        const from = this.pos
+        while (this.pos < this.src.length && this.peek() !== '<' && this.peek() !== '{') this.pos++
+        const raw = this.src.slice(from, this.pos)
+        const text = cleanJsxText(raw)
+        if (text) {
+          const leading = countNewlines(raw.slice(0, raw.search(/\S/)))
+          this.pendingNewlines += leading
+          children.push(this.takeNewlines() + JSON.stringify(text))
+          this.pendingNewlines += countNewlines(raw) - leading
+        } else {
+          this.pendingNewlines += countNewlines(raw)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Transform JSX (and TypeScript in .ts/.tsx files) to plain JavaScript
+ * @param sourceCode Module source
+ * @param filename Used for TypeScript detection, error positions and the sourceURL comment
+ * @throws TranspileError with `file:line:column` for malformed JSX
+ */
+export function transformJsxToJs(sourceCode: string, filename = 'module.jsx', options: SimpleJsxOptions = {}): string {
+  try {
+    const code = new JsxTransformer(sourceCode, filename, options).transform()
     return code + `\n//# sourceURL=${filename}`
   } catch (err: any) {
-    const e: any = new Error(`TranspileError: ${filename}: ${err?.message || String(err)}`)
-    e.name = 'TranspileError'
-    throw e
+    if (err instanceof TranspileError) throw err
+    throw new TranspileError(`${filename}: ${err?.message || String(err)}`, { filename, cause: err })
   }
 }
 
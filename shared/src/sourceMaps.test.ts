@@ -0,0 +1,55 @@
+/**
+ * Tests for mapping hook error locations back to original source
+ */
+
+import {
+    appendInlineSourceMap,
+    extractInlineSourceMap,
+    registerModuleExecution,
+    registerModuleSource,
+    resolveErrorLocation,
+    mapStackTrace,
+    clearSourceRegistry,
+} from './sourceMaps'
+
+describe('sourceMaps', () => {
+    const original = ['// header', '', 'const x = <div/>', 'throw new Error("boom")'].join('\n')
+    // Generated line 1 <- original line 3, generated line 2 <- original line 4
+    const map = { version: 3, sources: ['/hooks/client/x.jsx'], names: [], mappings: 'AAEA;AACA' }
+    const transpiled = appendInlineSourceMap('const x = h("div")\nthrow new Error("boom")', JSON.stringify(map))
+
+    beforeEach(() => {
+        clearSourceRegistry()
+        registerModuleSource('/hooks/client/x.jsx', original, transpiled)
+    })
+
+    test('round-trips inline source maps', () => {
+        expect(extractInlineSourceMap(transpiled)?.mappings).toBe('AAEA;AACA')
+        expect(extractInlineSourceMap('no map here')).toBeNull()
+    })
+
+    test('maps a stack frame through the executor offset to the original line', () => {
+        registerModuleExecution('/hooks/client/x.jsx', { lineOffset: 6 })
+        const error = { message: 'boom', stack: 'Error: boom\n    at eval (/hooks/client/x.jsx:8:1)\n    at run (app.js:1:1)' }
+        const location = resolveErrorLocation(error, 1)
+        expect(location).toMatchObject({ filename: '/hooks/client/x.jsx', line: 4, original: true })
+        expect(location?.excerpt.map((l) => l.line)).toEqual([3, 4])
+        expect(location?.excerpt.find((l) => l.highlight)?.text).toBe('throw new Error("boom")')
+        expect(mapStackTrace(error.stack)).toContain('/hooks/client/x.jsx:4:1')
+    })
+
+    test('matches blob URLs registered by the executor', () => {
+        registerModuleExecution('/hooks/client/x.jsx', { lineOffset: 1, url: 'blob:http://localhost/abc' })
+        const location = resolveErrorLocation({ stack: 'at blob:http://localhost/abc:2:1' })
+        expect(location?.line).toBe(3)
+    })
+
+    test('uses the line named in transpiler error messages', () => {
+        const location = resolveErrorLocation(new Error('TranspileError: /hooks/client/x.jsx: Unexpected token at line 3, column 11'))
+        expect(location).toMatchObject({ line: 3, column: 11 })
+    })
+
+    test('returns null for errors outside hook modules', () => {
+        expect(resolveErrorLocation(new Error('unrelated'))).toBeNull()
+    })
+})
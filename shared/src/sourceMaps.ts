@@ -0,0 +1,347 @@
+/**
+ * Source Map Support for Relay Hooks
+ *
+ * Keeps the original source, transpiled output and source map of every
+ * loaded hook module so runtime and syntax errors can be reported against
+ * the original `/hooks/...` file and line, with a code excerpt, instead of
+ * blob URLs or `Function` bodies.
+ *
+ * Maps travel inline (`//# sourceMappingURL=data:...`) in the transpiled
+ * output, so they survive the persistent transpile cache unchanged.
+ */
+
+/**
+ * Standard (v3) source map payload
+ */
+export interface RawSourceMap {
+  version: number
+  sources: string[]
+  sourcesContent?: (string | null)[]
+  mappings: string
+  names?: string[]
+  file?: string
+}
+
+export interface SourceExcerptLine {
+  line: number
+  text: string
+  highlight: boolean
+}
+
+/**
+ * Error location resolved back to a hook source file
+ */
+export interface SourceLocation {
+  filename: string
+  line: number
+  column: number
+  /** False when no source map was available and the location refers to transpiled output */
+  original: boolean
+  excerpt: SourceExcerptLine[]
+}
+
+interface StackFrame {
+  file: string
+  line: number
+  column: number
+}
+
+interface RegisteredModule {
+  filename: string
+  source?: string
+  transpiled?: string
+  map?: RawSourceMap | null
+  decoded?: number[][][]
+  /** Lines the executor adds in front of the transpiled code */
+  lineOffset: number
+  urls: string[]
+}
+
+const INLINE_MAP_PREFIX = '//# sourceMappingURL=data:application/json;charset=utf-8,'
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+const modules: Map<string, RegisteredModule> = new Map()
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let shift = 0
+  let value = 0
+  for (let i = 0; i < segment.length; i++) {
+    let digit = BASE64_CHARS.indexOf(segment[i])
+    if (digit < 0) break
+    const continuation = digit & 32
+    digit &= 31
+    value += digit << shift
+    if (continuation) {
+      shift += 5
+    } else {
+      const negative = value & 1
+      value >>>= 1
+      values.push(negative ? -value : value)
+      value = 0
+      shift = 0
+    }
+  }
+  return values
+}
+
+/**
+ * Decode VLQ mappings into per-line segments of [generatedColumn, sourceIndex, sourceLine, sourceColumn]
+ */
+function decodeMappings(mappings: string): number[][][] {
+  const lines: number[][][] = []
+  let sourceIndex = 0
+  let sourceLine = 0
+  let sourceColumn = 0
+  for (const lineText of mappings.split(';')) {
+    const segments: number[][] = []
+    let generatedColumn = 0
+    for (const segmentText of lineText.split(',')) {
+      if (!segmentText) continue
+      const values = decodeVlq(segmentText)
+      generatedColumn += values[0] || 0
+      if (values.length >= 4) {
+        sourceIndex += values[1]
+        sourceLine += values[2]
+        sourceColumn += values[3]
+        segments.push([generatedColumn, sourceIndex, sourceLine, sourceColumn])
+      }
+    }
+    lines.push(segments)
+  }
+  return lines
+}
+
+function normalizeMap(map: unknown): RawSourceMap | null {
+  if (!map) return null
+  try {
+    const parsed = typeof map === 'string' ? JSON.parse(map) : map
+    if (parsed && typeof parsed.mappings === 'string') return parsed as RawSourceMap
+  } catch (e) {
+    console.debug('[sourceMaps] Ignoring unparsable source map', e)
+  }
+  return null
+}
+
+function getOrCreate(filename: string): RegisteredModule {
+  let entry = modules.get(filename)
+  if (!entry) {
+    entry = { filename, lineOffset: 0, urls: [] }
+    modules.set(filename, entry)
+  }
+  return entry
+}
+
+/**
+ * Append a source map to transpiled code as an inline data URL comment
+ * @param code Transpiled code
+ * @param map Source map (JSON string or object) from the transpiler
+ */
+export function appendInlineSourceMap(code: string, map: unknown): string {
+  const parsed = normalizeMap(map)
+  if (!parsed) return code
+  return `${code}\n${INLINE_MAP_PREFIX}${encodeURIComponent(JSON.stringify(parsed))}`
+}
+
+/**
+ * Read an inline source map previously added by appendInlineSourceMap
+ */
+export function extractInlineSourceMap(code: string): RawSourceMap | null {
+  const index = code.lastIndexOf(INLINE_MAP_PREFIX)
+  if (index < 0) return null
+  const encoded = code.slice(index + INLINE_MAP_PREFIX.length).split('\n')[0].trim()
+  try {
+    return normalizeMap(decodeURIComponent(encoded))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Record the original source and transpiled output of a hook module
+ * @param filename Module path (e.g. /hooks/client/get-client.jsx)
+ * @param source Original source as fetched from the peer
+ * @param transpiled Transpiled output; its inline source map is extracted if present
+ */
+export function registerModuleSource(filename: string, source: string, transpiled?: string): void {
+  const entry = getOrCreate(filename)
+  entry.source = source
+  if (transpiled !== undefined) {
+    entry.transpiled = transpiled
+    entry.map = extractInlineSourceMap(transpiled)
+    entry.decoded = entry.map ? decodeMappings(entry.map.mappings) : undefined
+  }
+}
+
+/**
+ * Record how a module was executed so stack frames can be matched to it
+ * @param filename Module path
+ * @param options.lineOffset Number of lines the executor placed before the module code
+ * @param options.url Blob or fetch URL that may appear in stack frames instead of the filename
+ */
+export function registerModuleExecution(filename: string, options: { lineOffset?: number; url?: string }): void {
+  const entry = getOrCreate(filename)
+  entry.lineOffset = options.lineOffset || 0
+  if (options.url && !entry.urls.includes(options.url)) entry.urls.push(options.url)
+}
+
+/**
+ * Forget everything recorded about loaded modules
+ */
+export function clearSourceRegistry(): void {
+  modules.clear()
+}
+
+/**
+ * Parse stack frame locations from Chrome/V8, Firefox/Safari and Hermes stack strings
+ */
+function parseStackFrames(stack: string | string[]): StackFrame[] {
+  const lines = Array.isArray(stack) ? stack : stack.split('\n')
+  const frames: StackFrame[] = []
+  for (const raw of lines) {
+    const match = String(raw).trim().match(/((?:blob:)?(?:[a-z]+:\/\/)?[^\s()@]+?):(\d+):(\d+)\)?$/i)
+    if (match) frames.push({ file: match[1], line: Number(match[2]), column: Number(match[3]) })
+  }
+  return frames
+}
+
+function findModuleForFile(file: string): RegisteredModule | null {
+  const direct = modules.get(file)
+  if (direct) return direct
+  for (const entry of modules.values()) {
+    if (entry.urls.includes(file)) return entry
+  }
+  for (const entry of modules.values()) {
+    if (file.endsWith(entry.filename)) return entry
+  }
+  return null
+}
+
+/**
+ * Build numbered lines around a 1-based line of source
+ */
+export function buildCodeExcerpt(source: string, line: number, contextLines: number = 3): SourceExcerptLine[] {
+  const lines = source.split('\n')
+  const start = Math.max(1, line - contextLines)
+  const end = Math.min(lines.length, line + contextLines)
+  const excerpt: SourceExcerptLine[] = []
+  for (let n = start; n <= end; n++) {
+    excerpt.push({ line: n, text: lines[n - 1], highlight: n === line })
+  }
+  return excerpt
+}
+
+/**
+ * Map a generated position (1-based line and column, as in stack traces) to the original source
+ */
+function mapPosition(entry: RegisteredModule, line: number, column: number, contextLines: number): SourceLocation | null {
+  const generatedLine = line - entry.lineOffset
+  if (generatedLine < 1) return null
+
+  if (entry.decoded && entry.map) {
+    const segments = entry.decoded[generatedLine - 1] || []
+    let best: number[] | null = null
+    for (const segment of segments) {
+      if (segment[0] <= column - 1) best = segment
+      else break
+    }
+    best = best || segments[0] || null
+    if (best) {
+      const originalLine = best[2] + 1
+      const source = entry.map.sourcesContent?.[best[1]] ?? entry.source
+      return {
+        filename: entry.filename,
+        line: originalLine,
+        column: best[3] + 1,
+        original: true,
+        excerpt: source ? buildCodeExcerpt(source, originalLine, contextLines) : [],
+      }
+    }
+  }
+
+  // No mapping: report the position in the transpiled output
+  const generated = entry.transpiled ?? entry.source
+  return {
+    filename: entry.filename,
+    line: generatedLine,
+    column,
+    original: !entry.transpiled,
+    excerpt: generated ? buildCodeExcerpt(generated, generatedLine, contextLines) : [],
+  }
+}
+
+/**
+ * Resolve where an error happened in hook source code
+ * @param error Error (or diagnostics object with message/stack) thrown by a hook
+ * @param contextLines Lines of context on either side of the failing line
+ * @returns The first location inside a registered hook module, or null
+ */
+export function resolveErrorLocation(error: unknown, contextLines: number = 3): SourceLocation | null {
+  if (!error) return null
+  const err = error as { message?: unknown; stack?: unknown; lineNumber?: unknown; columnNumber?: unknown; fileName?: unknown }
+
+  const stack = err.stack
+  if (typeof stack === 'string' || Array.isArray(stack)) {
+    for (const frame of parseStackFrames(stack as string | string[])) {
+      const entry = findModuleForFile(frame.file)
+      if (!entry) continue
+      const location = mapPosition(entry, frame.line, frame.column, contextLines)
+      if (location) return location
+    }
+  }
+
+  // Firefox reports syntax errors from new Function() via fileName/lineNumber
+  if (typeof err.fileName === 'string' && typeof err.lineNumber === 'number') {
+    const entry = findModuleForFile(err.fileName)
+    if (entry) {
+      const location = mapPosition(entry, err.lineNumber, Number(err.columnNumber) || 1, contextLines)
+      if (location) return location
+    }
+  }
+
+  // Loader errors (see loaderErrors.ts) wrap what the hook threw; its stack has the real location
+  const cause = (error as { cause?: unknown }).cause
+  if (cause && cause !== error) {
+    const location = resolveErrorLocation(cause, contextLines)
+    if (location) return location
+  }
+
+  // Transpiler errors name the file and an original line in the message
+  const message = typeof err.message === 'string' ? err.message : typeof error === 'string' ? error : ''
+  const fileMatch = message.match(/(\/[\w./-]+\.(?:jsx?|tsx?|mjs)):(?:\s|(\d+)(?::(\d+))?)/)
+  if (fileMatch) {
+    const entry = modules.get(fileMatch[1])
+    const lineMatch = fileMatch[2]
+      ? [fileMatch[2], fileMatch[3]]
+      : (message.match(/line (\d+)(?:[,:]?\s*col(?:umn)?\s*(\d+))?/i) || []).slice(1)
+    const line = Number(lineMatch[0])
+    if (entry?.source && line > 0) {
+      return {
+        filename: entry.filename,
+        line,
+        column: Number(lineMatch[1]) || 1,
+        original: true,
+        excerpt: buildCodeExcerpt(entry.source, line, contextLines),
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Rewrite stack frames that point into hook modules to their original locations
+ */
+export function mapStackTrace(stack: string): string {
+  return stack
+    .split('\n')
+    .map((raw) => {
+      const frame = parseStackFrames([raw])[0]
+      if (!frame) return raw
+      const entry = findModuleForFile(frame.file)
+      if (!entry) return raw
+      const location = mapPosition(entry, frame.line, frame.column, 0)
+      if (!location) return raw
+      return raw.replace(`${frame.file}:${frame.line}:${frame.column}`, `${location.filename}:${location.line}:${location.column}`)
+    })
+    .join('\n')
+}
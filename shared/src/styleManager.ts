@@ -6,6 +6,8 @@ let syncInterval: any | null = null
 let lastSnapshotJson = ''
 let debounceTimer: any | null = null
 let forceRenderNext = false
+// Stylesheets imported by hook modules, keyed by module path
+const moduleCss = new Map<string, string>()
 function createEmitter() {
   if (typeof window !== 'undefined' && typeof (globalThis as any).EventTarget !== 'undefined') {
     return new (globalThis as any).EventTarget()
@@ -47,7 +49,15 @@ export function renderCssIntoDom() {
   if (isDevMode) {
     console.debug('[styleManager] renderCssIntoDom', { renderer: hasRenderer, cssLength: css?.length ?? 0 })
   }
-  el.textContent = css
+  el.textContent = moduleCss.size ? [css, ...moduleCss.values()].join('\n') : css
+}
+
+/**
+ * Apply a stylesheet imported by a hook module; re-importing the same path replaces it
+ */
+export function registerModuleCss(id: string, css: string) {
+  moduleCss.set(id, css)
+  requestRender()
 }
 
 export function requestRender() {
@@ -137,4 +147,4 @@ export function onChange(cb: (ev?: Event) => void) {
   return () => emitter.removeEventListener('change', h)
 }
 
-export default { ensureStyleElement, renderCssIntoDom, tearDownStyleElement, startAutoSync, stopAutoSync, requestRender, onChange, wrapCreateElement, useStyleManager }
+export default { ensureStyleElement, renderCssIntoDom, registerModuleCss, tearDownStyleElement, startAutoSync, stopAutoSync, requestRender, onChange, wrapCreateElement, useStyleManager }
@@ -0,0 +1,70 @@
+/**
+ * Tests for the persistent transpile cache (keying and LRU eviction)
+ */
+
+import { TranspileCache, type TranspileCacheStorage } from './transpileCache'
+
+describe('TranspileCache', () => {
+    let backing: Map<string, string>
+    let storage: TranspileCacheStorage
+
+    beforeEach(() => {
+        backing = new Map()
+        storage = {
+            getItem: async (key) => backing.get(key) ?? null,
+            setItem: async (key, value) => { backing.set(key, value) },
+            removeItem: async (key) => { backing.delete(key) },
+        }
+        ;(globalThis as any).__hook_transpiler_version = '1.0.0'
+    })
+
+    afterAll(() => {
+        delete (globalThis as any).__hook_transpiler_version
+    })
+
+    test('round-trips output and survives a new instance', async () => {
+        const cache = new TranspileCache({ storage })
+        await cache.set('<div/>', '/hooks/a.jsx', 'out-a')
+        expect(await cache.get('<div/>', '/hooks/a.jsx')).toBe('out-a')
+
+        const reopened = new TranspileCache({ storage })
+        expect(await reopened.get('<div/>', '/hooks/a.jsx')).toBe('out-a')
+        expect(await reopened.get('<span/>', '/hooks/a.jsx')).toBeNull()
+    })
+
+    test('misses when the transpiler version changes or is unknown', async () => {
+        const cache = new TranspileCache({ storage })
+        await cache.set('src', '/hooks/a.jsx', 'out')
+        ;(globalThis as any).__hook_transpiler_version = '2.0.0'
+        expect(await cache.get('src', '/hooks/a.jsx')).toBeNull()
+        delete (globalThis as any).__hook_transpiler_version
+        expect(cache.keyFor('src', '/hooks/a.jsx')).toBeNull()
+    })
+
+    test('serves output only from the backends asked for, most preferred first', async () => {
+        const cache = new TranspileCache({ storage })
+        await cache.set('src', '/hooks/a.jsx', 'from-server', 'server')
+        expect(await cache.get('src', '/hooks/a.jsx', ['wasm'])).toBeNull()
+        expect(await cache.get('src', '/hooks/a.jsx', ['wasm', 'server'])).toBe('from-server')
+
+        await cache.set('src', '/hooks/a.jsx', 'from-wasm', 'wasm')
+        expect(await cache.get('src', '/hooks/a.jsx', ['wasm', 'server'])).toBe('from-wasm')
+    })
+
+    test('evicts least recently used entries past the limit', async () => {
+        const cache = new TranspileCache({ storage, maxEntries: 2 })
+        await cache.set('a', '/a.js', 'A')
+        await cache.set('b', '/b.js', 'B')
+        // Touch "a" so "b" becomes the eviction candidate
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        expect(await cache.get('a', '/a.js')).toBe('A')
+        await cache.set('c', '/c.js', 'C')
+
+        expect(await cache.get('b', '/b.js')).toBeNull()
+        expect(await cache.get('a', '/a.js')).toBe('A')
+        expect((await cache.stats()).entries).toBe(2)
+
+        await cache.clear()
+        expect((await cache.stats()).entries).toBe(0)
+    })
+})
@@ -0,0 +1,247 @@
+/**
+ * Persistent Transpile Cache for Relay Hooks
+ *
+ * Stores transpiler output keyed by a hash of the module source, the backend
+ * that produced it (see transpilerChain.ts) and the transpiler version
+ * (`__hook_transpiler_version`), so unchanged modules skip transpileCode
+ * entirely across reloads, and output of a fallback backend is never served
+ * where another backend's would be expected. Storage is platform-provided
+ * (IndexedDB on web, AsyncStorage on React Native); this module owns the
+ * keying, size limits and LRU eviction.
+ */
+
+/**
+ * Minimal async key/value storage (AsyncStorage-compatible)
+ */
+export interface TranspileCacheStorage {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+}
+
+export interface TranspileCacheOptions {
+  storage: TranspileCacheStorage
+  /** Key prefix used for every stored record (default: 'relay_transpile:') */
+  prefix?: string
+  /** Maximum number of cached modules (default: 500) */
+  maxEntries?: number
+  /** Maximum total size of cached output in characters (default: 10MB) */
+  maxBytes?: number
+}
+
+export interface TranspileCacheStats {
+  entries: number
+  bytes: number
+  maxEntries: number
+  maxBytes: number
+  hits: number
+  misses: number
+}
+
+interface IndexEntry {
+  key: string
+  size: number
+  lastUsed: number
+}
+
+/** Backend recorded for output of a HookLoader's custom transpiler */
+export const CUSTOM_TRANSPILER_BACKEND = 'custom'
+
+const DEFAULT_MAX_ENTRIES = 500
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), returned as hex
+ */
+export function hashSource(input: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+/**
+ * Current transpiler identity, or null when it can't be determined.
+ * Output is only cached when the version is known so a transpiler upgrade
+ * never serves stale code.
+ */
+function currentTranspilerVersion(): string | null {
+  const g = globalThis as any
+  const version = g.__hook_transpiler_version
+  return version ? String(version) : null
+}
+
+export class TranspileCache {
+  private storage: TranspileCacheStorage
+  private prefix: string
+  private maxEntries: number
+  private maxBytes: number
+  private index: Map<string, IndexEntry> | null = null
+  private indexLoad: Promise<Map<string, IndexEntry>> | null = null
+  private indexFlush: ReturnType<typeof setTimeout> | null = null
+  private hits = 0
+  private misses = 0
+
+  constructor(options: TranspileCacheOptions) {
+    this.storage = options.storage
+    this.prefix = options.prefix || 'relay_transpile:'
+    this.maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES
+    this.maxBytes = options.maxBytes || DEFAULT_MAX_BYTES
+  }
+
+  /**
+   * Build the cache key for a module, or null if caching is unavailable
+   * @param source Untranspiled module source
+   * @param filename Module path (part of the key: transpilers embed it in output)
+   * @param backend Backend that produces the output
+   */
+  keyFor(source: string, filename: string, backend: string = CUSTOM_TRANSPILER_BACKEND): string | null {
+    const version = currentTranspilerVersion()
+    if (!version) return null
+    return `${hashSource(`${filename}\u0000${source}`)}:${source.length}:${backend}@${version}`
+  }
+
+  /**
+   * Look up previously transpiled output
+   * @param backends Backends whose output may be served, most preferred first
+   *   (see TranspilerChain.servableBackends)
+   * @returns Cached output, or null on miss
+   */
+  async get(source: string, filename: string, backends: string[] = [CUSTOM_TRANSPILER_BACKEND]): Promise<string | null> {
+    const keys = backends.map((backend) => this.keyFor(source, filename, backend))
+    if (keys.some((k) => !k)) return null
+    try {
+      const index = await this.loadIndex()
+      const key = (keys as string[]).find((k) => index.has(k))
+      const entry = key ? index.get(key) : undefined
+      if (!key || !entry) {
+        this.misses++
+        return null
+      }
+      const code = await this.storage.getItem(this.prefix + key)
+      if (code === null) {
+        // Record evicted by the platform; forget it
+        index.delete(key)
+        this.scheduleIndexFlush()
+        this.misses++
+        return null
+      }
+      entry.lastUsed = Date.now()
+      this.scheduleIndexFlush()
+      this.hits++
+      return code
+    } catch (e) {
+      console.warn('[TranspileCache] Read failed', e)
+      return null
+    }
+  }
+
+  /**
+   * Store transpiled output, evicting least-recently-used entries past the limits
+   * @param backend Backend that produced the output
+   */
+  async set(source: string, filename: string, code: string, backend: string = CUSTOM_TRANSPILER_BACKEND): Promise<void> {
+    const key = this.keyFor(source, filename, backend)
+    if (!key) return
+    // A single module larger than a quarter of the budget would churn the whole cache
+    if (code.length > this.maxBytes / 4) return
+    try {
+      const index = await this.loadIndex()
+      await this.storage.setItem(this.prefix + key, code)
+      index.set(key, { key, size: code.length, lastUsed: Date.now() })
+      await this.evict(index)
+      await this.writeIndex()
+    } catch (e) {
+      console.warn('[TranspileCache] Write failed', e)
+    }
+  }
+
+  /**
+   * Remove every cached module
+   */
+  async clear(): Promise<void> {
+    const index = await this.loadIndex()
+    const keys = Array.from(index.keys())
+    index.clear()
+    await Promise.all(keys.map((key) => this.storage.removeItem(this.prefix + key).catch(() => { })))
+    await this.writeIndex()
+    this.hits = 0
+    this.misses = 0
+  }
+
+  async stats(): Promise<TranspileCacheStats> {
+    const index = await this.loadIndex()
+    let bytes = 0
+    index.forEach((entry) => { bytes += entry.size })
+    return {
+      entries: index.size,
+      bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    }
+  }
+
+  private async evict(index: Map<string, IndexEntry>): Promise<void> {
+    let bytes = 0
+    index.forEach((entry) => { bytes += entry.size })
+    if (index.size <= this.maxEntries && bytes <= this.maxBytes) return
+
+    const byAge = Array.from(index.values()).sort((a, b) => a.lastUsed - b.lastUsed)
+    const removed: string[] = []
+    for (const entry of byAge) {
+      if (index.size <= this.maxEntries && bytes <= this.maxBytes) break
+      index.delete(entry.key)
+      bytes -= entry.size
+      removed.push(entry.key)
+    }
+    await Promise.all(removed.map((key) => this.storage.removeItem(this.prefix + key).catch(() => { })))
+  }
+
+  private loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) return Promise.resolve(this.index)
+    if (!this.indexLoad) {
+      this.indexLoad = (async () => {
+        const index = new Map<string, IndexEntry>()
+        try {
+          const raw = await this.storage.getItem(`${this.prefix}index`)
+          const parsed = raw ? JSON.parse(raw) : []
+          if (Array.isArray(parsed)) {
+            for (const entry of parsed) {
+              if (entry && typeof entry.key === 'string') index.set(entry.key, entry)
+            }
+          }
+        } catch (e) {
+          console.warn('[TranspileCache] Failed to read index, starting empty', e)
+        }
+        this.index = index
+        return index
+      })()
+    }
+    return this.indexLoad
+  }
+
+  private scheduleIndexFlush(): void {
+    if (this.indexFlush) return
+    this.indexFlush = setTimeout(() => {
+      this.indexFlush = null
+      this.writeIndex().catch((e) => console.warn('[TranspileCache] Index flush failed', e))
+    }, 1000)
+  }
+
+  private async writeIndex(): Promise<void> {
+    if (this.indexFlush) {
+      clearTimeout(this.indexFlush)
+      this.indexFlush = null
+    }
+    const entries = this.index ? Array.from(this.index.values()) : []
+    await this.storage.setItem(`${this.prefix}index`, JSON.stringify(entries))
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for the transpiler strategy chain and the setting it honors
+ */
+
+import { TranspileError } from './loaderErrors'
+import { LoaderTrace } from './loaderTrace'
+import { HookLoader, type HookContext, type LoaderDiagnostics, type ModuleLoader } from './runtimeLoader'
+import { TranspilerChain, readTranspilerSetting, simpleJsxBackend, type TranspilerBackend, type TranspilerSetting } from './transpilerChain'
+
+function backend(name: TranspilerBackend['name'], behavior: 'ok' | 'fail' | 'missing', extra: Partial<TranspilerBackend> = {}): TranspilerBackend {
+    return {
+        name,
+        isAvailable: () => behavior !== 'missing',
+        transpile: jest.fn(async (code: string, filename: string) => {
+            if (behavior === 'fail') throw new TranspileError(`${filename}: ${name} failed`, { filename })
+            return { code: `/* ${name} */ ${code}` }
+        }),
+        ...extra,
+    }
+}
+
+describe('TranspilerChain', () => {
+    const chainWith = (backends: TranspilerBackend[], setting: TranspilerSetting = 'client-only', server = backend('server', 'ok')) =>
+        new TranspilerChain({ backends, server, setting: () => setting })
+
+    test('uses the first available backend and records what it skipped', async () => {
+        const chain = chainWith([backend('wasm', 'missing'), backend('swc', 'ok'), backend('babel', 'ok')])
+        const result = await chain.transpile('x', '/hooks/a.jsx')
+        expect(result.backend).toBe('swc')
+        expect(result.code).toBe('/* swc */ x\n//# sourceURL=/hooks/a.jsx')
+        expect(result.attempts.map((a) => `${a.backend}:${a.outcome}`)).toEqual(['wasm:skipped', 'swc:ok'])
+    })
+
+    test('falls back on failure and loads lazy backends on demand', async () => {
+        const prepare = jest.fn(async () => true)
+        const chain = chainWith([backend('wasm', 'fail'), backend('babel', 'missing', { prepare, isAvailable: () => false })])
+        const result = await chain.transpile('x', '/hooks/a.jsx')
+        expect(prepare).toHaveBeenCalled()
+        expect(result.backend).toBe('babel')
+        expect(result.attempts[0]).toMatchObject({ backend: 'wasm', outcome: 'failed', error: 'TranspileError: /hooks/a.jsx: wasm failed' })
+    })
+
+    test('the setting decides whether and when the server is used', async () => {
+        const server = backend('server', 'ok')
+        expect((await chainWith([backend('wasm', 'fail')], 'allow-server-fallback', server).transpile('x', 'a.jsx')).backend).toBe('server')
+        expect((await chainWith([backend('wasm', 'ok')], 'server-only', server).transpile('x', 'a.jsx')).backend).toBe('server')
+        await expect(chainWith([backend('wasm', 'fail')], 'client-only', server).transpile('x', 'a.jsx')).rejects.toThrow('wasm failed')
+        expect(server.transpile).toHaveBeenCalledTimes(2)
+    })
+
+    test('cached output is servable from preferred backends up to the first loaded one', () => {
+        const chain = chainWith([backend('wasm', 'missing'), backend('swc', 'ok'), backend('babel', 'ok')], 'allow-server-fallback')
+        expect(chain.servableBackends()).toEqual(['wasm', 'swc'])
+        expect(chainWith([backend('wasm', 'ok')], 'server-only').servableBackends()).toEqual(['server'])
+    })
+
+    test('simpleJsx is not used for code a real parser rejected', async () => {
+        const chain = chainWith([backend('wasm', 'fail'), simpleJsxBackend()])
+        const err = await chain.transpile('<div>', 'a.jsx').catch((e) => e)
+        expect(err).toBeInstanceOf(TranspileError)
+        expect(err.attempts.map((a: any) => `${a.backend}:${a.outcome}`)).toEqual(['wasm:failed', 'simpleJsx:skipped'])
+
+        const alone = await chainWith([backend('wasm', 'missing'), simpleJsxBackend()]).transpile('export default () => <p>hi</p>', 'a.jsx')
+        expect(alone.backend).toBe('simpleJsx')
+        expect(alone.code).toContain('React.createElement("p", null, "hi")')
+    })
+
+    test('several failures are summarized in one TranspileError', async () => {
+        const chain = chainWith([backend('wasm', 'fail')], 'allow-server-fallback', backend('server', 'fail'))
+        await expect(chain.transpile('x', 'a.jsx')).rejects.toThrow(/no transpiler succeeded \(wasm: .*wasm failed; server: .*server failed\)/)
+    })
+
+    test('reads the setting from the globals the web settings write', () => {
+        const g = globalThis as any
+        expect(readTranspilerSetting()).toBe('client-only')
+        g.__allowServerTranspile = true
+        expect(readTranspilerSetting()).toBe('allow-server-fallback')
+        g.__forceServerTranspile = true
+        expect(readTranspilerSetting()).toBe('server-only')
+        delete g.__allowServerTranspile
+        delete g.__forceServerTranspile
+    })
+})
+
+describe('HookLoader - transpiler backend in diagnostics', () => {
+    test('records the backend for the hook and on the trace', async () => {
+        ;(globalThis as any).fetch = jest.fn(async () => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: { get: () => 'text/javascript' },
+            text: async () => 'export default () => <p />',
+        }))
+        const diagnostics: LoaderDiagnostics[] = []
+        const trace = new LoaderTrace()
+        const moduleLoader: ModuleLoader = { executeModule: jest.fn(async () => ({ default: () => 'ok' })) }
+        const loader = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async (code) => ({ code, backend: 'babel', attempts: [{ backend: 'babel', outcome: 'ok' }] }),
+            trace,
+        })
+        await loader.loadAndExecuteHook('/hooks/client/get-client.jsx', {} as HookContext)
+        expect(trace.getSpans().find((s) => s.phase === 'transform')?.backend).toBe('babel')
+
+        const failing = new HookLoader({
+            host: 'peer.local',
+            protocol: 'http',
+            moduleLoader,
+            transpiler: async () => { throw new TranspileError('bad', { attempts: [{ backend: 'wasm', outcome: 'failed', error: 'bad' }] }) },
+            onDiagnostics: (d) => diagnostics.push(d),
+        })
+        await expect(failing.loadAndExecuteHook('/hooks/client/get-client.jsx', {} as HookContext)).rejects.toThrow('bad')
+        expect(diagnostics.at(-1)?.transpiler?.attempts?.[0]).toMatchObject({ backend: 'wasm', outcome: 'failed' })
+    })
+})
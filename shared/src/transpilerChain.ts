@@ -0,0 +1,334 @@
+/**
+ * Transpiler Strategy Chain
+ *
+ * Hook sources are transpiled by the first backend in a preference list that
+ * is loaded and succeeds: the WASM hook-transpiler, SWC, Babel standalone,
+ * the dependency-free simpleJsx transformer, and the relay server's
+ * /api/transpile endpoint. The Settings choice decides where the server sits:
+ *
+ *   client-only            wasm → swc → babel → simpleJsx
+ *   allow-server-fallback  wasm → swc → babel → simpleJsx → server
+ *   server-only            server
+ *
+ * Every attempt is reported with the result so diagnostics can show which
+ * backend produced a module and why the ones before it were passed over.
+ */
+
+import { TranspileError } from './loaderErrors'
+import { appendInlineSourceMap } from './sourceMaps'
+import { transformJsxToJs } from './simpleJsx'
+import type { TransformResult } from './runtimeLoader'
+
+export type TranspilerBackendName = 'wasm' | 'swc' | 'babel' | 'simpleJsx' | 'server'
+
+export type TranspilerSetting = 'client-only' | 'allow-server-fallback' | 'server-only'
+
+export interface TranspilerBackend {
+  name: TranspilerBackendName
+  /** Whether the backend can run now without loading anything */
+  isAvailable(): boolean
+  /** Load the backend on first use; resolves false when it cannot be loaded */
+  prepare?(): Promise<boolean>
+  /** Only used when no earlier backend ran: a partial transformer must not accept code a real parser rejected */
+  lastResort?: boolean
+  transpile(code: string, filename: string): Promise<TransformResult>
+}
+
+export interface TranspileAttempt {
+  backend: TranspilerBackendName
+  /** `skipped` when the backend is not loaded and could not be, or is a last resort after a failure */
+  outcome: 'ok' | 'failed' | 'skipped'
+  error?: string
+  durationMs?: number
+}
+
+/**
+ * Transpiled code (source map and sourceURL inline) with the backend that produced it
+ */
+export interface ChainTranspileResult {
+  code: string
+  backend: TranspilerBackendName
+  attempts: TranspileAttempt[]
+}
+
+export interface TranspilerChainOptions {
+  /** Client-side backends in preference order (default: wasm, swc, babel, simpleJsx from globals) */
+  backends?: TranspilerBackend[]
+  server?: TranspilerBackend
+  /** Current Settings choice, read before every transpile (default: readTranspilerSetting) */
+  setting?: () => TranspilerSetting
+}
+
+/**
+ * The setting as mirrored to globals by the web client's transpiler settings
+ */
+export function readTranspilerSetting(): TranspilerSetting {
+  const g: any = typeof globalThis !== 'undefined' ? globalThis : {}
+  if (g.__forceServerTranspile) return 'server-only'
+  if (g.__allowServerTranspile) return 'allow-server-fallback'
+  return 'client-only'
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+function messageOf(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+export class TranspilerChain {
+  private backends: TranspilerBackend[]
+  private server: TranspilerBackend
+  private setting: () => TranspilerSetting
+
+  constructor(options: TranspilerChainOptions = {}) {
+    this.backends = options.backends || [wasmBackend(), swcBackend(), babelBackend(), simpleJsxBackend()]
+    this.server = options.server || serverBackend()
+    this.setting = options.setting || readTranspilerSetting
+  }
+
+  /**
+   * Backends tried for a setting, in order
+   */
+  backendsFor(setting: TranspilerSetting): TranspilerBackend[] {
+    if (setting === 'server-only') return [this.server]
+    if (setting === 'allow-server-fallback') return [...this.backends, this.server]
+    return [...this.backends]
+  }
+
+  /**
+   * Backends whose cached output may stand in for a transpile now: in
+   * preference order, up to the first one that is loaded (it would run, so
+   * output of backends after it is not what a transpile would produce)
+   */
+  servableBackends(): TranspilerBackendName[] {
+    const backends = this.backendsFor(this.setting())
+    const loaded = backends.findIndex((b) => b.isAvailable())
+    return (loaded >= 0 ? backends.slice(0, loaded + 1) : backends).map((b) => b.name)
+  }
+
+  /**
+   * Transpile with the first backend that is loaded and succeeds
+   * @throws TranspileError listing every attempt when none does
+   */
+  async transpile(code: string, filename: string): Promise<ChainTranspileResult> {
+    const attempts: TranspileAttempt[] = []
+    const errors: unknown[] = []
+    for (const backend of this.backendsFor(this.setting())) {
+      if (backend.lastResort && attempts.some((a) => a.outcome === 'failed')) {
+        attempts.push({ backend: backend.name, outcome: 'skipped' })
+        continue
+      }
+      const start = now()
+      if (!backend.isAvailable() && !(backend.prepare && await backend.prepare().catch(() => false))) {
+        attempts.push({ backend: backend.name, outcome: 'skipped' })
+        continue
+      }
+      try {
+        const result = await backend.transpile(code, filename)
+        attempts.push({ backend: backend.name, outcome: 'ok', durationMs: now() - start })
+        return {
+          code: appendInlineSourceMap(`${result.code}\n//# sourceURL=${filename}`, result.sourceMaps),
+          backend: backend.name,
+          attempts,
+        }
+      } catch (err) {
+        errors.push(err)
+        attempts.push({ backend: backend.name, outcome: 'failed', error: messageOf(err), durationMs: now() - start })
+        console.warn(`[TranspilerChain] ${backend.name} failed for ${filename}; trying the next backend`, err)
+      }
+    }
+    // A single real failure (e.g. a syntax error) is more useful as-is than wrapped
+    if (errors.length === 1 && errors[0] instanceof TranspileError) {
+      errors[0].attempts = attempts
+      throw errors[0]
+    }
+    const summary = attempts.map((a) => `${a.backend}: ${a.outcome === 'skipped' ? 'skipped' : a.error}`).join('; ')
+    throw new TranspileError(`${filename}: no transpiler succeeded (${summary || 'none configured'})`, {
+      filename,
+      transpilerVersion: (globalThis as any).__hook_transpiler_version,
+      // The first backend's error usually carries the best location
+      cause: errors[0],
+      attempts,
+    })
+  }
+}
+
+/**
+ * The Rust hook-transpiler compiled to WASM, exposed by the client as globalThis.__hook_transpile_jsx
+ */
+export function wasmBackend(): TranspilerBackend {
+  return {
+    name: 'wasm',
+    isAvailable: () => typeof (globalThis as any).__hook_transpile_jsx === 'function',
+    async transpile(code, filename) {
+      const g: any = globalThis
+      const version = g.__hook_transpiler_version || 'unknown'
+      const out: any = await g.__hook_transpile_jsx(code, filename)
+
+      // Result object: { code: string | null, map: string | null, error: string | null }
+      let transpiled: string
+      let map: unknown = null
+      if (typeof out === 'object' && out !== null) {
+        if (out.error) {
+          g.__lastTranspiledCode = null
+          g.__lastTranspileError = `${filename}: ${out.error} (v${version})`
+          throw new TranspileError(`${filename}: ${out.error} (v${version})`, { filename, transpilerVersion: version })
+        }
+        if (!out.code) {
+          throw new TranspileError(`HookTranspiler returned empty code for ${filename}`, { filename, transpilerVersion: version })
+        }
+        transpiled = out.code
+        map = out.map
+      } else if (typeof out === 'string') {
+        // Legacy string return
+        transpiled = out
+      } else {
+        throw new TranspileError(`HookTranspiler returned unexpected type: ${typeof out}`, { filename, transpilerVersion: version })
+      }
+
+      if (transpiled.startsWith('TranspileError:')) {
+        g.__lastTranspiledCode = transpiled
+        g.__lastTranspileError = `${transpiled} (v${version})`
+        throw new TranspileError(`${filename}: ${transpiled.slice('TranspileError:'.length).trim()} (v${version})`, { filename, transpilerVersion: version })
+      }
+      // Kept for debugging from the console
+      g.__lastTranspiledCode = transpiled
+      if (/<[A-Z]/.test(transpiled)) {
+        console.warn(`[TranspilerChain] wasm output for ${filename} still looks like JSX; see window.__lastTranspiledCode`)
+      }
+      // The Rust transpiler already rewrites dynamic import() to __hook_import()
+      return { code: transpiled, sourceMaps: typeof map === 'string' ? map : map ? JSON.stringify(map) : undefined }
+    },
+  }
+}
+
+/**
+ * The subset of @swc/wasm-web used here
+ */
+export interface SwcLike {
+  transform(code: string, options: Record<string, unknown>): Promise<{ code: string; map?: string }>
+}
+
+/**
+ * The subset of @babel/standalone used here
+ */
+export interface BabelLike {
+  transform(code: string, options: Record<string, unknown>): { code?: string | null; map?: unknown }
+}
+
+// Classic runtime, like the wasm transpiler's React.createElement output
+const JSX_PRAGMA = { pragma: 'React.createElement', pragmaFrag: 'React.Fragment' }
+
+const isTypeScript = (filename: string) => /\.tsx?$/.test(filename)
+
+/**
+ * SWC; uses globalThis.__swc (see the web client's swcBridge) or loads it with `load`
+ */
+export function swcBackend(load?: () => Promise<SwcLike | null | undefined>): TranspilerBackend {
+  let swc: SwcLike | null = null
+  const current = () => swc || ((globalThis as any).__swc as SwcLike | undefined) || null
+  return {
+    name: 'swc',
+    isAvailable: () => typeof current()?.transform === 'function',
+    prepare: load && (async () => {
+      swc = (await load()) || null
+      return typeof swc?.transform === 'function'
+    }),
+    async transpile(code, filename) {
+      const out = await current()!.transform(code, {
+        filename,
+        sourceMaps: true,
+        jsc: {
+          target: 'es2020',
+          parser: isTypeScript(filename) ? { syntax: 'typescript', tsx: filename.endsWith('.tsx') } : { syntax: 'ecmascript', jsx: true },
+          transform: { react: { runtime: 'classic', ...JSX_PRAGMA } },
+        },
+        module: { type: 'es6' },
+      })
+      return { code: out.code, sourceMaps: out.map }
+    },
+  }
+}
+
+/**
+ * Babel standalone; uses globalThis.Babel (script tag build) or loads it with `load`
+ */
+export function babelBackend(load?: () => Promise<BabelLike | null | undefined>): TranspilerBackend {
+  let babel: BabelLike | null = null
+  const current = () => babel || ((globalThis as any).Babel as BabelLike | undefined) || null
+  return {
+    name: 'babel',
+    isAvailable: () => typeof current()?.transform === 'function',
+    prepare: load && (async () => {
+      babel = (await load()) || null
+      return typeof babel?.transform === 'function'
+    }),
+    async transpile(code, filename) {
+      const presets: unknown[] = [['react', { runtime: 'classic', ...JSX_PRAGMA }]]
+      if (isTypeScript(filename)) presets.push(['typescript', { isTSX: filename.endsWith('.tsx'), allExtensions: true }])
+      const out = current()!.transform(code, { filename, presets, sourceMaps: true, sourceType: 'module' })
+      if (typeof out.code !== 'string') throw new TranspileError(`${filename}: Babel returned no code`, { filename })
+      return { code: out.code, sourceMaps: out.map ? JSON.stringify(out.map) : undefined }
+    },
+  }
+}
+
+/**
+ * The dependency-free transformer in simpleJsx.ts; always available, handles JSX and erasable TypeScript
+ */
+export function simpleJsxBackend(): TranspilerBackend {
+  return {
+    name: 'simpleJsx',
+    isAvailable: () => true,
+    lastResort: true,
+    async transpile(code, filename) {
+      return { code: transformJsxToJs(code, filename, JSX_PRAGMA).replace(/\n\/\/# sourceURL=.*$/, '') }
+    },
+  }
+}
+
+/**
+ * The relay server's transpile endpoint (same origin as the client)
+ */
+export function serverBackend(endpoint: string = '/api/transpile'): TranspilerBackend {
+  return {
+    name: 'server',
+    isAvailable: () => typeof fetch === 'function',
+    async transpile(code, filename) {
+      const resp = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ code, filename, to_common_js: false, source_maps: true }),
+      })
+      if (!resp.ok) {
+        const txt = await resp.text().catch(() => '')
+        throw new TranspileError(`${filename}: server transpiler returned ${resp.status} ${resp.statusText} ${txt}`, { filename, status: resp.status })
+      }
+      const data: any = await resp.json()
+      if (!data?.ok || !data?.code) {
+        throw new TranspileError(`${filename}: server transpiler failed: ${data?.diagnostics || 'unknown error'}`, { filename })
+      }
+      return {
+        code: String(data.code).replace(/\bimport\s*\(/g, 'context.helpers.loadModule('),
+        sourceMaps: data.map ? (typeof data.map === 'string' ? data.map : JSON.stringify(data.map)) : undefined,
+      }
+    },
+  }
+}
+
+let defaultChain: TranspilerChain | null = null
+
+/**
+ * The chain transpileCode() and HookLoader use when no transpiler is passed
+ */
+export function getTranspilerChain(): TranspilerChain {
+  if (!defaultChain) defaultChain = new TranspilerChain()
+  return defaultChain
+}
+
+/**
+ * Replace the default chain, e.g. to add lazily loaded SWC/Babel or read the setting from storage
+ */
+export function setTranspilerChain(chain: TranspilerChain): void {
+  defaultChain = chain
+}
@@ -1,15 +1,12 @@
 import themedStylerBridge, { loadThemesFromYamlUrl, loadThemesFromYamlText } from './themedStylerBridge'
+import { getTranspilerChain } from './transpilerChain'
 
 // Unified bridge that exposes both hook-transpiler transpile API and the themed-styler runtime bridge
 const unifiedBridge = {
-  // Transpile API: wraps global hook-transpiler function if present
+  // Transpile API: the default transpiler chain, so the server-fallback setting applies here too
   async transpile(code: string, filename?: string) {
-    const g: any = typeof globalThis !== 'undefined' ? (globalThis as any) : {}
-    const fn = g.__hook_transpile_jsx
-    if (typeof fn === 'function') {
-      return await fn(code, filename || 'module.tsx')
-    }
-    throw new Error('hook-transpiler not initialized')
+    const result = await getTranspilerChain().transpile(code, filename || 'module.tsx')
+    return result.code
   },
   getTranspilerVersion() {
     const g: any = typeof globalThis !== 'undefined' ? (globalThis as any) : {}
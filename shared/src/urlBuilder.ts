@@ -18,11 +18,13 @@ export function buildPeerUrl(host: string, path: string): string {
  * Constructs HTTP headers for relay repository requests
  * @param branch Optional branch name to include in headers
  * @param repo Optional repository name to include in headers
+ * @param commit Optional commit hash; pins the request to that commit instead of the branch head
  * @returns Headers object for fetch requests
  */
-export function buildRepoHeaders(branch?: string, repo?: string): Record<string, string> {
+export function buildRepoHeaders(branch?: string, repo?: string, commit?: string): Record<string, string> {
   const headers: Record<string, string> = {}
   if (branch) headers['x-relay-branch'] = branch
   if (repo) headers['x-relay-repo'] = repo
+  if (commit) headers['x-relay-commit'] = commit
   return headers
 }
@@ -0,0 +1,293 @@
+/**
+ * Offline store service worker
+ *
+ * Caches what the client fetches from the peers it browses (OPTIONS payloads,
+ * hook modules, markdown, data files and media) into one snapshot per
+ * host/repo/branch/commit, and answers from the newest matching snapshot when
+ * the peer cannot be reached. Responses served from a snapshot carry
+ * `x-relay-offline-snapshot` (ISO date the snapshot was last updated) and
+ * `x-relay-offline-commit` so the page can say what it is showing.
+ *
+ * Several repos and branches of one peer can be tracked at once; a request
+ * goes to the one named by its `x-relay-repo`/`x-relay-branch` headers, or
+ * the most recently tracked one of its origin.
+ *
+ * Snapshots answer only when the peer is unreachable: the fetch fails
+ * (offline, DNS, refused or reset connection) or a gateway in front of the
+ * peer says it cannot reach it (OFFLINE_STATUSES). Any other response, errors
+ * included, comes from the peer itself and is passed through.
+ *
+ * The page talks to it with postMessage (see src/services/offlineStore.ts):
+ *   { type: 'track', origin, repo, branch }   cache requests for this repo branch of the peer
+ *   { type: 'save', origin, repo, branch, paths }   keep the current snapshot and fetch `paths` into it
+ *   { type: 'remove', origin, repo, branch }   drop kept snapshots of the branch
+ *   { type: 'list' }
+ * Replies go to the first transferred port.
+ */
+
+const INDEX_CACHE = 'relay-offline-index'
+const INDEX_KEY = '/__relay_offline__/index.json'
+const SNAPSHOT_PREFIX = 'relay-offline:'
+// Snapshots the user did not keep, per origin/repo, before the oldest is dropped
+const MAX_AUTO_SNAPSHOTS = 3
+// Gateway/proxy answers for a peer it cannot reach: request timeout, bad
+// gateway, unavailable, gateway timeout, and the CDN's origin down/unreachable
+const OFFLINE_STATUSES = new Set([408, 502, 503, 504, 521, 522, 523, 524])
+
+const CACHEABLE_EXTENSIONS = /\.(jsx?|tsx?|mjs|json|ya?ml|css|md|markdown|txt|wasm|png|jpe?g|gif|webp|svg|ico|mp3|ogg|wav|mp4|webm)$/i
+const CACHEABLE_TYPES = /^(text\/|image\/|audio\/|video\/|application\/(json|javascript|wasm|x-yaml|yaml))/i
+
+/** @typedef {{ origin: string, repo?: string, branch: string, commit?: string, trackedAt: string }} Tracked */
+/** @type {{ snapshots: any[], tracked: Record<string, Tracked> } | null} */
+let index = null
+
+async function loadIndex() {
+  if (index) return index
+  try {
+    const cache = await caches.open(INDEX_CACHE)
+    const stored = await cache.match(INDEX_KEY)
+    index = stored ? await stored.json() : null
+  } catch {
+    index = null
+  }
+  if (!index || !Array.isArray(index.snapshots)) index = { snapshots: [], tracked: {} }
+  // Indexes written before tracking was per repo/branch keyed it by origin alone
+  if (!index.tracked) index.tracked = {}
+  for (const [key, tracked] of Object.entries(index.tracked)) {
+    if (tracked.origin) continue
+    delete index.tracked[key]
+    index.tracked[trackKey(key, tracked.repo, tracked.branch)] = { ...tracked, origin: key, trackedAt: '' }
+  }
+  return index
+}
+
+async function saveIndex() {
+  const cache = await caches.open(INDEX_CACHE)
+  await cache.put(INDEX_KEY, new Response(JSON.stringify(index), { headers: { 'content-type': 'application/json' } }))
+}
+
+function snapshotName(origin, repo, branch, commit) {
+  return `${SNAPSHOT_PREFIX}${origin}|${repo || ''}|${branch}|${commit}`
+}
+
+function trackKey(origin, repo, branch) {
+  return `${origin}|${repo || ''}|${branch}`
+}
+
+function isTrackedOrigin(origin) {
+  return Object.values(index.tracked).some((t) => t.origin === origin)
+}
+
+/**
+ * The tracked repo branch a request names, or the most recently tracked one of its origin
+ * @returns {Tracked | null}
+ */
+function trackedFor(request) {
+  const origin = new URL(request.url).origin
+  const repo = request.headers.get('x-relay-repo')
+  const branch = request.headers.get('x-relay-branch')
+  const matches = Object.values(index.tracked)
+    .filter((t) => t.origin === origin && (!repo || t.repo === repo) && (!branch || t.branch === branch))
+    .sort((a, b) => b.trackedAt.localeCompare(a.trackedAt))
+  return matches[0] || null
+}
+
+// Cache API only stores GET keys; other methods get their own key
+function cacheKey(request) {
+  const url = new URL(request.url)
+  url.hash = ''
+  if (request.method === 'OPTIONS') url.searchParams.set('__relay_method', 'OPTIONS')
+  return url.toString()
+}
+
+function isCacheable(request, response) {
+  if (request.method === 'OPTIONS') return true
+  if (CACHEABLE_EXTENSIONS.test(new URL(request.url).pathname)) return true
+  return !!response && CACHEABLE_TYPES.test(response.headers.get('content-type') || '')
+}
+
+/**
+ * The snapshot a request belongs to, or null when it is not for the tracked repo branch
+ */
+function targetFor(request) {
+  const tracked = trackedFor(request)
+  if (!tracked) return null
+  const commit = request.headers.get('x-relay-commit') || tracked.commit || 'unknown'
+  return { origin: tracked.origin, repo: tracked.repo, branch: tracked.branch, commit }
+}
+
+async function snapshotFor(target, { kept } = {}) {
+  const name = snapshotName(target.origin, target.repo, target.branch, target.commit)
+  let snapshot = index.snapshots.find((s) => s.cache === name)
+  const now = new Date().toISOString()
+  if (!snapshot) {
+    snapshot = { cache: name, ...target, savedAt: now, updatedAt: now, kept: false }
+    index.snapshots.push(snapshot)
+    await pruneAutoSnapshots(target.origin, target.repo)
+  }
+  snapshot.updatedAt = now
+  if (kept) snapshot.kept = true
+  return snapshot
+}
+
+async function pruneAutoSnapshots(origin, repo) {
+  const auto = index.snapshots
+    .filter((s) => s.origin === origin && s.repo === repo && !s.kept)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  for (const stale of auto.slice(MAX_AUTO_SNAPSHOTS)) {
+    index.snapshots = index.snapshots.filter((s) => s !== stale)
+    await caches.delete(stale.cache)
+  }
+}
+
+// Learn the branch heads from the peer's OPTIONS payload so files land in the right commit's snapshot
+async function noteHeads(origin, response) {
+  try {
+    const payload = await response.json()
+    const repos = Array.isArray(payload?.repos) ? payload.repos : []
+    for (const tracked of Object.values(index.tracked)) {
+      if (tracked.origin !== origin) continue
+      const repo = repos.find((r) => r.name === tracked.repo) || repos[0]
+      const head = repo?.branches?.[tracked.branch]
+      if (head) tracked.commit = head
+    }
+  } catch {
+    /* not JSON; keep the previous heads */
+  }
+}
+
+async function store(request, response) {
+  const target = targetFor(request)
+  if (!target || !response.ok || response.status !== 200) return
+  if (request.method === 'OPTIONS' && new URL(request.url).pathname === '/') {
+    await noteHeads(target.origin, response.clone())
+    target.commit = index.tracked[trackKey(target.origin, target.repo, target.branch)].commit || target.commit
+  }
+  if (!isCacheable(request, response)) return
+  const snapshot = await snapshotFor(target)
+  const cache = await caches.open(snapshot.cache)
+  await cache.put(cacheKey(request), response)
+  await saveIndex()
+}
+
+/**
+ * Answer a request from the newest snapshot that has it: the tracked commit first, kept snapshots next
+ */
+async function fromSnapshot(request) {
+  const url = new URL(request.url)
+  const tracked = trackedFor(request)
+  const pinned = request.headers.get('x-relay-commit')
+  const rank = (s) => (s.commit === (pinned || tracked?.commit) ? 2 : 0) + (s.kept ? 1 : 0)
+  const candidates = index.snapshots
+    .filter((s) => s.origin === url.origin && (!tracked || (s.repo === tracked.repo && s.branch === tracked.branch)))
+    .sort((a, b) => rank(b) - rank(a) || b.updatedAt.localeCompare(a.updatedAt))
+  const key = cacheKey(request.method === 'HEAD' ? new Request(request.url) : request)
+  for (const snapshot of candidates) {
+    const cache = await caches.open(snapshot.cache)
+    const cached = await cache.match(key)
+    if (!cached) continue
+    const headers = new Headers(cached.headers)
+    headers.set('x-relay-offline-snapshot', snapshot.updatedAt)
+    headers.set('x-relay-offline-commit', snapshot.commit)
+    const body = request.method === 'HEAD' ? null : await cached.blob()
+    return new Response(body, { status: cached.status, statusText: cached.statusText, headers })
+  }
+  return null
+}
+
+async function handle(request) {
+  await loadIndex()
+  try {
+    const response = await fetch(request)
+    // A gateway in front of an unreachable peer; treat it like a network failure
+    if (OFFLINE_STATUSES.has(response.status)) {
+      const cached = await fromSnapshot(request)
+      if (cached) return cached
+    }
+    if (request.method !== 'HEAD') await store(request, response.clone()).catch(() => { })
+    return response
+  } catch (err) {
+    const cached = await fromSnapshot(request)
+    if (cached) return cached
+    throw err
+  }
+}
+
+/**
+ * Keep the tracked branch's current snapshot and fetch `paths` (plus everything it already holds) into it
+ */
+async function save({ origin, repo, branch, paths = [] }) {
+  await track({ origin, repo, branch })
+  const head = await fetch(`${origin}/`, { method: 'OPTIONS' })
+  if (!head.ok) throw new Error(`OPTIONS ${origin}/ returned ${head.status}`)
+  const headers = { 'x-relay-branch': branch, ...(repo ? { 'x-relay-repo': repo } : {}) }
+  await store(new Request(`${origin}/`, { method: 'OPTIONS', headers }), head)
+  const tracked = index.tracked[trackKey(origin, repo, branch)]
+  const snapshot = await snapshotFor({ origin, repo, branch, commit: tracked.commit || 'unknown' }, { kept: true })
+  const cache = await caches.open(snapshot.cache)
+  const known = (await cache.keys()).map((r) => r.url).filter((url) => !url.includes('__relay_method='))
+  const urls = new Set([...known, ...paths.map((p) => new URL(p, origin).toString())])
+  const failed = []
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { headers })
+      if (response.ok) await cache.put(url, response)
+      else failed.push(url)
+    } catch {
+      failed.push(url)
+    }
+  }
+  snapshot.updatedAt = new Date().toISOString()
+  await saveIndex()
+  return { snapshot, entries: (await cache.keys()).length, failed }
+}
+
+async function track({ origin, repo, branch }) {
+  await loadIndex()
+  const key = trackKey(origin, repo, branch)
+  index.tracked[key] = { origin, repo, branch, commit: index.tracked[key]?.commit, trackedAt: new Date().toISOString() }
+  await saveIndex()
+  return index.tracked[key]
+}
+
+async function remove({ origin, repo, branch }) {
+  await loadIndex()
+  const dropped = index.snapshots.filter((s) => s.origin === origin && s.repo === repo && s.branch === branch && s.kept)
+  for (const snapshot of dropped) await caches.delete(snapshot.cache)
+  index.snapshots = index.snapshots.filter((s) => !dropped.includes(s))
+  await saveIndex()
+  return { removed: dropped.length }
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.mode === 'navigate' || !['GET', 'HEAD', 'OPTIONS'].includes(request.method) || request.headers.has('range')) return
+  const origin = new URL(request.url).origin
+  // Only peers the page asked to track; everything else (the app itself included) goes straight to the network
+  if (index && !isTrackedOrigin(origin)) return
+  event.respondWith(loadIndex().then(() => (isTrackedOrigin(origin) ? handle(request) : fetch(request))))
+})
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0]
+  const data = event.data || {}
+  const run = {
+    track: () => track(data),
+    save: () => save(data),
+    remove: () => remove(data),
+    list: async () => (await loadIndex()).snapshots,
+  }[data.type]
+  if (!run) return
+  event.waitUntil(run().then(
+    (result) => port?.postMessage({ ok: true, result }),
+    (err) => port?.postMessage({ ok: false, error: err instanceof Error ? err.message : String(err) }),
+  ))
+})
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { describeCapabilityRequest, type CapabilityDecision, type CapabilityRequest } from '@clevertree/relay-client-shared'
+import { TSDiv } from './TSDiv'
+
+interface CapabilityPromptProps {
+    scope: string
+    requests: CapabilityRequest[]
+    onDecide: (decisions: Record<string, CapabilityDecision>) => void
+}
+
+/**
+ * Asks once per host/repo whether its hooks may use the sensitive capabilities they declare
+ */
+export function CapabilityPrompt({ scope, requests, onDecide }: CapabilityPromptProps) {
+    const [selected, setSelected] = useState<Record<string, boolean>>(
+        () => Object.fromEntries(requests.map((r) => [r.key, true]))
+    )
+
+    const decideAll = (decision: CapabilityDecision) => {
+        onDecide(Object.fromEntries(requests.map((r) => [r.key, decision])))
+    }
+
+    const decideSelected = () => {
+        onDecide(Object.fromEntries(requests.map((r) => [r.key, selected[r.key] ? 'granted' : 'denied'])))
+    }
+
+    return (
+        <TSDiv className="m-4 p-4 border rounded-lg bg-[var(--bg-surface)] max-w-xl">
+            <TSDiv tag="h3" className="mt-0 text-lg font-semibold">Permissions requested</TSDiv>
+            <TSDiv tag="p" className="text-sm">
+                Hooks from <TSDiv tag="strong">{scope}</TSDiv> would like to:
+            </TSDiv>
+            <TSDiv tag="ul" className="my-3 space-y-2">
+                {requests.map((request) => (
+                    <TSDiv tag="li" key={request.key}>
+                        <TSDiv tag="label" className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!selected[request.key]}
+                                onChange={(e) => setSelected((s) => ({ ...s, [request.key]: e.target.checked }))}
+                            />
+                            {describeCapabilityRequest(request)}
+                        </TSDiv>
+                    </TSDiv>
+                ))}
+            </TSDiv>
+            <TSDiv tag="p" className="text-xs opacity-70">You can change these later in Settings.</TSDiv>
+            <TSDiv className="flex gap-2 mt-3">
+                <TSDiv tag="button" onClick={decideSelected} className="px-3 py-2 text-sm rounded-lg bg-blue-600 text-white">
+                    Allow selected
+                </TSDiv>
+                <TSDiv tag="button" onClick={() => decideAll('denied')} className="px-3 py-2 text-sm border rounded-lg">
+                    Deny all
+                </TSDiv>
+            </TSDiv>
+        </TSDiv>
+    )
+}
+
+export default CapabilityPrompt
@@ -1,10 +1,12 @@
 import {useState} from 'react'
 import {TSDiv} from './TSDiv'
+import {LoaderTraceView} from './LoaderTraceView'
 
 export function DebugMenu() {
     const [isOpen, setIsOpen] = useState(false)
     const [showTextarea, setShowTextarea] = useState(false)
     const [copyStatus, setCopyStatus] = useState<string | null>(null)
+    const [showTrace, setShowTrace] = useState(false)
 
     const copyHtmlToClipboard = async () => {
         try {
@@ -52,6 +54,14 @@ export function DebugMenu() {
                             📋 Copy HTML to Clipboard
                         </TSDiv>
 
+                        <TSDiv
+                            tag="button"
+                            onClick={() => setShowTrace(!showTrace)}
+                            className="w-full bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded text-left transition-colors"
+                        >
+                            ⏱ Hook Loader Timeline
+                        </TSDiv>
+
                         {copyStatus && (
                             <TSDiv className="bg-green-700 px-3 py-2 rounded text-center text-xs">
                                 {copyStatus}
@@ -61,6 +71,13 @@ export function DebugMenu() {
                 </TSDiv>
             )}
 
+            {/* Loader waterfall */}
+            {isOpen && showTrace && (
+                <TSDiv className="absolute top-12 right-72 border rounded shadow-xl p-3 w-[32rem] text-white bg-gray-800">
+                    <LoaderTraceView/>
+                </TSDiv>
+            )}
+
             {/* Textarea Fallback Modal */}
             {showTextarea && (
                 <TSDiv className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { HookInstance, buildPeerUrl, buildRepoHeaders, embeddedPeerOrigin, type EmbeddedHooks, type RelayHookTarget } from '@clevertree/relay-client-shared'
+import ErrorBoundary from './ErrorBoundary'
+import { FileRenderer } from './FileRenderer'
+import { LoaderErrorHelp } from './LoaderErrorHelp'
+import { TSDiv } from './TSDiv'
+import { listedPeerHosts } from '../state/store'
+
+type EmbeddedHookProps = {
+    hooks: EmbeddedHooks
+    /** relay://host/repo@branch/path of the hook */
+    uri: string
+    /** Passed to the hook as its params; it reloads when their serializable part changes */
+    props?: Record<string, unknown>
+}
+
+function propsKey(props?: Record<string, unknown>) {
+    try {
+        return JSON.stringify(props ?? {})
+    } catch {
+        return ''
+    }
+}
+
+/**
+ * A hook from another repo, as returned by helpers.renderHook. It loads through
+ * that repo's own loader, and its load and render errors stay in this box.
+ */
+export function EmbeddedHook({ hooks, uri, props }: EmbeddedHookProps) {
+    const [element, setElement] = useState<React.ReactNode | null>(null)
+    const [error, setError] = useState<unknown>(null)
+    const [loading, setLoading] = useState(true)
+    // Callers build props inline on every render; only their content triggers a reload
+    const propsRef = useRef(props)
+    useEffect(() => {
+        propsRef.current = props
+    }, [props])
+    const key = propsKey(props)
+
+    useEffect(() => {
+        const instance = new HookInstance(uri)
+        const load = async () => {
+            setLoading(true)
+            setError(null)
+            try {
+                const el = await hooks.loadHook(uri, propsRef.current, instance)
+                if (!instance.isDisposed) setElement(el)
+            } catch (e) {
+                console.error('[EmbeddedHook] Error loading', uri, e)
+                if (!instance.isDisposed) setError(e)
+            } finally {
+                if (!instance.isDisposed) setLoading(false)
+            }
+        }
+        void load()
+        return () => {
+            void instance.dispose()
+        }
+    }, [hooks, uri, key])
+
+    if (loading) return <TSDiv className="text-xs opacity-70">Loading {uri}...</TSDiv>
+    if (error) {
+        return (
+            <TSDiv className="text-sm border border-red-400/40 rounded p-2">
+                <TSDiv style={{ color: 'red' }}>{uri}: {(error as Error)?.message || String(error)}</TSDiv>
+                <LoaderErrorHelp error={error} />
+            </TSDiv>
+        )
+    }
+    return <ErrorBoundary key={uri}>{element}</ErrorBoundary>
+}
+
+type EmbeddedFileRendererProps = {
+    target: RelayHookTarget
+    path: string
+}
+
+/**
+ * context.FileRenderer for an embedded repo: reads the file from that repo's peer and branch
+ */
+export function EmbeddedFileRenderer({ target, path }: EmbeddedFileRendererProps) {
+    const [content, setContent] = useState<string | null>(null)
+    const [contentType, setContentType] = useState('text/plain')
+    const { host, repo, branch } = target
+
+    useEffect(() => {
+        let cancelled = false
+        const load = async () => {
+            try {
+                const url = buildPeerUrl(embeddedPeerOrigin({ host }, listedPeerHosts()), path.startsWith('/') ? path : `/${path}`)
+                const resp = await fetch(url, { headers: buildRepoHeaders(branch, repo) })
+                const text = await resp.text()
+                if (cancelled) return
+                setContent(text)
+                setContentType(resp.headers.get('content-type') || 'text/plain')
+            } catch {
+                if (!cancelled) setContent('')
+            }
+        }
+        void load()
+        return () => { cancelled = true }
+    }, [host, repo, branch, path])
+
+    if (content === null) return <TSDiv>Loading file...</TSDiv>
+    return <FileRenderer content={content} contentType={contentType} />
+}
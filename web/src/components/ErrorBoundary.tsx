@@ -1,4 +1,6 @@
 import React from 'react'
+import { mapStackTrace, resolveErrorLocation } from '@clevertree/relay-client-shared'
+import { SourceExcerpt } from './SourceExcerpt'
 import { TSDiv } from './TSDiv'
 
 type ErrorBoundaryProps = {
@@ -39,7 +41,8 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
     if (this.state.hasError) {
       const error = this.state.error ?? this.props.initialError
       const message = error?.message || String(error)
-      const stack = error?.stack || this.state.info?.componentStack || ''
+      const stack = error?.stack ? mapStackTrace(String(error.stack)) : this.state.info?.componentStack || ''
+      const location = resolveErrorLocation(error)
       const version = (globalThis as any).__hook_transpiler_version || 'unknown'
       const title = this.props.initialError
         ? 'Hook transpiler failed to initialize'
@@ -59,7 +62,9 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
           <TSDiv tag="p" className="text-sm leading-relaxed opacity-80">{severityHint}</TSDiv>
           <TSDiv tag="p" className="text-sm opacity-80">Hook Transpiler v{version}</TSDiv>
 
-          {lineNum && (
+          {location && <SourceExcerpt location={location} />}
+
+          {!location && lineNum && (
             <TSDiv className="mt-2 text-sm bg-[var(--bg-error-detail)] p-2 rounded">
               Error Location: Line {lineNum}
             </TSDiv>
@@ -1,11 +1,63 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { HookLoader, WebModuleLoader, transpileCode, type HookContext, unifiedBridge, styleManager } from '@clevertree/relay-client-shared'
+import * as ReactJsxRuntime from 'react/jsx-runtime'
+import { HookLoader, HookInstance, WebModuleLoader, SandboxModuleLoader, EmbeddedHooks, embeddingUnavailable, type EmbeddedThemeHelpers, type HookContext, type HookHelpers, type SourceLocation, type CapabilityManifest, type CapabilityPlatform, type ImportMapEntries, type IntegrityConfig, type PeerFetcher, ModuleResolver, IntegrityVerifier, fetchIntegrityManifest, rewriteBareImports, unifiedBridge, styleManager, mapStackTrace, resolveErrorLocation, parseCapabilityManifest, pendingCapabilityRequests, buildCapabilityHelpers } from '@clevertree/relay-client-shared'
 import ErrorBoundary from './ErrorBoundary'
+import { EmbeddedFileRenderer, EmbeddedHook } from './EmbeddedHook'
 import { MarkdownRenderer } from './MarkdownRenderer'
 import { FileRenderer } from './FileRenderer'
 import { TSDiv } from './TSDiv'
+import { SourceExcerpt } from './SourceExcerpt'
+import { LoaderErrorHelp } from './LoaderErrorHelp'
+import { CapabilityPrompt } from './CapabilityPrompt'
+import { transpileCache } from '../services/transpileCache'
+import { transpilerChain } from '../services/transpilers'
+import { verifiedBlobCache } from '../services/verifiedBlobCache'
+import { loaderTrace } from '../services/loaderTrace'
+import { useHookSandboxSetting } from '../state/sandboxSettings'
+import { listedPeerHosts, useAppState } from '../state/store'
 
-type HookRendererProps = { host: string; hookPath?: string }
+type HookRendererProps = {
+    host: string
+    hookPath?: string
+    /** Branch head commit; when it changes, changed modules are invalidated and the hook re-renders in place */
+    revision?: string | null
+    /** Capabilities the repo declares in its OPTIONS payload */
+    manifest?: CapabilityManifest
+    /** Host/repo key capability decisions are stored under; defaults to host */
+    capabilityScope?: string
+    /** Bare specifier mappings the repo declares in its OPTIONS payload */
+    imports?: ImportMapEntries
+    /** Where the peer publishes per-commit integrity manifests, checked against `revision` */
+    integrity?: IntegrityConfig
+    /** Fails module and file GETs over to other peers at the same head */
+    peers?: PeerFetcher | null
+    /** Sent with module and file requests, e.g. the commit a pinned tab stays on */
+    repoHeaders?: Record<string, string>
+}
+
+const NO_IMPORTS: ImportMapEntries = {}
+
+const NO_INTEGRITY: IntegrityConfig = { manifest: null, required: false }
+
+const NO_HEADERS: Record<string, string> = {}
+
+const NO_MANIFEST = parseCapabilityManifest(null)
+
+// Embedded hooks execute in the page, so a sandboxed tab does not embed other repos
+const SANDBOX_NO_EMBEDDING = embeddingUnavailable('sandboxed hooks cannot embed hooks from other repos; turn off the hook sandbox to render this hook')
+
+const browserCapabilities: CapabilityPlatform = {
+    fetch: (url, init) => fetch(url, init),
+    storage: {
+        getItem: (key) => localStorage.getItem(key),
+        setItem: (key, value) => localStorage.setItem(key, value),
+        removeItem: (key) => localStorage.removeItem(key),
+    },
+    clipboard: {
+        readText: () => navigator.clipboard.readText(),
+        writeText: (text) => navigator.clipboard.writeText(text),
+    },
+}
 
 function normalizeHostUrl(host: string) {
     if (!host) return ''
@@ -29,9 +81,15 @@ function registerUsageFromElement(tag: string, props?: Record<string, unknown>)
     }
 }
 
-function createHookReact(reactModule: typeof React) {
+function createHookReact(reactModule: typeof React, allowAutoplay: boolean) {
     const baseCreate = reactModule.createElement.bind(reactModule)
     function hookCreateElement(type: string | React.ComponentType, props: Record<string, unknown> | null, ...children: React.ReactNode[]) {
+        if (!allowAutoplay && (type === 'video' || type === 'audio') && props && ('autoPlay' in props || 'autoplay' in props)) {
+            // Media autoplay is a capability the repo must declare and the user grant
+            props = { ...props }
+            delete props.autoPlay
+            delete props.autoplay
+        }
         if (typeof type === 'string') {
             try {
                 registerUsageFromElement(type, props || undefined)
@@ -44,12 +102,59 @@ function createHookReact(reactModule: typeof React) {
     return { ...reactModule, createElement: hookCreateElement }
 }
 
-const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
+// Embedded repos have no capability grants: no media autoplay, and only their namespaced theme helpers
+function embeddedBuiltins(themes: EmbeddedThemeHelpers): Record<string, unknown> {
+    const hookReact = createHookReact(React, false)
+    return {
+        'react': { ...hookReact, default: hookReact },
+        'react/jsx-runtime': ReactJsxRuntime,
+        'react/jsx-dev-runtime': ReactJsxRuntime,
+        '@relay/markdown': { MarkdownRenderer },
+        '@relay/theme': themes,
+    }
+}
+
+function embeddedRenderer(hooks: EmbeddedHooks): NonNullable<HookHelpers['renderHook']> {
+    return (uri, props) => <EmbeddedHook hooks={hooks} uri={uri} props={props} />
+}
+
+const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath, revision, manifest = NO_MANIFEST, capabilityScope, imports = NO_IMPORTS, integrity = NO_INTEGRITY, peers, repoHeaders = NO_HEADERS }) => {
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    const [errorLocation, setErrorLocation] = useState<SourceLocation | null>(null)
+    // The thrown value, so typed loader errors can show remediation
+    const [errorCause, setErrorCause] = useState<unknown>(null)
     const [element, setElement] = useState<React.ReactNode | null>(null)
     const normalizedHost = useMemo(() => normalizeHostUrl(host), [host])
     const loaderRef = useRef<HookLoader | null>(null)
+    // Loaders for hooks embedded from other repos (helpers.renderHook, relay:// imports)
+    const embeddedRef = useRef<EmbeddedHooks | null>(null)
+    const revisionRef = useRef(revision)
+    // The hook currently on screen; disposed before the next render and on unmount
+    const instanceRef = useRef<HookInstance | null>(null)
+    // Read at request time so a pin change reaches the loader before the hot reload below runs
+    const repoHeadersRef = useRef(repoHeaders)
+    useEffect(() => {
+        repoHeadersRef.current = repoHeaders
+    }, [repoHeaders])
+    // Sandboxed imports are fetched with the context of the module importing them
+    const createHookContextRef = useRef<((baseHookPath: string) => HookContext) | null>(null)
+    const resolver = useMemo(() => new ModuleResolver(), [])
+    const verifier = useMemo(() => {
+        const manifestPath = integrity.manifest
+        if (!manifestPath && !integrity.required) return undefined
+        return new IntegrityVerifier({
+            required: integrity.required,
+            blobCache: verifiedBlobCache,
+            loadManifest: (commit) => manifestPath ? fetchIntegrityManifest(normalizedHost, manifestPath, commit) : Promise.resolve(null),
+        })
+    }, [integrity, normalizedHost])
+    const { enabled: sandboxed } = useHookSandboxSetting()
+    const scope = capabilityScope || host
+    const grants = useAppState((s) => s.capabilityGrants[scope])
+    const setCapabilityDecisions = useAppState((s) => s.setCapabilityDecisions)
+    const pendingCapabilities = useMemo(() => pendingCapabilityRequests(manifest, grants), [manifest, grants])
+    const awaitingConsent = pendingCapabilities.length > 0
 
     useEffect(() => {
         if (!host) return
@@ -58,25 +163,49 @@ const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
 
         // No requireShim needed for web loader; WebModuleLoader executes code in a sandboxed Function
 
-        const rewriteBuiltins = (code: string) => {
-            // Replace bare @relay/* imports with globals to avoid browser bare-spec failures
-            const mkBuiltin = (spec: string, destructure: string) => `const ${destructure} = ((globalThis && globalThis.__relay_builtins && globalThis.__relay_builtins['${spec}']) || {});`
-            const markdownRe = /import\s+\{\s*MarkdownRenderer\s*\}\s+from\s+['"]@relay\/markdown['"];?/g
-            const themeRe = /import\s+\{\s*registerThemesFromYaml\s*\}\s+from\s+['"]@relay\/theme['"];?/g
-            const jsxRuntimeRe = /import\s+\{\s*jsx\s+as\s+(_jsx)\s*,\s*jsxs\s+as\s+(_jsxs)\s*,\s*Fragment\s+as\s+(_Fragment)\s*\}\s+from\s+['"]react\/jsx-runtime['"];?/g
-            let rewritten = code.replace(markdownRe, mkBuiltin('@relay/markdown', '{ MarkdownRenderer }'))
-            rewritten = rewritten.replace(themeRe, mkBuiltin('@relay/theme', '{ registerThemesFromYaml }'))
-            rewritten = rewritten.replace(jsxRuntimeRe, (_m, a, b, c) => `const ${a} = (globalThis.__hook_jsx_runtime?.jsx || globalThis.__jsx || (globalThis.__hook_react && globalThis.__hook_react.createElement) || (() => null)); const ${b} = (globalThis.__hook_jsx_runtime?.jsxs || globalThis.__jsxs || (globalThis.__hook_react && globalThis.__hook_react.createElement) || (() => null)); const ${c} = (globalThis.__hook_jsx_runtime?.Fragment || globalThis.__Fragment || (globalThis.__hook_react && globalThis.__hook_react.Fragment));`)
-            return rewritten
-        }
-
         const transpiler = async (code: string, filename: string) => {
-            const out = await transpileCode(code, { filename })
-            return rewriteBuiltins(out)
+            const out = await transpilerChain.transpile(code, filename)
+            // Blob modules cannot import bare specifiers; route them through the import map at runtime
+            return { ...out, code: rewriteBareImports(out.code) }
         }
 
-        const webLoader = new WebModuleLoader()
-        loaderRef.current = new HookLoader({ host: hostOnly, protocol: protocol as 'http' | 'https', moduleLoader: webLoader, transpiler: transpiler })
+        const moduleLoader = sandboxed
+            ? new SandboxModuleLoader({
+                baseUrl: normalizedHost,
+                hostComponents: { MarkdownRenderer },
+                resolveModule: (spec, fromPath) => {
+                    if (!loaderRef.current) throw new Error('loader not ready')
+                    return loaderRef.current.fetchModule(spec, fromPath, createHookContextRef.current?.(fromPath))
+                },
+            })
+            : new WebModuleLoader()
+
+        const embedded: EmbeddedHooks | null = sandboxed ? null : new EmbeddedHooks({
+            createLoader: (target, themes) => new HookLoader({
+                host: target.host,
+                protocol: embedded!.peerOrigin(target).startsWith('https:') ? 'https' : 'http',
+                moduleLoader: new WebModuleLoader(),
+                transpiler,
+                transpileCache,
+                builtinModules: embeddedBuiltins(themes),
+                trace: loaderTrace,
+                registerCss: styleManager.registerModuleCss,
+                importRelayUri: (uri) => embedded!.importModule(uri),
+            }),
+            createContext: (target) => {
+                const hookReact = createHookReact(React, false)
+                const EmbeddedFiles = ({ path }: { path: string }) => <EmbeddedFileRenderer target={target} path={path} />
+                return { React: hookReact, createElement: hookReact.createElement, FileRenderer: EmbeddedFiles }
+            },
+            renderHook: (uri, props) => embeddedRenderer(embedded!)(uri, props),
+            registerTheme: unifiedBridge.registerTheme,
+            knownPeers: listedPeerHosts,
+            onThemesChanged: () => {
+                try { styleManager.renderCssIntoDom() } catch { /* ignore */ }
+            },
+        })
+        embeddedRef.current = embedded
+        loaderRef.current = new HookLoader({ host: hostOnly, protocol: protocol as 'http' | 'https', moduleLoader, transpiler: transpiler, transpileCache, resolver, integrity: verifier, peers: peers || undefined, trace: loaderTrace, registerCss: styleManager.registerModuleCss, importRelayUri: embedded ? (uri) => embedded.importModule(uri) : SANDBOX_NO_EMBEDDING.importRelayUri })
 
         // Start style auto-sync while this renderer is mounted
         try {
@@ -86,11 +215,21 @@ const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
             console.debug('Failed to start style auto-sync:', e)
         }
         return () => {
+            embedded?.clear()
             try { styleManager.stopAutoSync() } catch (e) {
                 console.debug('Failed to stop style auto-sync:', e)
             }
         }
-    }, [normalizedHost, host])
+    }, [normalizedHost, host, sandboxed, resolver, verifier, peers])
+
+    useEffect(() => {
+        resolver.importMap.setRepoImports(imports)
+    }, [resolver, imports])
+
+    // Modules must match the branch head; declared before the render effects so they see it
+    useEffect(() => {
+        verifier?.setCommit(revision)
+    }, [verifier, revision])
 
     const createHookContext = useCallback((baseHookPath: string): HookContext => {
         const buildPeer = (p: string) => `${normalizedHost}${p.startsWith('/') ? p : '/' + p}`
@@ -112,8 +251,9 @@ const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
                 let cancelled = false
                     ; (async () => {
                         try {
-                            const url = `${normalizedHost}${path.startsWith('/') ? path : '/' + path}`
-                            const resp = await fetch(url)
+                            const peerPath = path.startsWith('/') ? path : '/' + path
+                            const init = { headers: repoHeadersRef.current }
+                            const resp = peers ? (await peers.fetch(peerPath, init)).response : await fetch(`${normalizedHost}${peerPath}`, init)
                             const txt = await resp.text()
                             if (!cancelled) {
                                 setContent(txt)
@@ -142,14 +282,31 @@ const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
             }
         }
 
+        const registerThemeStyles = (name: string, defs?: Record<string, any>) => {
+            unifiedBridge.registerTheme(name, defs)
+            // After registering a theme, re-render CSS into the DOM
+            try { styleManager.renderCssIntoDom() } catch (e) { }
+        }
+
+        const capabilityHelpers = buildCapabilityHelpers(manifest, grants || {}, {
+            scope,
+            peerOrigin: normalizedHost,
+            platform: browserCapabilities,
+            themeHelpers: { registerThemeStyles, registerThemesFromYaml },
+        })
+        const notGranted = (name: string) => () => {
+            console.warn(`[HookRenderer] ${name} ignored: theme capability is not granted for ${scope}`)
+        }
+
+        const hookReact = createHookReact(React, !!capabilityHelpers.capabilities?.has('autoplay'))
         const builtinModules: Record<string, any> = {
+            'react': { ...hookReact, default: hookReact },
+            'react/jsx-runtime': ReactJsxRuntime,
+            'react/jsx-dev-runtime': ReactJsxRuntime,
             '@relay/markdown': { MarkdownRenderer },
             '@relay/theme': {
-                registerThemeStyles: (name: string, defs?: Record<string, any>) => {
-                    unifiedBridge.registerTheme(name, defs)
-                    try { styleManager.renderCssIntoDom() } catch (e) { }
-                },
-                registerThemesFromYaml,
+                registerThemeStyles: capabilityHelpers.registerThemeStyles || notGranted('registerThemeStyles'),
+                registerThemesFromYaml: capabilityHelpers.registerThemesFromYaml || notGranted('registerThemesFromYaml'),
             },
         }
 
@@ -166,53 +323,112 @@ const HookRenderer: React.FC<HookRendererProps> = ({ host, hookPath }) => {
         }
 
         return {
-            React: createHookReact(React),
-            createElement: createHookReact(React).createElement,
+            React: hookReact,
+            createElement: hookReact.createElement,
             FileRenderer: FileRendererAdapter,
             Layout: undefined,
             helpers: {
                 buildPeerUrl: buildPeer,
                 loadModule,
-                registerThemeStyles: (name: string, defs?: Record<string, any>) => {
-                    unifiedBridge.registerTheme(name, defs)
-                    // After registering a theme, re-render CSS into the DOM
-                    try { styleManager.renderCssIntoDom() } catch (e) { }
+                buildRepoHeaders: () => ({ ...repoHeadersRef.current }),
+                renderHook: embeddedRef.current ? embeddedRenderer(embeddedRef.current) : SANDBOX_NO_EMBEDDING.renderHook,
+                onDispose: (cleanup) => {
+                    if (instanceRef.current) instanceRef.current.onDispose(cleanup)
+                    else void cleanup()
                 },
-                registerThemesFromYaml,
+                ...capabilityHelpers,
             }
         }
-    }, [normalizedHost])
+    }, [normalizedHost, manifest, grants, scope, peers])
+    useEffect(() => {
+        createHookContextRef.current = createHookContext
+    }, [createHookContext])
 
-    const tryRender = useCallback(async () => {
-        setLoading(true)
+    const tryRender = useCallback(async (soft = false) => {
+        // A soft render keeps the current element on screen until the new one is ready
+        if (!soft) {
+            setLoading(true)
+            setElement(null)
+        }
         setError(null)
-        setElement(null)
+        setErrorLocation(null)
+        setErrorCause(null)
         try {
             const path = hookPath || '/hooks/client/get-client.jsx'
             if (!loaderRef.current) throw new Error('hook loader not initialized')
+            const previous = instanceRef.current
+            const instance = new HookInstance(path)
+            instanceRef.current = instance
+            await previous?.dispose()
             const ctx = createHookContext(path)
-            const el = await loaderRef.current.loadAndExecuteHook(path, ctx)
+            const el = await loaderRef.current.loadAndExecuteHook(path, ctx, instance)
+            // A newer render or unmount superseded this one while it loaded
+            if (instance.isDisposed) return
             setElement(el)
             // After rendering the hook, ensure CSS for currently-registered usage is applied
             try { styleManager.renderCssIntoDom() } catch (e) { }
         } catch (e: any) {
             console.error('[HookRenderer] Error loading/executing hook:', e)
             const message = e?.message || String(e)
-            const stack = e?.stack || ''
+            const stack = e?.stack ? mapStackTrace(String(e.stack)) : ''
             const fullError = stack ? `${message}\n\nStack Trace:\n${stack}` : message
             setError(fullError)
+            setErrorLocation(resolveErrorLocation(e))
+            setErrorCause(e)
         } finally {
             setLoading(false)
         }
     }, [createHookContext, hookPath])
 
-    useEffect(() => { void tryRender() }, [tryRender])
+    // Switching the execution mode or integrity settings replaces the loader, so render again.
+    // Hooks wait until the user has decided on the sensitive capabilities they declare.
+    useEffect(() => {
+        if (awaitingConsent) return
+        void tryRender()
+    }, [tryRender, sandboxed, verifier, awaitingConsent])
+
+    // Closing the tab (or replacing this renderer) releases the hook's resources
+    useEffect(() => () => {
+        void instanceRef.current?.dispose()
+        instanceRef.current = null
+    }, [])
+
+    // Hot reload: when the branch head moves, re-execute only modules whose source changed
+    useEffect(() => {
+        const previous = revisionRef.current
+        if (revision === previous) return
+        revisionRef.current = revision
+        // The first known head describes what was just loaded; nothing to reload
+        const loader = loaderRef.current
+        if (!loader || !previous || !revision) return
+        const path = hookPath || '/hooks/client/get-client.jsx'
+        void (async () => {
+            try {
+                const invalidated = await loader.invalidateChanged(createHookContext(path))
+                console.debug('[HookRenderer] Hot reload at', revision, 'invalidated', invalidated)
+            } catch (e) {
+                console.warn('[HookRenderer] Selective invalidation failed, clearing module cache', e)
+                loader.clearCache()
+            }
+            await tryRender(true)
+        })()
+    }, [revision, hookPath, createHookContext, tryRender])
 
     return (
         <TSDiv style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-            {loading && <TSDiv>Loading hook...</TSDiv>}
+            {awaitingConsent && (
+                <CapabilityPrompt
+                    key={scope}
+                    scope={scope}
+                    requests={pendingCapabilities}
+                    onDecide={(decisions) => setCapabilityDecisions(scope, decisions)}
+                />
+            )}
+            {loading && !awaitingConsent && <TSDiv>Loading hook...</TSDiv>}
             {error && <TSDiv style={{ color: 'red' }}><TSDiv tag="strong">Error:</TSDiv> {error}</TSDiv>}
-            {!loading && !error && element && (
+            {error && <LoaderErrorHelp error={errorCause} />}
+            {error && errorLocation && <SourceExcerpt location={errorLocation} />}
+            {!loading && !error && !awaitingConsent && element && (
                 <ErrorBoundary>
                     <TSDiv style={{ flex: 1 }}>{element}</TSDiv>
                 </ErrorBoundary>
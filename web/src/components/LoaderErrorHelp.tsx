@@ -0,0 +1,26 @@
+import { describeLoaderError } from '@clevertree/relay-client-shared'
+import { TSDiv } from './TSDiv'
+
+interface LoaderErrorHelpProps {
+    error: unknown
+}
+
+/**
+ * Explains a typed loader error (HTML instead of code, failed transpile, ...) and how to fix it
+ */
+export function LoaderErrorHelp({ error }: LoaderErrorHelpProps) {
+    const help = describeLoaderError(error)
+    if (!help) return null
+    return (
+        <TSDiv className="mt-2 text-sm bg-blue-900/20 border border-blue-400/30 rounded p-2">
+            <TSDiv tag="p" className="font-semibold mb-1">{help.title}</TSDiv>
+            <TSDiv tag="ul" className="list-disc list-inside space-y-1 text-xs">
+                {help.steps.map((step) => (
+                    <TSDiv tag="li" key={step}>{step}</TSDiv>
+                ))}
+            </TSDiv>
+        </TSDiv>
+    )
+}
+
+export default LoaderErrorHelp
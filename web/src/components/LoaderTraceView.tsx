@@ -0,0 +1,78 @@
+import { useEffect, useMemo, useState } from 'react'
+import { buildWaterfall, type TraceSpanPhase } from '@clevertree/relay-client-shared'
+import { loaderTrace } from '../services/loaderTrace'
+import { TSDiv } from './TSDiv'
+
+const PHASE_COLORS: Record<TraceSpanPhase, string> = {
+    fetch: 'bg-blue-500',
+    transform: 'bg-amber-500',
+    import: 'bg-green-500',
+    exec: 'bg-purple-500',
+}
+
+function downloadJson(filename: string, value: unknown) {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(value)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+/**
+ * Waterfall of hook loader spans, exportable as Chrome trace-event JSON
+ */
+export function LoaderTraceView() {
+    const [spans, setSpans] = useState(() => loaderTrace.getSpans())
+
+    useEffect(() => loaderTrace.subscribe(() => setSpans(loaderTrace.getSpans())), [])
+
+    const rows = useMemo(() => buildWaterfall(spans), [spans])
+
+    return (
+        <TSDiv className="text-xs">
+            <TSDiv className="flex gap-2 mb-2">
+                <TSDiv
+                    tag="button"
+                    onClick={() => downloadJson(`loader-trace-${Date.now()}.json`, loaderTrace.toChromeTrace())}
+                    className="bg-blue-600 hover:bg-blue-700 px-2 py-1 rounded transition-colors"
+                    title="Open in chrome://tracing or ui.perfetto.dev"
+                >
+                    Export trace
+                </TSDiv>
+                <TSDiv
+                    tag="button"
+                    onClick={() => loaderTrace.clear()}
+                    className="hover:bg-gray-600 border px-2 py-1 rounded transition-colors"
+                >
+                    Clear
+                </TSDiv>
+            </TSDiv>
+            {rows.length === 0 && <TSDiv className="opacity-70">No modules loaded yet.</TSDiv>}
+            <TSDiv className="max-h-80 overflow-auto space-y-0.5">
+                {rows.map(({ span, offset, width, durationMs }) => (
+                    <TSDiv key={span.id} className="flex items-center gap-2" title={[
+                        `${span.phase} ${span.module} (${span.loader})`,
+                        `${durationMs.toFixed(1)} ms`,
+                        span.bytes !== undefined ? `${span.bytes} bytes` : null,
+                        span.cacheHit ? 'cache hit' : null,
+                        span.backend ? `transpiled by ${span.backend}` : null,
+                        span.servedBy ? `served by ${span.servedBy}` : null,
+                        span.error || null,
+                    ].filter(Boolean).join('\n')}>
+                        <TSDiv className="w-40 truncate font-mono">{span.module}</TSDiv>
+                        <TSDiv className="flex-1 relative h-3 bg-black/20 rounded">
+                            <TSDiv
+                                className={`absolute h-3 rounded ${span.error ? 'bg-red-500' : PHASE_COLORS[span.phase]} ${span.cacheHit ? 'opacity-50' : ''}`}
+                                style={{ left: `${offset * 100}%`, width: `max(${width * 100}%, 2px)` }}
+                            />
+                        </TSDiv>
+                        <TSDiv className="w-24 text-right font-mono">{span.phase} {durationMs.toFixed(0)}ms</TSDiv>
+                    </TSDiv>
+                ))}
+            </TSDiv>
+        </TSDiv>
+    )
+}
+
+export default LoaderTraceView
@@ -1,10 +1,19 @@
 import {useCallback, useEffect, useRef, useState} from 'react'
+import {comparePeerHealth, crawlPeers, exportPeerList, formatLastSeen, formatPeerShareLink, groupPeersByLabel, isPeerApiProbe, listHostedRepos, parsePeerList, pickBestPeer, sparklineBars, summarizePeerHealth, summarizePeerHealthByHost, type PeerHealthSortKey, type PeerListEntry, type PeerListFormat} from '@clevertree/relay-client-shared'
 import {type PeerInfo, STORAGE_KEY_PEERS, useAppState} from '../state/store'
-import {fullProbePeer} from '../services/probing'
+import {fetchPeerOptions, fullProbePeer} from '../services/probing'
 import {TSDiv} from './TSDiv'
 
 const AUTO_REFRESH_INTERVAL_MS = 5 * 60 * 1000 // 5 minutes
 
+const SORT_OPTIONS: Array<{key: PeerHealthSortKey | null; label: string}> = [
+    {key: null, label: 'Added'},
+    {key: 'host', label: 'Name'},
+    {key: 'uptime', label: 'Uptime'},
+    {key: 'latency', label: 'Latency'},
+    {key: 'lastSeen', label: 'Last seen'},
+]
+
 interface PeersViewProps {
     onPeerPress?: (host: string) => void
 }
@@ -17,8 +26,25 @@ export function PeersView({onPeerPress}: PeersViewProps) {
     const setLastRefreshTs = useAppState((s) => s.setLastRefreshTs)
     const addPeer = useAppState((s) => s.addPeer)
     const removePeer = useAppState((s) => s.removePeer)
+    const blockedPeers = useAppState((s) => s.blockedPeers)
+    const addDiscoveredPeers = useAppState((s) => s.addDiscoveredPeers)
+    const promotePeer = useAppState((s) => s.promotePeer)
+    const blockPeer = useAppState((s) => s.blockPeer)
+    const unblockPeer = useAppState((s) => s.unblockPeer)
+    const peerHealth = useAppState((s) => s.peerHealth)
+    const recordPeerHealth = useAppState((s) => s.recordPeerHealth)
+    const openRepoOnBestPeer = useAppState((s) => s.openRepoOnBestPeer)
+    const peerDetails = useAppState((s) => s.peerDetails)
+    const setPeerDetails = useAppState((s) => s.setPeerDetails)
+    const importPeers = useAppState((s) => s.importPeers)
     const [newPeerInput, setNewPeerInput] = useState('')
+    const [discovering, setDiscovering] = useState(false)
+    const [sortKey, setSortKey] = useState<PeerHealthSortKey | null>(null)
+    const [importText, setImportText] = useState('')
+    // Labels of the groups the user collapsed ('' for unlabelled peers)
+    const [collapsedGroups, setCollapsedGroups] = useState<string[]>([])
     const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+    const discoveringRef = useRef(false)
 
     // Probe a single peer
     const probePeer = useCallback(
@@ -32,23 +58,58 @@ export function PeersView({onPeerPress}: PeersViewProps) {
                     lastUpdateTs: result.lastUpdateTs,
                     branches: result.branches,
                     repos: result.repos,
+                    reposWithBranches: result.reposWithBranches,
+                    advertisedPeers: result.advertisedPeers,
                     isProbing: false,
                 }))
+                recordPeerHealth(host, result.probes)
             } catch (e) {
                 updatePeer(host, (p) => ({
                     ...p,
                     isProbing: false,
                 }))
+                recordPeerHealth(host, [])
             }
         },
-        [setPeerProbing, updatePeer],
+        [setPeerProbing, updatePeer, recordPeerHealth],
     )
 
+    // Crawl the peers advertised by the user's peers, then probe what was found
+    const discoverPeers = useCallback(async () => {
+        if (discoveringRef.current) return
+        discoveringRef.current = true
+        setDiscovering(true)
+        try {
+            const {peers: currentPeers, blockedPeers: blocked} = useAppState.getState()
+            const found = await crawlPeers({
+                // Their OPTIONS lists were just fetched by the probe
+                seeds: currentPeers.filter((p) => !p.discovered).map((p) => ({host: p.host, advertised: p.advertisedPeers ?? []})),
+                known: currentPeers.filter((p) => p.discovered).map((p) => p.host),
+                blocked,
+                fetchAdvertised: async (host) => (await fetchPeerOptions(host)).peers,
+            })
+            addDiscoveredPeers(found)
+            await Promise.all(found.map((p) => probePeer(p.host)))
+        } catch (e) {
+            console.error('[discoverPeers] Error:', e)
+        } finally {
+            discoveringRef.current = false
+            setDiscovering(false)
+        }
+    }, [addDiscoveredPeers, probePeer])
+
     // Probe all peers
     const probeAllPeers = useCallback(async () => {
         const currentPeers = useAppState.getState().peers
         await Promise.all(currentPeers.map((p) => probePeer(p.host)))
         setLastRefreshTs(Date.now())
+        await discoverPeers()
+    }, [probePeer, setLastRefreshTs, discoverPeers])
+
+    // Probe the peers of one label group
+    const probeGroup = useCallback(async (hosts: string[]) => {
+        await Promise.all(hosts.map((host) => probePeer(host)))
+        setLastRefreshTs(Date.now())
     }, [probePeer, setLastRefreshTs])
 
     // Load peers from environment (simulate fetching from tracker)
@@ -64,10 +125,11 @@ export function PeersView({onPeerPress}: PeersViewProps) {
             // Probe all peers after setting them
             await Promise.all(envPeers.map((host: string) => probePeer(host)))
             setLastRefreshTs(Date.now())
+            await discoverPeers()
         } catch (e) {
             console.error('[loadAndProbePeers] Error:', e)
         }
-    }, [setPeers, probePeer, setLastRefreshTs])
+    }, [setPeers, probePeer, setLastRefreshTs, discoverPeers])
 
     // Setup auto-refresh interval (always enabled, 5 minutes)
     useEffect(() => {
@@ -98,7 +160,8 @@ export function PeersView({onPeerPress}: PeersViewProps) {
                 className="text-xs px-2 py-1 rounded whitespace-nowrap">Not probed</TSDiv>
         }
 
-        const okProbes = peer.probes.filter((p) => p.ok)
+        // Online means its API answers; git and IPFS endpoints are listed separately
+        const okProbes = peer.probes.filter((p) => p.ok && isPeerApiProbe(p))
         if (okProbes.length === 0) {
             return <TSDiv
                 tag="span"
@@ -114,6 +177,25 @@ export function PeersView({onPeerPress}: PeersViewProps) {
         )
     }
 
+    // One chip per protocol and port
+    const renderProbeDetails = (peer: PeerInfo) => {
+        if (!peer.probes || peer.probes.length < 2) return null
+        return (
+            <TSDiv className="flex flex-wrap gap-1 mb-2">
+                {peer.probes.map((probe) => (
+                    <TSDiv
+                        key={`${probe.protocol}:${probe.port}`}
+                        tag="span"
+                        className={`text-xs px-1.5 py-0.5 rounded font-mono ${probe.ok ? 'bg-green-100/50 text-green-700' : 'bg-gray-100 text-gray-500'}`}
+                        title={probe.ok ? `${probe.protocol} on port ${probe.port} is reachable` : probe.error || 'Unreachable'}
+                    >
+                        {probe.protocol}:{probe.port} {probe.ok ? (probe.latencyMs !== undefined ? `${probe.latencyMs.toFixed(0)}ms` : '✓') : '✕'}
+                    </TSDiv>
+                ))}
+            </TSDiv>
+        )
+    }
+
     const handlePeerPress = (host: string) => {
         onPeerPress?.(host)
     }
@@ -140,6 +222,224 @@ export function PeersView({onPeerPress}: PeersViewProps) {
         removePeer(host)
     }
 
+    const handlePromotePeer = (e: React.MouseEvent, host: string) => {
+        e.stopPropagation()
+        promotePeer(host)
+    }
+
+    const handleBlockPeer = (e: React.MouseEvent, host: string) => {
+        e.stopPropagation()
+        blockPeer(host)
+    }
+
+    const handleEditDetails = (e: React.MouseEvent, host: string) => {
+        e.stopPropagation()
+        const current = peerDetails[host] || {}
+        const label = prompt('Group label (e.g. staging, team, public); empty for none', current.label || '')
+        if (label === null) return
+        const note = prompt('Note', current.note || '')
+        if (note === null) return
+        setPeerDetails(host, {...current, label: label.trim() || undefined, note: note.trim() || undefined})
+    }
+
+    // Import a pasted share link, JSON, YAML or list of hosts, and probe the new peers
+    const handleImport = (text: string) => {
+        try {
+            const {peers: entries, skipped} = parsePeerList(text)
+            const added = importPeers(entries)
+            added.forEach((host) => probePeer(host))
+            setImportText('')
+            alert(`Imported ${entries.length} peer(s), ${added.length} new${skipped ? `; skipped ${skipped} invalid or repeated` : ''}`)
+        } catch (e) {
+            alert(e instanceof Error ? e.message : String(e))
+        }
+    }
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (file) handleImport(await file.text())
+    }
+
+    // User-added peers with their details; discovered peers are found again by crawling
+    const exportEntries = (): PeerListEntry[] => peers
+        .filter((p) => !p.discovered)
+        .map((p) => ({host: p.host, ...peerDetails[p.host]}))
+
+    const handleExport = (format: PeerListFormat) => {
+        downloadFile(`relay-peers.${format}`, exportPeerList(exportEntries(), format), format === 'json' ? 'application/json' : 'application/yaml')
+    }
+
+    const handleCopyShareLink = async () => {
+        const link = formatPeerShareLink(exportEntries())
+        try {
+            await navigator.clipboard.writeText(link)
+            alert('Share link copied')
+        } catch {
+            prompt('Copy the share link', link)
+        }
+    }
+
+    const toggleGroup = (key: string) => {
+        setCollapsedGroups((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]))
+    }
+
+    const sortPeers = (list: PeerInfo[]) => {
+        if (!sortKey) return list
+        return list
+            .map((peer) => ({peer, host: peer.host, health: summarizePeerHealth(peerHealth[peer.host])}))
+            .sort((a, b) => comparePeerHealth(a, b, sortKey))
+            .map(({peer}) => peer)
+    }
+
+    // Repos hosted by several peers, each with the peer it would open on
+    const healthByHost = summarizePeerHealthByHost(peerHealth)
+    const hostedRepos = listHostedRepos(peers).map((repo) => ({repo, best: pickBestPeer(peers, repo, {health: healthByHost})}))
+
+    const handleOpenBest = (repo: string) => {
+        if (!openRepoOnBestPeer(repo)) alert(`No reachable peer hosts ${repo}`)
+    }
+
+    const configuredPeers = sortPeers(peers.filter((p) => !p.discovered))
+    const discoveredPeers = sortPeers(peers.filter((p) => p.discovered))
+    const peerGroups = groupPeersByLabel(configuredPeers, (p) => peerDetails[p.host]?.label)
+
+    // Uptime, latency percentiles and a sparkline of the latest probe rounds
+    const renderHealth = (peer: PeerInfo) => {
+        const history = peerHealth[peer.host]
+        const health = summarizePeerHealth(history)
+        if (health.samples === 0) return null
+        return (
+            <TSDiv className="flex items-center gap-2 mb-2 text-xs"
+                   title={`${health.samples} probe(s); last seen ${health.lastSeen ? new Date(health.lastSeen).toLocaleString() : 'never'}`}>
+                <TSDiv tag="span" className="inline-flex items-end gap-px h-4">
+                    {sparklineBars(history).map((bar, i) => (
+                        <TSDiv
+                            key={i}
+                            tag="span"
+                            className={bar === null ? 'w-1 bg-red-400' : 'w-1 bg-green-500'}
+                            style={{height: `${Math.round((bar ?? 1) * 100)}%`}}
+                        />
+                    ))}
+                </TSDiv>
+                <TSDiv tag="span" className="font-semibold">{Math.round((health.uptime ?? 0) * 100)}% up</TSDiv>
+                {health.p50 !== null && (
+                    <TSDiv tag="span">p50 {health.p50.toFixed(0)}ms · p95 {health.p95?.toFixed(0)}ms</TSDiv>
+                )}
+                <TSDiv tag="span" className="opacity-70">seen {formatLastSeen(health.lastSeen)}</TSDiv>
+            </TSDiv>
+        )
+    }
+
+    const renderPeer = (peer: PeerInfo) => (
+        <TSDiv
+            key={peer.host}
+            className="p-4 bg-white border rounded-lg cursor-pointer transition-all hover:bg-gray-50 hover:border-blue-500 hover:shadow-lg group"
+            onClick={() => handlePeerPress(peer.host)}
+        >
+            <TSDiv className="flex justify-between items-center gap-4 mb-2">
+                <TSDiv className="flex items-center gap-2 flex-1">
+                    <TSDiv tag="span" className="font-semibold text-base">{peer.host}</TSDiv>
+                    {peer.discovered && (
+                        <TSDiv tag="span" className="text-xs px-2 py-0.5 rounded bg-yellow-100/50 text-yellow-700"
+                               title={`Advertised by ${peer.discovered.via}, ${peer.discovered.depth} hop(s) from your peers`}>
+                            via {peer.discovered.via}
+                        </TSDiv>
+                    )}
+                    {peer.isProbing &&
+                        <TSDiv tag="span" className="inline-block text-sm animation-spin">⟳</TSDiv>}
+                    {!peer.discovered && (
+                        <TSDiv
+                            tag="button"
+                            onClick={(e) => handleEditDetails(e, peer.host)}
+                            className="px-1 text-xs opacity-0 group-hover:opacity-100 hover:text-blue-600"
+                            title="Edit label and note"
+                        >
+                            ✎
+                        </TSDiv>
+                    )}
+                </TSDiv>
+                <TSDiv className="flex items-center gap-2">
+                    {renderProbeStatus(peer)}
+                    {peer.discovered ? (
+                        <>
+                            <TSDiv
+                                tag="button"
+                                onClick={(e) => handlePromotePeer(e, peer.host)}
+                                className="px-2 py-1 bg-green-500 text-white rounded text-xs font-medium hover:bg-green-600 transition-all"
+                                title="Keep this peer in your list"
+                            >
+                                Keep
+                            </TSDiv>
+                            <TSDiv
+                                tag="button"
+                                onClick={(e) => handleBlockPeer(e, peer.host)}
+                                className="px-2 py-1 bg-red-500 text-white rounded text-xs font-medium hover:bg-red-600 transition-all"
+                                title="Never discover this peer again"
+                            >
+                                Block
+                            </TSDiv>
+                        </>
+                    ) : (
+                        <TSDiv
+                            tag="button"
+                            onClick={(e) => handleRemovePeer(e, peer.host)}
+                            className="px-2 py-1 bg-red-500 text-white rounded text-xs font-medium hover:bg-red-600 transition-all"
+                            title="Remove peer"
+                        >
+                            ✕
+                        </TSDiv>
+                    )}
+                </TSDiv>
+            </TSDiv>
+
+            {peerDetails[peer.host]?.note && (
+                <TSDiv className="mb-2 text-xs italic opacity-80">{peerDetails[peer.host]?.note}</TSDiv>
+            )}
+            {renderHealth(peer)}
+            {renderProbeDetails(peer)}
+
+            {peer.reposWithBranches && peer.reposWithBranches.length > 0 && (
+                <TSDiv className="text-sm space-y-2 mt-2">
+                    <TSDiv className="font-semibold">Repositories:</TSDiv>
+                    <TSDiv className="space-y-2 pl-2">
+                        {peer.reposWithBranches.map((repo) => (
+                            <TSDiv key={repo.name} className="space-y-1">
+                                <TSDiv
+                                    className="font-mono text-xs font-semibold bg-blue-50 text-blue-700 px-2 py-1 rounded w-fit">
+                                    {repo.name}
+                                </TSDiv>
+                                <TSDiv className="space-y-1 pl-2">
+                                    {Object.entries(repo.branches).map(([branch, commit]) => (
+                                        <TSDiv key={branch} className="flex items-center gap-2 text-xs">
+                                            <TSDiv tag="span"
+                                                   className="font-semibold">{branch}:</TSDiv>
+                                            <TSDiv tag="code"
+                                                   className="bg-gray-100 px-1.5 py-0.5 rounded font-mono">
+                                                {commit.substring(0, 7)}
+                                            </TSDiv>
+                                        </TSDiv>
+                                    ))}
+                                </TSDiv>
+                            </TSDiv>
+                        ))}
+                    </TSDiv>
+                </TSDiv>
+            )}
+
+            <TSDiv
+                tag="button"
+                className="w-full px-2 py-2 mt-2 bg-blue-500 text-white border-none rounded cursor-pointer text-sm font-medium hover:bg-blue-600 transition-colors"
+                onClick={(e) => {
+                    e.stopPropagation()
+                    handlePeerPress(peer.host)
+                }}
+            >
+                Open →d
+            </TSDiv>
+        </TSDiv>
+    )
+
     return (
         <TSDiv className="flex flex-col h-full border-r">
             <TSDiv className="p-4 border-b">
@@ -165,8 +465,75 @@ export function PeersView({onPeerPress}: PeersViewProps) {
                         Add
                     </TSDiv>
                 </TSDiv>
+
+                <TSDiv tag="details" className="mt-2 text-xs">
+                    <TSDiv tag="summary" className="cursor-pointer font-semibold">Import / export</TSDiv>
+                    <TSDiv className="flex flex-col gap-2 mt-2">
+                        <textarea
+                            rows={3}
+                            placeholder="relay://peers?list=…, JSON, YAML or one host per line"
+                            value={importText}
+                            onChange={(e) => setImportText(e.target.value)}
+                            className="px-2 py-1 border rounded font-mono text-xs focus:outline-none focus:border-blue-500"
+                        />
+                        <TSDiv className="flex flex-wrap items-center gap-1">
+                            <TSDiv tag="button" onClick={() => handleImport(importText)} className="px-2 py-0.5 rounded border hover:bg-gray-50">
+                                Import
+                            </TSDiv>
+                            <TSDiv tag="label" className="px-2 py-0.5 rounded border cursor-pointer hover:bg-gray-50">
+                                Import file…
+                                <input type="file" accept=".json,.yaml,.yml,.txt" onChange={handleImportFile} className="hidden"/>
+                            </TSDiv>
+                            <TSDiv tag="span" className="flex-1"/>
+                            <TSDiv tag="button" onClick={() => handleExport('json')} className="px-2 py-0.5 rounded border hover:bg-gray-50">
+                                Export JSON
+                            </TSDiv>
+                            <TSDiv tag="button" onClick={() => handleExport('yaml')} className="px-2 py-0.5 rounded border hover:bg-gray-50">
+                                Export YAML
+                            </TSDiv>
+                            <TSDiv tag="button" onClick={handleCopyShareLink} className="px-2 py-0.5 rounded border hover:bg-gray-50">
+                                Copy share link
+                            </TSDiv>
+                        </TSDiv>
+                    </TSDiv>
+                </TSDiv>
             </TSDiv>
 
+            {peers.length > 1 && (
+                <TSDiv className="flex items-center gap-1 px-2 pt-2 text-xs">
+                    <TSDiv tag="span" className="font-semibold mr-1">Sort:</TSDiv>
+                    {SORT_OPTIONS.map(({key, label}) => (
+                        <TSDiv
+                            key={label}
+                            tag="button"
+                            onClick={() => setSortKey(key)}
+                            className={`px-2 py-0.5 rounded border ${sortKey === key ? 'bg-blue-500 text-white border-blue-500' : 'hover:bg-gray-50'}`}
+                        >
+                            {label}
+                        </TSDiv>
+                    ))}
+                </TSDiv>
+            )}
+
+            {hostedRepos.length > 0 && (
+                <TSDiv className="flex flex-wrap items-center gap-1 px-2 pt-2 text-xs">
+                    <TSDiv tag="span" className="font-semibold mr-1">Open best peer:</TSDiv>
+                    {hostedRepos.map(({repo, best}) => (
+                        <TSDiv
+                            key={repo}
+                            tag="button"
+                            onClick={() => handleOpenBest(repo)}
+                            className={`px-2 py-0.5 rounded border font-mono ${best ? 'hover:bg-blue-50' : 'opacity-50'}`}
+                            title={best
+                                ? `Opens on ${best.host}${best.latencyMs !== null ? ` (${best.latencyMs.toFixed(0)}ms)` : ''}${best.fresh ? '' : ', behind other peers'}`
+                                : 'No reachable peer hosts this repo'}
+                        >
+                            {repo}
+                        </TSDiv>
+                    ))}
+                </TSDiv>
+            )}
+
             <TSDiv className="flex-1 overflow-y-auto flex flex-col gap-1 p-2">
                 {peers.length === 0 ? (
                     <TSDiv className="flex items-center justify-center h-full p-8 text-center">
@@ -175,77 +542,73 @@ export function PeersView({onPeerPress}: PeersViewProps) {
                             environment variable.</TSDiv>
                     </TSDiv>
                 ) : (
-                    peers.map((peer) => (
-                        <TSDiv
-                            key={peer.host}
-                            className="p-4 bg-white border rounded-lg cursor-pointer transition-all hover:bg-gray-50 hover:border-blue-500 hover:shadow-lg group"
-                            onClick={() => handlePeerPress(peer.host)}
-                        >
-                            <TSDiv className="flex justify-between items-center gap-4 mb-2">
-                                <TSDiv className="flex items-center gap-2 flex-1">
-                                    <TSDiv tag="span" className="font-semibold text-base">{peer.host}</TSDiv>
-                                    {peer.isProbing &&
-                                        <TSDiv tag="span" className="inline-block text-sm animation-spin">⟳</TSDiv>}
-                                </TSDiv>
-                                <TSDiv className="flex items-center gap-2">
-                                    {renderProbeStatus(peer)}
-                                    <TSDiv
-                                        tag="button"
-                                        onClick={(e) => handleRemovePeer(e, peer.host)}
-                                        className="px-2 py-1 bg-red-500 text-white rounded text-xs font-medium hover:bg-red-600 transition-all"
-                                        title="Remove peer"
-                                    >
-                                        ✕
-                                    </TSDiv>
-                                </TSDiv>
-                            </TSDiv>
-
-                            {peer.reposWithBranches && peer.reposWithBranches.length > 0 && (
-                                <TSDiv className="text-sm space-y-2 mt-2">
-                                    <TSDiv className="font-semibold">Repositories:</TSDiv>
-                                    <TSDiv className="space-y-2 pl-2">
-                                        {peer.reposWithBranches.map((repo) => (
-                                            <TSDiv key={repo.name} className="space-y-1">
-                                                <TSDiv
-                                                    className="font-mono text-xs font-semibold bg-blue-50 text-blue-700 px-2 py-1 rounded w-fit">
-                                                    {repo.name}
-                                                </TSDiv>
-                                                <TSDiv className="space-y-1 pl-2">
-                                                    {Object.entries(repo.branches).map(([branch, commit]) => (
-                                                        <TSDiv key={branch} className="flex items-center gap-2 text-xs">
-                                                            <TSDiv tag="span"
-                                                                   className="font-semibold">{branch}:</TSDiv>
-                                                            <TSDiv tag="code"
-                                                                   className="bg-gray-100 px-1.5 py-0.5 rounded font-mono">
-                                                                {commit.substring(0, 7)}
-                                                            </TSDiv>
-                                                        </TSDiv>
-                                                    ))}
-                                                </TSDiv>
+                    <>
+                        {peerGroups.length === 1 && peerGroups[0].label === null
+                            ? configuredPeers.map(renderPeer)
+                            : peerGroups.map(({label, peers: members}) => {
+                                const key = label ?? ''
+                                const collapsed = collapsedGroups.includes(key)
+                                return (
+                                    <TSDiv key={key} className="flex flex-col gap-1">
+                                        <TSDiv className="flex items-center gap-2 mt-2 px-1 text-sm">
+                                            <TSDiv tag="button" onClick={() => toggleGroup(key)} className="flex-1 text-left font-semibold">
+                                                {collapsed ? '▸' : '▾'} {label ?? 'Unlabelled'} ({members.length})
                                             </TSDiv>
-                                        ))}
+                                            <TSDiv
+                                                tag="button"
+                                                onClick={() => probeGroup(members.map((p) => p.host))}
+                                                className="px-2 py-0.5 rounded border text-xs hover:bg-gray-50"
+                                                title={`Probe the peers labelled ${label ?? '(none)'}`}
+                                            >
+                                                ⟳ Probe
+                                            </TSDiv>
+                                        </TSDiv>
+                                        {!collapsed && members.map(renderPeer)}
                                     </TSDiv>
-                                </TSDiv>
-                            )}
+                                )
+                            })}
+                        {discoveredPeers.length > 0 && (
+                            <TSDiv tag="h3" className="mt-3 mb-1 px-1 text-sm font-semibold">Discovered peers</TSDiv>
+                        )}
+                        {discoveredPeers.map(renderPeer)}
+                        {discovering && <TSDiv className="px-1 text-xs">Discovering peers...</TSDiv>}
+                    </>
+                )}
+            </TSDiv>
 
+            {blockedPeers.length > 0 && (
+                <TSDiv tag="details" className="p-2 border-t text-xs">
+                    <TSDiv tag="summary" className="cursor-pointer font-semibold">Blocked peers ({blockedPeers.length})</TSDiv>
+                    {blockedPeers.map((host) => (
+                        <TSDiv key={host} className="flex items-center justify-between gap-2 mt-1">
+                            <TSDiv tag="span" className="font-mono">{host}</TSDiv>
                             <TSDiv
                                 tag="button"
-                                className="w-full px-2 py-2 mt-2 bg-blue-500 text-white border-none rounded cursor-pointer text-sm font-medium hover:bg-blue-600 transition-colors"
-                                onClick={(e) => {
-                                    e.stopPropagation()
-                                    handlePeerPress(peer.host)
-                                }}
+                                onClick={() => unblockPeer(host)}
+                                className="px-2 py-0.5 border rounded hover:bg-gray-50"
                             >
-                                Open →d
+                                Unblock
                             </TSDiv>
                         </TSDiv>
-                    ))
-                )}
-            </TSDiv>
+                    ))}
+                </TSDiv>
+            )}
         </TSDiv>
     )
 }
 
+/**
+ * Save text as a file through a temporary download link
+ */
+function downloadFile(name: string, text: string, type: string) {
+    const url = URL.createObjectURL(new Blob([text], {type}))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = name
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
 /**
  * Get peers from environment or URL params
  */
@@ -1,9 +1,13 @@
 import React, { useEffect, useMemo, useState } from 'react'
+import { PeerFetcher, buildRepoHeaders, choosePeerSwitch, describeCommitPin, mapStackTrace, observeBranchHead, parseCapabilityManifest, parseImportMap, parseIntegrityConfig, pinCommit, rankFailoverPeers, rankPeersForRepo, resolveErrorLocation, summarizePeerHealthByHost } from '@clevertree/relay-client-shared'
 import { useAppState } from '../state/store'
 import { RepoFetchProvider } from '../context/RepoFetchContext'
 import HookRenderer from './HookRenderer'
 import ErrorBoundary from './ErrorBoundary'
+import { SourceExcerpt } from './SourceExcerpt'
+import { LoaderErrorHelp } from './LoaderErrorHelp'
 import { TSDiv } from './TSDiv'
+import { listOfflineSnapshots, makeAvailableOffline, offlineServed, onOfflineStoreChange, removeOfflineCopy, trackOffline, type OfflineScope, type OfflineServed, type OfflineSnapshot } from '../services/offlineStore'
 
 interface RepoBrowserProps {
     tabId: string
@@ -16,6 +20,12 @@ interface OptionsInfo {
             get?: { path: string }
             query?: { path: string }
         }
+        // Capabilities the client hooks need (see parseCapabilityManifest)
+        capabilities?: unknown
+        // Bare specifier mappings for hook imports (see parseImportMap)
+        imports?: Record<string, string>
+        // Per-commit integrity manifest location (see parseIntegrityConfig)
+        integrity?: unknown
     }
     repos?: { name: string; branches: Record<string, string> }[]
     capabilities?: { supports: string[] }
@@ -23,6 +33,9 @@ interface OptionsInfo {
     [key: string]: any
 }
 
+// How often to check OPTIONS for a new branch head while the page is visible
+const BRANCH_HEAD_POLL_MS = 30000
+
 /**
  * Helper to normalize host URL - ensures proper protocol is added if missing
  */
@@ -36,6 +49,21 @@ function normalizeHostUrl(host: string): string {
     return `https://${host}` // No port, assume https
 }
 
+/**
+ * The OPTIONS entry for a tab's repo, or the peer's first repo when the tab names none
+ */
+function repoEntry(opts: OptionsInfo | null | undefined, repo?: string) {
+    return repo ? opts?.repos?.find((r) => r.name === repo) : opts?.repos?.[0]
+}
+
+/**
+ * Path and query of a resolved repo URL, as requested from any peer
+ */
+function peerPath(url: string): string {
+    const parsed = new URL(url)
+    return parsed.pathname + parsed.search
+}
+
 export function RepoBrowser({ tabId }: RepoBrowserProps) {
     const tab = useAppState((s) => s.tabs.find((t) => t.id === tabId))
     const updateTab = useAppState((s) => s.updateTab)
@@ -43,23 +71,77 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
     const [error, setError] = useState<string | null>(null)
     const [errorDetails, setErrorDetails] = useState<any>(null)
     const [optionsInfo, setOptionsInfo] = useState<OptionsInfo>({})
+    const capabilityManifest = useMemo(() => parseCapabilityManifest(optionsInfo), [optionsInfo])
+    const importMapEntries = useMemo(() => parseImportMap(optionsInfo), [optionsInfo])
+    const integrityConfig = useMemo(() => parseIntegrityConfig(optionsInfo), [optionsInfo])
     // Hook rendering delegated to HookRenderer component
     // Server version and git pull state
-    const [serverHeadCommit, setServerHeadCommit] = useState<string | null>(null)
+    const [serverHead, setServerHead] = useState<string | null>(null)
+    const serverHeadCommit = serverHead ? serverHead.substring(0, 7) : null
     const [isPulling, setIsPulling] = useState(false)
     const [pullResult, setPullResult] = useState<any>(null)
     const [showUpdateModal, setShowUpdateModal] = useState(false)
+    // Files served by another peer after the tab's peer failed, keyed by path
+    const [failedOver, setFailedOver] = useState<Record<string, string>>({})
+    const peers = useAppState((s) => s.peers)
+    const peerHealth = useAppState((s) => s.peerHealth)
+    const tabHost = tab?.host
+    const failoverRepo = tab?.repo || optionsInfo.repos?.[0]?.name
+    const failoverBranch = tab?.currentBranch || 'main'
+    // A pin only applies to the branch it was taken from
+    const pin = tab?.pin?.branch === failoverBranch ? tab.pin : undefined
+    const pinnedCommit = pin?.commit
+    // What the page shows: the pinned commit, or the branch head
+    const revision = pinnedCommit ?? serverHead
+    const repoHeaders = useMemo(() => buildRepoHeaders(tab?.currentBranch, tab?.repo, pinnedCommit), [tab?.currentBranch, tab?.repo, pinnedCommit])
+    // Repo-relative requests carry the tab's repo, branch and pinned commit; absolute URLs may point anywhere and are left alone
+    const withRepoHeaders = useMemo(() => (init?: RequestInit): RequestInit | undefined => {
+        if (Object.keys(repoHeaders).length === 0) return init
+        return { ...init, headers: { ...repoHeaders, ...Object.fromEntries(new Headers(init?.headers).entries()) } }
+    }, [repoHeaders])
+    // Repo GETs fail over to peers serving the same repo at the same head
+    const peerFetcher = useMemo(() => {
+        if (!tabHost) return null
+        const primary = normalizeHostUrl(tabHost)
+        return new PeerFetcher({
+            primary,
+            onServed: (path, baseUrl) => setFailedOver((prev) => {
+                if (baseUrl === primary) {
+                    if (!(path in prev)) return prev
+                    const next = { ...prev }
+                    delete next[path]
+                    return next
+                }
+                return prev[path] === baseUrl ? prev : { ...prev, [path]: baseUrl }
+            }),
+        })
+    }, [tabHost])
+    useEffect(() => {
+        if (!peerFetcher) return
+        const candidates = rankFailoverPeers(peers, { repo: failoverRepo, branch: failoverBranch, head: revision }, peerFetcher.primary)
+        peerFetcher.setCandidates(() => candidates)
+    }, [peerFetcher, peers, failoverRepo, failoverBranch, revision])
+    const failedOverPeers = Array.from(new Set(Object.values(failedOver)))
+    // Set while OPTIONS is answered from the offline store because the peer is unreachable
+    const [offline, setOffline] = useState<OfflineServed | null>(null)
+    // The snapshot the user made available offline for this branch
+    const [offlineCopy, setOfflineCopy] = useState<OfflineSnapshot | null>(null)
+    const [savingOffline, setSavingOffline] = useState(false)
+    const offlineScope = useMemo<OfflineScope | null>(() => tabHost
+        ? { origin: new URL(normalizeHostUrl(tabHost)).origin, repo: tab?.repo, branch: failoverBranch }
+        : null, [tabHost, tab?.repo, failoverBranch])
     // Client is now dumb: search and navigation UI are moved into repo layout
     // Keep minimal state only for hook/file rendering
 
     // Get server version from OPTIONS response (already includes branch commit hash)
     const fetchServerVersion = async (opts: OptionsInfo) => {
-        if (!opts?.repos?.[0]?.branches) return
+        const branches = repoEntry(opts, tab?.repo)?.branches
+        if (!branches) return
         try {
             const currentBranch = tab?.currentBranch || 'main'
-            const commitHash = opts.repos[0].branches[currentBranch]
+            const commitHash = branches[currentBranch]
             if (commitHash) {
-                setServerHeadCommit(commitHash.substring(0, 7)) // Short hash
+                setServerHead(commitHash)
             }
         } catch (e) {
             console.debug('[RepoBrowser] Could not extract commit hash from OPTIONS:', e)
@@ -91,11 +173,134 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
         }
     }
 
-    // Refresh page after update
+    // Count how far the branch has moved past a pinned commit
+    useEffect(() => {
+        if (!tabId || !pin || !serverHead) return
+        const observed = observeBranchHead(pin, serverHead)
+        if (observed !== pin) updateTab(tabId, (t) => ({ ...t, pin: observed }))
+    }, [tabId, pin, serverHead, updateTab])
+
+    // Move the tab when its peer goes down or falls behind, or another peer is clearly better.
+    // A pinned tab stays put: its commit may not be on the other peers.
+    useEffect(() => {
+        if (!tabId || !tabHost || !tab?.followBestPeer || pin || !failoverRepo) return
+        const ranked = rankPeersForRepo(peers, failoverRepo, { branch: failoverBranch, health: summarizePeerHealthByHost(peerHealth) })
+        const next = choosePeerSwitch(ranked, tabHost)
+        if (!next) return
+        console.info(`[RepoBrowser] Following best peer for ${failoverRepo}: ${tabHost} → ${next.host}`)
+        updateTab(tabId, (t) => ({ ...t, host: next.host, title: t.title === t.host ? next.host : t.title }))
+    }, [tabId, tabHost, tab?.followBestPeer, pin, failoverRepo, failoverBranch, peers, peerHealth, updateTab])
+
+    const handleToggleFollowBestPeer = () => {
+        if (!tab) return
+        updateTab(tab.id, (t) => ({ ...t, followBestPeer: !t.followBestPeer }))
+    }
+
+    const handlePin = () => {
+        if (!tab || !serverHead) return
+        updateTab(tab.id, (t) => ({ ...t, pin: pinCommit(serverHead, failoverBranch) }))
+    }
+
+    // Unpinning moves the revision to the branch head, which hot reloads the hook
+    const handleUnpin = () => {
+        if (!tab) return
+        updateTab(tab.id, (t) => ({ ...t, pin: undefined }))
+    }
+
+    // Have the offline store cache this branch as it is browsed, and look up a kept copy
+    useEffect(() => {
+        if (!offlineScope) return
+        let cancelled = false
+        const track = async () => {
+            await trackOffline(offlineScope)
+            const snapshots = await listOfflineSnapshots()
+            const kept = snapshots
+                .filter((s) => s.kept && s.origin === offlineScope.origin && s.repo === offlineScope.repo && s.branch === offlineScope.branch)
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+            if (!cancelled) setOfflineCopy(kept || null)
+        }
+        void track()
+        // The worker takes control after the first page load
+        const unsubscribe = onOfflineStoreChange(() => void track())
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [offlineScope])
+
+    const handleMakeAvailableOffline = async () => {
+        // Nothing new to fetch while the peer is unreachable
+        if (!offlineScope || savingOffline || offline) return
+        setSavingOffline(true)
+        try {
+            // Everything browsed so far is already in the snapshot; make sure the entry hook is too
+            const paths = [optionsInfo.client?.hooks?.get?.path, optionsInfo.client?.hooks?.query?.path].filter((p): p is string => !!p)
+            const saved = await makeAvailableOffline(offlineScope, paths)
+            setOfflineCopy(saved.snapshot)
+            if (saved.failed.length) console.warn('[RepoBrowser] Some files could not be saved for offline use:', saved.failed)
+        } catch (e) {
+            console.warn('[RepoBrowser] Make available offline failed:', e)
+        } finally {
+            setSavingOffline(false)
+        }
+    }
+
+    const handleRemoveOfflineCopy = async () => {
+        if (!offlineScope) return
+        try {
+            await removeOfflineCopy(offlineScope)
+            setOfflineCopy(null)
+        } catch (e) {
+            console.warn('[RepoBrowser] Removing the offline copy failed:', e)
+        }
+    }
+
+    // Hot reload after update: moving the head makes HookRenderer re-execute changed modules in place
     const handleRefresh = () => {
-        window.location.reload()
+        setShowUpdateModal(false)
+        if (pullResult?.after_commit) {
+            setServerHead(pullResult.after_commit)
+            return
+        }
+        // Failed pulls and older servers don't report the new commit: ask the peer for its head instead
+        void (async () => {
+            const opts = await loadOptions()
+            if (opts) await fetchServerVersion(opts)
+        })()
     }
 
+    // Poll the branch head so hooks hot reload when the repo changes
+    useEffect(() => {
+        if (!tab?.host) return
+        const baseUrl = normalizeHostUrl(tab.host)
+        const branch = tab.currentBranch || 'main'
+        const repo = tab.repo
+        let cancelled = false
+        const pollHead = async () => {
+            if (document.visibilityState === 'hidden') return
+            try {
+                const resp = await fetch(`${baseUrl}/`, { method: 'OPTIONS' })
+                if (!resp.ok) return
+                if (!cancelled) setOffline(offlineServed(resp))
+                const opts: OptionsInfo = await resp.json()
+                const head = repoEntry(opts, repo)?.branches?.[branch]
+                if (!cancelled && head) setServerHead(head)
+            } catch (e) {
+                console.debug('[RepoBrowser] Branch head poll failed:', e)
+            }
+        }
+        const timer = setInterval(pollHead, BRANCH_HEAD_POLL_MS)
+        const onVisible = () => {
+            if (document.visibilityState === 'visible') void pollHead()
+        }
+        document.addEventListener('visibilitychange', onVisible)
+        return () => {
+            cancelled = true
+            clearInterval(timer)
+            document.removeEventListener('visibilitychange', onVisible)
+        }
+    }, [tab?.host, tab?.repo, tab?.currentBranch])
+
     useEffect(() => {
         if (!tab || !tab.host) return
             ;
@@ -121,6 +326,7 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
 
             // Attempt OPTIONS discovery first
             const resp = await fetch(`${baseUrl}/`, { method: 'OPTIONS' })
+            setOffline(offlineServed(resp))
             diagnostics.options = {
                 status: resp.status,
                 ok: resp.ok,
@@ -163,7 +369,8 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
 
             setOptionsInfo(options)
             diagnostics.parsedFrom = parsedFrom
-            const branches = options.repos?.[0]?.branches ? Object.keys(options.repos[0].branches) : undefined
+            const repoBranches = repoEntry(options, tab.repo)?.branches
+            const branches = repoBranches ? Object.keys(repoBranches) : undefined
             updateTab(tab.id, (t) => ({
                 ...t,
                 branches,
@@ -226,6 +433,9 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
         return <div className="repo-browser">Tab not found</div>
     }
 
+    // Map hook errors back to the original /hooks/... file and line when possible
+    const errorLocation = errorDetails ? resolveErrorLocation(errorDetails) : null
+
     const repoBaseUrl = useMemo(() => tab?.host ? normalizeHostUrl(tab.host) : '/', [tab?.host])
     const providerResolve = useMemo(() => (p: string) => {
         const path = p.startsWith('/') ? p.slice(1) : p
@@ -234,15 +444,24 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
     const providerFetch = useMemo(() => (input: any, init?: RequestInit) => {
         if (typeof input === 'string') {
             const isAbs = /^(https?:)?\/\//i.test(input)
-            return fetch(isAbs ? input : providerResolve(input), init)
+            if (!isAbs && peerFetcher) return peerFetcher.fetch(peerPath(providerResolve(input)), withRepoHeaders(init)).then((r) => r.response)
+            return fetch(isAbs ? input : providerResolve(input), isAbs ? init : withRepoHeaders(init))
         }
         if (input instanceof URL) return fetch(input.toString(), init)
         return fetch(input, init)
-    }, [providerResolve])
-
-    const providerFetchJson = useMemo(() => async (path: string, init?: RequestInit) => {
-        const url = providerResolve(path)
-        const resp = await fetch(url, init)
+    }, [providerResolve, peerFetcher, withRepoHeaders])
+
+    const providerFetchJson = useMemo(() => async (path: string, requestInit?: RequestInit) => {
+        const init = withRepoHeaders(requestInit)
+        let url = providerResolve(path)
+        let resp: Response
+        if (peerFetcher) {
+            const served = await peerFetcher.fetch(peerPath(url), init)
+            url = served.url
+            resp = served.response
+        } else {
+            resp = await fetch(url, init)
+        }
         const ct = (resp.headers.get('content-type') || '').toLowerCase()
         const text = await resp.text()
         const mkErr = (message: string) => {
@@ -263,7 +482,7 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
         } catch (err) {
             throw mkErr(`Failed to parse JSON: ${(err as any)?.message || String(err)}`)
         }
-    }, [providerResolve])
+    }, [providerResolve, peerFetcher, withRepoHeaders])
 
     return (
         <RepoFetchProvider value={{
@@ -276,6 +495,13 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
                 <ErrorBoundary>
                     <TSDiv className="flex-1 overflow-y-auto">
 
+                        {offline && (
+                            <TSDiv className="px-4 py-2 text-sm bg-amber-100 text-amber-900 border-b border-amber-300"
+                                title={offline.commit ? `Commit ${offline.commit}` : undefined}>
+                                📴 Peer unreachable — offline snapshot from {offline.savedAt.toLocaleString()}
+                            </TSDiv>
+                        )}
+
                         {loading &&
                             <TSDiv className="flex items-center justify-center h-full">Loading...</TSDiv>}
 
@@ -287,6 +513,7 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
 
                                 {errorDetails && (
                                     <TSDiv className="mt-4 space-y-3 text-sm">
+                                        <LoaderErrorHelp error={errorDetails} />
                                         {/* Show hook path and HTTP request info */}
                                         {errorDetails.kind && (
                                             <TSDiv className="bg-red-600/10 p-3 rounded border/50">
@@ -429,7 +656,7 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
                                                         <TSDiv tag="summary" className="cursor-pointer hover:underline opacity-70 mb-1">Stack trace</TSDiv>
                                                         <TSDiv tag="pre"
                                                             className="overflow-auto max-h-24 whitespace-pre-wrap opacity-60 bg-black/20 p-2 rounded">
-                                                            {errorDetails.stack.join('\n')}
+                                                            {mapStackTrace(errorDetails.stack.join('\n'))}
                                                         </TSDiv>
                                                     </TSDiv>
                                                 )}
@@ -467,6 +694,8 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
                                             </TSDiv>
                                         )}
 
+                                        {errorLocation && <SourceExcerpt location={errorLocation} />}
+
                                         {/* Show general diagnostics */}
                                         {errorDetails.reason && (
                                             <TSDiv className="text-xs opacity-80">
@@ -512,7 +741,18 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
                         )}
 
                         {!loading && (
-                            tab?.host ? <HookRenderer host={tab.host} /> : null
+                            tab?.host ? (
+                                <HookRenderer
+                                    host={tab.host}
+                                    revision={revision}
+                                    repoHeaders={repoHeaders}
+                                    manifest={capabilityManifest}
+                                    capabilityScope={tab.repo ? `${tab.host}/${tab.repo}` : tab.host}
+                                    imports={importMapEntries}
+                                    integrity={integrityConfig}
+                                    peers={peerFetcher}
+                                />
+                            ) : null
                         )}
                         {/* No placeholders: if the hook didn't render and there's no error, render nothing */}
                     </TSDiv>
@@ -530,6 +770,48 @@ export function RepoBrowser({ tabId }: RepoBrowserProps) {
                         ) : (
                             <TSDiv tag="span">Version: loading...</TSDiv>
                         )}
+                        {pin ? (
+                            <TSDiv tag="span" className="ml-3">
+                                <TSDiv tag="span" className={pin.headsSince.length ? 'text-amber-600' : ''}
+                                    title={pin.commit}>📌 {describeCommitPin(pin)}</TSDiv>
+                                <TSDiv tag="button" onClick={handleUnpin}
+                                    className="ml-2 px-2 py-0.5 rounded text-xs border cursor-pointer"
+                                    title="Follow the branch head again">Unpin</TSDiv>
+                            </TSDiv>
+                        ) : serverHead && (
+                            <TSDiv tag="button" onClick={handlePin}
+                                className="ml-3 px-2 py-0.5 rounded text-xs border cursor-pointer"
+                                title="Stay on this commit while the branch moves">Pin</TSDiv>
+                        )}
+                        {failoverRepo && (
+                            <TSDiv tag="button" onClick={handleToggleFollowBestPeer} aria-pressed={!!tab?.followBestPeer}
+                                className={`ml-3 px-2 py-0.5 rounded text-xs border cursor-pointer ${tab?.followBestPeer ? 'bg-blue-50' : ''}`}
+                                title={pin ? 'Paused while pinned' : 'Move this tab to another peer when this one degrades'}>
+                                {tab?.followBestPeer ? '✓ Following best peer' : 'Follow best peer'}
+                            </TSDiv>
+                        )}
+                        {offlineCopy ? (
+                            <TSDiv tag="span" className="ml-3" title={`Saved commit ${offlineCopy.commit}`}>
+                                ✓ Available offline ({new Date(offlineCopy.updatedAt).toLocaleDateString()})
+                                <TSDiv tag="button" onClick={handleRemoveOfflineCopy}
+                                    className="ml-2 px-2 py-0.5 rounded text-xs border cursor-pointer">Remove</TSDiv>
+                            </TSDiv>
+                        ) : offlineScope && (
+                            <TSDiv tag="button" onClick={handleMakeAvailableOffline} aria-disabled={savingOffline || !!offline}
+                                className="ml-3 px-2 py-0.5 rounded text-xs border cursor-pointer"
+                                title="Keep this branch readable when the peer is offline">
+                                {savingOffline ? 'Saving…' : 'Make available offline'}
+                            </TSDiv>
+                        )}
+                        {failedOverPeers.length > 0 && (
+                            <TSDiv
+                                tag="span"
+                                className="ml-3 text-amber-600"
+                                title={Object.entries(failedOver).map(([path, baseUrl]) => `${path} ← ${baseUrl}`).join('\n')}
+                            >
+                                ⇄ {Object.keys(failedOver).length} file(s) served by {failedOverPeers.map((b) => b.replace(/^https?:\/\//, '')).join(', ')}
+                            </TSDiv>
+                        )}
                     </TSDiv>
                     <TSDiv
                         tag="button"
@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
-import { styleManager, unifiedBridge } from '@clevertree/relay-client-shared'
+import { styleManager, unifiedBridge, capabilityOfKey, describeCapabilityRequest, type TranspileCacheStats } from '@clevertree/relay-client-shared'
+import { transpileCache } from '../services/transpileCache'
 import { useTranspilerSetting } from '../state/transpilerSettings'
+import { useHookSandboxSetting } from '../state/sandboxSettings'
 import type { ThemeName } from '../state/store'
 import { useAppState } from '../state/store'
 import { TSDiv } from './TSDiv'
@@ -51,9 +53,34 @@ interface DebugPanelState {
 
 export function SettingsTab() {
     const { setting, setSetting } = useTranspilerSetting()
+    const { enabled: sandboxEnabled, setEnabled: setSandboxEnabled } = useHookSandboxSetting()
     const theme = useAppState((s) => s.theme)
     const setTheme = useAppState((s) => s.setTheme)
+    const capabilityGrants = useAppState((s) => s.capabilityGrants)
+    const setCapabilityDecisions = useAppState((s) => s.setCapabilityDecisions)
+    const revokeCapability = useAppState((s) => s.revokeCapability)
+    const clearCapabilityGrants = useAppState((s) => s.clearCapabilityGrants)
     const [themeList, setThemeList] = useState<ThemeListItem[]>([])
+    const [cacheStats, setCacheStats] = useState<TranspileCacheStats | null>(null)
+
+    const refreshCacheStats = useCallback(() => {
+        transpileCache.stats()
+            .then(setCacheStats)
+            .catch((e) => console.warn('[SettingsTab] Failed to read transpile cache stats', e))
+    }, [])
+
+    const clearTranspileCache = useCallback(async () => {
+        try {
+            await transpileCache.clear()
+        } catch (e) {
+            console.warn('[SettingsTab] Failed to clear transpile cache', e)
+        }
+        refreshCacheStats()
+    }, [refreshCacheStats])
+
+    useEffect(() => {
+        refreshCacheStats()
+    }, [refreshCacheStats])
 
     // Load theme list on mount
     useEffect(() => {
@@ -343,6 +370,125 @@ export function SettingsTab() {
                         <TSDiv tag="span" className="ml-3 text-sm">Server</TSDiv>
                     </TSDiv>
                 </TSDiv>
+
+                <TSDiv className="flex items-center justify-between rounded-lg border p-4 mt-3">
+                    <TSDiv>
+                        <TSDiv tag="p" className="text-base font-medium">Transpile cache</TSDiv>
+                        <TSDiv tag="p" className="text-sm mt-1">
+                            {cacheStats
+                                ? `${cacheStats.entries} modules · ${(cacheStats.bytes / 1024).toFixed(1)} KB of ${(cacheStats.maxBytes / 1024 / 1024).toFixed(0)} MB · ${cacheStats.hits} hits / ${cacheStats.misses} misses this session`
+                                : 'Loading cache statistics...'}
+                        </TSDiv>
+                    </TSDiv>
+                    <TSDiv className="flex items-center gap-2">
+                        <TSDiv
+                            tag="button"
+                            onClick={refreshCacheStats}
+                            className="px-3 py-2 text-sm border rounded-lg"
+                        >
+                            Refresh
+                        </TSDiv>
+                        <TSDiv
+                            tag="button"
+                            onClick={clearTranspileCache}
+                            className="px-3 py-2 text-sm border rounded-lg"
+                        >
+                            Clear transpile cache
+                        </TSDiv>
+                    </TSDiv>
+                </TSDiv>
+            </TSDiv>
+
+            <TSDiv tag="section">
+                <TSDiv className="flex items-center justify-between">
+                    <TSDiv>
+                        <TSDiv tag="h2" className="text-lg font-semibold">Hook sandbox</TSDiv>
+                        <TSDiv tag="p" className="text-sm">Isolate repository hooks from the client.</TSDiv>
+                    </TSDiv>
+                </TSDiv>
+
+                <TSDiv className="flex items-center justify-between rounded-lg border p-4">
+                    <TSDiv>
+                        <TSDiv tag="p" className="text-base font-medium">Run hooks in a sandboxed iframe</TSDiv>
+                        <TSDiv tag="p" className="text-sm mt-1">
+                            Untrusted peer hooks run in a separate origin without access to client storage or
+                            state, and render through a serialized view. Hooks that touch the DOM or React
+                            internals directly may not work. Permissions you grant a repository are only
+                            enforced here; outside the sandbox its hooks can reach the network, storage and
+                            clipboard directly.
+                        </TSDiv>
+                    </TSDiv>
+                    <TSDiv tag="label" className="inline-flex items-center cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            className="sr-only peer"
+                            checked={sandboxEnabled}
+                            onChange={(e) => setSandboxEnabled(e.target.checked)}
+                        />
+                        <TSDiv
+                            className="w-12 h-6 peer-focus:outline-none rounded-full peer peer-checked:bg-blue-600 transition-colors relative">
+                            <TSDiv
+                                className="absolute top-0.5 left-0.5 h-5 w-5 bg-white rounded-full shadow transform transition-transform peer-checked:translate-x-6" />
+                        </TSDiv>
+                    </TSDiv>
+                </TSDiv>
+            </TSDiv>
+
+            <TSDiv tag="section">
+                <TSDiv className="flex items-center justify-between">
+                    <TSDiv>
+                        <TSDiv tag="h2" className="text-lg font-semibold">Hook permissions</TSDiv>
+                        <TSDiv tag="p" className="text-sm">Capabilities granted to repository hooks, per host. Forgetting a
+                            decision asks again the next time the repo is opened.</TSDiv>
+                    </TSDiv>
+                </TSDiv>
+
+                {Object.keys(capabilityGrants).length === 0 && (
+                    <TSDiv tag="p" className="text-sm opacity-70">No permissions have been requested yet.</TSDiv>
+                )}
+                {Object.entries(capabilityGrants).map(([scope, grants]) => (
+                    <TSDiv key={scope} className="rounded-lg border p-4 mt-3">
+                        <TSDiv className="flex items-center justify-between">
+                            <TSDiv tag="p" className="text-base font-medium font-mono">{scope}</TSDiv>
+                            <TSDiv
+                                tag="button"
+                                onClick={() => clearCapabilityGrants(scope)}
+                                className="px-3 py-1 text-sm border rounded-lg"
+                            >
+                                Forget all
+                            </TSDiv>
+                        </TSDiv>
+                        <TSDiv tag="ul" className="mt-2 divide-y divide-[var(--border)]">
+                            {Object.entries(grants).map(([key, decision]) => (
+                                <TSDiv tag="li" key={key} className="flex items-center justify-between py-2 text-sm">
+                                    <TSDiv tag="span">
+                                        {describeCapabilityRequest({
+                                            capability: capabilityOfKey(key),
+                                            origin: key.includes(':') ? key.slice(key.indexOf(':') + 1) : undefined,
+                                        })}
+                                    </TSDiv>
+                                    <TSDiv className="flex items-center gap-2">
+                                        <select
+                                            className="px-2 py-1 border rounded text-sm bg-[var(--bg-surface)]"
+                                            value={decision}
+                                            onChange={(e) => setCapabilityDecisions(scope, { [key]: e.target.value === 'granted' ? 'granted' : 'denied' })}
+                                        >
+                                            <option value="granted">Allowed</option>
+                                            <option value="denied">Denied</option>
+                                        </select>
+                                        <TSDiv
+                                            tag="button"
+                                            onClick={() => revokeCapability(scope, key)}
+                                            className="px-2 py-1 text-xs border rounded"
+                                        >
+                                            Forget
+                                        </TSDiv>
+                                    </TSDiv>
+                                </TSDiv>
+                            ))}
+                        </TSDiv>
+                    </TSDiv>
+                ))}
             </TSDiv>
 
             <TSDiv tag="section">
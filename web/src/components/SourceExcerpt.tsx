@@ -0,0 +1,36 @@
+import type { SourceLocation } from '@clevertree/relay-client-shared'
+import { TSDiv } from './TSDiv'
+
+interface SourceExcerptProps {
+    location: SourceLocation
+}
+
+/**
+ * Shows the hook file and line an error maps to, with surrounding source lines
+ */
+export function SourceExcerpt({ location }: SourceExcerptProps) {
+    const width = String(location.excerpt[location.excerpt.length - 1]?.line ?? location.line).length
+    return (
+        <TSDiv className="mt-2 text-sm bg-[var(--bg-error-detail)] p-2 rounded">
+            <TSDiv className="font-mono text-xs mb-1">
+                <TSDiv tag="strong">Error Location:</TSDiv> {location.filename}:{location.line}:{location.column}
+                {!location.original && <TSDiv tag="span" className="opacity-70"> (transpiled output, no source map)</TSDiv>}
+            </TSDiv>
+            {location.excerpt.length > 0 && (
+                <TSDiv tag="pre" className="text-xs overflow-auto font-mono bg-black/20 p-2 rounded">
+                    {location.excerpt.map((l) => (
+                        <TSDiv
+                            tag="span"
+                            key={l.line}
+                            className={l.highlight ? 'block bg-red-600/30 font-semibold' : 'block'}
+                        >
+                            {`${l.highlight ? '>' : ' '} ${String(l.line).padStart(width)} | ${l.text}`}
+                        </TSDiv>
+                    ))}
+                </TSDiv>
+            )}
+        </TSDiv>
+    )
+}
+
+export default SourceExcerpt
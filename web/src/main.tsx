@@ -3,6 +3,7 @@ import {createRoot} from 'react-dom/client'
 import App from './App.tsx'
 // wasm loader consolidated in @clevertree/relay-client-shared
 import ErrorBoundary from './components/ErrorBoundary'
+import {registerOfflineStore} from './services/offlineStore'
 import './index.css'
 
 async function bootstrap() {
@@ -35,6 +36,9 @@ async function bootstrap() {
             </ErrorBoundary>
         </StrictMode>,
     )
+
+    // Caches browsed repos so they stay readable when their peer goes offline
+    void registerOfflineStore()
 }
 
 bootstrap()
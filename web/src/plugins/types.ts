@@ -1,4 +1,5 @@
 import type { ComponentType, ReactNode } from 'react'
+import type { PeerFetcher } from '@clevertree/relay-client-shared'
 
 /**
  * Plugin Interface
@@ -83,6 +84,8 @@ export interface PluginConfig {
   branch?: string
   // Repository to fetch from (for Relay server)
   repo?: string
+  // Peers to fail over to when the base URL's peer fails (takes precedence over baseUrl)
+  peers?: PeerFetcher
 }
 
 /**
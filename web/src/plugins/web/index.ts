@@ -35,7 +35,7 @@ export function createWebPlugin(config: Partial<PluginConfig> = {}): Plugin {
     },
 
     async fetchContent(path: string): Promise<string> {
-      const { baseUrl, headers, branch, repo } = pluginConfig
+      const { baseUrl, headers, branch, repo, peers } = pluginConfig
       
       // Build URL with optional base
       const url = baseUrl ? `${baseUrl}${path}` : path
@@ -50,9 +50,11 @@ export function createWebPlugin(config: Partial<PluginConfig> = {}): Plugin {
       }
 
       try {
-        const response = await fetch(url, {
-          headers: requestHeaders,
-        })
+        const response = peers
+          ? (await peers.fetch(path, { headers: requestHeaders })).response
+          : await fetch(url, {
+            headers: requestHeaders,
+          })
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -0,0 +1,7 @@
+/**
+ * Loader spans from every HookRenderer, shown as a waterfall in the debug menu.
+ */
+
+import { LoaderTrace } from '@clevertree/relay-client-shared'
+
+export const loaderTrace = new LoaderTrace()
@@ -0,0 +1,133 @@
+/**
+ * Page side of the offline store service worker (public/offline-sw.js).
+ *
+ * The worker caches what tracked peers serve into per-commit snapshots and answers
+ * from them when a peer is unreachable; responses it answers carry the snapshot date.
+ */
+
+const WORKER_URL = '/offline-sw.js'
+const REPLY_TIMEOUT_MS = 60000
+
+export const OFFLINE_SNAPSHOT_HEADER = 'x-relay-offline-snapshot'
+export const OFFLINE_COMMIT_HEADER = 'x-relay-offline-commit'
+
+/**
+ * A repo branch as the worker caches it
+ */
+export interface OfflineScope {
+  /** Peer origin, e.g. https://peer.example */
+  origin: string
+  repo?: string
+  branch: string
+}
+
+export interface OfflineSnapshot extends OfflineScope {
+  commit: string
+  /** ISO dates the snapshot was created and last written */
+  savedAt: string
+  updatedAt: string
+  /** Made available offline by the user; never evicted */
+  kept: boolean
+}
+
+export interface OfflineSaveResult {
+  snapshot: OfflineSnapshot
+  entries: number
+  /** URLs that could not be fetched into the snapshot */
+  failed: string[]
+}
+
+/**
+ * Where a response came from when the offline store answered it
+ */
+export interface OfflineServed {
+  savedAt: Date
+  commit: string | null
+}
+
+export function offlineSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof caches !== 'undefined'
+}
+
+/**
+ * Register the worker; failures (unsupported browser, dev server without public/) only disable offline browsing
+ */
+export async function registerOfflineStore(): Promise<void> {
+  if (!offlineSupported()) return
+  try {
+    await navigator.serviceWorker.register(WORKER_URL)
+  } catch (e) {
+    console.warn('[offlineStore] Service worker registration failed; offline browsing disabled', e)
+  }
+}
+
+async function send<T>(message: Record<string, unknown>): Promise<T> {
+  if (!offlineSupported()) throw new Error('Offline browsing is not supported in this browser')
+  // Not `ready`: it never settles when registration failed
+  const registration = await navigator.serviceWorker.getRegistration()
+  const worker = navigator.serviceWorker.controller || registration?.active
+  if (!worker) throw new Error('Offline store is not active yet')
+  return new Promise<T>((resolve, reject) => {
+    const channel = new MessageChannel()
+    const timer = setTimeout(() => reject(new Error(`Offline store did not answer ${message.type}`)), REPLY_TIMEOUT_MS)
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer)
+      if (event.data?.ok) resolve(event.data.result as T)
+      else reject(new Error(event.data?.error || `Offline store failed to ${message.type}`))
+    }
+    worker.postMessage(message, [channel.port2])
+  })
+}
+
+/**
+ * Call `listener` when a (new) worker takes control of the page; returns an unsubscribe function
+ */
+export function onOfflineStoreChange(listener: () => void): () => void {
+  if (!offlineSupported()) return () => { }
+  navigator.serviceWorker.addEventListener('controllerchange', listener)
+  return () => navigator.serviceWorker.removeEventListener('controllerchange', listener)
+}
+
+/**
+ * Cache what this peer serves for the repo branch as the user browses it
+ */
+export async function trackOffline(scope: OfflineScope): Promise<void> {
+  if (!offlineSupported()) return
+  try {
+    await send({ type: 'track', ...scope })
+  } catch (e) {
+    console.debug('[offlineStore] track failed:', e)
+  }
+}
+
+/**
+ * Keep the branch's current snapshot and fetch `paths` into it alongside what was already browsed
+ */
+export function makeAvailableOffline(scope: OfflineScope, paths: string[]): Promise<OfflineSaveResult> {
+  return send({ type: 'save', ...scope, paths })
+}
+
+/**
+ * Drop the kept snapshots of a repo branch
+ */
+export function removeOfflineCopy(scope: OfflineScope): Promise<{ removed: number }> {
+  return send({ type: 'remove', ...scope })
+}
+
+export async function listOfflineSnapshots(): Promise<OfflineSnapshot[]> {
+  if (!offlineSupported()) return []
+  try {
+    return await send<OfflineSnapshot[]>({ type: 'list' })
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The snapshot a response was answered from, or null when the peer answered it
+ */
+export function offlineServed(response: Response): OfflineServed | null {
+  const savedAt = response.headers.get(OFFLINE_SNAPSHOT_HEADER)
+  if (!savedAt) return null
+  return { savedAt: new Date(savedAt), commit: response.headers.get(OFFLINE_COMMIT_HEADER) }
+}
@@ -1,20 +1,14 @@
 /**
  * Peer probing service for checking endpoint health and measuring latency.
+ * Endpoints are planned and measured by the shared peerProbes module.
  */
 
-import type { PeerProbe, PeerProtocol } from '../state/store'
+import { planPeerProbes, runPeerProbes } from '@clevertree/relay-client-shared'
+import type { PeerProbe } from '../state/store'
 
 const PROBE_TIMEOUT_MS = 5000
 const PROBE_SAMPLES = 3
 
-export interface ProbeResult {
-  protocol: PeerProtocol
-  port: number
-  ok: boolean
-  latencyMs?: number
-  error?: string
-}
-
 /**
  * Extract host:port from a full URL or hostname string
  * Handles: "https://host:port", "http://host", "host:port", "host"
@@ -45,45 +39,6 @@ function extractHostPort(input: string): string {
   }
 }
 
-/**
- * Parse a full URL or host:port string to extract protocol and port
- */
-function parseUrl(input: string): { protocol: string; hostname: string; port?: number; urlString: string } {
-  try {
-    const url = new URL(input)
-    return {
-      protocol: url.protocol.replace(':', ''),
-      hostname: url.hostname,
-      port: url.port ? parseInt(url.port, 10) : undefined,
-      urlString: url.toString(),
-    }
-  } catch {
-    // Not a valid URL, try as host:port
-    if (input.includes('://')) {
-      // Has protocol but invalid
-      throw new Error(`Invalid URL: ${input}`)
-    }
-    // Assume https with host:port format
-    const [host, portStr] = input.split(':')
-    return {
-      protocol: 'https',
-      hostname: host,
-      port: portStr ? parseInt(portStr, 10) : 443,
-      urlString: `https://${input}/`,
-    }
-  }
-}
-
-/**
- * Measures median latency from multiple samples
- */
-function median(values: number[]): number {
-  if (values.length === 0) return 0
-  const sorted = [...values].sort((a, b) => a - b)
-  const mid = Math.floor(sorted.length / 2)
-  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
-}
-
 /**
  * Creates a fetch with timeout
  */
@@ -108,99 +63,6 @@ async function fetchWithTimeout(
   }
 }
 
-/**
- * Probe HTTP/HTTPS endpoint using the actual URL provided
- * Works with any valid URL (http or https)
- */
-export async function probeHttps(host: string): Promise<ProbeResult> {
-  const latencies: number[] = []
-  let urlString = host
-  let protocol: PeerProtocol = 'https'
-  let port = 443
-
-  try {
-    const parsed = parseUrl(host)
-    urlString = parsed.urlString
-    protocol = (parsed.protocol === 'http' ? 'https' : 'https') as PeerProtocol
-    port = parsed.port || (parsed.protocol === 'http' ? 80 : 443)
-  } catch {
-    // If URL is invalid, use as-is
-    if (!host.startsWith('http')) {
-      urlString = `https://${host}/`
-    }
-  }
-
-  for (let i = 0; i < PROBE_SAMPLES; i++) {
-    try {
-      const start = performance.now()
-      // Use HEAD with no-cors mode to avoid CORS preflight issues
-      await fetchWithTimeout(urlString, {
-        method: 'HEAD',
-        timeout: PROBE_TIMEOUT_MS,
-        mode: 'no-cors',
-      })
-      const latency = performance.now() - start
-      latencies.push(latency)
-      // If we got here, connection succeeded
-      return {
-        protocol,
-        port,
-        ok: true,
-        latencyMs: median(latencies),
-      }
-    } catch {
-      // Continue to next sample
-    }
-  }
-
-  return {
-    protocol,
-    port,
-    ok: false,
-    latencyMs: latencies.length > 0 ? median(latencies) : undefined,
-    error: 'Probe failed',
-  }
-}
-
-/**
- * Probe HTTP endpoint (for local development)
- */
-export async function probeHttp(host: string): Promise<ProbeResult> {
-  const hostPort = extractHostPort(host)
-  const latencies: number[] = []
-
-  for (let i = 0; i < PROBE_SAMPLES; i++) {
-    try {
-      const start = performance.now()
-      const response = await fetchWithTimeout(`http://${hostPort}/`, {
-        method: 'OPTIONS',
-        timeout: PROBE_TIMEOUT_MS,
-      })
-      const latency = performance.now() - start
-      latencies.push(latency)
-
-      if (response.ok) {
-        return {
-          protocol: 'https',
-          port: 80,
-          ok: true,
-          latencyMs: median(latencies),
-        }
-      }
-    } catch {
-      // Continue to next sample
-    }
-  }
-
-  return {
-    protocol: 'https',
-    port: 80,
-    ok: false,
-    latencyMs: latencies.length > 0 ? median(latencies) : undefined,
-    error: 'HTTP probe failed',
-  }
-}
-
 /**
  * Fetch peer options from OPTIONS endpoint
  */
@@ -211,6 +73,10 @@ export async function fetchPeerOptions(
   repos?: string[]
   repos_with_branches?: Array<{ name: string; branches: Record<string, string> }>
   branchHeads?: Record<string, string>
+  /** Peers this peer advertises (see crawlPeers) */
+  peers?: unknown
+  /** Its git, ssh and IPFS endpoints (see planPeerProbes) */
+  endpoints?: unknown
   lastUpdateTs?: number
 }> {
   const hostPort = extractHostPort(host)
@@ -233,6 +99,8 @@ export async function fetchPeerOptions(
           repos: data.repos,
           repos_with_branches: data.repos, // The OPTIONS response includes repos with full structure
           branchHeads: data.branchHeads,
+          peers: data.peers,
+          endpoints: data.endpoints,
           lastUpdateTs: Date.now(),
         }
       }
@@ -246,7 +114,7 @@ export async function fetchPeerOptions(
 }
 
 /**
- * Full probe of a peer (HTTPS + HTTP + OPTIONS)
+ * Full probe of a peer (OPTIONS, then every endpoint it serves or advertises)
  */
 export async function fullProbePeer(
   host: string,
@@ -255,30 +123,26 @@ export async function fullProbePeer(
   branches?: string[]
   repos?: string[]
   reposWithBranches?: Array<{ name: string; branches: Record<string, string> }>
+  advertisedPeers?: unknown
   lastUpdateTs?: number
 }> {
-  const probes: PeerProbe[] = []
-  const isSecureContext = window.location.protocol === 'https:'
-
-  // Probe HTTPS
-  const httpsProbe = await probeHttps(host)
-  probes.push(httpsProbe)
-
-  // If HTTPS not OK and we're not in a secure context, probe HTTP
-  // (avoid mixed content warnings in HTTPS pages)
-  if (!httpsProbe.ok && !isSecureContext) {
-    const httpProbe = await probeHttp(host)
-    probes.push(httpProbe)
-  }
-
-  // Fetch options
+  // OPTIONS first: it lists the endpoints to probe
   const options = await fetchPeerOptions(host)
 
+  // Plain-HTTP endpoints are skipped on HTTPS pages to avoid mixed content warnings
+  const targets = planPeerProbes(host, {
+    endpoints: options.endpoints,
+    repos: options.repos,
+    secureContext: window.location.protocol === 'https:',
+  })
+  const probes: PeerProbe[] = await runPeerProbes(targets, { samples: PROBE_SAMPLES, timeoutMs: PROBE_TIMEOUT_MS })
+
   return {
     probes,
     branches: options.branches,
     repos: options.repos,
     reposWithBranches: options.repos_with_branches,
+    advertisedPeers: options.peers,
     lastUpdateTs: options.lastUpdateTs,
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * IndexedDB-backed persistent transpile cache for the web client.
+ */
+
+import { TranspileCache, type TranspileCacheStorage } from '@clevertree/relay-client-shared'
+
+const DB_NAME = 'relay_transpile_cache'
+const STORE_NAME = 'modules'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function runRequest<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  }))
+}
+
+const indexedDbStorage: TranspileCacheStorage = {
+  async getItem(key) {
+    const value = await runRequest<string | undefined>('readonly', (store) => store.get(key))
+    return value ?? null
+  },
+  async setItem(key, value) {
+    await runRequest('readwrite', (store) => store.put(value, key))
+  },
+  async removeItem(key) {
+    await runRequest('readwrite', (store) => store.delete(key))
+  },
+}
+
+const memoryFallback = new Map<string, string>()
+
+const memoryStorage: TranspileCacheStorage = {
+  async getItem(key) {
+    return memoryFallback.get(key) ?? null
+  },
+  async setItem(key, value) {
+    memoryFallback.set(key, value)
+  },
+  async removeItem(key) {
+    memoryFallback.delete(key)
+  },
+}
+
+// Private browsing modes may lack IndexedDB or refuse to open it; once open
+// fails, keep the cache working in memory for the session
+let useMemory = typeof indexedDB === 'undefined'
+
+async function activeStorage(): Promise<TranspileCacheStorage> {
+  if (useMemory) return memoryStorage
+  try {
+    await openDb()
+    return indexedDbStorage
+  } catch (err) {
+    console.warn('[TranspileCache] IndexedDB unavailable, caching in memory:', err)
+    useMemory = true
+    return memoryStorage
+  }
+}
+
+const storage: TranspileCacheStorage = {
+  async getItem(key) {
+    return (await activeStorage()).getItem(key)
+  },
+  async setItem(key, value) {
+    await (await activeStorage()).setItem(key, value)
+  },
+  async removeItem(key) {
+    await (await activeStorage()).removeItem(key)
+  },
+}
+
+export const transpileCache = new TranspileCache({
+  storage,
+  maxEntries: 1000,
+  maxBytes: 50 * 1024 * 1024,
+})
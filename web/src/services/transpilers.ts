@@ -0,0 +1,21 @@
+/**
+ * Transpiler chain for the web client: Babel standalone loads only when the WASM
+ * transpiler is unavailable or fails, and the server fallback follows the stored setting.
+ */
+
+import { TranspilerChain, babelBackend, setTranspilerChain, simpleJsxBackend, swcBackend, wasmBackend, type BabelLike } from '@clevertree/relay-client-shared'
+import { readStoredSetting } from '../state/transpilerSettings'
+
+export const transpilerChain = new TranspilerChain({
+  backends: [
+    wasmBackend(),
+    // Used once swcBridge.preloadSwc() has exposed globalThis.__swc
+    swcBackend(),
+    babelBackend(async () => (await import('@babel/standalone')).default as BabelLike),
+    simpleJsxBackend(),
+  ],
+  setting: readStoredSetting,
+})
+
+// transpileCode() callers get the same backends and setting
+setTranspilerChain(transpilerChain)
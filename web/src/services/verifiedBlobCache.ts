@@ -0,0 +1,7 @@
+/**
+ * Verified hook sources shared by every peer's HookRenderer, keyed by content hash.
+ */
+
+import { VerifiedBlobCache } from '@clevertree/relay-client-shared'
+
+export const verifiedBlobCache = new VerifiedBlobCache()
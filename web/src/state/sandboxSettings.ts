@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const STORAGE_KEY = 'relay_hook_sandbox'
+
+/**
+ * Whether hooks should run in a sandboxed iframe instead of the client's realm
+ */
+export function readHookSandboxSetting(): boolean {
+  if (typeof window === 'undefined') return false
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === '1'
+  } catch (e) {
+    console.warn('[sandboxSettings] Failed to read stored setting', e)
+    return false
+  }
+}
+
+function persistSetting(enabled: boolean) {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(STORAGE_KEY, enabled ? '1' : '0')
+    // storage events only reach other tabs; notify this one too
+    window.dispatchEvent(new Event('relay-hook-sandbox-change'))
+  } catch (e) {
+    console.warn('[sandboxSettings] Failed to persist setting', e)
+  }
+}
+
+export function useHookSandboxSetting() {
+  const [enabled, setEnabled] = useState<boolean>(() => readHookSandboxSetting())
+
+  const updateEnabled = useCallback((next: boolean) => {
+    setEnabled(next)
+    persistSetting(next)
+  }, [])
+
+  useEffect(() => {
+    const handleChange = () => {
+      setEnabled(readHookSandboxSetting())
+    }
+    window.addEventListener('storage', handleChange)
+    window.addEventListener('relay-hook-sandbox-change', handleChange)
+    return () => {
+      window.removeEventListener('storage', handleChange)
+      window.removeEventListener('relay-hook-sandbox-change', handleChange)
+    }
+  }, [])
+
+  return {
+    enabled,
+    setEnabled: updateEnabled,
+  }
+}
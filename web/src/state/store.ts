@@ -1,6 +1,7 @@
 import {create} from 'zustand'
+import {appendHealthSample, healthSampleOf, normalizePeerHost, parsePeerHealthHistory, pickBestPeer, retainPeerHealth, summarizePeerHealthByHost, type CapabilityDecision, type CapabilityGrants, type CommitPin, type DiscoveredPeer, type PeerDetails, type PeerHealthSample, type PeerListEntry, type PeerProbeProtocol} from '@clevertree/relay-client-shared'
 
-export type PeerProtocol = 'https' | 'git' | 'ssh' | 'ipfs-api' | 'ipfs-gateway' | 'ipfs-swarm'
+export type PeerProtocol = PeerProbeProtocol
 
 export interface PeerProbe {
     protocol: PeerProtocol
@@ -17,6 +18,10 @@ export interface PeerInfo {
     branches?: string[]
     repos?: string[]
     reposWithBranches?: Array<{ name: string; branches: Record<string, string> }>
+    /** The `peers` field of its OPTIONS response (see peerDiscovery.ts) */
+    advertisedPeers?: unknown
+    /** Set while the peer was found through another peer's list rather than added by the user */
+    discovered?: Omit<DiscoveredPeer, 'host'>
     isProbing?: boolean
 }
 
@@ -30,6 +35,10 @@ export interface TabInfo {
     currentBranch?: string
     reposList?: string[]
     isHome?: boolean
+    /** Set when the tab is pinned to a commit instead of following the branch head */
+    pin?: CommitPin
+    /** Move the tab to a better peer for its repo when its own degrades (see bestPeer.ts) */
+    followBestPeer?: boolean
 }
 
 export type ThemeName = 'default' | 'light' | 'dark'
@@ -42,6 +51,22 @@ export interface AppState {
     setPeerProbing: (host: string, isProbing: boolean) => void
     addPeer: (host: string) => void
     removePeer: (host: string) => void
+    /** Normalized hosts that discovery must skip */
+    blockedPeers: string[]
+    addDiscoveredPeers: (found: DiscoveredPeer[]) => void
+    /** Keep a discovered peer as if the user had added it */
+    promotePeer: (host: string) => void
+    blockPeer: (host: string) => void
+    unblockPeer: (normalizedHost: string) => void
+    /** Probe history by host (see peerHealth.ts) */
+    peerHealth: Record<string, PeerHealthSample[]>
+    /** Add a probe round to a peer's history */
+    recordPeerHealth: (host: string, probes: PeerProbe[]) => void
+    /** Labels, notes and settings by host (see peerList.ts) */
+    peerDetails: Record<string, PeerDetails>
+    setPeerDetails: (host: string, details: PeerDetails) => void
+    /** Add imported peers and take over their details; returns the hosts that were not listed yet */
+    importPeers: (entries: PeerListEntry[]) => string[]
 
     // Tabs state
     tabs: TabInfo[]
@@ -50,6 +75,8 @@ export interface AppState {
     closeTab: (tabId: string) => void // Won't close home tab
     setActiveTab: (tabId: string) => void
     updateTab: (tabId: string, updater: (t: TabInfo) => TabInfo) => void
+    /** Open a repo on the peer that serves it best; returns the tab ID, or null when no reachable peer has it */
+    openRepoOnBestPeer: (repo: string, branch?: string) => string | null
     homeTabId: string
 
     // Theme state
@@ -61,6 +88,12 @@ export interface AppState {
     setAutoRefresh: (enabled: boolean) => void
     lastRefreshTs: number
     setLastRefreshTs: (ts: number) => void
+
+    // Hook capability decisions, keyed by host/repo scope
+    capabilityGrants: Record<string, CapabilityGrants>
+    setCapabilityDecisions: (scope: string, decisions: Record<string, CapabilityDecision>) => void
+    revokeCapability: (scope: string, key: string) => void
+    clearCapabilityGrants: (scope: string) => void
 }
 
 let tabIdCounter = 0
@@ -73,7 +106,11 @@ function generateTabId(): string {
 export const STORAGE_KEY_TABS = 'relay_tabs'
 export const STORAGE_KEY_ACTIVE_TAB = 'relay_active_tab'
 export const STORAGE_KEY_PEERS = 'relay_peers'
+export const STORAGE_KEY_BLOCKED_PEERS = 'relay_blocked_peers'
+export const STORAGE_KEY_PEER_HEALTH = 'relay_peer_health'
+export const STORAGE_KEY_PEER_DETAILS = 'relay_peer_details'
 export const STORAGE_KEY_THEME = 'relay_theme'
+export const STORAGE_KEY_CAPABILITY_GRANTS = 'relay_capability_grants'
 
 // Load persisted state from localStorage
 function ensureCoreTabs(tabs: TabInfo[]): TabInfo[] {
@@ -137,13 +174,63 @@ function persistTabs(tabs: TabInfo[], activeTabId: string) {
 
 function persistPeers(peers: PeerInfo[]) {
     try {
-        const peerHosts = peers.map((p) => p.host)
+        // Discovered peers are found again on the next crawl until the user promotes them
+        const peerHosts = peers.filter((p) => !p.discovered).map((p) => p.host)
         localStorage.setItem(STORAGE_KEY_PEERS, JSON.stringify(peerHosts))
     } catch (e) {
         console.error('Failed to persist peers:', e)
     }
 }
 
+function loadPersistedBlockedPeers(): string[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_BLOCKED_PEERS)
+        if (stored) {
+            const parsed = JSON.parse(stored)
+            if (Array.isArray(parsed)) return parsed.filter((h): h is string => typeof h === 'string')
+        }
+    } catch (e) {
+        console.error('Failed to load blocked peers:', e)
+    }
+    return []
+}
+
+function persistBlockedPeers(blocked: string[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY_BLOCKED_PEERS, JSON.stringify(blocked))
+    } catch (e) {
+        console.error('Failed to persist blocked peers:', e)
+    }
+}
+
+function loadPersistedPeerHealth(): Record<string, PeerHealthSample[]> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_PEER_HEALTH)
+        if (stored) {
+            return parsePeerHealthHistory(JSON.parse(stored))
+        }
+    } catch (e) {
+        console.error('Failed to load peer health history:', e)
+    }
+    return {}
+}
+
+function persistPeerHealth(peerHealth: Record<string, PeerHealthSample[]>) {
+    try {
+        localStorage.setItem(STORAGE_KEY_PEER_HEALTH, JSON.stringify(peerHealth))
+    } catch (e) {
+        console.error('Failed to persist peer health history:', e)
+    }
+}
+
+function withoutPeerHealth(peerHealth: Record<string, PeerHealthSample[]>, host: string) {
+    if (!(host in peerHealth)) return peerHealth
+    const rest = {...peerHealth}
+    delete rest[host]
+    persistPeerHealth(rest)
+    return rest
+}
+
 function detectOsThemePreference(): ThemeName {
     try {
         if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
@@ -155,6 +242,35 @@ function detectOsThemePreference(): ThemeName {
     return 'default'
 }
 
+function loadPersistedPeerDetails(): Record<string, PeerDetails> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_PEER_DETAILS)
+        if (stored) {
+            const parsed = JSON.parse(stored)
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, PeerDetails>
+        }
+    } catch (e) {
+        console.error('Failed to load peer details:', e)
+    }
+    return {}
+}
+
+function persistPeerDetails(peerDetails: Record<string, PeerDetails>) {
+    try {
+        localStorage.setItem(STORAGE_KEY_PEER_DETAILS, JSON.stringify(peerDetails))
+    } catch (e) {
+        console.error('Failed to persist peer details:', e)
+    }
+}
+
+function withoutPeerDetails(peerDetails: Record<string, PeerDetails>, host: string) {
+    if (!(host in peerDetails)) return peerDetails
+    const rest = {...peerDetails}
+    delete rest[host]
+    persistPeerDetails(rest)
+    return rest
+}
+
 function loadPersistedTheme(): ThemeName {
     try {
         const stored = localStorage.getItem(STORAGE_KEY_THEME)
@@ -176,6 +292,27 @@ function persistTheme(theme: ThemeName) {
     }
 }
 
+function loadPersistedCapabilityGrants(): Record<string, CapabilityGrants> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_CAPABILITY_GRANTS)
+        if (stored) {
+            const parsed = JSON.parse(stored)
+            if (parsed && typeof parsed === 'object') return parsed as Record<string, CapabilityGrants>
+        }
+    } catch (e) {
+        console.error('Failed to load persisted capability grants:', e)
+    }
+    return {}
+}
+
+function persistCapabilityGrants(grants: Record<string, CapabilityGrants>) {
+    try {
+        localStorage.setItem(STORAGE_KEY_CAPABILITY_GRANTS, JSON.stringify(grants))
+    } catch (e) {
+        console.error('Failed to persist capability grants:', e)
+    }
+}
+
 export const useAppState = create<AppState>((set, get) => ({
     // Peers state
     peers: [],
@@ -206,8 +343,14 @@ export const useAppState = create<AppState>((set, get) => ({
             }
             const newPeers = [...s.peers, {host: cleanHost, probes: []}]
             persistPeers(newPeers)
+            // Adding a blocked peer by hand unblocks it
+            const normalized = normalizePeerHost(cleanHost)
+            if (!s.blockedPeers.includes(normalized)) return {peers: newPeers}
+            const blockedPeers = s.blockedPeers.filter((h) => h !== normalized)
+            persistBlockedPeers(blockedPeers)
             return {
                 peers: newPeers,
+                blockedPeers,
             }
         }),
     removePeer: (host) =>
@@ -216,8 +359,91 @@ export const useAppState = create<AppState>((set, get) => ({
             persistPeers(newPeers)
             return {
                 peers: newPeers,
+                peerHealth: withoutPeerHealth(s.peerHealth, host),
+                peerDetails: withoutPeerDetails(s.peerDetails, host),
             }
         }),
+    blockedPeers: loadPersistedBlockedPeers(),
+    addDiscoveredPeers: (found) =>
+        set((s) => {
+            const listed = new Set(s.peers.map((p) => normalizePeerHost(p.host)))
+            const fresh = found.filter((f) => !listed.has(normalizePeerHost(f.host)) && !s.blockedPeers.includes(normalizePeerHost(f.host)))
+            if (fresh.length === 0) return s
+            return {
+                peers: [...s.peers, ...fresh.map(({host, ...discovered}) => ({host, probes: [], discovered}))],
+            }
+        }),
+    promotePeer: (host) =>
+        set((s) => {
+            const newPeers = s.peers.map((p) => (p.host === host ? {...p, discovered: undefined} : p))
+            persistPeers(newPeers)
+            return {
+                peers: newPeers,
+            }
+        }),
+    blockPeer: (host) =>
+        set((s) => {
+            const newPeers = s.peers.filter((p) => p.host !== host)
+            persistPeers(newPeers)
+            const normalized = normalizePeerHost(host)
+            const blockedPeers = !normalized || s.blockedPeers.includes(normalized) ? s.blockedPeers : [...s.blockedPeers, normalized]
+            persistBlockedPeers(blockedPeers)
+            return {
+                peers: newPeers,
+                blockedPeers,
+                peerHealth: withoutPeerHealth(s.peerHealth, host),
+                peerDetails: withoutPeerDetails(s.peerDetails, host),
+            }
+        }),
+    unblockPeer: (normalizedHost) =>
+        set((s) => {
+            const blockedPeers = s.blockedPeers.filter((h) => h !== normalizedHost)
+            persistBlockedPeers(blockedPeers)
+            return {blockedPeers}
+        }),
+    peerHealth: loadPersistedPeerHealth(),
+    recordPeerHealth: (host, probes) =>
+        set((s) => {
+            // Peers that dropped out of the list (e.g. discovered ones) take their history with them
+            const appended = {...s.peerHealth, [host]: appendHealthSample(s.peerHealth[host], healthSampleOf(probes))}
+            const peerHealth = retainPeerHealth(appended, s.peers.map((p) => p.host))
+            persistPeerHealth(peerHealth)
+            return {peerHealth}
+        }),
+    peerDetails: loadPersistedPeerDetails(),
+    setPeerDetails: (host, details) =>
+        set((s) => {
+            const peerDetails = {...s.peerDetails, [host]: details}
+            persistPeerDetails(peerDetails)
+            return {peerDetails}
+        }),
+    importPeers: (entries) => {
+        const s = get()
+        const listed = new Map(s.peers.map((p) => [normalizePeerHost(p.host), p.host]))
+        const added: string[] = []
+        const peerDetails = {...s.peerDetails}
+        let peers = s.peers
+        for (const {host, ...details} of entries) {
+            const normalized = normalizePeerHost(host)
+            const existing = listed.get(normalized)
+            if (existing) {
+                // Importing a discovered peer keeps it, as promoting it would
+                peers = peers.map((p) => (p.host === existing ? {...p, discovered: undefined} : p))
+            } else {
+                peers = [...peers, {host, probes: []}]
+                listed.set(normalized, host)
+                added.push(host)
+            }
+            peerDetails[existing || host] = {...peerDetails[existing || host], ...details}
+        }
+        // Importing is adding by hand, so it unblocks the imported peers
+        const blockedPeers = s.blockedPeers.filter((h) => !entries.some((e) => normalizePeerHost(e.host) === h))
+        persistPeers(peers)
+        persistPeerDetails(peerDetails)
+        if (blockedPeers.length !== s.blockedPeers.length) persistBlockedPeers(blockedPeers)
+        set({peers, peerDetails, blockedPeers})
+        return added
+    },
 
     // Tabs state
     tabs: loadPersistedTabs(),
@@ -269,6 +495,38 @@ export const useAppState = create<AppState>((set, get) => ({
                 tabs: newTabs,
             }
         }),
+    openRepoOnBestPeer: (repo, branch = 'main') => {
+        const {peers, peerHealth, tabs} = get()
+        const best = pickBestPeer(peers, repo, {branch, health: summarizePeerHealthByHost(peerHealth)})
+        if (!best) return null
+        // Only a tab already showing this repo and branch on that peer is reused; other tabs are left alone
+        const existingTab = tabs.find((t) => t.host === best.host && t.repo === repo && (t.currentBranch || 'main') === branch)
+        if (existingTab) {
+            get().setActiveTab(existingTab.id)
+            return existingTab.id
+        }
+
+        const id = generateTabId()
+        // Opened for the repo rather than the peer, so it follows the best peer from here on
+        const newTab: TabInfo = {
+            id,
+            host: best.host,
+            path: '/',
+            title: best.host,
+            repo,
+            currentBranch: branch,
+            followBestPeer: true,
+        }
+        set((s) => {
+            const newTabs = [...s.tabs, newTab]
+            persistTabs(newTabs, id)
+            return {
+                tabs: newTabs,
+                activeTabId: id,
+            }
+        })
+        return id
+    },
 
     // Theme state
     theme: loadPersistedTheme(),
@@ -290,4 +548,36 @@ export const useAppState = create<AppState>((set, get) => ({
     lastRefreshTs: 0,
     setLastRefreshTs: (ts) =>
         set({lastRefreshTs: ts}),
+
+    // Hook capability decisions
+    capabilityGrants: loadPersistedCapabilityGrants(),
+    setCapabilityDecisions: (scope, decisions) =>
+        set((s) => {
+            const capabilityGrants = {...s.capabilityGrants, [scope]: {...s.capabilityGrants[scope], ...decisions}}
+            persistCapabilityGrants(capabilityGrants)
+            return {capabilityGrants}
+        }),
+    revokeCapability: (scope, key) =>
+        set((s) => {
+            const scopeGrants = {...s.capabilityGrants[scope]}
+            delete scopeGrants[key]
+            const capabilityGrants = {...s.capabilityGrants, [scope]: scopeGrants}
+            if (Object.keys(scopeGrants).length === 0) delete capabilityGrants[scope]
+            persistCapabilityGrants(capabilityGrants)
+            return {capabilityGrants}
+        }),
+    clearCapabilityGrants: (scope) =>
+        set((s) => {
+            const capabilityGrants = {...s.capabilityGrants}
+            delete capabilityGrants[scope]
+            persistCapabilityGrants(capabilityGrants)
+            return {capabilityGrants}
+        }),
 }))
+
+/**
+ * Peer hosts as the user listed them, so embedded peers keep their scheme (see embeddedPeerOrigin)
+ */
+export function listedPeerHosts(): string[] {
+    return useAppState.getState().peers.map((p) => p.host)
+}
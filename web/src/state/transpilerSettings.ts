@@ -1,11 +1,13 @@
 import { useCallback, useEffect, useState } from 'react'
-
-type TranspilerSetting = 'client-only' | 'allow-server-fallback' | 'server-only'
+import type { TranspilerSetting } from '@clevertree/relay-client-shared'
 
 const STORAGE_KEY = 'relay_transpiler_setting'
 const DEFAULT_SETTING: TranspilerSetting = 'client-only'
 
-function readStoredSetting(): TranspilerSetting {
+/**
+ * The stored setting; the web transpiler chain reads it before every transpile
+ */
+export function readStoredSetting(): TranspilerSetting {
   if (typeof window === 'undefined') {
     return DEFAULT_SETTING
   }